@@ -23,11 +23,13 @@ import ControlTray from './components/ControlTray';
 import ErrorScreen from './components/ErrorScreen';
 import Sidebar from './components/Sidebar';
 import AgriculturalForm from './components/AgriculturalForm';
+import CropCatalogPanel from './components/CropCatalogPanel';
 import { LiveAPIProvider } from './contexts/LiveAPIContext';
 // FIX: Correctly import APIProvider as a named export.
 import { APIProvider, useMapsLibrary } from '@vis.gl/react-google-maps';
 import { Map3D, Map3DCameraProps} from './components/map-3d';
 import { useMapStore } from './lib/state';
+import { pointInPolygon } from './lib/geometry';
 import { MapController } from './lib/map-controller';
 
 
@@ -86,7 +88,31 @@ function AppComponent() {
   const [geocoder, setGeocoder] = useState<google.maps.Geocoder | null>(null);
   const [viewProps, setViewProps] = useState(INITIAL_VIEW_PROPS);
   // Subscribe to marker and camera state from the global Zustand store.
-  const { markers, cameraTarget, setCameraTarget, preventAutoFrame } = useMapStore();
+  const {
+    markers,
+    cameraTarget,
+    setCameraTarget,
+    preventAutoFrame,
+    boundary,
+    isDrawingBoundary,
+    selectedVertex,
+    selectVertex,
+    placeVertex,
+    isPickingLocation,
+    isDraggingLocation,
+    setIsDraggingLocation,
+    pickedLocation,
+    setPickedLocation,
+    frostRisk,
+    terrainOverlay,
+    surveyRegion,
+    isDrawingRegion,
+    regionAnchor,
+    placeRegionCorner,
+    surveyOverlay,
+    selectedSurveyCell,
+    selectSurveyCell,
+  } = useMapStore();
   const mapController = useRef<MapController | null>(null);
 
 
@@ -206,7 +232,7 @@ function AppComponent() {
 
 
     const controller = mapController.current;
-    controller.clearMap();
+    controller.clearMarkers();
 
 
     if (markers.length > 0) {
@@ -225,6 +251,151 @@ function AppComponent() {
 
 
 
+  // Effect: Render the field boundary, with editable vertices while drawing.
+  useEffect(() => {
+    if (!mapController.current) return;
+    mapController.current.setBoundary(
+      boundary,
+      isDrawingBoundary
+        ? {
+            selectedVertex,
+            onVertexClick: index =>
+              selectVertex(index === selectedVertex ? null : index),
+          }
+        : undefined,
+    );
+  }, [map, maps3dLib, elevationLib, boundary, isDrawingBoundary, selectedVertex, selectVertex]);
+
+
+  // Effect: While drawing a boundary, map clicks add a vertex or move the
+  // selected one. Clicks on the vertex markers themselves are ignored here.
+  useEffect(() => {
+    if (!map || !isDrawingBoundary) return;
+    const handleClick = (event: Event) => {
+      const { position } = event as google.maps.maps3d.LocationClickEvent;
+      if (event.target !== map || !position) return;
+      placeVertex({ lat: position.lat, lng: position.lng });
+    };
+    map.addEventListener('gmp-click', handleClick);
+    return () => map.removeEventListener('gmp-click', handleClick);
+  }, [map, isDrawingBoundary, placeVertex]);
+
+
+
+  // Effect: Render the farm location picked on the map.
+  useEffect(() => {
+    mapController.current?.setPickedLocation(pickedLocation, isDraggingLocation);
+  }, [map, maps3dLib, elevationLib, pickedLocation, isDraggingLocation]);
+
+
+  // Effect: Render the frost window at the farm.
+  useEffect(() => {
+    mapController.current?.setFrostRisk(frostRisk);
+  }, [map, maps3dLib, elevationLib, frostRisk]);
+
+
+  // Effect: Render the terrain risk cells of the field.
+  useEffect(() => {
+    mapController.current?.setTerrainOverlay(terrainOverlay);
+  }, [map, maps3dLib, elevationLib, terrainOverlay]);
+
+
+  // Effect: Render the survey region, with its first corner while drawing.
+  useEffect(() => {
+    mapController.current?.setSurveyRegion(surveyRegion, regionAnchor);
+  }, [map, maps3dLib, elevationLib, surveyRegion, regionAnchor]);
+
+
+  // Effect: Render the suitability cells of the survey.
+  useEffect(() => {
+    mapController.current?.setSurveyOverlay(surveyOverlay);
+  }, [map, maps3dLib, elevationLib, surveyOverlay]);
+
+
+  // Effect: Outline the survey cell selected for its breakdown.
+  useEffect(() => {
+    mapController.current?.setSurveySelection(
+      selectedSurveyCell !== null ? surveyOverlay[selectedSurveyCell]?.polygon ?? null : null,
+    );
+  }, [map, maps3dLib, elevationLib, surveyOverlay, selectedSurveyCell]);
+
+
+  // Effect: While drawing the survey region, map clicks place its corners.
+  // Otherwise, while a survey is shown and no other mode listens to clicks,
+  // a click selects the cell under it.
+  useEffect(() => {
+    const listening = isDrawingRegion || surveyOverlay.length > 0;
+    if (!map || !listening || isDrawingBoundary || isPickingLocation || isDraggingLocation) return;
+    const handleClick = (event: Event) => {
+      const { position } = event as google.maps.maps3d.LocationClickEvent;
+      if (!position) return;
+      const point = { lat: position.lat, lng: position.lng };
+      if (isDrawingRegion) {
+        placeRegionCorner(point);
+        return;
+      }
+      const index = surveyOverlay.findIndex(cell => pointInPolygon(point, cell.polygon));
+      selectSurveyCell(index === -1 ? null : index);
+    };
+    map.addEventListener('gmp-click', handleClick);
+    return () => map.removeEventListener('gmp-click', handleClick);
+  }, [
+    map,
+    isDrawingRegion,
+    isDrawingBoundary,
+    isPickingLocation,
+    isDraggingLocation,
+    surveyOverlay,
+    placeRegionCorner,
+    selectSurveyCell,
+  ]);
+
+
+  // Effect: While picking a location, each map click moves the farm marker.
+  useEffect(() => {
+    if (!map || !isPickingLocation) return;
+    const handleClick = (event: Event) => {
+      const { position } = event as google.maps.maps3d.LocationClickEvent;
+      if (!position) return;
+      setPickedLocation({
+        position: { lat: position.lat, lng: position.lng },
+        label: 'Farm location',
+      });
+    };
+    map.addEventListener('gmp-click', handleClick);
+    return () => map.removeEventListener('gmp-click', handleClick);
+  }, [map, isPickingLocation, setPickedLocation]);
+
+
+  // Effect: While dragging the farm marker, the next map click drops it and
+  // Escape leaves it where it was.
+  useEffect(() => {
+    if (!map || !isDraggingLocation) return;
+    const handleClick = (event: Event) => {
+      const { position } = event as google.maps.maps3d.LocationClickEvent;
+      // Releasing the press on the marker itself is not a drop.
+      if (event.target !== map || !position) return;
+      setPickedLocation({
+        position: { lat: position.lat, lng: position.lng },
+        label: 'Farm location',
+      });
+      setIsDraggingLocation(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsDraggingLocation(false);
+    };
+    map.style.cursor = 'grabbing';
+    map.addEventListener('gmp-click', handleClick);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      map.style.cursor = '';
+      map.removeEventListener('gmp-click', handleClick);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [map, isDraggingLocation, setPickedLocation, setIsDraggingLocation]);
+
+
+
   // Effect: Reactively handle direct camera movement requests.
   // This effect listens for changes to `cameraTarget`. Tools can set this state
   // to request a direct camera flight to a specific location or view. Once the
@@ -260,7 +431,8 @@ function AppComponent() {
         <Sidebar />
         <div className="app-layout">
           <div className="form-panel">
-            <AgriculturalForm />
+            <AgriculturalForm geocoder={geocoder} elevationLib={elevationLib} />
+            <CropCatalogPanel />
             <div className="control-panel" ref={consolePanelRef}>
               <ControlTray trayRef={controlTrayRef} />
             </div>
@@ -18,19 +18,114 @@
  * limitations under the License.
  */
 
-import React, { useState, FormEvent } from 'react';
-import { AgriculturalParameters, fetchAgriculturalRecommendations } from '@/lib/maps-grounding';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
+import React, { useCallback, useEffect, useMemo, useState, FormEvent } from 'react';
+import {
+  AgriculturalParameters,
+  AgriculturalRecommendationResult,
+  WeatherInputs,
+  fetchAgriculturalRecommendations,
+} from '@/lib/maps-grounding';
+import {
+  CropSuitability,
+  crossCheckReport,
+  rankCrops,
+} from '@/lib/agronomy/suitability';
+import { CropHistoryEntry } from '@/lib/agronomy/rotation';
+import {
+  FieldProfile,
+  LatLng,
+  Scenario,
+  fieldToParameters,
+  newProfileId,
+} from '@/lib/farm-profiles';
+import { polygonAreaHa, polygonCentroid } from '@/lib/geometry';
+import {
+  KOPPEN_CODES,
+  KOPPEN_DESCRIPTIONS,
+  KoppenCode,
+  koppenToClimateZone,
+  lookupKoppen,
+} from '@/lib/agronomy/koppen';
+import { monthsToSeason, seasonMonths } from '@/lib/agronomy/planting-window';
+import { findCatalogCrop } from '@/lib/agronomy/crop-catalog';
+import {
+  SoilTexture,
+  TEXTURE_TO_SOIL_TYPE,
+  classifyTexture,
+  validateTexture,
+} from '@/lib/agronomy/soil-texture';
+import { NutrientBudget, computeNutrientBudget } from '@/lib/agronomy/nutrient-budget';
+import { IrrigationPlan, computeIrrigationPlan } from '@/lib/agronomy/evapotranspiration';
+import {
+  PhenologyPrediction,
+  checkReportTimeline,
+  predictReportCrop,
+} from '@/lib/agronomy/phenology';
+import { DailyTemperature } from '@/lib/agronomy/temperature-series';
+import {
+  assessReportFrostRisk,
+  describeFrostClimate,
+  estimateFrostClimate,
+} from '@/lib/agronomy/frost';
+import { CropEconomics, computeCropEconomics } from '@/lib/agronomy/economics';
+import { assessReportPestRisk } from '@/lib/agronomy/pest-risk';
+import {
+  selectCropCatalog,
+  useCropCatalogStore,
+  useEconomicsStore,
+  useFarmStore,
+  useMapStore,
+} from '@/lib/state';
+import AllocationPanel from './AllocationPanel';
+import BatchPanel from './BatchPanel';
+import ClimateProjectionPanel from './ClimateProjectionPanel';
+import CoverCropPanel from './CoverCropPanel';
+import CropReportView from './CropReportView';
+import EconomicsPanel from './EconomicsPanel';
+import ErosionPanel from './ErosionPanel';
+import FarmProfilesPanel from './FarmProfilesPanel';
+import FieldBoundaryEditor from './FieldBoundaryEditor';
+import IrrigationPanel from './IrrigationPanel';
+import LocationPicker from './LocationPicker';
+import NutrientBudgetPanel from './NutrientBudgetPanel';
+import PhenologyPanel from './PhenologyPanel';
+import PlantingWindowPicker from './PlantingWindowPicker';
+import RegionSurveyPanel from './RegionSurveyPanel';
+import RotationPlanner from './RotationPlanner';
+import ScenarioPanel from './ScenarioPanel';
+import SensitivityPanel from './SensitivityPanel';
+import SoilTestInputs from './SoilTestInputs';
+import SoilTextureInputs from './SoilTextureInputs';
+import SuitabilityPanel from './SuitabilityPanel';
+import TemperatureSeriesInput from './TemperatureSeriesInput';
+import TerrainPanel from './TerrainPanel';
+
+const WEATHER_FIELDS: { key: keyof WeatherInputs; label: string; placeholder: string }[] = [
+  { key: 'tMinC', label: 'Mean Min Temperature (°C)', placeholder: 'e.g., 14' },
+  { key: 'tMaxC', label: 'Mean Max Temperature (°C)', placeholder: 'e.g., 28' },
+  { key: 'relativeHumidityPct', label: 'Relative Humidity (%)', placeholder: 'e.g., 60' },
+  { key: 'windSpeedMs', label: 'Wind Speed at 2 m (m/s)', placeholder: 'e.g., 2' },
+  { key: 'solarRadiationMj', label: 'Solar Radiation (MJ/m²/day)', placeholder: 'e.g., 20' },
+  { key: 'elevationM', label: 'Elevation (m)', placeholder: 'e.g., 300' },
+];
 
 interface AgriculturalFormProps {
   onSubmit?: (params: AgriculturalParameters) => void;
+  // Used to show the locality of points picked on the map.
+  geocoder?: google.maps.Geocoder | null;
+  // Used to sample the terrain of a drawn field.
+  elevationLib?: google.maps.ElevationLibrary | null;
 }
 
-export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
+export default function AgriculturalForm({
+  onSubmit,
+  geocoder = null,
+  elevationLib = null,
+}: AgriculturalFormProps) {
   const [formData, setFormData] = useState<AgriculturalParameters>({
-    latitude: 0,
-    longitude: 0,
+    // NaN until entered, so that 0 remains a valid coordinate.
+    latitude: NaN,
+    longitude: NaN,
     soilType: 'loamy',
     climate: 'temperate',
     season: 'spring',
@@ -41,10 +136,182 @@ export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
     previousCrop: undefined,
   });
 
+  const [cropHistory, setCropHistory] = useState<CropHistoryEntry[]>([]);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  // Imported daily temperatures; growth stages use them instead of the average.
+  const [temperatureSeries, setTemperatureSeries] = useState<DailyTemperature[] | null>(null);
+  // Set once the user picks a climate by hand, so inference stops replacing it.
+  const [climateOverridden, setClimateOverridden] = useState(false);
   const [showOptional, setShowOptional] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [response, setResponse] = useState<string | null>(null);
+  const [response, setResponse] = useState<AgriculturalRecommendationResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Offline ranking for the last submitted parameters. Shown next to the AI
+  // answer as a cross-check, and on its own when the API call fails.
+  const [offlineRanking, setOfflineRanking] = useState<CropSuitability[] | null>(null);
+  const catalog = useCropCatalogStore(selectCropCatalog);
+  const boundary = useMapStore(state => state.boundary);
+  const selectedFieldId = useFarmStore(state => state.selectedFieldId);
+  const prices = useEconomicsStore(state => state.prices);
+
+  const inferredKoppen = useMemo(
+    () =>
+      Number.isFinite(formData.latitude) && Number.isFinite(formData.longitude)
+        ? lookupKoppen(formData.latitude, formData.longitude)
+        : null,
+    [formData.latitude, formData.longitude],
+  );
+
+  // Pre-fill the climate from the coordinates unless the user overrode it.
+  useEffect(() => {
+    if (!inferredKoppen || climateOverridden) return;
+    setFormData(prev => ({
+      ...prev,
+      climate: inferredKoppen.climate,
+      koppenCode: inferredKoppen.code,
+    }));
+  }, [inferredKoppen, climateOverridden]);
+
+  // Until months are chosen, plant in the local season; chosen months then
+  // decide the season for the current hemisphere.
+  const requestParams = useMemo<AgriculturalParameters>(() => {
+    const latitude = Number.isFinite(formData.latitude) ? formData.latitude : 0;
+    const plantingMonths =
+      formData.plantingMonths ?? seasonMonths(formData.season, latitude);
+    return {
+      ...formData,
+      plantingMonths,
+      season: monthsToSeason(plantingMonths, latitude),
+      // Only a texture that could be classified is sent.
+      soilTexture: formData.textureClass ? formData.soilTexture : undefined,
+    };
+  }, [formData]);
+
+  const disagreements = useMemo(
+    () =>
+      response?.report && offlineRanking
+        ? [
+            ...crossCheckReport(response.report, offlineRanking, catalog),
+            ...checkReportTimeline(
+              response.report,
+              requestParams,
+              catalog,
+              temperatureSeries ?? undefined,
+            ),
+          ]
+        : [],
+    [response, offlineRanking, requestParams, catalog, temperatureSeries],
+  );
+
+  // Catalog crops for the nutrient budget: the AI's picks first, then the
+  // offline ranking.
+  const budgetCrops = useMemo(() => {
+    const reportCrops = (response?.report?.crops ?? [])
+      .map(recommended => findCatalogCrop(recommended.crop, catalog))
+      .filter(crop => crop !== undefined);
+    const ranked = (offlineRanking ?? []).map(result => result.crop);
+    return [...new Set([...reportCrops, ...ranked])];
+  }, [response, offlineRanking, catalog]);
+
+  // Budgets at the yield the AI expects, shown next to its fertilizer rates.
+  const reportBudgets = useMemo(() => {
+    const budgets: Record<string, NutrientBudget> = {};
+    for (const recommended of response?.report?.crops ?? []) {
+      const crop = findCatalogCrop(recommended.crop, catalog);
+      if (!crop) continue;
+      const { min, max, unit } = recommended.expectedYield;
+      const targetYield = unit === crop.yieldRange.unit ? (min + max) / 2 : undefined;
+      budgets[recommended.crop] = computeNutrientBudget(crop, requestParams, targetYield, catalog);
+    }
+    return budgets;
+  }, [response, requestParams, catalog]);
+
+  // Seasonal irrigation for the AI's crops; needs a temperature to work from.
+  const reportIrrigation = useMemo(() => {
+    const plans: Record<string, IrrigationPlan> = {};
+    if (requestParams.temperature === undefined && !requestParams.weather) return plans;
+    for (const recommended of response?.report?.crops ?? []) {
+      const crop = findCatalogCrop(recommended.crop, catalog);
+      if (!crop) continue;
+      try {
+        plans[recommended.crop] = computeIrrigationPlan(crop, requestParams);
+      } catch {
+        // Incomplete weather inputs; the irrigation panel explains what is missing.
+      }
+    }
+    return plans;
+  }, [response, requestParams, catalog]);
+
+  // Gross margins at the yield the AI expects, when it is in t/ha.
+  const reportEconomics = useMemo(() => {
+    const economics: Record<string, CropEconomics> = {};
+    for (const recommended of response?.report?.crops ?? []) {
+      const crop = findCatalogCrop(recommended.crop, catalog);
+      if (!crop) continue;
+      const { min, max, unit } = recommended.expectedYield;
+      const yieldPerHa = unit === crop.yieldRange.unit ? (min + max) / 2 : undefined;
+      economics[recommended.crop] = computeCropEconomics(crop, requestParams, prices, yieldPerHa, catalog);
+    }
+    return economics;
+  }, [response, requestParams, prices, catalog]);
+
+  // Growth stages of the AI's crops, planted when the AI says.
+  const reportPhenology = useMemo(() => {
+    const predictions: Record<string, PhenologyPrediction> = {};
+    for (const recommended of response?.report?.crops ?? []) {
+      const prediction = predictReportCrop(
+        recommended,
+        requestParams,
+        catalog,
+        temperatureSeries ?? undefined,
+      );
+      if (prediction) predictions[recommended.crop] = prediction;
+    }
+    return predictions;
+  }, [response, requestParams, catalog, temperatureSeries]);
+
+  // Frost dates at the farm, from the imported series or the climatology.
+  const frost = useMemo(() => {
+    if (!offlineRanking || !Number.isFinite(requestParams.latitude)) return undefined;
+    const climate = estimateFrostClimate(requestParams, temperatureSeries ?? undefined);
+    const risks = response?.report
+      ? assessReportFrostRisk(response.report, climate, catalog)
+      : [];
+    return { climate, risks };
+  }, [offlineRanking, requestParams, temperatureSeries, response, catalog]);
+
+  // Pest and disease pressure on the AI's crops, with previous-crop carry-over.
+  const reportPestRisks = useMemo(
+    () => (response?.report ? assessReportPestRisk(response.report, requestParams, catalog) : []),
+    [response, requestParams, catalog],
+  );
+
+  // Show the frost window at the farm on the map.
+  useEffect(() => {
+    const { setFrostRisk } = useMapStore.getState();
+    if (!frost) {
+      setFrostRisk(null);
+      return;
+    }
+    const { climate, risks } = frost;
+    const safe = climate.dates.find(d => d.confidence === 90);
+    const atRisk = risks.filter(r => r.level !== 'low').map(r => r.crop);
+    setFrostRisk({
+      position: { lat: requestParams.latitude, lng: requestParams.longitude },
+      label: safe
+        ? `❄️ Frost-free ${safe.lastSpringFrost}–${safe.firstAutumnFrost} (90%)${atRisk.length ? ` · at risk: ${atRisk.join(', ')}` : ''}`
+        : '❄️ Frost-free',
+      title: [describeFrostClimate(climate), ...risks.map(r => r.message)].join('\n'),
+    });
+  }, [frost, requestParams.latitude, requestParams.longitude]);
+
+  const handleWeatherChange = (key: keyof WeatherInputs, value: number | undefined) => {
+    setFormData(prev => {
+      const weather = { ...prev.weather, [key]: value };
+      const hasValues = Object.values(weather).some(v => v !== undefined);
+      return { ...prev, weather: hasValues ? weather : undefined };
+    });
+  };
 
   const handleInputChange = (field: keyof AgriculturalParameters, value: any) => {
     setFormData(prev => ({
@@ -53,11 +320,106 @@ export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
     }));
   };
 
+  // A drawn boundary determines the farm size and location. Any terrain
+  // analysis was for the previous boundary.
+  useEffect(() => {
+    useMapStore.getState().setTerrainOverlay([]);
+    if (boundary.length < 3) {
+      setFormData(prev => ({ ...prev, fieldBoundary: undefined, terrain: undefined }));
+      return;
+    }
+    const centroid = polygonCentroid(boundary)!;
+    setFormData(prev => ({
+      ...prev,
+      fieldBoundary: boundary,
+      terrain: undefined,
+      farmSize: Math.round(polygonAreaHa(boundary) * 100) / 100,
+      latitude: Number(centroid.lat.toFixed(6)),
+      longitude: Number(centroid.lng.toFixed(6)),
+    }));
+  }, [boundary]);
+
+  const handleTextureChange = (soilTexture: SoilTexture | undefined) => {
+    const valid =
+      soilTexture &&
+      Object.values(soilTexture).every(Number.isFinite) &&
+      validateTexture(soilTexture) === null;
+    const textureClass = valid ? classifyTexture(soilTexture) : undefined;
+    setFormData(prev => ({
+      ...prev,
+      soilTexture,
+      textureClass,
+      soilType: textureClass ? TEXTURE_TO_SOIL_TYPE[textureClass] : prev.soilType,
+    }));
+  };
+
+  const handleSoilTypeChange = (soilType: AgriculturalParameters['soilType']) => {
+    setFormData(prev => {
+      // Choosing a different soil type by hand discards the lab texture.
+      const keepTexture =
+        prev.textureClass && TEXTURE_TO_SOIL_TYPE[prev.textureClass] === soilType;
+      return {
+        ...prev,
+        soilType,
+        soilTexture: keepTexture ? prev.soilTexture : undefined,
+        textureClass: keepTexture ? prev.textureClass : undefined,
+      };
+    });
+  };
+
+  const handleClimateChange = (climate: AgriculturalParameters['climate']) => {
+    setClimateOverridden(true);
+    setFormData(prev => ({
+      ...prev,
+      climate,
+      // Drop a Köppen class that no longer matches the chosen zone.
+      koppenCode:
+        prev.koppenCode && koppenToClimateZone(prev.koppenCode) === climate
+          ? prev.koppenCode
+          : undefined,
+    }));
+  };
+
+  const handleKoppenChange = (code: KoppenCode | '') => {
+    setClimateOverridden(true);
+    setFormData(prev => ({
+      ...prev,
+      koppenCode: code || undefined,
+      climate: code ? koppenToClimateZone(code) : prev.climate,
+    }));
+  };
+
+  const handleLoadField = useCallback((field: FieldProfile) => {
+    const { lat, lng } = field.location;
+    // Keep a saved climate that differs from the inferred one.
+    setClimateOverridden(
+      field.climate !== undefined && field.climate !== lookupKoppen(lat, lng).climate,
+    );
+    setFormData(prev => ({
+      ...prev,
+      soilTexture: undefined,
+      textureClass: undefined,
+      ...fieldToParameters(field),
+    }));
+    setCropHistory(field.cropHistory);
+    // Fields saved before scenarios existed have none.
+    setScenarios(field.scenarios ?? []);
+    useMapStore.getState().setBoundary(field.boundary);
+  }, []);
+
+  const handlePickLocation = useCallback((position: LatLng) => {
+    setFormData(prev => ({
+      ...prev,
+      latitude: Number(position.lat.toFixed(6)),
+      longitude: Number(position.lng.toFixed(6)),
+    }));
+  }, []);
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     
     // Validate required fields
-    if (!formData.latitude || !formData.longitude) {
+    if (!Number.isFinite(formData.latitude) || !Number.isFinite(formData.longitude)) {
       setError('Please enter valid latitude and longitude coordinates');
       return;
     }
@@ -75,22 +437,23 @@ export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
     setIsSubmitting(true);
     setError(null);
     setResponse(null);
+    setOfflineRanking(rankCrops(requestParams, catalog));
 
     try {
       // Call the agricultural recommendation API directly
-      const result = await fetchAgriculturalRecommendations(formData);
-      
-      // Extract the text response from the API result
-      const responseText = result.candidates?.[0]?.content?.parts?.[0]?.text || 'No recommendations available';
-      setResponse(responseText);
+      const result = await fetchAgriculturalRecommendations(requestParams);
+      setResponse({
+        ...result,
+        text: result.text || 'No recommendations available',
+      });
 
       // Call the optional onSubmit callback
       if (onSubmit) {
-        onSubmit(formData);
+        onSubmit(requestParams);
       }
     } catch (error) {
       console.error('Error submitting agricultural form:', error);
-      setError('Error getting recommendations. Please try again.');
+      setError('Error getting AI recommendations. Showing offline suitability results instead.');
     } finally {
       setIsSubmitting(false);
     }
@@ -104,6 +467,15 @@ export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
       </div>
 
       <form onSubmit={handleSubmit} className="form-content">
+        <FarmProfilesPanel
+          params={formData}
+          cropHistory={cropHistory}
+          scenarios={scenarios}
+          onLoadField={handleLoadField}
+        />
+
+        <BatchPanel catalog={catalog} />
+
         {/* Location Section */}
         <div className="form-section">
           <h3>📍 Farm Location</h3>
@@ -113,8 +485,8 @@ export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
               <input
                 type="number"
                 id="latitude"
-                value={formData.latitude || ''}
-                onChange={(e) => handleInputChange('latitude', parseFloat(e.target.value) || 0)}
+                value={Number.isFinite(formData.latitude) ? formData.latitude : ''}
+                onChange={(e) => handleInputChange('latitude', parseFloat(e.target.value))}
                 placeholder="e.g., 40.7128"
                 step="any"
                 required
@@ -125,14 +497,21 @@ export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
               <input
                 type="number"
                 id="longitude"
-                value={formData.longitude || ''}
-                onChange={(e) => handleInputChange('longitude', parseFloat(e.target.value) || 0)}
+                value={Number.isFinite(formData.longitude) ? formData.longitude : ''}
+                onChange={(e) => handleInputChange('longitude', parseFloat(e.target.value))}
                 placeholder="e.g., -74.0060"
                 step="any"
                 required
               />
             </div>
           </div>
+          <LocationPicker geocoder={geocoder} onPick={handlePickLocation} />
+          <FieldBoundaryEditor />
+          <TerrainPanel
+            elevationLib={elevationLib}
+            terrain={formData.terrain}
+            onChange={terrain => handleInputChange('terrain', terrain)}
+          />
         </div>
 
         {/* Required Parameters */}
@@ -144,7 +523,7 @@ export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
               <select
                 id="soilType"
                 value={formData.soilType}
-                onChange={(e) => handleInputChange('soilType', e.target.value)}
+                onChange={(e) => handleSoilTypeChange(e.target.value as AgriculturalParameters['soilType'])}
                 required
               >
                 <option value="clay">Clay</option>
@@ -159,7 +538,7 @@ export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
               <select
                 id="climate"
                 value={formData.climate}
-                onChange={(e) => handleInputChange('climate', e.target.value)}
+                onChange={(e) => handleClimateChange(e.target.value as AgriculturalParameters['climate'])}
                 required
               >
                 <option value="tropical">Tropical</option>
@@ -170,20 +549,46 @@ export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
               </select>
             </div>
             <div className="input-field">
-              <label htmlFor="season">Season *</label>
+              <label htmlFor="koppenCode">Köppen–Geiger Class</label>
               <select
-                id="season"
-                value={formData.season}
-                onChange={(e) => handleInputChange('season', e.target.value)}
-                required
+                id="koppenCode"
+                value={formData.koppenCode ?? ''}
+                onChange={(e) => handleKoppenChange(e.target.value as KoppenCode | '')}
               >
-                <option value="spring">Spring</option>
-                <option value="summer">Summer</option>
-                <option value="fall">Fall</option>
-                <option value="winter">Winter</option>
+                <option value="">Not set</option>
+                {KOPPEN_CODES.map(code => (
+                  <option key={code} value={code}>
+                    {code} – {KOPPEN_DESCRIPTIONS[code]}
+                  </option>
+                ))}
               </select>
+              {inferredKoppen && (
+                <p className="climate-inference">
+                  Inferred from location: {inferredKoppen.code} ({inferredKoppen.description}
+                  {inferredKoppen.region ? `, ${inferredKoppen.region}` : ''})
+                  {climateOverridden && (
+                    <button type="button" onClick={() => setClimateOverridden(false)}>
+                      Use inferred
+                    </button>
+                  )}
+                </p>
+              )}
             </div>
           </div>
+          <SoilTextureInputs
+            value={formData.soilTexture}
+            onChange={handleTextureChange}
+          />
+          <div className="input-field">
+            <label>Planting Window *</label>
+            <PlantingWindowPicker
+              latitude={formData.latitude}
+              climate={formData.climate}
+              koppenCode={formData.koppenCode}
+              months={requestParams.plantingMonths}
+              onChange={(months) => handleInputChange('plantingMonths', months)}
+            />
+          </div>
         </div>
 
         {/* Optional Parameters */}
@@ -256,10 +661,59 @@ export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
                   />
                 </div>
               </div>
+              <p className="optional-params-hint">
+                Seasonal weather averages refine the irrigation schedule; with
+                humidity and wind it uses Penman-Monteith.
+              </p>
+              <div className="input-group">
+                {WEATHER_FIELDS.map(field => (
+                  <div className="input-field" key={field.key}>
+                    <label htmlFor={`weather-${field.key}`}>{field.label}</label>
+                    <input
+                      type="number"
+                      id={`weather-${field.key}`}
+                      value={formData.weather?.[field.key] ?? ''}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        handleWeatherChange(field.key, Number.isFinite(value) ? value : undefined);
+                      }}
+                      placeholder={field.placeholder}
+                      step="any"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="optional-params-hint">
+                A daily temperature file from a weather station replaces the
+                average temperature when predicting growth stages.
+              </p>
+              <div className="input-group">
+                <TemperatureSeriesInput
+                  series={temperatureSeries}
+                  onChange={setTemperatureSeries}
+                />
+              </div>
             </div>
           )}
         </div>
 
+        <SoilTestInputs
+          value={formData.soilTest}
+          onChange={(soilTest) => handleInputChange('soilTest', soilTest)}
+        />
+
+        <ErosionPanel
+          params={requestParams}
+          catalog={catalog}
+          onChange={(erosion) => handleInputChange('erosion', erosion)}
+        />
+
+        <RotationPlanner
+          params={requestParams}
+          history={cropHistory}
+          onHistoryChange={setCropHistory}
+        />
+
         {/* Submit Button */}
         <div className="form-actions">
           <button
@@ -281,13 +735,99 @@ export default function AgriculturalForm({ onSubmit }: AgriculturalFormProps) {
       {response && (
         <div className="recommendations-section" style={{ marginTop: '20px', padding: '20px', backgroundColor: '#f5f5f5', borderRadius: '8px' }}>
           <h3>🎯 Crop Recommendations</h3>
-          <div className="recommendation-content">
-            <ReactMarkdown remarkPlugins={[remarkGfm]}>
-              {response}
-            </ReactMarkdown>
-          </div>
+          <CropReportView
+            report={response.report}
+            fallbackText={response.text}
+            reportError={response.reportError}
+            nutrientBudgets={reportBudgets}
+            irrigationPlans={reportIrrigation}
+            phenology={reportPhenology}
+            frost={frost}
+            economics={reportEconomics}
+            pestRisks={reportPestRisks}
+          />
         </div>
       )}
+
+      {offlineRanking && !isSubmitting && (
+        <SuitabilityPanel
+          ranking={offlineRanking}
+          disagreements={disagreements}
+          title={response ? 'Offline Cross-check' : 'Offline Suitability'}
+        />
+      )}
+
+      {offlineRanking && !isSubmitting && (
+        <NutrientBudgetPanel
+          params={requestParams}
+          crops={budgetCrops}
+          catalog={catalog}
+        />
+      )}
+
+      {offlineRanking && !isSubmitting && (
+        <IrrigationPanel params={requestParams} crops={budgetCrops} />
+      )}
+
+      {offlineRanking && !isSubmitting && (
+        <CoverCropPanel
+          params={requestParams}
+          crops={budgetCrops}
+          history={cropHistory}
+          catalog={catalog}
+        />
+      )}
+
+      {offlineRanking && !isSubmitting && (
+        <EconomicsPanel
+          params={requestParams}
+          crops={budgetCrops}
+          ranking={offlineRanking}
+          catalog={catalog}
+        />
+      )}
+
+      {offlineRanking && (
+        <AllocationPanel
+          params={requestParams}
+          crops={budgetCrops}
+          ranking={offlineRanking}
+          catalog={catalog}
+        />
+      )}
+
+      {offlineRanking && !isSubmitting && (
+        <PhenologyPanel
+          params={requestParams}
+          crops={budgetCrops}
+          series={temperatureSeries}
+        />
+      )}
+
+      <ScenarioPanel
+        params={requestParams}
+        scenarios={scenarios}
+        onScenariosChange={setScenarios}
+        catalog={catalog}
+        fieldSelected={selectedFieldId !== null}
+      />
+
+      <SensitivityPanel params={requestParams} catalog={catalog} />
+
+      <ClimateProjectionPanel
+        params={requestParams}
+        catalog={catalog}
+        onAddScenarios={added =>
+          // The current parameters become the baseline of a fresh comparison.
+          setScenarios(previous =>
+            previous.length
+              ? [...previous, ...added]
+              : [{ id: newProfileId(), name: 'Baseline', params: requestParams }, ...added],
+          )
+        }
+      />
+
+      <RegionSurveyPanel params={requestParams} catalog={catalog} elevationLib={elevationLib} />
     </div>
   );
 }
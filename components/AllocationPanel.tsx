@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import c from 'classnames';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import { CropSuitability } from '@/lib/agronomy/suitability';
+import { formatMoney } from '@/lib/agronomy/economics';
+import {
+  AllocationPlan,
+  allocationCandidates,
+  explainShadowPrice,
+  optimizeAllocation,
+} from '@/lib/agronomy/allocation';
+import { useEconomicsStore } from '@/lib/state';
+
+interface AllocationPanelProps {
+  params: AgriculturalParameters;
+  // Candidate crops, most relevant first.
+  crops: CropProfile[];
+  // Offline ranking; crops it rates not suitable get no land.
+  ranking: CropSuitability[];
+  catalog: CropProfile[];
+}
+
+const parseLimit = (text: string) => {
+  const value = parseFloat(text);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+/**
+ * Splits the farm across candidate crops to maximize gross margin within
+ * land, water, labor, budget and rotation limits, and shows which limits
+ * bind through their shadow prices.
+ */
+export default function AllocationPanel({
+  params,
+  crops,
+  ranking,
+  catalog,
+}: AllocationPanelProps) {
+  const prices = useEconomicsStore(state => state.prices);
+  const [area, setArea] = useState('');
+  const [water, setWater] = useState('');
+  const [labor, setLabor] = useState('');
+  const [budget, setBudget] = useState('');
+  const [maxShare, setMaxShare] = useState('50');
+
+  const areaHa = parseLimit(area) ?? params.farmSize;
+  const candidates = useMemo(() => {
+    const unsuitable = new Set(
+      ranking.filter(r => r.suitabilityClass === 'N').map(r => r.crop.id),
+    );
+    return allocationCandidates(
+      crops.filter(crop => !unsuitable.has(crop.id)),
+      params,
+      prices,
+      catalog,
+    );
+  }, [crops, ranking, params, prices, catalog]);
+
+  const result = useMemo<{ plan?: AllocationPlan; error?: string } | null>(() => {
+    if (candidates.length === 0) return null;
+    try {
+      const share = parseLimit(maxShare);
+      return {
+        plan: optimizeAllocation(
+          candidates,
+          {
+            areaHa: areaHa ?? 0,
+            waterM3: params.irrigationAvailable ? parseLimit(water) : undefined,
+            laborHours: parseLimit(labor),
+            budget: parseLimit(budget),
+            maxCropShare: share !== undefined ? Math.min(share, 100) / 100 : undefined,
+            // The entered parameters describe the field that grew the previous crop.
+            previousCropHa: params.previousCrop ? params.farmSize : undefined,
+          },
+          prices.currency,
+        ),
+      };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [
+    candidates,
+    areaHa,
+    water,
+    labor,
+    budget,
+    maxShare,
+    params.irrigationAvailable,
+    params.previousCrop,
+    params.farmSize,
+    prices.currency,
+  ]);
+  if (!result) return null;
+
+  const money = (amount: number) => formatMoney(amount, prices.currency);
+  const plan = result.plan;
+
+  return (
+    <div className="allocation-panel">
+      <h3>🧮 Crop Allocation</h3>
+      <div className="input-group">
+        <div className="input-field">
+          <label htmlFor="allocation-area">Area (ha)</label>
+          <input
+            type="number"
+            id="allocation-area"
+            value={area}
+            min="0"
+            step="any"
+            placeholder={params.farmSize !== undefined ? String(params.farmSize) : 'Farm size'}
+            onChange={e => setArea(e.target.value)}
+          />
+        </div>
+        {params.irrigationAvailable && (
+          <div className="input-field">
+            <label htmlFor="allocation-water">Water (m³/season)</label>
+            <input
+              type="number"
+              id="allocation-water"
+              value={water}
+              min="0"
+              step="any"
+              placeholder="Unlimited"
+              onChange={e => setWater(e.target.value)}
+            />
+          </div>
+        )}
+        <div className="input-field">
+          <label htmlFor="allocation-labor">Labor (hours)</label>
+          <input
+            type="number"
+            id="allocation-labor"
+            value={labor}
+            min="0"
+            step="any"
+            placeholder="Unlimited"
+            onChange={e => setLabor(e.target.value)}
+          />
+        </div>
+        <div className="input-field">
+          <label htmlFor="allocation-budget">Budget ({prices.currency})</label>
+          <input
+            type="number"
+            id="allocation-budget"
+            value={budget}
+            min="0"
+            step="any"
+            placeholder="Unlimited"
+            onChange={e => setBudget(e.target.value)}
+          />
+        </div>
+        <div className="input-field">
+          <label htmlFor="allocation-share">Max per crop (%)</label>
+          <input
+            type="number"
+            id="allocation-share"
+            value={maxShare}
+            min="1"
+            max="100"
+            step="1"
+            placeholder="100"
+            onChange={e => setMaxShare(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {result.error && <p className="allocation-note">{result.error}</p>}
+
+      {plan && (
+        <>
+          <p className="allocation-summary">
+            Best mix: <strong>{money(plan.grossMargin)}</strong> total gross margin
+            {plan.unusedHa > 0 && ` · ${plan.unusedHa} ha unplanted`}
+          </p>
+          <table className="allocation-table">
+            <thead>
+              <tr>
+                <th>Crop</th>
+                <th>Hectares</th>
+                <th>Share</th>
+                <th>Gross margin</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.allocations.map(a => (
+                <tr key={a.crop.id}>
+                  <td>{a.crop.name}</td>
+                  <td>{a.hectares}</td>
+                  <td>
+                    <span className="allocation-bar" style={{ width: `${Math.round(a.share * 60)}px` }} />
+                    {Math.round(a.share * 100)}%
+                  </td>
+                  <td>{money(a.grossMargin)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h4>Constraints</h4>
+          <table className="allocation-table">
+            <thead>
+              <tr>
+                <th>Limit</th>
+                <th>Used</th>
+                <th>Available</th>
+                <th>Shadow price</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.constraints.map(constraint => (
+                <tr
+                  key={constraint.label}
+                  className={c({ binding: constraint.binding })}
+                  title={explainShadowPrice(constraint, plan.currency)}
+                >
+                  <td>{constraint.label}</td>
+                  <td>{constraint.used.toLocaleString()}</td>
+                  <td>
+                    {constraint.available.toLocaleString()} {constraint.unit}
+                  </td>
+                  <td>
+                    {constraint.binding
+                      ? `${money(constraint.shadowPrice)}/${constraint.unit}`
+                      : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <ul className="allocation-note">
+            {plan.constraints
+              .filter(constraint => constraint.binding)
+              .map(constraint => (
+                <li key={constraint.label}>{explainShadowPrice(constraint, plan.currency)}</li>
+              ))}
+            {plan.excluded.map(({ crop, reason }) => (
+              <li key={crop.id}>
+                {crop.name} left out: {reason}
+              </li>
+            ))}
+            {plan.notes.map(note => (
+              <li key={note}>{note}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
+import c from 'classnames';
+import { fetchAgriculturalRecommendations } from '@/lib/maps-grounding';
+import { useMapStore } from '@/lib/state';
+import { downloadTextFile, runWithConcurrency } from '@/lib/utils';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import {
+  BATCH_COLUMNS,
+  BATCH_STATUS_LABELS,
+  BatchJob,
+  BatchStatus,
+  batchMarker,
+  batchResultsToCsv,
+  batchResultsToJson,
+  createBatchJobs,
+  readBatchFile,
+  recommendedCrops,
+} from '@/lib/batch-recommendations';
+import CropReportView from './CropReportView';
+
+interface BatchPanelProps {
+  catalog: CropProfile[];
+}
+
+type SortKey = 'row' | 'name' | 'status' | 'crop' | 'offline';
+
+const SORT_COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'row', label: 'Row' },
+  { key: 'name', label: 'Field' },
+  { key: 'status', label: 'Status' },
+  { key: 'crop', label: 'Recommended' },
+  { key: 'offline', label: 'Offline best' },
+];
+
+// Requests sent at once; more run into the API rate limit.
+const CONCURRENCY_OPTIONS = [1, 2, 3, 5];
+
+const STATUS_ORDER: BatchStatus[] = ['failed', 'invalid', 'cancelled', 'running', 'queued', 'done'];
+
+const RETRYABLE: BatchStatus[] = ['failed', 'cancelled'];
+
+const sortValue = (job: BatchJob, key: SortKey): string | number => {
+  switch (key) {
+    case 'row':
+      return job.row;
+    case 'name':
+      return job.name.toLowerCase();
+    case 'status':
+      return STATUS_ORDER.indexOf(job.status);
+    case 'crop':
+      return recommendedCrops(job)[0]?.toLowerCase() ?? '\uffff';
+    case 'offline':
+      return -(job.offlineTop?.score ?? -1);
+  }
+};
+
+/**
+ * Imports many fields from a CSV or XLSX sheet and requests recommendations
+ * for each, a few at a time, with per-row validation errors, progress, retry
+ * and cancel. The fields are shown as markers on the map, and the results
+ * can be downloaded as one CSV or JSON file.
+ */
+export default function BatchPanel({ catalog }: BatchPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(3);
+  const [isRunning, setIsRunning] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: 'row',
+    descending: false,
+  });
+  const [selectedRow, setSelectedRow] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  // The map frames the fields once per import, not on every label update.
+  const frameMarkersRef = useRef(false);
+
+  const markers = useMemo(
+    () => jobs.map(batchMarker).filter(marker => marker !== null),
+    [jobs],
+  );
+  const markerLabels = markers.map(marker => marker.label).join('\n');
+  useEffect(() => {
+    if (!markers.length) return;
+    const { setMarkers, setPreventAutoFrame } = useMapStore.getState();
+    setPreventAutoFrame(!frameMarkersRef.current);
+    frameMarkersRef.current = false;
+    setMarkers(markers);
+  }, [markerLabels]);
+
+  // Stop sending requests when the panel goes away.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateJob = (row: number, change: (job: BatchJob) => Partial<BatchJob>) =>
+    setJobs(previous => previous.map(job => (job.row === row ? { ...job, ...change(job) } : job)));
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = createBatchJobs(await readBatchFile(file), catalog);
+      const invalid = imported.filter(job => job.status === 'invalid').length;
+      frameMarkersRef.current = true;
+      setJobs(imported);
+      setFileName(file.name);
+      setSelectedRow(null);
+      setMessage(
+        invalid
+          ? `${invalid} of ${imported.length} rows have errors and will be skipped.`
+          : `${imported.length} fields ready.`,
+      );
+    } catch (error) {
+      setMessage(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  const run = async (targets: BatchJob[]) => {
+    if (!targets.length) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const rows = new Set(targets.map(job => job.row));
+    setJobs(previous =>
+      previous.map(job => (rows.has(job.row) ? { ...job, status: 'queued', error: undefined } : job)),
+    );
+    setIsRunning(true);
+    setMessage(null);
+
+    await runWithConcurrency(
+      targets,
+      async job => {
+        updateJob(job.row, current => ({ status: 'running', attempts: current.attempts + 1 }));
+        try {
+          const { response, ...result } = await fetchAgriculturalRecommendations(job.params!, {
+            signal: controller.signal,
+            zoom: false,
+          });
+          updateJob(job.row, () => ({ status: 'done', result }));
+        } catch (error) {
+          updateJob(job.row, () =>
+            controller.signal.aborted
+              ? { status: 'cancelled' }
+              : { status: 'failed', error: (error as Error).message },
+          );
+        }
+      },
+      concurrency,
+      controller.signal,
+    );
+
+    // Rows the cancelled queue never reached.
+    setJobs(previous =>
+      previous.map(job =>
+        rows.has(job.row) && job.status === 'queued' ? { ...job, status: 'cancelled' } : job,
+      ),
+    );
+    controllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleClear = () => {
+    controllerRef.current?.abort();
+    setJobs([]);
+    setFileName('');
+    setMessage(null);
+    setSelectedRow(null);
+    useMapStore.getState().setMarkers([]);
+  };
+
+  const handleSort = (key: SortKey) =>
+    setSort(previous => ({
+      key,
+      descending: previous.key === key ? !previous.descending : false,
+    }));
+
+  const sortedJobs = useMemo(() => {
+    const direction = sort.descending ? -1 : 1;
+    return [...jobs].sort((a, b) => {
+      const x = sortValue(a, sort.key);
+      const y = sortValue(b, sort.key);
+      return (x < y ? -1 : x > y ? 1 : a.row - b.row) * direction;
+    });
+  }, [jobs, sort]);
+
+  const counts = jobs.reduce(
+    (total, job) => ({ ...total, [job.status]: (total[job.status] ?? 0) + 1 }),
+    {} as Partial<Record<BatchStatus, number>>,
+  );
+  const valid = jobs.length - (counts.invalid ?? 0);
+  const finished = (counts.done ?? 0) + (counts.failed ?? 0) + (counts.cancelled ?? 0);
+  const pending = jobs.filter(job => job.status === 'queued');
+  const retryable = jobs.filter(job => RETRYABLE.includes(job.status));
+  const selected = jobs.find(job => job.row === selectedRow);
+
+  return (
+    <div className="form-section batch-panel">
+      <button type="button" className="toggle-optional" onClick={() => setIsOpen(!isOpen)}>
+        {isOpen ? '▼' : '▶'} 📋 Batch Recommendations{jobs.length ? ` (${jobs.length} fields)` : ''}
+      </button>
+      {isOpen && (
+        <>
+          <p className="batch-note">
+            One field per row. Columns: {BATCH_COLUMNS.map(column => column.label).join(', ')}.
+            Latitude, longitude, season and a soil type (or sand, silt and clay) are required;
+            the climate is looked up from the location when missing.
+          </p>
+          <div className="farm-profiles-row">
+            <label className="farm-profiles-import">
+              Import CSV or XLSX
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={handleImport}
+                disabled={isRunning}
+              />
+            </label>
+            {jobs.length > 0 && (
+              <>
+                <select
+                  aria-label="Requests at once"
+                  value={concurrency}
+                  onChange={e => setConcurrency(parseInt(e.target.value, 10))}
+                  disabled={isRunning}
+                >
+                  {CONCURRENCY_OPTIONS.map(option => (
+                    <option key={option} value={option}>
+                      {option} at a time
+                    </option>
+                  ))}
+                </select>
+                {isRunning ? (
+                  <button type="button" onClick={() => controllerRef.current?.abort()}>
+                    Cancel
+                  </button>
+                ) : (
+                  <button type="button" onClick={() => run(pending)} disabled={!pending.length}>
+                    Run {pending.length} fields
+                  </button>
+                )}
+                {!isRunning && retryable.length > 0 && (
+                  <button type="button" onClick={() => run(retryable)}>
+                    Retry {retryable.length} failed
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() =>
+                    downloadTextFile('batch-recommendations.csv', batchResultsToCsv(jobs), 'text/csv')
+                  }
+                >
+                  Download CSV
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    downloadTextFile('batch-recommendations.json', batchResultsToJson(jobs))
+                  }
+                >
+                  Download JSON
+                </button>
+                <button type="button" onClick={handleClear}>
+                  Clear
+                </button>
+              </>
+            )}
+          </div>
+          {message && <p className="batch-note">{message}</p>}
+
+          {jobs.length > 0 && (
+            <>
+              <div className="batch-progress">
+                <progress value={finished} max={valid || 1} />
+                <span>
+                  {fileName}: {counts.done ?? 0} of {valid} done
+                  {counts.running ? `, ${counts.running} running` : ''}
+                  {counts.failed ? `, ${counts.failed} failed` : ''}
+                  {counts.cancelled ? `, ${counts.cancelled} cancelled` : ''}
+                  {counts.invalid ? `, ${counts.invalid} invalid` : ''}
+                </span>
+              </div>
+              <div className="batch-table-wrapper">
+                <table className="batch-table">
+                  <thead>
+                    <tr>
+                      {SORT_COLUMNS.map(column => (
+                        <th
+                          key={column.key}
+                          aria-sort={
+                            sort.key === column.key
+                              ? sort.descending
+                                ? 'descending'
+                                : 'ascending'
+                              : undefined
+                          }
+                        >
+                          <button type="button" onClick={() => handleSort(column.key)}>
+                            {column.label}
+                            {sort.key === column.key ? (sort.descending ? ' ▼' : ' ▲') : ''}
+                          </button>
+                        </th>
+                      ))}
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedJobs.map(job => (
+                      <tr
+                        key={job.row}
+                        className={c({ 'batch-selected': job.row === selectedRow })}
+                        onClick={() => job.result && setSelectedRow(job.row)}
+                      >
+                        <td>{job.row}</td>
+                        <td>{job.name}</td>
+                        <td className={`batch-status ${job.status}`}>
+                          {BATCH_STATUS_LABELS[job.status]}
+                          {job.attempts > 1 && ` (try ${job.attempts})`}
+                          {[...job.errors, job.error].filter(Boolean).map(error => (
+                            <span key={error} className="batch-error">
+                              {error}
+                            </span>
+                          ))}
+                        </td>
+                        <td>{recommendedCrops(job).slice(0, 3).join(', ')}</td>
+                        <td>
+                          {job.offlineTop &&
+                            `${job.offlineTop.crop} ${job.offlineTop.score} (${job.offlineTop.suitabilityClass})`}
+                        </td>
+                        <td>
+                          {!isRunning && RETRYABLE.includes(job.status) && (
+                            <button
+                              type="button"
+                              onClick={e => {
+                                e.stopPropagation();
+                                run([job]);
+                              }}
+                            >
+                              Retry
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {selected?.result ? (
+                <div className="batch-report">
+                  <h4>{selected.name}</h4>
+                  <CropReportView
+                    report={selected.result.report}
+                    fallbackText={selected.result.text}
+                    reportError={selected.result.reportError}
+                  />
+                </div>
+              ) : (
+                counts.done ? <p className="batch-note">Click a finished row for its report.</p> : null
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
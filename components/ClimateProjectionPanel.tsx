@@ -0,0 +1,266 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { ChangeEvent, useMemo, useState } from 'react';
+import c from 'classnames';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { Scenario, newProfileId } from '@/lib/farm-profiles';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import {
+  ProjectionHorizon,
+  PROJECTION_YEARS,
+  ProjectionResult,
+  WARMING_PRESETS,
+  describeHorizon,
+  parseProjectionCsv,
+  presetHorizons,
+  projectSuitability,
+} from '@/lib/agronomy/climate-projection';
+
+interface ClimateProjectionPanelProps {
+  params: AgriculturalParameters;
+  catalog: CropProfile[];
+  // Adds the projected parameter sets to the scenario comparison.
+  onAddScenarios: (scenarios: Scenario[]) => void;
+}
+
+// Leading crops listed for the baseline and every horizon.
+const TOP_CROPS = 5;
+
+/**
+ * Projects the farm's temperature and rainfall to future horizons, from a
+ * warming preset or an imported downscaled projection, and shows how the
+ * crop ranking and suitability change.
+ */
+export default function ClimateProjectionPanel({
+  params,
+  catalog,
+  onAddScenarios,
+}: ClimateProjectionPanelProps) {
+  const [source, setSource] = useState(WARMING_PRESETS[1].id);
+  const [horizons, setHorizons] = useState<ProjectionHorizon[]>(() =>
+    presetHorizons(WARMING_PRESETS[1], params),
+  );
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const result = useMemo<{ projection?: ProjectionResult; error?: string }>(() => {
+    try {
+      return { projection: projectSuitability(params, horizons, catalog) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [params, horizons, catalog]);
+
+  const handleSourceChange = (id: string) => {
+    setSource(id);
+    setMessage(null);
+    const preset = WARMING_PRESETS.find(p => p.id === id);
+    if (preset) {
+      setHorizons(presetHorizons(preset, params));
+      setFileName(null);
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setHorizons(parseProjectionCsv(await file.text()));
+      setSource('csv');
+      setFileName(file.name);
+      setMessage(null);
+    } catch (error) {
+      setMessage(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  const updateHorizon = (index: number, update: Partial<ProjectionHorizon>) =>
+    setHorizons(horizons.map((h, i) => (i === index ? { ...h, ...update } : h)));
+
+  const handleAddScenarios = () => {
+    const projection = result.projection;
+    if (!projection) return;
+    onAddScenarios(
+      projection.horizons.map(({ horizon, params: projected }) => ({
+        id: newProfileId(),
+        name: horizon.label,
+        params: projected,
+      })),
+    );
+    setMessage(`Added ${projection.horizons.length} horizons to the scenarios.`);
+  };
+
+  const projection = result.projection;
+  const gains = projection?.trends.filter(t => t.trend === 'gains') ?? [];
+  const losses = projection?.trends.filter(t => t.trend === 'loses').reverse() ?? [];
+
+  return (
+    <div className="projection-panel">
+      <h3>🌍 Climate Projections</h3>
+      <div className="farm-profiles-row">
+        <select
+          aria-label="Projection source"
+          value={source}
+          onChange={e => handleSourceChange(e.target.value)}
+        >
+          {WARMING_PRESETS.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {preset.label} by {PROJECTION_YEARS[PROJECTION_YEARS.length - 1]}
+            </option>
+          ))}
+          {fileName && <option value="csv">{fileName}</option>}
+        </select>
+        <label className="farm-profiles-import">
+          Import projections CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleImport} />
+        </label>
+      </div>
+
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Horizon</th>
+            <th>Temperature change (°C)</th>
+            <th>Rainfall change (%)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {horizons.map((horizon, index) =>
+            source === 'csv' ? (
+              <tr key={horizon.label}>
+                <td>{horizon.label}</td>
+                <td colSpan={2}>{describeHorizon(horizon)}</td>
+              </tr>
+            ) : (
+              <tr key={horizon.label}>
+                <td>{horizon.label}</td>
+                <td>
+                  <input
+                    type="number"
+                    aria-label={`${horizon.label} temperature change`}
+                    value={horizon.temperatureDeltaC ?? 0}
+                    step="0.1"
+                    onChange={e =>
+                      updateHorizon(index, { temperatureDeltaC: parseFloat(e.target.value) || 0 })
+                    }
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    aria-label={`${horizon.label} rainfall change`}
+                    value={horizon.rainfallChangePct ?? 0}
+                    step="1"
+                    onChange={e =>
+                      updateHorizon(index, { rainfallChangePct: parseFloat(e.target.value) || 0 })
+                    }
+                  />
+                </td>
+              </tr>
+            ),
+          )}
+        </tbody>
+      </table>
+
+      {result.error && <p className="projection-note">{result.error}</p>}
+      {message && <p className="projection-note">{message}</p>}
+
+      {projection && (
+        <>
+          <div className="projection-table-wrapper">
+            <table className="projection-table">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>
+                    Today
+                    <span className="projection-conditions">
+                      {params.temperature ?? '?'} °C, {params.rainfall ?? '?'} mm
+                    </span>
+                  </th>
+                  {projection.horizons.map(({ horizon, params: projected }) => (
+                    <th key={horizon.label}>
+                      {horizon.label}
+                      <span className="projection-conditions">
+                        {projected.temperature ?? '?'} °C, {projected.rainfall ?? '?'} mm
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {Array.from({ length: TOP_CROPS }, (_, rank) => (
+                  <tr key={rank}>
+                    <td>{rank + 1}</td>
+                    {[projection.baseline, ...projection.horizons.map(h => h.ranking)].map(
+                      (ranking, column) => {
+                        const entry = ranking[rank];
+                        const scenario = projection.horizons[column - 1]?.horizon.scenario;
+                        const trend = projection.trends.find(
+                          t => t.crop.id === entry?.crop.id && t.scenario === scenario,
+                        );
+                        return (
+                          <td
+                            key={column}
+                            className={c(column > 0 && trend && `trend-${trend.trend}`)}
+                          >
+                            {entry ? `${entry.crop.name} (${entry.score})` : '—'}
+                          </td>
+                        );
+                      },
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="projection-trends">
+            <div>
+              <h4>Gaining suitability</h4>
+              {gains.length ? (
+                <ul>
+                  {gains.map(t => (
+                    <li key={`${t.scenario}|${t.crop.id}`} className="trend-gains">
+                      {t.crop.name}
+                      {t.scenario && ` (${t.scenario})`}: {t.baselineScore} → {t.scores.join(' → ')}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="projection-note">No crop gains 5 points or more.</p>
+              )}
+            </div>
+            <div>
+              <h4>Losing suitability</h4>
+              {losses.length ? (
+                <ul>
+                  {losses.map(t => (
+                    <li key={`${t.scenario}|${t.crop.id}`} className="trend-loses">
+                      {t.crop.name}
+                      {t.scenario && ` (${t.scenario})`}: {t.baselineScore} → {t.scores.join(' → ')}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="projection-note">No crop loses 5 points or more.</p>
+              )}
+            </div>
+          </div>
+          {projection.assumptions.map(assumption => (
+            <p key={assumption} className="projection-note">
+              {assumption}
+            </p>
+          ))}
+          <button type="button" onClick={handleAddScenarios}>
+            Add horizons to scenarios
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
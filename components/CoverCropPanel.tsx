@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import { CropHistoryEntry } from '@/lib/agronomy/rotation';
+import {
+  CompanionPlan,
+  describeFallow,
+  recommendCompanions,
+} from '@/lib/agronomy/cover-crops';
+
+interface CoverCropPanelProps {
+  params: AgriculturalParameters;
+  // Crops to choose from, most relevant first.
+  crops: CropProfile[];
+  history: CropHistoryEntry[];
+  catalog: CropProfile[];
+}
+
+const formatRange = (range: { min: number; max: number }) =>
+  range.min === range.max ? `${range.min}` : `${range.min}–${range.max}`;
+
+/**
+ * Suggests cover crops for the fallow window after a chosen crop, with
+ * seeding rates, termination timing and soil benefits, and intercrop or
+ * relay companions for the crop itself.
+ */
+export default function CoverCropPanel({ params, crops, history, catalog }: CoverCropPanelProps) {
+  const [cropId, setCropId] = useState<string | null>(null);
+  const crop = crops.find(c => c.id === cropId) ?? crops[0];
+
+  const plan = useMemo<CompanionPlan | null>(
+    () => (crop ? recommendCompanions(crop, params, history, catalog) : null),
+    [crop, params, history, catalog],
+  );
+  if (!plan) return null;
+
+  return (
+    <div className="cover-crop-panel">
+      <h3>🌱 Cover Crops &amp; Intercropping</h3>
+      <div className="input-group">
+        <div className="input-field">
+          <label htmlFor="cover-crop-main">Main crop</label>
+          <select
+            id="cover-crop-main"
+            value={crop.id}
+            onChange={e => setCropId(e.target.value)}
+          >
+            {crops.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="cover-crop-summary">Fallow after {crop.name}: {describeFallow(plan.fallow)}</p>
+
+      {plan.covers.length > 0 ? (
+        <div className="cover-crop-table-wrapper">
+          <table className="cover-crop-table">
+            <thead>
+              <tr>
+                <th>Cover crop</th>
+                <th>Sow</th>
+                <th>Seed (kg/ha)</th>
+                <th>Terminate</th>
+                <th>N fixed (kg/ha)</th>
+                <th>Biomass (t/ha)</th>
+                <th>Ground cover</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.covers.map(option => (
+                <tr key={option.cover.id}>
+                  <td>
+                    <strong>{option.cover.name}</strong>
+                    <ul className="cover-crop-notes">
+                      {option.notes.map(note => (
+                        <li key={note}>{note}</li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td>{option.sowBy}</td>
+                  <td>
+                    {formatRange(option.seedingRateKgHa)}
+                    {option.seedKg !== undefined && (
+                      <span className="cover-crop-total">
+                        {option.seedKg.toLocaleString()} kg for {params.farmSize} ha
+                      </span>
+                    )}
+                  </td>
+                  <td>{option.terminateBy}</td>
+                  <td>{option.nFixedKgHa.max > 0 ? formatRange(option.nFixedKgHa) : '—'}</td>
+                  <td>{formatRange(option.biomassTHa)}</td>
+                  <td>{option.groundCoverPct}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="cover-crop-note">No cover crop fits the fallow window.</p>
+      )}
+
+      {plan.intercrops.length > 0 && (
+        <>
+          <h4>Intercrop and relay companions</h4>
+          <ul className="cover-crop-intercrops">
+            {plan.intercrops.map(({ pattern, companionName, suitability }) => (
+              <li key={pattern.companion}>
+                <strong>
+                  {companionName} ({pattern.kind})
+                </strong>
+                {suitability !== undefined && ` · suitability ${suitability}`}:{' '}
+                {pattern.arrangement} {formatRange(pattern.companionSeedingRateKgHa)} kg/ha.{' '}
+                {pattern.benefit} <em>{pattern.caution}</em>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {plan.notes.map(note => (
+        <p key={note} className="cover-crop-note">
+          {note}
+        </p>
+      ))}
+      {plan.excluded.length > 0 && (
+        <p className="cover-crop-note">
+          Not suggested: {plan.excluded.map(e => `${e.cover.name} (${e.reason.replace(/\.$/, '')})`).join('; ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { ChangeEvent, useMemo, useState } from 'react';
+import { z } from 'zod';
+import {
+  CROP_CATALOG,
+  CROP_CATALOG_VERSION,
+  CropProfile,
+  CropProfileSchema,
+  parseCatalogFile,
+} from '@/lib/agronomy/crop-catalog';
+import { selectCropCatalog, useCropCatalogStore } from '@/lib/state';
+import { downloadTextFile } from '@/lib/utils';
+
+const NEW_CROP_TEMPLATE: CropProfile = {
+  id: 'new-crop',
+  name: 'New Crop',
+  aliases: [],
+  family: 'other',
+  soils: { clay: 0.5, sandy: 0.5, loamy: 1, silt: 0.8, peat: 0.3 },
+  climates: ['temperate'],
+  plantingSeasons: ['spring'],
+  temperature: { min: 5, optMin: 15, optMax: 25, max: 32 },
+  rainfall: { min: 300, optMin: 500, optMax: 900, max: 1300 },
+  ph: { min: 5.5, optMin: 6, optMax: 7, max: 8 },
+  dayLength: 'neutral',
+  growingPeriodDays: { min: 90, max: 120 },
+  yieldRange: { min: 1, max: 3, unit: 't/ha' },
+  waterNeedMm: { min: 400, max: 600 },
+  thermalTime: {
+    baseC: 5,
+    upperC: 30,
+    stages: [
+      { name: 'Emergence', gdd: 120 },
+      { name: 'Flowering', gdd: 800 },
+      { name: 'Maturity', gdd: 1400 },
+    ],
+  },
+  varieties: [],
+};
+
+const matchesQuery = (crop: CropProfile, query: string) =>
+  [crop.name, crop.id, ...crop.aliases, ...crop.varieties.map(v => v.name)].some(
+    term => term.toLowerCase().includes(query),
+  );
+
+const formatRange = (r: { min: number; max: number }) => `${r.min}–${r.max}`;
+
+function CropDetails({ crop }: { crop: CropProfile }) {
+  return (
+    <div className="catalog-details">
+      <dl className="crop-facts">
+        <dt>Temperature</dt>
+        <dd>
+          {crop.temperature.optMin}–{crop.temperature.optMax} °C (limits{' '}
+          {crop.temperature.min}–{crop.temperature.max})
+        </dd>
+        <dt>Rainfall</dt>
+        <dd>
+          {crop.rainfall.optMin}–{crop.rainfall.optMax} mm (limits{' '}
+          {crop.rainfall.min}–{crop.rainfall.max})
+        </dd>
+        <dt>pH</dt>
+        <dd>
+          {crop.ph.optMin}–{crop.ph.optMax}
+        </dd>
+        <dt>Family</dt>
+        <dd>{crop.family}</dd>
+        <dt>Day length</dt>
+        <dd>{crop.dayLength}</dd>
+        <dt>Growing period</dt>
+        <dd>{formatRange(crop.growingPeriodDays)} days</dd>
+        <dt>Yield</dt>
+        <dd>
+          {formatRange(crop.yieldRange)} {crop.yieldRange.unit}
+        </dd>
+        <dt>Water need</dt>
+        <dd>{formatRange(crop.waterNeedMm)} mm</dd>
+        {crop.thermalTime && (
+          <>
+            <dt>Thermal time</dt>
+            <dd>
+              Base {crop.thermalTime.baseC} °C, cap {crop.thermalTime.upperC} °C ·{' '}
+              {crop.thermalTime.stages.map(s => `${s.name} ${s.gdd}`).join(', ')} GDD
+            </dd>
+          </>
+        )}
+        <dt>Soils</dt>
+        <dd>
+          {Object.entries(crop.soils)
+            .filter(([, score]) => score >= 0.6)
+            .map(([soil]) => soil)
+            .join(', ')}
+        </dd>
+        <dt>Climates</dt>
+        <dd>{crop.climates.join(', ')}</dd>
+      </dl>
+      {crop.varieties.length > 0 && (
+        <table className="catalog-varieties">
+          <thead>
+            <tr>
+              <th>Variety</th>
+              <th>Days</th>
+              <th>Yield</th>
+            </tr>
+          </thead>
+          <tbody>
+            {crop.varieties.map(variety => (
+              <tr key={variety.id} title={variety.notes}>
+                <td>{variety.name}</td>
+                <td>
+                  {variety.growingPeriodDays
+                    ? formatRange(variety.growingPeriodDays)
+                    : '—'}
+                </td>
+                <td>
+                  {variety.yieldRange
+                    ? `${formatRange(variety.yieldRange)} ${variety.yieldRange.unit}`
+                    : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Searchable view of the crop knowledge base. Team members can edit entries
+ * as JSON, add new crops, and share their overrides as a file.
+ */
+export default function CropCatalogPanel() {
+  const catalog = useCropCatalogStore(selectCropCatalog);
+  const {
+    overrides,
+    overridesBaseVersion,
+    upsertCrop,
+    removeOverride,
+    importOverrides,
+  } = useCropCatalogStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // JSON text of the entry being edited, if any.
+  const [draft, setDraft] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const bundledIds = useMemo(() => new Set(CROP_CATALOG.map(c => c.id)), []);
+  const overrideIds = useMemo(
+    () => new Set(overrides.map(c => c.id)),
+    [overrides],
+  );
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const crops = q ? catalog.filter(crop => matchesQuery(crop, q)) : catalog;
+    return [...crops].sort((a, b) => a.name.localeCompare(b.name));
+  }, [catalog, query]);
+
+  const handleSaveDraft = () => {
+    if (draft === null) return;
+    let data: unknown;
+    try {
+      data = JSON.parse(draft);
+    } catch (e) {
+      setMessage(`Invalid JSON: ${e}`);
+      return;
+    }
+    const result = CropProfileSchema.safeParse(data);
+    if (!result.success) {
+      setMessage(z.prettifyError(result.error));
+      return;
+    }
+    upsertCrop(result.data);
+    setDraft(null);
+    setExpandedId(result.data.id);
+    setMessage(`Saved ${result.data.name}.`);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseCatalogFile(await file.text());
+      importOverrides(parsed.crops);
+      setMessage(
+        `Imported ${parsed.crops.length} entries (file v${parsed.version}).`,
+      );
+    } catch (error) {
+      setMessage(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleExport = () => {
+    const file = { version: CROP_CATALOG_VERSION, crops: overrides };
+    downloadTextFile(
+      `crop-catalog-overrides-v${CROP_CATALOG_VERSION}.json`,
+      JSON.stringify(file, null, 2),
+    );
+  };
+
+  return (
+    <div className="crop-catalog-panel">
+      <button
+        type="button"
+        className="toggle-optional"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {isOpen ? '▼' : '▶'} 📚 Crop Knowledge Base
+      </button>
+      {isOpen && (
+        <div className="catalog-body">
+          <p className="catalog-meta">
+            Catalog v{CROP_CATALOG_VERSION} · {catalog.length} crops ·{' '}
+            {overrides.length} team entries
+          </p>
+          {overrides.length > 0 &&
+            overridesBaseVersion !== CROP_CATALOG_VERSION && (
+              <p className="catalog-message">
+                Team entries were made against catalog v{overridesBaseVersion};
+                review them against the updated bundled data.
+              </p>
+            )}
+          <div className="catalog-toolbar">
+            <input
+              type="search"
+              placeholder="Search crops or varieties"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+            />
+            <button
+              type="button"
+              onClick={() =>
+                setDraft(JSON.stringify(NEW_CROP_TEMPLATE, null, 2))
+              }
+            >
+              Add
+            </button>
+            <label className="catalog-import">
+              Import
+              <input type="file" accept="application/json" onChange={handleImport} />
+            </label>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={overrides.length === 0}
+            >
+              Export
+            </button>
+          </div>
+          {message && <p className="catalog-message">{message}</p>}
+          {draft !== null && (
+            <div className="catalog-editor">
+              <textarea
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                rows={16}
+                spellCheck={false}
+              />
+              <div className="catalog-editor-actions">
+                <button type="button" onClick={handleSaveDraft}>
+                  Save
+                </button>
+                <button type="button" onClick={() => setDraft(null)}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+          <ul className="catalog-list">
+            {filtered.map(crop => (
+              <li key={crop.id}>
+                <div className="catalog-row">
+                  <button
+                    type="button"
+                    className="catalog-name"
+                    onClick={() =>
+                      setExpandedId(expandedId === crop.id ? null : crop.id)
+                    }
+                  >
+                    {crop.name}
+                    {overrideIds.has(crop.id) && (
+                      <span className="catalog-badge">
+                        {bundledIds.has(crop.id) ? 'edited' : 'custom'}
+                      </span>
+                    )}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDraft(JSON.stringify(crop, null, 2))}
+                  >
+                    Edit
+                  </button>
+                  {overrideIds.has(crop.id) && (
+                    <button type="button" onClick={() => removeOverride(crop.id)}>
+                      {bundledIds.has(crop.id) ? 'Revert' : 'Delete'}
+                    </button>
+                  )}
+                </div>
+                {expandedId === crop.id && <CropDetails crop={crop} />}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
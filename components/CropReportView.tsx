@@ -0,0 +1,354 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import c from 'classnames';
+import {
+  CropRecommendation,
+  CropRecommendationReport,
+  cropReportToMarkdown,
+} from '@/lib/agronomy/crop-report';
+import { NutrientBudget } from '@/lib/agronomy/nutrient-budget';
+import { IrrigationPlan } from '@/lib/agronomy/evapotranspiration';
+import { PhenologyPrediction, formatStageDate } from '@/lib/agronomy/phenology';
+import { CropEconomics, formatMoney } from '@/lib/agronomy/economics';
+import {
+  CropFrostRisk,
+  FrostClimate,
+  describeFrostClimate,
+  frostRiskToMarkdown,
+} from '@/lib/agronomy/frost';
+import { CropPestRisk, pestRiskToMarkdown } from '@/lib/agronomy/pest-risk';
+
+interface CropReportViewProps {
+  report: CropRecommendationReport | null;
+  // Raw model text, shown when the report could not be validated.
+  fallbackText: string;
+  reportError?: string;
+  // Soil-test based budgets keyed by report crop name.
+  nutrientBudgets?: Record<string, NutrientBudget>;
+  // Computed irrigation schedules keyed by report crop name.
+  irrigationPlans?: Record<string, IrrigationPlan>;
+  // Growth stages predicted from the planting window, keyed by report crop name.
+  phenology?: Record<string, PhenologyPrediction>;
+  // Frost dates at the farm and the frost risk of each report crop.
+  frost?: { climate: FrostClimate; risks: CropFrostRisk[] };
+  // Revenue, costs and gross margin keyed by report crop name.
+  economics?: Record<string, CropEconomics>;
+  // Pest and disease risk of each report crop.
+  pestRisks?: CropPestRisk[];
+}
+
+const formatRange = (range: { min: number; max: number }) =>
+  range.min === range.max ? `${range.min}` : `${range.min}–${range.max}`;
+
+function CropCard({
+  crop,
+  rank,
+  budget,
+  irrigation,
+  phenology,
+  economics,
+}: {
+  crop: CropRecommendation;
+  rank: number;
+  budget?: NutrientBudget;
+  irrigation?: IrrigationPlan;
+  phenology?: PhenologyPrediction;
+  economics?: CropEconomics;
+}) {
+  const { waterNeeds, fertilizerNeeds } = crop;
+  return (
+    <div className="crop-card">
+      <div className="crop-card-header">
+        <span className="crop-rank">#{rank}</span>
+        <h4>
+          {crop.crop}
+          {crop.variety && <span className="crop-variety"> · {crop.variety}</span>}
+        </h4>
+      </div>
+      <p className="crop-rationale">{crop.rationale}</p>
+      <dl className="crop-facts">
+        <dt>Planting</dt>
+        <dd>
+          {crop.plantingWindow.start} – {crop.plantingWindow.end}
+        </dd>
+        <dt>Harvest</dt>
+        <dd>
+          {crop.harvestWindow.start} – {crop.harvestWindow.end}
+        </dd>
+        {phenology && (
+          <>
+            <dt>GDD model</dt>
+            <dd>
+              {phenology.maturityDate
+                ? `${phenology.stages[phenology.stages.length - 1].name} ${formatStageDate(phenology.maturityDate)}`
+                : 'does not mature'}
+              {' '}(planted {formatStageDate(phenology.plantingDate)})
+            </dd>
+          </>
+        )}
+        <dt>Yield</dt>
+        <dd>
+          {formatRange(crop.expectedYield)} {crop.expectedYield.unit}
+        </dd>
+        <dt>Water</dt>
+        <dd>
+          {waterNeeds.seasonalMm
+            ? `${formatRange(waterNeeds.seasonalMm)} mm/season`
+            : '—'}
+          {waterNeeds.irrigationRequired && ' · irrigation required'}
+        </dd>
+        {irrigation && (
+          <>
+            <dt>Irrigation</dt>
+            <dd>
+              {irrigation.grossIrrigationMm} mm/season
+              {irrigation.seasonalVolumeM3 !== undefined &&
+                ` · ${irrigation.seasonalVolumeM3.toLocaleString()} m³`}
+              {' '}(crop ET {irrigation.seasonalEtcMm} mm)
+            </dd>
+          </>
+        )}
+        <dt>N-P₂O₅-K₂O</dt>
+        <dd>
+          {[
+            fertilizerNeeds.nitrogenKgHa,
+            fertilizerNeeds.phosphorusKgHa,
+            fertilizerNeeds.potassiumKgHa,
+          ]
+            .map(v => (v === undefined ? '?' : v))
+            .join('-')}{' '}
+          kg/ha
+        </dd>
+        {economics && (
+          <>
+            <dt>Gross margin</dt>
+            <dd>
+              <strong className={c({ loss: economics.grossMarginPerHa < 0 })}>
+                {formatMoney(economics.grossMarginPerHa, economics.currency)}/ha
+              </strong>
+              {economics.grossMarginTotal !== undefined &&
+                ` · ${formatMoney(economics.grossMarginTotal, economics.currency)} for ${economics.farmSizeHa} ha`}
+              {economics.breakEvenYield !== null &&
+                ` · break-even ${economics.breakEvenYield} t/ha`}
+            </dd>
+          </>
+        )}
+        {budget && (
+          <>
+            <dt>Budget</dt>
+            <dd>
+              {budget.lines.map(line => line.recommended).join('-')} kg/ha
+              {' '}at {budget.targetYield} {budget.yieldUnit}, after soil supply
+            </dd>
+          </>
+        )}
+      </dl>
+      {crop.risks.length > 0 && (
+        <ul className="crop-risks">
+          {crop.risks.map(risk => (
+            <li key={risk.risk} className={c('risk', `risk-${risk.severity}`)}>
+              <strong>{risk.risk}</strong>: {risk.mitigation}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Displays a crop recommendation report. The structured view uses the
+ * validated report fields; the markdown view renders the same report as a
+ * document, or the raw model text if validation failed.
+ */
+export default function CropReportView({
+  report,
+  fallbackText,
+  reportError,
+  nutrientBudgets = {},
+  irrigationPlans = {},
+  phenology = {},
+  frost,
+  economics = {},
+  pestRisks = [],
+}: CropReportViewProps) {
+  const [view, setView] = useState<'structured' | 'markdown'>('structured');
+  const [sortBy, setSortBy] = useState<'rank' | 'margin'>('rank');
+  const showStructured = report !== null && view === 'structured';
+  // Cards keep their AI rank; crops without economics sort last by margin.
+  const rankedCrops = (report?.crops ?? []).map((crop, index) => ({ crop, rank: index + 1 }));
+  if (sortBy === 'margin') {
+    const margin = (name: string) => economics[name]?.grossMarginPerHa;
+    rankedCrops.sort((a, b) => {
+      const marginA = margin(a.crop.crop);
+      const marginB = margin(b.crop.crop);
+      if (marginA === undefined || marginB === undefined) {
+        return (marginA === undefined ? 1 : 0) - (marginB === undefined ? 1 : 0);
+      }
+      return marginB - marginA;
+    });
+  }
+
+  return (
+    <div className="crop-report">
+      {report && (
+        <div className="report-view-toggle">
+          <button
+            type="button"
+            className={c({ active: view === 'structured' })}
+            onClick={() => setView('structured')}
+          >
+            Structured
+          </button>
+          <button
+            type="button"
+            className={c({ active: view === 'markdown' })}
+            onClick={() => setView('markdown')}
+          >
+            Document
+          </button>
+          {showStructured && Object.keys(economics).length > 0 && (
+            <button
+              type="button"
+              className={c({ active: sortBy === 'margin' })}
+              onClick={() => setSortBy(sortBy === 'margin' ? 'rank' : 'margin')}
+            >
+              {sortBy === 'margin' ? 'Sorted by margin' : 'Sort by margin'}
+            </button>
+          )}
+        </div>
+      )}
+      {!report && reportError && (
+        <p className="report-warning">
+          The response could not be read as a structured report, showing it as
+          text instead.
+        </p>
+      )}
+      {showStructured ? (
+        <>
+          <p className="report-summary">{report.locationSummary}</p>
+          {rankedCrops.map(({ crop, rank }) => (
+            <CropCard
+              key={crop.crop}
+              crop={crop}
+              rank={rank}
+              budget={nutrientBudgets[crop.crop]}
+              irrigation={irrigationPlans[crop.crop]}
+              phenology={phenology[crop.crop]}
+              economics={economics[crop.crop]}
+            />
+          ))}
+          {report.soilPreparation.length > 0 && (
+            <div className="report-section">
+              <h4>Soil Preparation</h4>
+              <ul>
+                {report.soilPreparation.map(step => (
+                  <li key={step}>{step}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {report.generalRisks && report.generalRisks.length > 0 && (
+            <div className="report-section">
+              <h4>Potential Challenges</h4>
+              <ul className="crop-risks">
+                {report.generalRisks.map(risk => (
+                  <li
+                    key={risk.risk}
+                    className={c('risk', `risk-${risk.severity}`)}
+                  >
+                    <strong>{risk.risk}</strong>: {risk.mitigation}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {frost && (
+            <div className="report-section">
+              <h4>Frost Risk</h4>
+              <p className="frost-summary">
+                {describeFrostClimate(frost.climate)}
+                {frost.climate.source === 'series'
+                  ? ` · from ${frost.climate.seasons} imported season(s)`
+                  : ` · ${frost.climate.koppenCode} climatology`}
+              </p>
+              {!frost.climate.frostFree && (
+                <table className="frost-table">
+                  <thead>
+                    <tr>
+                      <th>Confidence</th>
+                      <th>Last spring frost</th>
+                      <th>First autumn frost</th>
+                      <th>Frost-free days</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {frost.climate.dates.map(d => (
+                      <tr key={d.confidence}>
+                        <td>{d.confidence}%</td>
+                        <td>{d.lastSpringFrost}</td>
+                        <td>{d.firstAutumnFrost}</td>
+                        <td>{d.frostFreeDays}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <ul className="crop-risks">
+                {frost.risks.map(risk => (
+                  <li key={risk.crop} className={c('risk', `risk-${risk.level}`)}>
+                    {risk.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {pestRisks.length > 0 && (
+            <div className="report-section">
+              <h4>Pest and Disease Risk</h4>
+              {pestRisks.map(risk => (
+                <div key={risk.crop} className="pest-risk">
+                  <p className={c('pest-risk-header', `risk-${risk.level}`)}>
+                    <strong>{risk.crop}</strong>: {risk.level} ({risk.score}/100)
+                  </p>
+                  <ul className="crop-risks">
+                    {risk.threats.map(({ threat, score, level, reasons }) => (
+                      <li key={threat.name} className={c('risk', `risk-${level}`)}>
+                        <strong>{threat.name}</strong> ({threat.kind}, {score})
+                        {reasons.length > 0 && `: ${reasons.join(', ')}`}
+                      </li>
+                    ))}
+                  </ul>
+                  <ul className="pest-guidance">
+                    {risk.guidance.map(line => (
+                      <li key={line}>{line}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+          {report.notes && <p className="report-notes">{report.notes}</p>}
+        </>
+      ) : (
+        <div className="recommendation-content">
+          <ReactMarkdown remarkPlugins={[remarkGfm]}>
+            {report
+              ? [
+                  cropReportToMarkdown(report),
+                  ...(frost ? [frostRiskToMarkdown(frost.climate, frost.risks)] : []),
+                  ...(pestRisks.length ? [pestRiskToMarkdown(pestRisks)] : []),
+                ].join('\n\n')
+              : fallbackText}
+          </ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import c from 'classnames';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import { CropSuitability } from '@/lib/agronomy/suitability';
+import {
+  COST_CATEGORY_LABELS,
+  CropEconomics,
+  computeCropEconomics,
+  formatMoney,
+  isTemplateCategory,
+  sortByMargin,
+  waterPrice,
+} from '@/lib/agronomy/economics';
+import { useEconomicsStore } from '@/lib/state';
+
+interface EconomicsPanelProps {
+  params: AgriculturalParameters;
+  // Crops to compare, most relevant first.
+  crops: CropProfile[];
+  // Offline ranking, for the agronomic score shown next to the margin.
+  ranking: CropSuitability[];
+  catalog: CropProfile[];
+}
+
+const parseAmount = (text: string) => {
+  const value = parseFloat(text);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+function CostBreakdown({ economics }: { economics: CropEconomics }) {
+  const setCostOverride = useEconomicsStore(state => state.setCostOverride);
+  const money = (amount: number) => formatMoney(amount, economics.currency);
+  return (
+    <div className="economics-costs">
+      {economics.costs.map(({ category, perHa, edited }) => (
+        <div className="input-field" key={category}>
+          <label htmlFor={`cost-${economics.crop.id}-${category}`}>
+            {COST_CATEGORY_LABELS[category]} ({economics.currency}/ha)
+          </label>
+          {isTemplateCategory(category) ? (
+            <input
+              type="number"
+              id={`cost-${economics.crop.id}-${category}`}
+              className={c({ edited })}
+              value={perHa}
+              min="0"
+              step="any"
+              onChange={e =>
+                setCostOverride(economics.crop.id, category, parseAmount(e.target.value))
+              }
+            />
+          ) : (
+            <span className="economics-derived">
+              {money(perHa)}{' '}
+              {category === 'fertilizer' ? '(from nutrient budget)' : '(from irrigation plan)'}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Compares revenue, variable costs and gross margin of candidate crops, with
+ * an editable price table and break-even yields and prices.
+ */
+export default function EconomicsPanel({
+  params,
+  crops,
+  ranking,
+  catalog,
+}: EconomicsPanelProps) {
+  const { prices, setCurrency, setCropPrice, setWaterPrice, resetPrices } =
+    useEconomicsStore();
+  const [sortBy, setSortBy] = useState<'rank' | 'margin'>('rank');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const rows = useMemo(() => {
+    const economics = crops.map(crop =>
+      computeCropEconomics(crop, params, prices, undefined, catalog),
+    );
+    return sortBy === 'margin' ? sortByMargin(economics) : economics;
+  }, [crops, params, prices, catalog, sortBy]);
+  if (rows.length === 0) return null;
+
+  const money = (amount: number) => formatMoney(amount, prices.currency);
+  const showFarm = params.farmSize !== undefined && params.farmSize > 0;
+  const notes = [...new Set(rows.flatMap(row => row.notes))];
+
+  return (
+    <div className="economics-panel">
+      <h3>💰 Farm Economics</h3>
+      <div className="input-group">
+        <div className="input-field">
+          <label htmlFor="economics-currency">Currency</label>
+          <input
+            type="text"
+            id="economics-currency"
+            value={prices.currency}
+            maxLength={3}
+            onChange={e => setCurrency(e.target.value.toUpperCase(), prices.usdRate)}
+          />
+        </div>
+        <div className="input-field">
+          <label htmlFor="economics-rate">{prices.currency} per USD</label>
+          <input
+            type="number"
+            id="economics-rate"
+            value={prices.usdRate}
+            min="0"
+            step="any"
+            onChange={e => {
+              const rate = parseAmount(e.target.value);
+              if (rate) setCurrency(prices.currency, rate);
+            }}
+          />
+        </div>
+        {params.irrigationAvailable && (
+          <div className="input-field">
+            <label htmlFor="economics-water">Water ({prices.currency}/m³)</label>
+            <input
+              type="number"
+              id="economics-water"
+              value={waterPrice(prices)}
+              min="0"
+              step="any"
+              onChange={e => setWaterPrice(parseAmount(e.target.value))}
+            />
+          </div>
+        )}
+        <div className="input-field">
+          <label htmlFor="economics-sort">Sort by</label>
+          <select
+            id="economics-sort"
+            value={sortBy}
+            onChange={e => setSortBy(e.target.value as 'rank' | 'margin')}
+          >
+            <option value="rank">Agronomic ranking</option>
+            <option value="margin">Gross margin</option>
+          </select>
+        </div>
+      </div>
+      <div className="economics-table-wrapper">
+        <table className="economics-table">
+          <thead>
+            <tr>
+              <th>Crop</th>
+              <th>Score</th>
+              <th>Yield (t/ha)</th>
+              <th>Price ({prices.currency}/t)</th>
+              <th>Revenue/ha</th>
+              <th>Costs/ha</th>
+              <th>Margin/ha</th>
+              {showFarm && <th>Margin ({params.farmSize} ha)</th>}
+              <th>Break-even</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const score = ranking.find(r => r.crop.id === row.crop.id)?.score;
+              const expanded = expandedId === row.crop.id;
+              return (
+                <React.Fragment key={row.crop.id}>
+                  <tr>
+                    <td>
+                      <button
+                        type="button"
+                        className="economics-crop"
+                        aria-expanded={expanded}
+                        onClick={() => setExpandedId(expanded ? null : row.crop.id)}
+                      >
+                        {expanded ? '▾' : '▸'} {row.crop.name}
+                      </button>
+                    </td>
+                    <td>{score ?? '—'}</td>
+                    <td>{row.yieldPerHa}</td>
+                    <td>
+                      <input
+                        type="number"
+                        aria-label={`${row.crop.name} price`}
+                        className={c({ edited: prices.cropPrices[row.crop.id] !== undefined })}
+                        value={row.price}
+                        min="0"
+                        step="any"
+                        onChange={e => setCropPrice(row.crop.id, parseAmount(e.target.value))}
+                      />
+                    </td>
+                    <td>{money(row.revenuePerHa)}</td>
+                    <td>{money(row.variableCostPerHa)}</td>
+                    <td className={c({ loss: row.grossMarginPerHa < 0 })}>
+                      <strong>{money(row.grossMarginPerHa)}</strong>
+                    </td>
+                    {showFarm && (
+                      <td className={c({ loss: row.grossMarginPerHa < 0 })}>
+                        {row.grossMarginTotal !== undefined ? money(row.grossMarginTotal) : '—'}
+                      </td>
+                    )}
+                    <td>
+                      {row.breakEvenYield !== null ? `${row.breakEvenYield} t/ha` : '—'}
+                      {' · '}
+                      {row.breakEvenPrice !== null ? `${money(row.breakEvenPrice)}/t` : '—'}
+                    </td>
+                  </tr>
+                  {expanded && (
+                    <tr className="economics-breakdown">
+                      <td colSpan={showFarm ? 9 : 8}>
+                        <CostBreakdown economics={row} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="economics-note">
+        Indicative prices and costs; edited values are highlighted.{' '}
+        <button type="button" onClick={resetPrices}>
+          Reset prices
+        </button>
+      </p>
+      {notes.map(note => (
+        <p key={note} className="economics-note">
+          {note}
+        </p>
+      ))}
+    </div>
+  );
+}
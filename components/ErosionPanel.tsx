@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import c from 'classnames';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import { rankCrops } from '@/lib/agronomy/suitability';
+import {
+  CONSERVATION_PRACTICES,
+  ConservationPractice,
+  DEFAULT_SOIL_LOSS_TOLERANCE_T_HA,
+  ErosionInputs,
+  describeErosionSite,
+  erosionSite,
+  estimateSoilLoss,
+  practiceLabel,
+} from '@/lib/agronomy/erosion';
+
+interface ErosionPanelProps {
+  params: AgriculturalParameters;
+  catalog: CropProfile[];
+  // Called with undefined once the inputs are back to their defaults.
+  onChange: (erosion: ErosionInputs | undefined) => void;
+}
+
+// Best-ranked crops compared.
+const TOP_CROPS = 8;
+
+const NUMBER_FIELDS: {
+  key: 'slopePct' | 'slopeLengthM' | 'toleranceTHa';
+  label: string;
+  step: string;
+}[] = [
+  { key: 'slopePct', label: 'Slope (%)', step: '0.5' },
+  { key: 'slopeLengthM', label: 'Slope Length (m)', step: '1' },
+  { key: 'toleranceTHa', label: 'Tolerable Loss (t/ha/yr)', step: '0.5' },
+];
+
+/**
+ * Estimates annual soil loss of the best-ranked crops with RUSLE, under the
+ * chosen conservation practice and the alternatives, and shows which
+ * practice brings each crop within the tolerable loss. The practice and
+ * slope feed the erosion penalty of the crop ranking.
+ */
+export default function ErosionPanel({ params, catalog, onChange }: ErosionPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const inputs = params.erosion;
+  const site = useMemo(() => erosionSite(params), [params]);
+  const estimates = useMemo(
+    () =>
+      site
+        ? rankCrops(params, catalog)
+            .slice(0, TOP_CROPS)
+            .map(result => estimateSoilLoss(result.crop, params, site)!)
+        : [],
+    [params, catalog, site],
+  );
+
+  const update = (change: Partial<ErosionInputs>) => {
+    const next = { practice: 'none' as ConservationPractice, ...inputs, ...change };
+    const isDefault =
+      next.practice === 'none' &&
+      next.slopePct === undefined &&
+      next.slopeLengthM === undefined &&
+      next.toleranceTHa === undefined;
+    onChange(isDefault ? undefined : next);
+  };
+
+  const placeholders = {
+    slopePct: params.terrain ? `${params.terrain.meanSlopePct} (terrain)` : 'e.g., 12',
+    slopeLengthM: site ? `${site.slopeLengthM}` : 'e.g., 50',
+    toleranceTHa: `${DEFAULT_SOIL_LOSS_TOLERANCE_T_HA}`,
+  };
+
+  return (
+    <div className="form-section erosion-panel">
+      <button type="button" className="toggle-optional" onClick={() => setIsOpen(!isOpen)}>
+        {isOpen ? '▼' : '▶'} ⛰️ Soil Erosion{inputs ? ` (${practiceLabel(inputs.practice).toLowerCase()})` : ''}
+      </button>
+      {isOpen && (
+        <>
+          <div className="input-group">
+            <div className="input-field">
+              <label htmlFor="erosion-practice">Conservation Practice</label>
+              <select
+                id="erosion-practice"
+                value={inputs?.practice ?? 'none'}
+                onChange={e => update({ practice: e.target.value as ConservationPractice })}
+              >
+                {CONSERVATION_PRACTICES.map(practice => (
+                  <option key={practice.id} value={practice.id}>
+                    {practice.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {NUMBER_FIELDS.map(field => (
+              <div className="input-field" key={field.key}>
+                <label htmlFor={`erosion-${field.key}`}>{field.label}</label>
+                <input
+                  type="number"
+                  id={`erosion-${field.key}`}
+                  value={inputs?.[field.key] ?? ''}
+                  onChange={e => {
+                    const number = parseFloat(e.target.value);
+                    update({ [field.key]: Number.isFinite(number) ? number : undefined });
+                  }}
+                  placeholder={placeholders[field.key]}
+                  min="0"
+                  step={field.step}
+                />
+              </div>
+            ))}
+          </div>
+
+          {!site ? (
+            <p className="erosion-note">
+              Enter the annual rainfall, and analyze the field terrain or enter a slope, to
+              estimate soil loss.
+            </p>
+          ) : (
+            <>
+              <p className="erosion-note">RUSLE factors: {describeErosionSite(site)}.</p>
+              <div className="erosion-table-wrapper">
+                <table className="erosion-table">
+                  <thead>
+                    <tr>
+                      <th>Crop</th>
+                      <th>C</th>
+                      {CONSERVATION_PRACTICES.map(practice => (
+                        <th key={practice.id}>{practice.label}</th>
+                      ))}
+                      <th>Needs</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {estimates.map(estimate => (
+                      <tr key={estimate.crop.id}>
+                        <td>{estimate.crop.name}</td>
+                        <td>{estimate.coverFactor}</td>
+                        {estimate.practices.map(p => (
+                          <td
+                            key={p.practice}
+                            className={c(p.withinTolerance ? 'erosion-within' : 'erosion-over', {
+                              'erosion-chosen': p.practice === site.practice,
+                            })}
+                          >
+                            {p.lossTHa}
+                          </td>
+                        ))}
+                        <td>
+                          {estimate.sufficientPractice
+                            ? practiceLabel(estimate.sufficientPractice)
+                            : 'Permanent cover'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="erosion-note">
+                Soil loss in t/ha/yr; the chosen practice is outlined. Crops over the tolerable
+                loss with it are ranked lower.
+              </p>
+              {site.assumptions.map(assumption => (
+                <p key={assumption} className="erosion-note">
+                  {assumption}
+                </p>
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
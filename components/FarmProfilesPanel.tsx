@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { ChangeEvent, useEffect, useMemo, useState } from 'react';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import {
+  FARM_PROFILES_VERSION,
+  FieldProfile,
+  Scenario,
+  fieldFromParameters,
+  fieldMarker,
+  findField,
+  parseFarmProfilesFile,
+} from '@/lib/farm-profiles';
+import { CropHistoryEntry } from '@/lib/agronomy/rotation';
+import { useFarmStore, useMapStore } from '@/lib/state';
+import { downloadTextFile } from '@/lib/utils';
+
+interface FarmProfilesPanelProps {
+  params: AgriculturalParameters;
+  cropHistory: CropHistoryEntry[];
+  scenarios: Scenario[];
+  // Called when a saved field is selected, including after a page reload.
+  onLoadField: (field: FieldProfile) => void;
+}
+
+/**
+ * Lets the user save the form as a named field of a farm, and pick saved
+ * fields instead of retyping their coordinates.
+ */
+export default function FarmProfilesPanel({
+  params,
+  cropHistory,
+  scenarios,
+  onLoadField,
+}: FarmProfilesPanelProps) {
+  const {
+    farms,
+    selectedFieldId,
+    addFarm,
+    removeField,
+    removeFarm,
+    saveField,
+    selectField,
+    importFarms,
+  } = useFarmStore();
+  const [farmName, setFarmName] = useState('');
+  const [fieldName, setFieldName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selected = useMemo(
+    () => findField(farms, selectedFieldId),
+    [farms, selectedFieldId],
+  );
+
+  // Load the selected field into the form; this also restores the last
+  // selection once the profiles have been read from IndexedDB.
+  useEffect(() => {
+    if (!selected) return;
+    setFarmName(selected.farm.name);
+    setFieldName(selected.field.name);
+    onLoadField(selected.field);
+  }, [selected?.field]);
+
+  const showOnMap = (fieldIds?: string[]) => {
+    const markers = farms.flatMap(farm =>
+      farm.fields
+        .filter(field => !fieldIds || fieldIds.includes(field.id))
+        .map(field => fieldMarker(farm, field)),
+    );
+    const { setMarkers, setPreventAutoFrame } = useMapStore.getState();
+    setPreventAutoFrame(false);
+    setMarkers(markers);
+  };
+
+  const handleSelect = (fieldId: string) => {
+    selectField(fieldId || null);
+    setMessage(null);
+    if (fieldId) {
+      showOnMap([fieldId]);
+    } else {
+      setFieldName('');
+    }
+  };
+
+  const handleSave = () => {
+    const farmLabel = farmName.trim();
+    const fieldLabel = fieldName.trim();
+    if (!farmLabel || !fieldLabel) {
+      setMessage('Enter a farm and field name to save this field.');
+      return;
+    }
+    if (!Number.isFinite(params.latitude) || !Number.isFinite(params.longitude)) {
+      setMessage('Set the field location before saving it.');
+      return;
+    }
+    const farm = farms.find(
+      f => f.name.toLowerCase() === farmLabel.toLowerCase(),
+    );
+    const farmId = farm?.id ?? addFarm(farmLabel);
+    // Update the selected field when it stays on the same farm, otherwise a
+    // field of the same name on the target farm.
+    const existing =
+      selected && selected.farm.id === farmId
+        ? selected.field
+        : farm?.fields.find(
+            f => f.name.toLowerCase() === fieldLabel.toLowerCase(),
+          );
+    const field = fieldFromParameters(fieldLabel, params, cropHistory, existing, scenarios);
+    saveField(farmId, field);
+    selectField(field.id);
+    setMessage(`${existing ? 'Updated' : 'Saved'} ${farmLabel} / ${fieldLabel}.`);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    const farmIsEmpty = selected.farm.fields.length === 1;
+    removeField(selected.field.id);
+    if (farmIsEmpty) removeFarm(selected.farm.id);
+    setFieldName('');
+    setMessage(`Deleted ${selected.farm.name} / ${selected.field.name}.`);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseFarmProfilesFile(await file.text());
+      importFarms(parsed.farms);
+      const fieldCount = parsed.farms.reduce((n, f) => n + f.fields.length, 0);
+      setMessage(`Imported ${parsed.farms.length} farms with ${fieldCount} fields.`);
+    } catch (error) {
+      setMessage(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleExport = () => {
+    const file = { version: FARM_PROFILES_VERSION, farms };
+    downloadTextFile('farm-profiles.json', JSON.stringify(file, null, 2));
+  };
+
+  return (
+    <div className="form-section farm-profiles">
+      <h3>🚜 Saved Fields</h3>
+      <div className="farm-profiles-row">
+        <select
+          aria-label="Saved field"
+          value={selected ? selected.field.id : ''}
+          onChange={e => handleSelect(e.target.value)}
+        >
+          <option value="">New field</option>
+          {farms.map(farm => (
+            <optgroup key={farm.id} label={farm.name}>
+              {farm.fields.map(field => (
+                <option key={field.id} value={field.id}>
+                  {field.name}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => showOnMap()}
+          disabled={farms.every(farm => farm.fields.length === 0)}
+        >
+          Show all on map
+        </button>
+      </div>
+      <div className="farm-profiles-row">
+        <input
+          type="text"
+          aria-label="Farm name"
+          list="farm-profile-names"
+          placeholder="Farm"
+          value={farmName}
+          onChange={e => setFarmName(e.target.value)}
+        />
+        <datalist id="farm-profile-names">
+          {farms.map(farm => (
+            <option key={farm.id} value={farm.name} />
+          ))}
+        </datalist>
+        <input
+          type="text"
+          aria-label="Field name"
+          placeholder="Field"
+          value={fieldName}
+          onChange={e => setFieldName(e.target.value)}
+        />
+      </div>
+      <div className="farm-profiles-row">
+        <button type="button" onClick={handleSave}>
+          {selected ? 'Update field' : 'Save field'}
+        </button>
+        {selected && (
+          <button type="button" onClick={handleDelete}>
+            Delete
+          </button>
+        )}
+        <label className="farm-profiles-import">
+          Import
+          <input type="file" accept="application/json" onChange={handleImport} />
+        </label>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={farms.length === 0}
+        >
+          Export
+        </button>
+      </div>
+      {message && <p className="farm-profiles-message">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { polygonAreaHa } from '@/lib/geometry';
+import { useMapStore } from '@/lib/state';
+
+/**
+ * Controls for drawing the field boundary on the 3D map. The boundary itself
+ * lives in the map store, where the map renders it and handles clicks.
+ */
+export default function FieldBoundaryEditor() {
+  const {
+    boundary,
+    isDrawingBoundary,
+    selectedVertex,
+    setBoundary,
+    setIsDrawingBoundary,
+    removeVertex,
+  } = useMapStore();
+
+  const hint = !isDrawingBoundary
+    ? null
+    : selectedVertex !== null
+      ? `Click the map to move vertex ${selectedVertex + 1}.`
+      : 'Click the map to add vertices; click a vertex to move it.';
+
+  return (
+    <div className="field-boundary">
+      <div className="field-boundary-actions">
+        <button
+          type="button"
+          onClick={() => setIsDrawingBoundary(!isDrawingBoundary)}
+        >
+          {isDrawingBoundary
+            ? '✔ Finish boundary'
+            : boundary.length > 0
+              ? '✏️ Edit boundary'
+              : '✏️ Draw field boundary'}
+        </button>
+        {isDrawingBoundary && selectedVertex !== null && (
+          <button type="button" onClick={() => removeVertex(selectedVertex)}>
+            Delete vertex {selectedVertex + 1}
+          </button>
+        )}
+        {isDrawingBoundary && selectedVertex === null && boundary.length > 0 && (
+          <button
+            type="button"
+            onClick={() => removeVertex(boundary.length - 1)}
+          >
+            Undo point
+          </button>
+        )}
+        {boundary.length > 0 && (
+          <button type="button" onClick={() => setBoundary([])}>
+            Clear
+          </button>
+        )}
+      </div>
+      {boundary.length > 0 && (
+        <p className="field-boundary-summary">
+          {boundary.length} vertices
+          {boundary.length >= 3 &&
+            ` · ${polygonAreaHa(boundary).toFixed(2)} ha (fills farm size and location)`}
+        </p>
+      )}
+      {hint && <p className="field-boundary-hint">{hint}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import {
+  IRRIGATION_EFFICIENCY,
+  IrrigationMethod,
+  IrrigationPlan,
+  computeIrrigationPlan,
+} from '@/lib/agronomy/evapotranspiration';
+
+interface IrrigationPanelProps {
+  params: AgriculturalParameters;
+  // Crops to choose from, most relevant first.
+  crops: CropProfile[];
+}
+
+/**
+ * Shows the seasonal crop water balance and a weekly irrigation schedule for
+ * a chosen crop, in mm and in m³ for the whole farm.
+ */
+export default function IrrigationPanel({ params, crops }: IrrigationPanelProps) {
+  const [cropId, setCropId] = useState<string | null>(null);
+  const [method, setMethod] = useState<IrrigationMethod>('sprinkler');
+  const crop = crops.find(c => c.id === cropId) ?? crops[0];
+
+  const result = useMemo<{ plan?: IrrigationPlan; error?: string } | null>(() => {
+    if (!crop) return null;
+    try {
+      return { plan: computeIrrigationPlan(crop, params, method) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [crop, params, method]);
+  if (!result) return null;
+
+  const { plan } = result;
+  return (
+    <div className="irrigation-panel">
+      <h3>💧 Irrigation Schedule</h3>
+      <div className="input-group">
+        <div className="input-field">
+          <label htmlFor="irrigation-crop">Crop</label>
+          <select
+            id="irrigation-crop"
+            value={crop.id}
+            onChange={e => setCropId(e.target.value)}
+          >
+            {crops.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="input-field">
+          <label htmlFor="irrigation-method">Method</label>
+          <select
+            id="irrigation-method"
+            value={method}
+            onChange={e => setMethod(e.target.value as IrrigationMethod)}
+          >
+            {(Object.keys(IRRIGATION_EFFICIENCY) as IrrigationMethod[]).map(m => (
+              <option key={m} value={m}>
+                {m} ({Math.round(IRRIGATION_EFFICIENCY[m] * 100)}% efficient)
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {result.error && <p className="irrigation-note">{result.error}</p>}
+      {plan && (
+        <>
+          <p className="irrigation-summary">
+            Planted {plan.plantingDate}, {plan.seasonDays} days · crop ET{' '}
+            {plan.seasonalEtcMm} mm · effective rain {plan.effectiveRainMm} mm ·
+            irrigation <strong>{plan.grossIrrigationMm} mm</strong>
+            {plan.seasonalVolumeM3 !== undefined &&
+              ` (${plan.seasonalVolumeM3.toLocaleString()} m³ for ${plan.farmSizeHa} ha)`}
+            <span className="irrigation-method">
+              {' '}
+              · ET0 by {plan.et0Method === 'penman-monteith' ? 'Penman-Monteith' : 'Hargreaves'}
+            </span>
+          </p>
+          <div className="irrigation-table-wrapper">
+            <table className="irrigation-table">
+              <thead>
+                <tr>
+                  <th>Week</th>
+                  <th>Stage</th>
+                  <th>Kc</th>
+                  <th>ETc (mm)</th>
+                  <th>Rain (mm)</th>
+                  <th>Irrigate (mm)</th>
+                  {plan.farmSizeHa !== undefined && <th>m³</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {plan.weeks.map(week => (
+                  <tr key={week.week}>
+                    <td>
+                      {week.week} · {week.startDate}
+                    </td>
+                    <td>{week.stage}</td>
+                    <td>{week.kc}</td>
+                    <td>{week.etcMm}</td>
+                    <td>{week.effectiveRainMm}</td>
+                    <td>
+                      <strong>{week.irrigationMm}</strong>
+                    </td>
+                    {plan.farmSizeHa !== undefined && <td>{week.volumeM3?.toLocaleString()}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {plan.assumptions.map(note => (
+            <p key={note} className="irrigation-note">
+              {note}
+            </p>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
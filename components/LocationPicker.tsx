@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { LatLng } from '@/lib/farm-profiles';
+import { useMapStore } from '@/lib/state';
+
+interface LocationPickerProps {
+  geocoder: google.maps.Geocoder | null;
+  // Called with each newly picked or located point.
+  onPick: (position: LatLng) => void;
+}
+
+/**
+ * Returns the most useful place name for a point: its locality if there is
+ * one, otherwise the closest administrative area or address.
+ */
+async function reverseGeocodeLocality(
+  geocoder: google.maps.Geocoder,
+  location: LatLng,
+): Promise<string | null> {
+  const { results } = await geocoder.geocode({ location });
+  const result =
+    results.find(r => r.types.includes('locality')) ??
+    results.find(r => r.types.some(t => t.startsWith('administrative_area'))) ??
+    results[0];
+  return result?.formatted_address ?? null;
+}
+
+/**
+ * Sets the farm coordinates by clicking the map or from the browser's
+ * geolocation, and shows the locality of the chosen point.
+ */
+export default function LocationPicker({ geocoder, onPick }: LocationPickerProps) {
+  const {
+    isPickingLocation,
+    isDraggingLocation,
+    pickedLocation,
+    setIsPickingLocation,
+    setPickedLocation,
+    setCameraTarget,
+  } = useMapStore();
+  const [locality, setLocality] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const position = pickedLocation?.position;
+  // The latest props, so the effect below runs only for newly picked points
+  // yet never calls a stale callback or geocoder.
+  const latest = useRef({ geocoder, onPick });
+  latest.current = { geocoder, onPick };
+
+  // Relabelling the marker keeps the same position object, so this only runs
+  // for newly picked points.
+  useEffect(() => {
+    if (!position) return;
+    const { geocoder, onPick } = latest.current;
+    onPick(position);
+    setLocality(null);
+    if (!geocoder) return;
+
+    let cancelled = false;
+    reverseGeocodeLocality(geocoder, position)
+      .then(name => {
+        if (cancelled || !name) return;
+        setLocality(name);
+        setPickedLocation({ position, label: name });
+      })
+      .catch(error => {
+        console.error('Reverse geocoding failed:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [position]);
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      setStatus('Geolocation is not supported by this browser.');
+      return;
+    }
+    setStatus('Getting your location...');
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        const located = { lat: coords.latitude, lng: coords.longitude };
+        setPickedLocation({ position: located, label: 'My location' });
+        setCameraTarget({
+          center: { ...located, altitude: 200 },
+          range: 1500,
+          tilt: 45,
+          heading: 0,
+          roll: 0,
+        });
+        setStatus(`Located to within ${Math.round(coords.accuracy)} m.`);
+      },
+      error => setStatus(`Could not get your location: ${error.message}`),
+      { enableHighAccuracy: true, timeout: 15000 },
+    );
+  };
+
+  return (
+    <div className="location-picker">
+      <div className="location-picker-actions">
+        <button
+          type="button"
+          className={isPickingLocation ? 'active' : undefined}
+          onClick={() => setIsPickingLocation(!isPickingLocation)}
+        >
+          {isPickingLocation ? '✔ Done picking' : '🗺️ Pick on map'}
+        </button>
+        <button type="button" onClick={handleUseMyLocation}>
+          🎯 Use my location
+        </button>
+      </div>
+      {isDraggingLocation ? (
+        <p className="location-picker-hint">
+          Click the map where the farm should go; press Esc to leave it.
+        </p>
+      ) : isPickingLocation && (
+        <p className="location-picker-hint">
+          Click the map to place the farm; click again or drag the marker to
+          move it.
+        </p>
+      )}
+      {locality && <p className="location-picker-locality">📍 {locality}</p>}
+      {status && <p className="location-picker-status">{status}</p>}
+    </div>
+  );
+}
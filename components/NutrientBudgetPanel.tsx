@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import {
+  computeNutrientBudget,
+  defaultTargetYield,
+} from '@/lib/agronomy/nutrient-budget';
+
+interface NutrientBudgetPanelProps {
+  params: AgriculturalParameters;
+  // Crops to choose from, most relevant first.
+  crops: CropProfile[];
+  catalog: CropProfile[];
+}
+
+const NUTRIENT_LABELS = { N: 'N', P2O5: 'P₂O₅', K2O: 'K₂O' };
+
+/**
+ * Shows the fertilizer budget for a chosen crop and target yield: nutrient
+ * requirement, soil supply and credits, and product quantities for the farm.
+ */
+export default function NutrientBudgetPanel({
+  params,
+  crops,
+  catalog,
+}: NutrientBudgetPanelProps) {
+  const [cropId, setCropId] = useState<string | null>(null);
+  const [targetYield, setTargetYield] = useState<number | undefined>(undefined);
+  const crop = crops.find(c => c.id === cropId) ?? crops[0];
+
+  const budget = useMemo(
+    () => crop && computeNutrientBudget(crop, params, targetYield, catalog),
+    [crop, params, targetYield, catalog],
+  );
+  if (!budget) return null;
+
+  const handleCropChange = (id: string) => {
+    setCropId(id);
+    setTargetYield(undefined);
+  };
+
+  return (
+    <div className="nutrient-budget">
+      <h3>🧪 Nutrient Budget</h3>
+      <div className="input-group">
+        <div className="input-field">
+          <label htmlFor="nutrient-budget-crop">Crop</label>
+          <select
+            id="nutrient-budget-crop"
+            value={budget.crop.id}
+            onChange={e => handleCropChange(e.target.value)}
+          >
+            {crops.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="input-field">
+          <label htmlFor="nutrient-budget-yield">
+            Target Yield ({budget.yieldUnit})
+          </label>
+          <input
+            type="number"
+            id="nutrient-budget-yield"
+            value={targetYield ?? ''}
+            onChange={e => setTargetYield(parseFloat(e.target.value) || undefined)}
+            placeholder={`${defaultTargetYield(budget.crop)}`}
+            min="0"
+            step="any"
+          />
+        </div>
+      </div>
+      <table className="nutrient-budget-table">
+        <thead>
+          <tr>
+            <th>kg/ha</th>
+            <th>Crop need</th>
+            <th>Soil supply</th>
+            <th>Prev. crop</th>
+            <th>Apply</th>
+          </tr>
+        </thead>
+        <tbody>
+          {budget.lines.map(line => (
+            <tr key={line.nutrient}>
+              <th>
+                {NUTRIENT_LABELS[line.nutrient]}
+                {line.soilLevel && (
+                  <span className="nutrient-level"> ({line.soilLevel})</span>
+                )}
+              </th>
+              <td>{line.requirement}</td>
+              <td>{line.soilSupply}</td>
+              <td>{line.previousCropCredit || '—'}</td>
+              <td>
+                <strong>{line.recommended}</strong>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {budget.products.length > 0 ? (
+        <table className="nutrient-budget-table">
+          <thead>
+            <tr>
+              <th>Product</th>
+              <th>kg/ha</th>
+              <th>
+                {budget.farmSizeHa ? `Total (${budget.farmSizeHa} ha)` : 'Total'}
+              </th>
+              <th>50 kg bags</th>
+            </tr>
+          </thead>
+          <tbody>
+            {budget.products.map(q => (
+              <tr key={q.product.id}>
+                <th>{q.product.name}</th>
+                <td>{q.kgPerHa}</td>
+                <td>{q.totalKg !== undefined ? `${q.totalKg} kg` : '—'}</td>
+                <td>{q.bags ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="nutrient-budget-note">No fertilizer needed at this yield.</p>
+      )}
+      {!budget.farmSizeHa && (
+        <p className="nutrient-budget-note">
+          Enter the farm size to see totals for the whole farm.
+        </p>
+      )}
+      {budget.warnings.length > 0 && (
+        <ul className="nutrient-budget-warnings">
+          {budget.warnings.map(warning => (
+            <li key={warning}>⚠️ {warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
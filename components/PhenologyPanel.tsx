@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import {
+  PhenologyPrediction,
+  defaultPlantingDate,
+  formatStageDate,
+  predictPhenology,
+} from '@/lib/agronomy/phenology';
+import { DailyTemperature } from '@/lib/agronomy/temperature-series';
+
+interface PhenologyPanelProps {
+  params: AgriculturalParameters;
+  // Crops to choose from, most relevant first.
+  crops: CropProfile[];
+  series: DailyTemperature[] | null;
+}
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = { top: 12, right: 12, bottom: 28, left: 48 };
+
+/**
+ * Cumulative thermal time after planting, with a marker where each growth
+ * stage is reached.
+ */
+function PhenologyChart({ prediction }: { prediction: PhenologyPrediction }) {
+  const { points, stages } = prediction;
+  const lastDay = points[points.length - 1]?.day ?? 1;
+  const maxGdd = Math.max(stages[stages.length - 1].gdd, points[points.length - 1]?.cumulativeGdd ?? 0);
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (day: number) => CHART_PADDING.left + (day / lastDay) * plotWidth;
+  const y = (gdd: number) => CHART_PADDING.top + plotHeight - (gdd / maxGdd) * plotHeight;
+  const line = points.map(p => `${x(p.day).toFixed(1)},${y(p.cumulativeGdd).toFixed(1)}`).join(' ');
+
+  return (
+    <svg
+      className="phenology-chart"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label={`Cumulative growing degree days for ${prediction.crop.name}`}
+    >
+      <line
+        className="phenology-axis"
+        x1={CHART_PADDING.left}
+        y1={y(0)}
+        x2={CHART_WIDTH - CHART_PADDING.right}
+        y2={y(0)}
+      />
+      <line
+        className="phenology-axis"
+        x1={CHART_PADDING.left}
+        y1={CHART_PADDING.top}
+        x2={CHART_PADDING.left}
+        y2={y(0)}
+      />
+      <text className="phenology-label" x={CHART_PADDING.left - 6} y={y(maxGdd) + 4} textAnchor="end">
+        {maxGdd}
+      </text>
+      <text className="phenology-label" x={CHART_PADDING.left - 6} y={y(0)} textAnchor="end">
+        0
+      </text>
+      <text className="phenology-label" x={x(lastDay)} y={CHART_HEIGHT - 8} textAnchor="end">
+        day {lastDay}
+      </text>
+      <polyline className="phenology-line" points={line} />
+      {stages.map(stage => (
+        <g key={stage.name}>
+          <line
+            className="phenology-threshold"
+            x1={CHART_PADDING.left}
+            y1={y(stage.gdd)}
+            x2={CHART_WIDTH - CHART_PADDING.right}
+            y2={y(stage.gdd)}
+          />
+          {stage.daysAfterPlanting !== null && (
+            <>
+              <circle
+                className="phenology-stage"
+                cx={x(stage.daysAfterPlanting)}
+                cy={y(stage.gdd)}
+                r={4}
+              />
+              <text
+                className="phenology-label"
+                x={x(stage.daysAfterPlanting) - 6}
+                y={y(stage.gdd) - 6}
+                textAnchor="end"
+              >
+                {stage.name}
+              </text>
+            </>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Predicts growth stage dates for a chosen crop and planting date from
+ * growing degree days, and charts thermal time through the season.
+ */
+export default function PhenologyPanel({ params, crops, series }: PhenologyPanelProps) {
+  const [cropId, setCropId] = useState<string | null>(null);
+  const [plantingDate, setPlantingDate] = useState<string | null>(null);
+  const crop = crops.find(c => c.id === cropId) ?? crops[0];
+  const date = plantingDate ?? defaultPlantingDate(params, series ?? undefined);
+
+  const result = useMemo<{ prediction?: PhenologyPrediction; error?: string } | null>(() => {
+    if (!crop) return null;
+    try {
+      return {
+        prediction: predictPhenology(crop, params, {
+          plantingDate: date,
+          series: series ?? undefined,
+        }),
+      };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [crop, params, date, series]);
+  if (!result) return null;
+
+  const { prediction } = result;
+  return (
+    <div className="phenology-panel">
+      <h3>🌱 Growth Stages</h3>
+      <div className="input-group">
+        <div className="input-field">
+          <label htmlFor="phenology-crop">Crop</label>
+          <select
+            id="phenology-crop"
+            value={crop.id}
+            onChange={e => setCropId(e.target.value)}
+          >
+            {crops.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="input-field">
+          <label htmlFor="phenology-planting-date">Planting Date</label>
+          <input
+            type="date"
+            id="phenology-planting-date"
+            value={date}
+            onChange={e => setPlantingDate(e.target.value || null)}
+          />
+        </div>
+      </div>
+      {result.error && <p className="phenology-note">{result.error}</p>}
+      {prediction && (
+        <>
+          <p className="phenology-summary">
+            Base {prediction.baseC} °C, cap {prediction.upperC} °C ·{' '}
+            {prediction.source === 'series' ? 'imported daily temperatures' : 'average temperature'}
+            {prediction.maturityDate && (
+              <>
+                {' '}
+                · ready <strong>{formatStageDate(prediction.maturityDate)}</strong>
+              </>
+            )}
+          </p>
+          <PhenologyChart prediction={prediction} />
+          <table className="phenology-table">
+            <thead>
+              <tr>
+                <th>Stage</th>
+                <th>GDD</th>
+                <th>Date</th>
+                <th>Day</th>
+              </tr>
+            </thead>
+            <tbody>
+              {prediction.stages.map(stage => (
+                <tr key={stage.name}>
+                  <td>{stage.name}</td>
+                  <td>{stage.gdd}</td>
+                  <td>{stage.date ? formatStageDate(stage.date) : 'not reached'}</td>
+                  <td>{stage.daysAfterPlanting ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {prediction.assumptions.map(note => (
+            <p key={note} className="phenology-note">
+              {note}
+            </p>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
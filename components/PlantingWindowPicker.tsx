@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { KoppenCode } from '@/lib/agronomy/koppen';
+import {
+  MONTH_NAMES,
+  describePlantingMonths,
+  suggestPlantingWindows,
+} from '@/lib/agronomy/planting-window';
+
+interface PlantingWindowPickerProps {
+  latitude: number;
+  climate: AgriculturalParameters['climate'];
+  koppenCode?: KoppenCode;
+  months: number[];
+  onChange: (months: number[]) => void;
+}
+
+/**
+ * Chooses the target planting months, either from the typical windows at the
+ * location (local seasons, or wet/dry seasons in the tropics) or month by
+ * month.
+ */
+export default function PlantingWindowPicker({
+  latitude,
+  climate,
+  koppenCode,
+  months,
+  onChange,
+}: PlantingWindowPickerProps) {
+  // Without coordinates, assume the northern hemisphere.
+  const lat = Number.isFinite(latitude) ? latitude : 0;
+  const windows = useMemo(
+    () => suggestPlantingWindows(lat, climate, koppenCode),
+    [lat, climate, koppenCode],
+  );
+
+  const sameMonths = (a: number[], b: number[]) =>
+    a.length === b.length && a.every(m => b.includes(m));
+
+  const toggleMonth = (month: number) => {
+    const next = months.includes(month)
+      ? months.filter(m => m !== month)
+      : [...months, month];
+    // Keep at least one month selected.
+    if (next.length > 0) onChange(next);
+  };
+
+  return (
+    <div className="planting-window">
+      <div className="planting-window-presets">
+        {windows.map(window => (
+          <button
+            key={window.label}
+            type="button"
+            className={sameMonths(window.months, months) ? 'active' : undefined}
+            onClick={() => onChange(window.months)}
+          >
+            {window.label}
+          </button>
+        ))}
+      </div>
+      <div className="planting-window-months" role="group" aria-label="Planting months">
+        {MONTH_NAMES.map((name, i) => (
+          <button
+            key={name}
+            type="button"
+            aria-pressed={months.includes(i + 1)}
+            className={months.includes(i + 1) ? 'active' : undefined}
+            onClick={() => toggleMonth(i + 1)}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+      <p className="planting-window-summary">
+        {describePlantingMonths(months, lat, climate, koppenCode)}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
+import c from 'classnames';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { useMapStore } from '@/lib/state';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import {
+  SUITABILITY_CLASS_LABELS,
+  SuitabilityClass,
+  rankCrops,
+} from '@/lib/agronomy/suitability';
+import {
+  REGION_SIZES_KM,
+  RegionSurvey,
+  SUITABILITY_COLORS,
+  SURVEY_RESOLUTIONS,
+  SoilSample,
+  describeRegionSurvey,
+  parseSoilLayerCsv,
+  squareRegion,
+  surveyRegion,
+} from '@/lib/agronomy/regional-suitability';
+
+interface RegionSurveyPanelProps {
+  params: AgriculturalParameters;
+  catalog: CropProfile[];
+  elevationLib: google.maps.ElevationLibrary | null;
+}
+
+/**
+ * Scores one crop over a grid of points in a region drawn on the map, or
+ * around the farm, and colors the map by suitability. Clicking a cell on
+ * the map shows its inputs and factor breakdown.
+ */
+export default function RegionSurveyPanel({ params, catalog, elevationLib }: RegionSurveyPanelProps) {
+  const {
+    boundary,
+    surveyRegion: region,
+    isDrawingRegion,
+    regionAnchor,
+    selectedSurveyCell,
+    setSurveyRegion,
+    setIsDrawingRegion,
+    setSurveyOverlay,
+  } = useMapStore();
+  const topCropId = useMemo(() => rankCrops(params, catalog)[0]?.crop.id, [params, catalog]);
+  const [cropId, setCropId] = useState<string | null>(null);
+  const crop = catalog.find(c => c.id === (cropId ?? topCropId)) ?? catalog[0];
+  const [sizeKm, setSizeKm] = useState(REGION_SIZES_KM[1]);
+  const [targetCells, setTargetCells] = useState(SURVEY_RESOLUTIONS[1].cells);
+  const [soilLayer, setSoilLayer] = useState<{ name: string; samples: SoilSample[] } | null>(null);
+  const [survey, setSurvey] = useState<RegionSurvey | null>(null);
+  const [isSurveying, setIsSurveying] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // A survey of another region no longer applies; mounting changes nothing.
+  const shownRegion = useRef(region);
+  useEffect(() => {
+    if (shownRegion.current === region) return;
+    shownRegion.current = region;
+    setSurvey(null);
+    setSurveyOverlay([]);
+  }, [region, setSurveyOverlay]);
+
+  const hasLocation = Number.isFinite(params.latitude) && Number.isFinite(params.longitude);
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setSoilLayer({ name: file.name, samples: parseSoilLayerCsv(await file.text()) });
+      setMessage(null);
+    } catch (error) {
+      setMessage(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleSurvey = async () => {
+    if (!elevationLib || !crop || region.length < 3) return;
+    const surveyed = region;
+    setIsSurveying(true);
+    setMessage(null);
+    try {
+      const result = await surveyRegion(
+        surveyed,
+        crop,
+        params,
+        new elevationLib.ElevationService(),
+        soilLayer?.samples,
+        targetCells,
+      );
+      // The region was redrawn while it was sampled.
+      if (useMapStore.getState().surveyRegion !== surveyed) return;
+      setSurvey(result);
+      setSurveyOverlay(
+        result.cells.map(cell => ({
+          polygon: cell.polygon,
+          fillColor: SUITABILITY_COLORS[cell.suitability.suitabilityClass],
+        })),
+      );
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setIsSurveying(false);
+    }
+  };
+
+  const selected = survey && selectedSurveyCell !== null ? survey.cells[selectedSurveyCell] : null;
+  const hint = !isDrawingRegion
+    ? null
+    : regionAnchor
+      ? 'Click the opposite corner of the region.'
+      : 'Click one corner of the region on the map.';
+
+  return (
+    <div className="region-survey-panel">
+      <h3>🗺️ Regional Suitability Survey</h3>
+      <div className="farm-profiles-row">
+        <button type="button" onClick={() => setIsDrawingRegion(!isDrawingRegion)}>
+          {isDrawingRegion ? 'Cancel drawing' : '✏️ Draw region'}
+        </button>
+        <select
+          aria-label="Region size"
+          value={sizeKm}
+          onChange={e => setSizeKm(parseFloat(e.target.value))}
+        >
+          {REGION_SIZES_KM.map(size => (
+            <option key={size} value={size}>
+              {size} × {size} km
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={!hasLocation}
+          onClick={() =>
+            setSurveyRegion(squareRegion({ lat: params.latitude, lng: params.longitude }, sizeKm))
+          }
+        >
+          Around the farm
+        </button>
+        {boundary.length >= 3 && (
+          <button type="button" onClick={() => setSurveyRegion(boundary)}>
+            Field boundary
+          </button>
+        )}
+        {region.length > 0 && (
+          <button type="button" onClick={() => setSurveyRegion([])}>
+            Clear
+          </button>
+        )}
+      </div>
+      {hint && <p className="region-survey-hint">{hint}</p>}
+
+      <div className="input-group">
+        <div className="input-field">
+          <label htmlFor="region-survey-crop">Crop</label>
+          <select
+            id="region-survey-crop"
+            value={crop?.id}
+            onChange={e => setCropId(e.target.value)}
+          >
+            {catalog.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="input-field">
+          <label htmlFor="region-survey-resolution">Resolution</label>
+          <select
+            id="region-survey-resolution"
+            value={targetCells}
+            onChange={e => setTargetCells(parseInt(e.target.value, 10))}
+          >
+            {SURVEY_RESOLUTIONS.map(resolution => (
+              <option key={resolution.cells} value={resolution.cells}>
+                {resolution.label} (~{resolution.cells} cells)
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="farm-profiles-row">
+        <label className="farm-profiles-import">
+          Import soil layer CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleImport} />
+        </label>
+        {soilLayer && (
+          <>
+            <span className="region-survey-note">
+              {soilLayer.name}: {soilLayer.samples.length} samples
+            </span>
+            <button type="button" onClick={() => setSoilLayer(null)}>
+              Remove
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          disabled={!elevationLib || region.length < 3 || isSurveying}
+          onClick={handleSurvey}
+        >
+          {isSurveying ? 'Surveying…' : 'Survey region'}
+        </button>
+      </div>
+      {region.length < 3 && !isDrawingRegion && (
+        <p className="region-survey-note">Draw a region or choose one to survey.</p>
+      )}
+      {message && <p className="region-survey-note terrain-error">{message}</p>}
+
+      {survey && (
+        <>
+          <ul className="terrain-legend">
+            {(Object.keys(SUITABILITY_CLASS_LABELS) as SuitabilityClass[]).map(suitabilityClass => (
+              <li key={suitabilityClass}>
+                <span
+                  className="terrain-swatch"
+                  style={{ background: SUITABILITY_COLORS[suitabilityClass] }}
+                />
+                {SUITABILITY_CLASS_LABELS[suitabilityClass]} {survey.classSharesPct[suitabilityClass]}%
+              </li>
+            ))}
+          </ul>
+          <p className="region-survey-note">{describeRegionSurvey(survey)}.</p>
+          {survey.notes.map(note => (
+            <p key={note} className="region-survey-note">
+              {note}
+            </p>
+          ))}
+          {selected ? (
+            <div className="region-survey-cell">
+              <h4>
+                {survey.crop.name} at {selected.center.lat.toFixed(4)},{' '}
+                {selected.center.lng.toFixed(4)}: {selected.suitability.score}/100{' '}
+                <span className={c('suitability-class', selected.suitability.suitabilityClass)}>
+                  {selected.suitability.suitabilityClass}
+                </span>
+              </h4>
+              <p className="region-survey-note">
+                {selected.elevationM} m, slope {selected.slopePct}%, Köppen {selected.koppen.code} (
+                {selected.koppen.description}),{' '}
+                {selected.params.temperature !== undefined
+                  ? `${selected.params.temperature} °C, `
+                  : ''}
+                {selected.params.soilType} soil
+                {selected.soilSample ? ' from the soil layer' : " (the farm's)"}
+                {selected.params.soilTest?.ph !== undefined && `, pH ${selected.params.soilTest.ph}`}
+              </p>
+              <ul className="suitability-factors">
+                {selected.suitability.factors.map(f => (
+                  <li
+                    key={f.factor}
+                    className={c({ limiting: f.factor === selected.suitability.limitingFactor })}
+                  >
+                    <strong>
+                      {f.factor} {Math.round(f.score * 100)}%
+                    </strong>{' '}
+                    {f.explanation}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="region-survey-note">Click a cell on the map for its breakdown.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
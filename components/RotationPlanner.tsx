@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import {
+  CropHistoryEntry,
+  MAX_ROTATION_YEARS,
+  MIN_ROTATION_YEARS,
+  RotationPlan,
+  planRotation,
+} from '@/lib/agronomy/rotation';
+import { selectCropCatalog, useCropCatalogStore } from '@/lib/state';
+
+interface RotationPlannerProps {
+  params: AgriculturalParameters;
+  // The field's crop history, owned by the form so it can be saved with the
+  // field profile.
+  history: CropHistoryEntry[];
+  onHistoryChange: (history: CropHistoryEntry[]) => void;
+}
+
+/**
+ * Collects a field's crop history and shows a proposed multi-year rotation
+ * as a season-by-season timeline.
+ */
+export default function RotationPlanner({
+  params,
+  history,
+  onHistoryChange: setHistory,
+}: RotationPlannerProps) {
+  const catalog = useCropCatalogStore(selectCropCatalog);
+  const lastYear = new Date().getFullYear() - 1;
+  const [isOpen, setIsOpen] = useState(false);
+  const [years, setYears] = useState(4);
+  const [plan, setPlan] = useState<RotationPlan | null>(null);
+
+  const updateEntry = (index: number, update: Partial<CropHistoryEntry>) => {
+    setHistory(
+      history.map((entry, i) => (i === index ? { ...entry, ...update } : entry)),
+    );
+  };
+
+  const addEntry = () => {
+    const earliest = history.reduce(
+      (min, entry) => Math.min(min, entry.year),
+      lastYear + 1,
+    );
+    setHistory([...history, { year: earliest - 1, crop: '' }]);
+  };
+
+  const handleToggle = () => {
+    // Start the history from the form's previous crop, if one was entered.
+    if (!isOpen && history.length === 0 && params.previousCrop) {
+      setHistory([{ year: lastYear, crop: params.previousCrop }]);
+    }
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="form-section rotation-planner">
+      <button type="button" className="toggle-optional" onClick={handleToggle}>
+        {isOpen ? '▼' : '▶'} 🔄 Crop Rotation Planner
+      </button>
+      {isOpen && (
+        <>
+          <h4>Field crop history</h4>
+          {history.map((entry, index) => (
+            <div className="input-group rotation-history-row" key={index}>
+              <div className="input-field">
+                <input
+                  type="number"
+                  aria-label="Year"
+                  value={entry.year}
+                  onChange={e =>
+                    updateEntry(index, { year: parseInt(e.target.value, 10) || lastYear })
+                  }
+                />
+              </div>
+              <div className="input-field rotation-crop-field">
+                <input
+                  type="text"
+                  aria-label="Crop"
+                  list="rotation-crop-options"
+                  value={entry.crop}
+                  placeholder="e.g., Wheat"
+                  onChange={e => updateEntry(index, { crop: e.target.value })}
+                />
+                <button
+                  type="button"
+                  aria-label="Remove season"
+                  onClick={() => setHistory(history.filter((_, i) => i !== index))}
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+          ))}
+          <datalist id="rotation-crop-options">
+            {catalog.map(crop => (
+              <option key={crop.id} value={crop.name} />
+            ))}
+          </datalist>
+          <div className="rotation-controls">
+            <button type="button" onClick={addEntry}>
+              + Add season
+            </button>
+            <label>
+              Plan length
+              <select
+                value={years}
+                onChange={e => setYears(parseInt(e.target.value, 10))}
+              >
+                {Array.from(
+                  { length: MAX_ROTATION_YEARS - MIN_ROTATION_YEARS + 1 },
+                  (_, i) => MIN_ROTATION_YEARS + i,
+                ).map(n => (
+                  <option key={n} value={n}>
+                    {n} years
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={() => setPlan(planRotation(params, history, years, catalog))}
+            >
+              Plan rotation
+            </button>
+          </div>
+
+          {plan && (
+            <>
+              {plan.historyWarnings.length > 0 && (
+                <ul className="rotation-warnings">
+                  {plan.historyWarnings.map(warning => (
+                    <li key={warning}>⚠️ {warning}</li>
+                  ))}
+                </ul>
+              )}
+              <ol className="rotation-timeline">
+                {plan.seasons.map(season => (
+                  <li key={season.year}>
+                    <div className="rotation-year">
+                      {season.year}
+                      <span>{season.crop.plantingSeasons[0]}-sown</span>
+                    </div>
+                    <div className="rotation-crop">
+                      <strong>{season.crop.name}</strong>
+                      <span className="rotation-family">{season.crop.family}</span>
+                      {season.notes.map(note => (
+                        <p key={note}>{note}</p>
+                      ))}
+                      {season.warnings.map(warning => (
+                        <p key={warning} className="rotation-warning">
+                          ⚠️ {warning}
+                        </p>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
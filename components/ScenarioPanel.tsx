@@ -0,0 +1,355 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import c from 'classnames';
+import {
+  AgriculturalParameters,
+  fetchAgriculturalRecommendations,
+} from '@/lib/maps-grounding';
+import { Scenario, newProfileId } from '@/lib/farm-profiles';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import { CropRecommendationReport } from '@/lib/agronomy/crop-report';
+import { formatMoney } from '@/lib/agronomy/economics';
+import {
+  ScenarioCell,
+  ScenarioMetric,
+  compareScenarios,
+  runScenarioOffline,
+  scenarioComparisonToCsv,
+} from '@/lib/agronomy/scenarios';
+import { useEconomicsStore } from '@/lib/state';
+import { downloadTextFile } from '@/lib/utils';
+
+interface ScenarioPanelProps {
+  // The form's current parameters, copied into new scenarios.
+  params: AgriculturalParameters;
+  scenarios: Scenario[];
+  onScenariosChange: (scenarios: Scenario[]) => void;
+  catalog: CropProfile[];
+  // Whether a saved field is loaded, so the scenarios can be saved with it.
+  fieldSelected: boolean;
+}
+
+type AiRun =
+  | { status: 'running' }
+  | { status: 'done'; report: CropRecommendationReport | null }
+  | { status: 'failed'; error: string };
+
+const SOIL_TYPES: AgriculturalParameters['soilType'][] = [
+  'clay',
+  'sandy',
+  'loamy',
+  'silt',
+  'peat',
+];
+
+const parseOptional = (text: string) => {
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+function ChangeMark({ cell, metric }: { cell: ScenarioCell; metric: ScenarioMetric }) {
+  const change = cell.changes[metric];
+  if (!change) return null;
+  return <span className="scenario-change">{change === 'higher' ? ' ▲' : ' ▼'}</span>;
+}
+
+/**
+ * Keeps named what-if parameter sets for the field and compares their
+ * ranking, yields, water needs and margins side by side, optionally asking
+ * the AI about every scenario at once.
+ */
+export default function ScenarioPanel({
+  params,
+  scenarios,
+  onScenariosChange,
+  catalog,
+  fieldSelected,
+}: ScenarioPanelProps) {
+  const prices = useEconomicsStore(state => state.prices);
+  const [name, setName] = useState('');
+  const [aiRuns, setAiRuns] = useState<Record<string, AiRun>>({});
+  // The scenarios as they are now, for AI answers that arrive after an edit.
+  const scenariosRef = useRef(scenarios);
+  scenariosRef.current = scenarios;
+
+  const comparison = useMemo(() => {
+    if (scenarios.length === 0) return null;
+    const runs = scenarios.map(scenario => {
+      const run = runScenarioOffline(scenario, catalog);
+      const ai = aiRuns[scenario.id];
+      return ai?.status === 'done' ? { ...run, report: ai.report } : run;
+    });
+    return compareScenarios(runs, prices, catalog);
+  }, [scenarios, aiRuns, prices, catalog]);
+
+  const handleAdd = () => {
+    const label = name.trim() || (scenarios.length === 0 ? 'Baseline' : `Scenario ${scenarios.length + 1}`);
+    onScenariosChange([...scenarios, { id: newProfileId(), name: label, params }]);
+    setName('');
+  };
+
+  const updateScenario = (id: string, update: Partial<Scenario>) => {
+    onScenariosChange(scenarios.map(s => (s.id === id ? { ...s, ...update } : s)));
+    // Parameters changed, so an earlier AI answer no longer applies.
+    if (update.params) {
+      setAiRuns(({ [id]: _, ...rest }) => rest);
+    }
+  };
+
+  const updateParams = (scenario: Scenario, update: Partial<AgriculturalParameters>) =>
+    updateScenario(scenario.id, { params: { ...scenario.params, ...update } });
+
+  const handleRemove = (id: string) => {
+    onScenariosChange(scenarios.filter(s => s.id !== id));
+    setAiRuns(({ [id]: _, ...rest }) => rest);
+  };
+
+  const handleAskAi = async () => {
+    const requested = scenarios;
+    setAiRuns(Object.fromEntries(requested.map(s => [s.id, { status: 'running' }])));
+    const results = await Promise.allSettled(
+      requested.map(s => fetchAgriculturalRecommendations(s.params)),
+    );
+    // Answers for scenarios removed or edited in the meantime are dropped.
+    const answers = results.flatMap((result, index): [string, AiRun][] => {
+      const { id, params: asked } = requested[index];
+      if (scenariosRef.current.find(s => s.id === id)?.params !== asked) return [];
+      return [[
+        id,
+        result.status === 'fulfilled'
+          ? { status: 'done', report: result.value.report }
+          : { status: 'failed', error: String(result.reason) },
+      ]];
+    });
+    setAiRuns(runs => ({ ...runs, ...Object.fromEntries(answers) }));
+  };
+
+  const handleExportCsv = () => {
+    if (!comparison) return;
+    downloadTextFile('scenario-comparison.csv', scenarioComparisonToCsv(comparison), 'text/csv');
+  };
+
+  const handleExportJson = () => {
+    const file = {
+      scenarios,
+      comparison: comparison?.rows.map(row => ({
+        crop: row.crop.name,
+        cells: row.cells.map((cell, index) => ({ scenario: scenarios[index].name, ...cell })),
+      })),
+    };
+    downloadTextFile('scenarios.json', JSON.stringify(file, null, 2));
+  };
+
+  const running = Object.values(aiRuns).some(run => run.status === 'running');
+  const money = (amount: number) => formatMoney(amount, prices.currency);
+
+  return (
+    <div className="scenario-panel">
+      <h3>🔀 Scenarios</h3>
+      <div className="farm-profiles-row">
+        <input
+          type="text"
+          aria-label="Scenario name"
+          placeholder={scenarios.length === 0 ? 'Baseline' : 'e.g. With irrigation'}
+          value={name}
+          onChange={e => setName(e.target.value)}
+        />
+        <button type="button" onClick={handleAdd}>
+          Add current parameters
+        </button>
+      </div>
+
+      {scenarios.length > 0 && (
+        <table className="scenario-table">
+          <thead>
+            <tr>
+              <th>Scenario</th>
+              <th>Soil</th>
+              <th>Irrigation</th>
+              <th>Rainfall (mm)</th>
+              <th>Temp. (°C)</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {scenarios.map((scenario, index) => (
+              <tr key={scenario.id}>
+                <td>
+                  <input
+                    type="text"
+                    aria-label="Scenario name"
+                    value={scenario.name}
+                    onChange={e => updateScenario(scenario.id, { name: e.target.value })}
+                    onBlur={() => {
+                      if (!scenario.name.trim()) {
+                        updateScenario(scenario.id, { name: `Scenario ${index + 1}` });
+                      }
+                    }}
+                  />
+                  {index === 0 && <span className="scenario-baseline"> baseline</span>}
+                </td>
+                <td>
+                  <select
+                    aria-label={`${scenario.name} soil type`}
+                    value={scenario.params.soilType}
+                    onChange={e =>
+                      updateParams(scenario, {
+                        soilType: e.target.value as AgriculturalParameters['soilType'],
+                        // A lab texture belongs to the original soil.
+                        soilTexture: undefined,
+                        textureClass: undefined,
+                      })
+                    }
+                  >
+                    {SOIL_TYPES.map(soilType => (
+                      <option key={soilType} value={soilType}>
+                        {soilType}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <input
+                    type="checkbox"
+                    aria-label={`${scenario.name} irrigation`}
+                    checked={Boolean(scenario.params.irrigationAvailable)}
+                    onChange={e =>
+                      updateParams(scenario, { irrigationAvailable: e.target.checked })
+                    }
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    aria-label={`${scenario.name} rainfall`}
+                    value={scenario.params.rainfall ?? ''}
+                    min="0"
+                    onChange={e =>
+                      updateParams(scenario, { rainfall: parseOptional(e.target.value) })
+                    }
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    aria-label={`${scenario.name} temperature`}
+                    value={scenario.params.temperature ?? ''}
+                    onChange={e =>
+                      updateParams(scenario, { temperature: parseOptional(e.target.value) })
+                    }
+                  />
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    aria-label={`Remove ${scenario.name}`}
+                    onClick={() => handleRemove(scenario.id)}
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {comparison && comparison.rows.length > 0 && (
+        <>
+          <div className="scenario-table-wrapper">
+            <table className="scenario-table scenario-comparison">
+              <thead>
+                <tr>
+                  <th>Crop</th>
+                  {comparison.scenarios.map((scenario, index) => {
+                    const ai = aiRuns[scenario.id];
+                    return (
+                      <th key={scenario.id}>
+                        {scenario.name}
+                        <span className="scenario-source">
+                          {ai?.status === 'running'
+                            ? 'asking AI…'
+                            : ai?.status === 'failed'
+                              ? 'AI failed, offline'
+                              : comparison.fromAi[index]
+                                ? 'AI'
+                                : 'offline'}
+                        </span>
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.rows.map(row => (
+                  <tr key={row.crop.id}>
+                    <td>{row.crop.name}</td>
+                    {row.cells.map((cell, index) => (
+                      <td
+                        key={comparison.scenarios[index].id}
+                        className={c({
+                          changed: Object.values(cell.changes).some(Boolean),
+                        })}
+                      >
+                        <div className={c({ changed: cell.changes.rank })}>
+                          {cell.rank !== null ? `#${cell.rank}` : 'not ranked'} · {cell.score}
+                          <ChangeMark cell={cell} metric="rank" />
+                        </div>
+                        <div className={c({ changed: cell.changes.yield })}>
+                          {cell.yieldPerHa} {row.crop.yieldRange.unit}
+                          <ChangeMark cell={cell} metric="yield" />
+                        </div>
+                        <div className={c({ changed: cell.changes.water || cell.changes.irrigation })}>
+                          {cell.waterMm !== null ? `${cell.waterMm} mm` : '—'}
+                          {cell.irrigationMm !== null && ` (irr. ${cell.irrigationMm})`}
+                          <ChangeMark
+                            cell={cell}
+                            metric={cell.changes.irrigation ? 'irrigation' : 'water'}
+                          />
+                        </div>
+                        <div className={c({ changed: cell.changes.margin })}>
+                          {money(cell.marginPerHa)}/ha
+                          <ChangeMark cell={cell} metric="margin" />
+                        </div>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="scenario-note">
+            Each cell shows rank · suitability, yield, crop water use (net
+            irrigation) and gross margin. Highlighted values differ from the
+            baseline.
+          </p>
+        </>
+      )}
+
+      {scenarios.length > 0 && (
+        <div className="farm-profiles-row">
+          <button type="button" onClick={handleAskAi} disabled={running}>
+            {running ? 'Asking AI…' : 'Ask AI for all scenarios'}
+          </button>
+          <button type="button" onClick={handleExportCsv} disabled={!comparison}>
+            Export CSV
+          </button>
+          <button type="button" onClick={handleExportJson}>
+            Export JSON
+          </button>
+        </div>
+      )}
+      {scenarios.length > 0 && (
+        <p className="scenario-note">
+          {fieldSelected
+            ? 'Scenarios are saved with the field when you update it.'
+            : 'Save the field to keep its scenarios.'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import c from 'classnames';
+import {
+  AgriculturalParameters,
+  fetchAgriculturalRecommendations,
+} from '@/lib/maps-grounding';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import {
+  IrrigationSweep,
+  MARGINAL_LEAD,
+  SweepAxis,
+  SweepCell,
+  SweepConfig,
+  SweepResult,
+  defaultSweepConfig,
+  describeFlips,
+  runSensitivitySweep,
+} from '@/lib/agronomy/sensitivity';
+import { useEconomicsStore } from '@/lib/state';
+
+interface SensitivityPanelProps {
+  params: AgriculturalParameters;
+  catalog: CropProfile[];
+}
+
+// Cells the AI may be asked about at once, to keep the cost down.
+const MAX_AI_CELLS = 3;
+
+const PALETTE = [
+  '#4caf50',
+  '#daa520',
+  '#2196f3',
+  '#e91e63',
+  '#9c27b0',
+  '#ff5722',
+  '#00bcd4',
+  '#8bc34a',
+  '#795548',
+  '#607d8b',
+  '#ffeb3b',
+  '#3f51b5',
+];
+const OTHER_COLOR = '#9e9e9e';
+
+type AiAnswer =
+  | { status: 'running' }
+  | { status: 'done'; crops: string[] }
+  | { status: 'failed'; error: string };
+
+const cellKey = (cell: SweepCell) =>
+  `${cell.irrigationAvailable ? 'irrigated' : 'rainfed'}:${cell.rainfall}:${cell.temperature}`;
+
+function AxisInputs({
+  id,
+  label,
+  axis,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  axis: SweepAxis;
+  onChange: (axis: SweepAxis) => void;
+}) {
+  const update = (key: keyof SweepAxis, text: string) => {
+    const value = parseFloat(text);
+    if (Number.isFinite(value)) onChange({ ...axis, [key]: value });
+  };
+  return (
+    <div className="input-field">
+      <label htmlFor={`${id}-min`}>{label}</label>
+      <div className="sensitivity-axis">
+        <input
+          type="number"
+          id={`${id}-min`}
+          aria-label={`${label} minimum`}
+          value={axis.min}
+          onChange={e => update('min', e.target.value)}
+        />
+        <span>to</span>
+        <input
+          type="number"
+          aria-label={`${label} maximum`}
+          value={axis.max}
+          onChange={e => update('max', e.target.value)}
+        />
+        <span>in</span>
+        <input
+          type="number"
+          aria-label={`${label} steps`}
+          value={axis.steps}
+          min="2"
+          step="1"
+          onChange={e => update('steps', e.target.value)}
+        />
+        <span>steps</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Sweeps rainfall and temperature with the offline model and maps the
+ * winning crop of every combination, so users can see where the
+ * recommendation flips. Selected cells can be checked with the AI.
+ */
+export default function SensitivityPanel({ params, catalog }: SensitivityPanelProps) {
+  const prices = useEconomicsStore(state => state.prices);
+  const [config, setConfig] = useState<SweepConfig>(() => defaultSweepConfig(params));
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<SweepCell[]>([]);
+  const [answers, setAnswers] = useState<Record<string, AiAnswer>>({});
+  // The sweep on screen, for AI answers that arrive after a rerun.
+  const resultRef = useRef(result);
+  resultRef.current = result;
+
+  const handleRun = () => {
+    try {
+      setResult(runSensitivitySweep(params, config, catalog, prices));
+      setError(null);
+    } catch (e) {
+      setResult(null);
+      setError((e as Error).message);
+    }
+    setSelected([]);
+    setAnswers({});
+  };
+
+  const toggleCell = (cell: SweepCell) => {
+    const key = cellKey(cell);
+    setSelected(previous =>
+      previous.some(s => cellKey(s) === key)
+        ? previous.filter(s => cellKey(s) !== key)
+        : previous.length < MAX_AI_CELLS
+          ? [...previous, cell]
+          : previous,
+    );
+  };
+
+  const handleAskAi = async () => {
+    const sweep = result;
+    if (!sweep) return;
+    const pending = selected.filter(cell => answers[cellKey(cell)]?.status !== 'done');
+    setAnswers(previous => ({
+      ...previous,
+      ...Object.fromEntries(pending.map(cell => [cellKey(cell), { status: 'running' }])),
+    }));
+    const results = await Promise.allSettled(
+      pending.map(cell =>
+        fetchAgriculturalRecommendations({
+          ...sweep.params,
+          rainfall: cell.rainfall,
+          temperature: cell.temperature,
+          irrigationAvailable: cell.irrigationAvailable,
+          weather: undefined,
+        }),
+      ),
+    );
+    // Answers for a sweep that has since been rerun are dropped.
+    if (resultRef.current !== sweep) return;
+    setAnswers(previous => ({
+      ...previous,
+      ...Object.fromEntries(
+        results.map((r, index) => [
+          cellKey(pending[index]),
+          r.status === 'fulfilled'
+            ? { status: 'done', crops: (r.value.report?.crops ?? []).map(crop => crop.crop) }
+            : { status: 'failed', error: String(r.reason) },
+        ]),
+      ),
+    }));
+  };
+
+  const colors = new Map(
+    (result?.winners ?? []).map((w, index) => [w.crop.id, PALETTE[index] ?? OTHER_COLOR]),
+  );
+  const running = Object.values(answers).some(a => a.status === 'running');
+
+  return (
+    <div className="sensitivity-panel">
+      <h3>🌡️ Sensitivity Sweep</h3>
+      <div className="input-group">
+        <AxisInputs
+          id="sweep-rainfall"
+          label="Rainfall (mm)"
+          axis={config.rainfall}
+          onChange={rainfall => setConfig({ ...config, rainfall })}
+        />
+        <AxisInputs
+          id="sweep-temperature"
+          label="Temperature (°C)"
+          axis={config.temperature}
+          onChange={temperature => setConfig({ ...config, temperature })}
+        />
+        <div className="input-field">
+          <label htmlFor="sweep-irrigation">Irrigation</label>
+          <select
+            id="sweep-irrigation"
+            value={config.irrigation}
+            onChange={e =>
+              setConfig({ ...config, irrigation: e.target.value as IrrigationSweep })
+            }
+          >
+            <option value="as-entered">As entered</option>
+            <option value="both">Rain-fed and irrigated</option>
+          </select>
+        </div>
+      </div>
+      <div className="farm-profiles-row">
+        <button type="button" onClick={handleRun}>
+          Run sweep
+        </button>
+        <button type="button" onClick={() => setConfig(defaultSweepConfig(params))}>
+          Center on entered values
+        </button>
+      </div>
+      {error && <p className="sensitivity-note">{error}</p>}
+
+      {result && (
+        <>
+          <div className="sensitivity-layers">
+            {result.layers.map(layer => (
+              <div key={String(layer.irrigationAvailable)} className="sensitivity-layer">
+                <h4>{layer.irrigationAvailable ? 'Irrigated' : 'Rain-fed'}</h4>
+                <div
+                  className="sensitivity-grid"
+                  style={{
+                    gridTemplateColumns: `auto repeat(${result.rainfallValues.length}, 1fr)`,
+                  }}
+                >
+                  {[...layer.cells].reverse().map(row => (
+                    <React.Fragment key={row[0].temperature}>
+                      <span className="sensitivity-axis-label">{row[0].temperature}°</span>
+                      {row.map(cell => {
+                        const key = cellKey(cell);
+                        const isSelected = selected.some(s => cellKey(s) === key);
+                        const runnerUp = cell.runnerUp
+                          ? `; next ${cell.runnerUp.name} (${cell.score - cell.lead})`
+                          : '';
+                        const ties = cell.tiedWith.length
+                          ? `; tied with ${cell.tiedWith.map(t => t.name).join(', ')}`
+                          : '';
+                        return (
+                          <button
+                            type="button"
+                            key={key}
+                            className={c('sensitivity-cell', {
+                              marginal: cell.lead < MARGINAL_LEAD,
+                              selected: isSelected,
+                            })}
+                            style={{ background: colors.get(cell.winner.id) }}
+                            title={`${cell.rainfall} mm, ${cell.temperature} °C: ${cell.winner.name} (${cell.score})${ties}${runnerUp}`}
+                            aria-pressed={isSelected}
+                            onClick={() => toggleCell(cell)}
+                          />
+                        );
+                      })}
+                    </React.Fragment>
+                  ))}
+                  <span />
+                  {result.rainfallValues.map((rainfall, index) => (
+                    <span key={rainfall} className="sensitivity-axis-label">
+                      {index % 2 === 0 ? rainfall : ''}
+                    </span>
+                  ))}
+                </div>
+                <ul className="sensitivity-note">
+                  {describeFlips(result, layer, result.params).map(flip => (
+                    <li key={flip}>{flip}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+          <div className="sensitivity-legend">
+            {result.winners.map(({ crop, cells }) => (
+              <span key={crop.id}>
+                <span
+                  className="sensitivity-swatch"
+                  style={{ background: colors.get(crop.id) }}
+                />
+                {crop.name} ({cells})
+              </span>
+            ))}
+          </div>
+          <p className="sensitivity-note">
+            Rainfall (mm) across, temperature (°C) up. Faded cells are won by
+            fewer than {MARGINAL_LEAD} suitability points. Select up to{' '}
+            {MAX_AI_CELLS} cells to check them with the AI.
+          </p>
+
+          {selected.length > 0 && (
+            <>
+              <ul className="sensitivity-ai">
+                {selected.map(cell => {
+                  const answer = answers[cellKey(cell)];
+                  return (
+                    <li key={cellKey(cell)}>
+                      <strong>
+                        {cell.rainfall} mm, {cell.temperature} °C
+                        {cell.irrigationAvailable ? ', irrigated' : ''}
+                      </strong>
+                      : offline {cell.winner.name}
+                      {answer?.status === 'running' && ' · asking AI…'}
+                      {answer?.status === 'done' &&
+                        ` · AI ${answer.crops.length ? answer.crops.slice(0, 3).join(', ') : 'returned no structured report'}`}
+                      {answer?.status === 'failed' && ' · AI request failed'}
+                    </li>
+                  );
+                })}
+              </ul>
+              <button type="button" onClick={handleAskAi} disabled={running}>
+                {running ? 'Asking AI…' : 'Ask AI for selected cells'}
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
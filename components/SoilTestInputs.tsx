@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { SoilTest } from '@/lib/maps-grounding';
+
+interface SoilTestInputsProps {
+  value: SoilTest | undefined;
+  // Called with undefined once every value has been cleared.
+  onChange: (soilTest: SoilTest | undefined) => void;
+}
+
+const SOIL_TEST_FIELDS: {
+  key: keyof SoilTest;
+  label: string;
+  placeholder: string;
+  step: string;
+}[] = [
+  { key: 'ph', label: 'pH', placeholder: 'e.g., 6.5', step: '0.1' },
+  { key: 'organicMatterPct', label: 'Organic Matter (%)', placeholder: 'e.g., 2.5', step: '0.1' },
+  { key: 'nitrogenPpm', label: 'Nitrate-N (ppm)', placeholder: 'e.g., 10', step: 'any' },
+  { key: 'phosphorusPpm', label: 'Olsen P (ppm)', placeholder: 'e.g., 15', step: 'any' },
+  { key: 'potassiumPpm', label: 'Exchangeable K (ppm)', placeholder: 'e.g., 150', step: 'any' },
+  { key: 'ecDsM', label: 'EC (dS/m)', placeholder: 'e.g., 0.8', step: '0.1' },
+  { key: 'cecCmolKg', label: 'CEC (cmol/kg)', placeholder: 'e.g., 15', step: 'any' },
+];
+
+/**
+ * Optional laboratory soil test values, used for the pH suitability factor
+ * and the fertilizer nutrient budget.
+ */
+export default function SoilTestInputs({ value, onChange }: SoilTestInputsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const filled = SOIL_TEST_FIELDS.filter(f => value?.[f.key] !== undefined).length;
+
+  const handleChange = (key: keyof SoilTest, text: string) => {
+    const number = parseFloat(text);
+    const next = { ...value, [key]: Number.isFinite(number) ? number : undefined };
+    const hasValues = Object.values(next).some(v => v !== undefined);
+    onChange(hasValues ? next : undefined);
+  };
+
+  return (
+    <div className="form-section soil-test">
+      <button
+        type="button"
+        className="toggle-optional"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {isOpen ? '▼' : '▶'} 🧪 Soil Test{filled > 0 ? ` (${filled} values)` : ''}
+      </button>
+      {isOpen && (
+        <div className="input-group">
+          {SOIL_TEST_FIELDS.map(field => (
+            <div className="input-field" key={field.key}>
+              <label htmlFor={`soil-test-${field.key}`}>{field.label}</label>
+              <input
+                type="number"
+                id={`soil-test-${field.key}`}
+                value={value?.[field.key] ?? ''}
+                onChange={e => handleChange(field.key, e.target.value)}
+                placeholder={field.placeholder}
+                min="0"
+                step={field.step}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import {
+  SoilTexture,
+  TEXTURE_CLASS_LABELS,
+  TEXTURE_TO_SOIL_TYPE,
+  classifyTexture,
+  validateTexture,
+} from '@/lib/agronomy/soil-texture';
+
+interface SoilTextureInputsProps {
+  // As entered; blank fractions are NaN.
+  value: SoilTexture | undefined;
+  onChange: (texture: SoilTexture | undefined) => void;
+}
+
+const FRACTIONS: (keyof SoilTexture)[] = ['sand', 'silt', 'clay'];
+
+/**
+ * Sand, silt and clay percentages from a lab report, with the USDA texture
+ * class and soil type they classify as.
+ */
+export default function SoilTextureInputs({ value, onChange }: SoilTextureInputsProps) {
+  const complete = value && FRACTIONS.every(f => Number.isFinite(value[f]));
+  const error = complete ? validateTexture(value) : null;
+  const textureClass = complete && !error ? classifyTexture(value) : null;
+
+  const handleChange = (fraction: keyof SoilTexture, text: string) => {
+    const next = {
+      sand: NaN,
+      silt: NaN,
+      clay: NaN,
+      ...value,
+      [fraction]: parseFloat(text),
+    };
+    onChange(FRACTIONS.some(f => Number.isFinite(next[f])) ? next : undefined);
+  };
+
+  return (
+    <div className="input-field soil-texture">
+      <label>Soil Texture (%)</label>
+      <div className="soil-texture-inputs">
+        {FRACTIONS.map(fraction => (
+          <input
+            key={fraction}
+            type="number"
+            aria-label={`${fraction} %`}
+            value={value && Number.isFinite(value[fraction]) ? value[fraction] : ''}
+            onChange={e => handleChange(fraction, e.target.value)}
+            placeholder={fraction}
+            min="0"
+            max="100"
+            step="any"
+          />
+        ))}
+      </div>
+      {textureClass && (
+        <p className="soil-texture-result">
+          USDA texture: {TEXTURE_CLASS_LABELS[textureClass]} (soil type{' '}
+          {TEXTURE_TO_SOIL_TYPE[textureClass]})
+        </p>
+      )}
+      {error && <p className="soil-texture-error">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import c from 'classnames';
+import {
+  CropSuitability,
+  SUITABILITY_CLASS_LABELS,
+  SuitabilityDisagreement,
+} from '@/lib/agronomy/suitability';
+
+interface SuitabilityPanelProps {
+  ranking: CropSuitability[];
+  disagreements?: SuitabilityDisagreement[];
+  title?: string;
+}
+
+const DEFAULT_VISIBLE = 5;
+
+/**
+ * Shows the offline suitability ranking with per-factor explanations, and
+ * flags crops where the AI answer and the offline engine disagree.
+ */
+export default function SuitabilityPanel({
+  ranking,
+  disagreements = [],
+  title = 'Offline Suitability',
+}: SuitabilityPanelProps) {
+  const [showAll, setShowAll] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const visible = showAll ? ranking : ranking.slice(0, DEFAULT_VISIBLE);
+
+  return (
+    <div className="suitability-panel">
+      <h3>🧮 {title}</h3>
+      {disagreements.length > 0 && (
+        <ul className="suitability-disagreements">
+          {disagreements.map(d => (
+            <li key={`${d.kind}-${d.crop}`} className={d.kind}>
+              ⚠️ {d.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <ol className="suitability-list">
+        {visible.map(result => (
+          <li key={result.crop.id}>
+            <button
+              type="button"
+              className="suitability-row"
+              onClick={() =>
+                setExpanded(expanded === result.crop.id ? null : result.crop.id)
+              }
+            >
+              <span className="suitability-name">{result.crop.name}</span>
+              <span className="suitability-bar">
+                <span
+                  className={c('suitability-fill', result.suitabilityClass)}
+                  style={{ width: `${result.score}%` }}
+                />
+              </span>
+              <span className="suitability-score">{result.score}</span>
+              <span
+                className={c('suitability-class', result.suitabilityClass)}
+                title={SUITABILITY_CLASS_LABELS[result.suitabilityClass]}
+              >
+                {result.suitabilityClass}
+              </span>
+            </button>
+            {expanded === result.crop.id && (
+              <ul className="suitability-factors">
+                {result.factors.map(f => (
+                  <li
+                    key={f.factor}
+                    className={c({ limiting: f.factor === result.limitingFactor })}
+                  >
+                    <strong>
+                      {f.factor} {Math.round(f.score * 100)}%
+                    </strong>{' '}
+                    {f.explanation}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+      {ranking.length > DEFAULT_VISIBLE && (
+        <button
+          type="button"
+          className="suitability-more"
+          onClick={() => setShowAll(!showAll)}
+        >
+          {showAll ? 'Show top crops only' : `Show all ${ranking.length} crops`}
+        </button>
+      )}
+    </div>
+  );
+}
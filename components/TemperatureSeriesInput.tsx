@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { ChangeEvent, useState } from 'react';
+import {
+  DailyTemperature,
+  describeSeries,
+  parseDailyTemperatureCsv,
+} from '@/lib/agronomy/temperature-series';
+
+interface TemperatureSeriesInputProps {
+  series: DailyTemperature[] | null;
+  onChange: (series: DailyTemperature[] | null) => void;
+}
+
+/**
+ * Imports a daily temperature CSV (date, tmin, tmax) from a weather station,
+ * used instead of the average temperature for growth stage predictions.
+ */
+export default function TemperatureSeriesInput({
+  series,
+  onChange,
+}: TemperatureSeriesInputProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseDailyTemperatureCsv(await file.text()));
+      setError(null);
+    } catch (error) {
+      setError(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="input-field temperature-series">
+      <label htmlFor="temperature-series">Daily Temperatures (CSV)</label>
+      {series ? (
+        <p className="temperature-series-status">
+          {describeSeries(series)}{' '}
+          <button
+            type="button"
+            aria-label="Remove temperature series"
+            onClick={() => onChange(null)}
+          >
+            ×
+          </button>
+        </p>
+      ) : (
+        <input
+          type="file"
+          id="temperature-series"
+          accept=".csv,text/csv"
+          onChange={handleImport}
+        />
+      )}
+      {error && <p className="temperature-series-error">{error}</p>}
+    </div>
+  );
+}
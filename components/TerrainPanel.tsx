@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { useMapStore } from '@/lib/state';
+import {
+  TERRAIN_RISK_COLORS,
+  TERRAIN_RISK_LABELS,
+  TerrainRiskClass,
+  TerrainSummary,
+  describeTerrain,
+  sampleTerrain,
+  terrainAdvice,
+} from '@/lib/agronomy/terrain';
+
+interface TerrainPanelProps {
+  elevationLib: google.maps.ElevationLibrary | null;
+  // The analysis of the current boundary, if any.
+  terrain?: TerrainSummary;
+  onChange: (terrain: TerrainSummary | undefined) => void;
+}
+
+/**
+ * Samples elevations over the drawn field boundary and shows its slope,
+ * aspect and erosion or waterlogging risk, with the risk cells colored on
+ * the map.
+ */
+export default function TerrainPanel({ elevationLib, terrain, onChange }: TerrainPanelProps) {
+  const boundary = useMapStore(state => state.boundary);
+  const setTerrainOverlay = useMapStore(state => state.setTerrainOverlay);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (boundary.length < 3) return null;
+
+  const handleAnalyze = async () => {
+    if (!elevationLib) return;
+    const sampled = boundary;
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      const analysis = await sampleTerrain(sampled, new elevationLib.ElevationService());
+      // The boundary was edited or cleared while it was sampled.
+      if (useMapStore.getState().boundary !== sampled) return;
+      onChange(analysis.summary);
+      setTerrainOverlay(
+        analysis.cells.map(cell => ({
+          polygon: cell.polygon,
+          fillColor: TERRAIN_RISK_COLORS[cell.risk],
+        })),
+      );
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleClear = () => {
+    onChange(undefined);
+    setTerrainOverlay([]);
+  };
+
+  return (
+    <div className="terrain-panel">
+      <div className="field-boundary-actions">
+        <button type="button" onClick={handleAnalyze} disabled={!elevationLib || isAnalyzing}>
+          {isAnalyzing ? 'Sampling elevations…' : terrain ? '⛰️ Re-analyze terrain' : '⛰️ Analyze terrain'}
+        </button>
+        {terrain && (
+          <button type="button" onClick={handleClear}>
+            Clear terrain
+          </button>
+        )}
+      </div>
+      {error && <p className="terrain-note terrain-error">{error}</p>}
+      {terrain && (
+        <>
+          <p className="terrain-note">
+            Terrain ({terrain.cells} samples, {terrain.cellSizeM} m apart): {describeTerrain(terrain)}.
+          </p>
+          <ul className="terrain-legend">
+            {(Object.keys(TERRAIN_RISK_LABELS) as TerrainRiskClass[]).map(risk => (
+              <li key={risk}>
+                <span
+                  className="terrain-swatch"
+                  style={{ background: TERRAIN_RISK_COLORS[risk] }}
+                />
+                {TERRAIN_RISK_LABELS[risk]} {terrain.riskSharesPct[risk]}%
+              </li>
+            ))}
+          </ul>
+          {terrainAdvice(terrain).map(advice => (
+            <p key={advice} className="terrain-note">
+              {advice}
+            </p>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
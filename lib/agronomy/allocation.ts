@@ -0,0 +1,364 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Whole-farm crop allocation.
+ *
+ * Splits the farm's hectares across candidate crops to maximize total gross
+ * margin, as a linear program: each crop's hectares are a variable, and land,
+ * irrigation water, labor hours and operating budget are shared resources.
+ * Rotation rules cap the area of each crop family at one field in its return
+ * interval (a family that should come back every 4 years gets at most a
+ * quarter of the land) and keep crops that should not follow the previous
+ * crop off the field that grew it. Shadow prices tell what one more unit of a binding resource
+ * would add to the margin.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { solveLinearProgram } from '@/lib/linear-program';
+import { round } from '@/lib/utils';
+import { CROP_CATALOG, CropProfile, findCatalogCrop } from './crop-catalog';
+import { PriceTable, computeCropEconomics, formatMoney } from './economics';
+import { computeIrrigationPlan } from './evapotranspiration';
+import { FAMILY_RETURN_YEARS, carryOverWarnings } from './rotation';
+
+// Field labor in hours per hectare and season, keyed by catalog crop id.
+// Mechanized grains need little; hand-harvested and vegetable crops a lot.
+const LABOR_HOURS_PER_HA: Record<string, number> = {
+  maize: 20,
+  wheat: 12,
+  rice: 60,
+  soybean: 12,
+  sorghum: 20,
+  'pearl-millet': 40,
+  barley: 12,
+  potato: 120,
+  cassava: 150,
+  groundnut: 80,
+  cotton: 60,
+  sugarcane: 150,
+  chickpea: 30,
+  lentil: 30,
+  sunflower: 15,
+  canola: 12,
+  tomato: 600,
+  oats: 12,
+  'common-bean': 50,
+  'sweet-potato': 150,
+};
+const DEFAULT_LABOR_HOURS_PER_HA = 40;
+
+export interface ResourceLimits {
+  areaHa: number;
+  // Irrigation water available for the season, in m³.
+  waterM3?: number;
+  laborHours?: number;
+  // Operating capital for variable costs, in the price table's currency.
+  budget?: number;
+  // Largest share of the area a single crop may take, 0-1.
+  maxCropShare?: number;
+  // Area of the field that grew the previous crop; the whole area if unknown.
+  previousCropHa?: number;
+}
+
+export interface AllocationCandidate {
+  crop: CropProfile;
+  marginPerHa: number;
+  costPerHa: number;
+  waterM3PerHa: number;
+  laborHoursPerHa: number;
+  // Why the crop may not be planted on the previous crop's field.
+  previousCropConflict?: string;
+  // Pest and disease carry-over from the previous crop.
+  warnings: string[];
+}
+
+export type AllocationConstraintKind =
+  | 'area'
+  | 'water'
+  | 'labor'
+  | 'budget'
+  | 'crop-share'
+  | 'family-share'
+  | 'previous-crop';
+
+export interface AllocationConstraint {
+  kind: AllocationConstraintKind;
+  label: string;
+  unit: string;
+  used: number;
+  available: number;
+  // Gross margin gained per extra unit of the resource; zero when slack.
+  shadowPrice: number;
+  binding: boolean;
+}
+
+export interface CropAllocation {
+  crop: CropProfile;
+  hectares: number;
+  share: number;
+  grossMargin: number;
+}
+
+export interface AllocationPlan {
+  currency: string;
+  allocations: CropAllocation[];
+  // Land left unplanted because no crop pays for the scarce resources.
+  unusedHa: number;
+  grossMargin: number;
+  constraints: AllocationConstraint[];
+  excluded: { crop: CropProfile; reason: string }[];
+  notes: string[];
+}
+
+/**
+ * Builds the per-hectare margin, costs and resource use of each crop, and
+ * flags crops that should not follow the field's previous crop.
+ */
+export function allocationCandidates(
+  crops: CropProfile[],
+  params: AgriculturalParameters,
+  prices: PriceTable,
+  catalog: CropProfile[] = CROP_CATALOG,
+): AllocationCandidate[] {
+  const previous = params.previousCrop
+    ? findCatalogCrop(params.previousCrop, catalog)
+    : undefined;
+  const year = new Date().getFullYear();
+  return crops.map(crop => {
+    const economics = computeCropEconomics(crop, params, prices, undefined, catalog);
+    let waterM3PerHa = 0;
+    if (params.irrigationAvailable) {
+      try {
+        waterM3PerHa = computeIrrigationPlan(crop, params).grossIrrigationMm * 10;
+      } catch {
+        // Without a temperature the water need is unknown; see the plan notes.
+      }
+    }
+
+    let previousCropConflict: string | undefined;
+    if (previous?.id === crop.id) {
+      previousCropConflict = `Same crop as last season (${previous.name}).`;
+    } else if (previous && previous.family === crop.family && FAMILY_RETURN_YEARS[crop.family] > 1) {
+      previousCropConflict = `${crop.family} crops should be ${FAMILY_RETURN_YEARS[crop.family]}+ years apart (last: ${previous.name}).`;
+    }
+
+    return {
+      crop,
+      marginPerHa: economics.grossMarginPerHa,
+      costPerHa: economics.variableCostPerHa,
+      waterM3PerHa: round(waterM3PerHa),
+      laborHoursPerHa: LABOR_HOURS_PER_HA[crop.id] ?? DEFAULT_LABOR_HOURS_PER_HA,
+      previousCropConflict,
+      warnings: previous ? carryOverWarnings([{ year: year - 1, crop: previous }], crop, year) : [],
+    };
+  });
+}
+
+/**
+ * Finds the crop mix with the highest total gross margin within the
+ * resource limits and rotation rules.
+ * @throws Error if the area is not positive.
+ */
+export function optimizeAllocation(
+  candidates: AllocationCandidate[],
+  limits: ResourceLimits,
+  currency: string,
+): AllocationPlan {
+  if (!(limits.areaHa > 0)) {
+    throw new Error('Enter the farm area to allocate.');
+  }
+  const notes: string[] = [];
+  // Crops that should not follow the previous crop may only use the other
+  // fields, and are excluded when there are none.
+  const otherFieldsHa = round(Math.max(limits.areaHa - (limits.previousCropHa ?? limits.areaHa), 0), 2);
+  const excluded = otherFieldsHa > 0
+    ? []
+    : candidates
+        .filter(c => c.previousCropConflict)
+        .map(c => ({ crop: c.crop, reason: c.previousCropConflict as string }));
+  const crops = otherFieldsHa > 0 ? candidates : candidates.filter(c => !c.previousCropConflict);
+
+  type Row = Omit<AllocationConstraint, 'used' | 'shadowPrice' | 'binding'> & {
+    coefficients: number[];
+  };
+  const rows: Row[] = [
+    {
+      kind: 'area',
+      label: 'Land',
+      unit: 'ha',
+      available: limits.areaHa,
+      coefficients: crops.map(() => 1),
+    },
+  ];
+  if (limits.waterM3 !== undefined) {
+    if (crops.some(c => c.waterM3PerHa > 0)) {
+      rows.push({
+        kind: 'water',
+        label: 'Irrigation water',
+        unit: 'm³',
+        available: limits.waterM3,
+        coefficients: crops.map(c => c.waterM3PerHa),
+      });
+    } else {
+      notes.push('The water limit is not used: no crop needs irrigation water, or it cannot be estimated without a temperature.');
+    }
+  }
+  if (limits.laborHours !== undefined) {
+    rows.push({
+      kind: 'labor',
+      label: 'Labor',
+      unit: 'h',
+      available: limits.laborHours,
+      coefficients: crops.map(c => c.laborHoursPerHa),
+    });
+  }
+  if (limits.budget !== undefined) {
+    rows.push({
+      kind: 'budget',
+      label: 'Operating budget',
+      unit: currency,
+      available: limits.budget,
+      coefficients: crops.map(c => c.costPerHa),
+    });
+  }
+
+  const families = [...new Set(crops.map(c => c.crop.family))];
+  for (const family of families) {
+    const returnYears = FAMILY_RETURN_YEARS[family];
+    if (returnYears <= 1) continue;
+    rows.push({
+      kind: 'family-share',
+      label: `${family} (1 in ${returnYears} years)`,
+      unit: 'ha',
+      available: round(limits.areaHa / returnYears, 2),
+      coefficients: crops.map(c => (c.crop.family === family ? 1 : 0)),
+    });
+  }
+  if (crops.some(c => c.previousCropConflict)) {
+    rows.push({
+      kind: 'previous-crop',
+      label: "Fields other than the previous crop's",
+      unit: 'ha',
+      available: otherFieldsHa,
+      coefficients: crops.map(c => (c.previousCropConflict ? 1 : 0)),
+    });
+  }
+  if (limits.maxCropShare !== undefined && limits.maxCropShare < 1) {
+    crops.forEach((candidate, index) => {
+      rows.push({
+        kind: 'crop-share',
+        label: `${candidate.crop.name} (max ${Math.round((limits.maxCropShare as number) * 100)}%)`,
+        unit: 'ha',
+        available: round(limits.areaHa * (limits.maxCropShare as number), 2),
+        coefficients: crops.map((_, j) => (j === index ? 1 : 0)),
+      });
+    });
+  }
+
+  const solution = solveLinearProgram({
+    objective: crops.map(c => c.marginPerHa),
+    constraints: rows.map(row => ({ coefficients: row.coefficients, bound: row.available })),
+  });
+  // Every crop uses land, so the area row keeps the program bounded.
+  if (solution.status !== 'optimal') {
+    throw new Error('The allocation problem is unbounded.');
+  }
+
+  const allocations = crops
+    .map((candidate, index) => {
+      const hectares = round(solution.x[index], 2);
+      return {
+        crop: candidate.crop,
+        hectares,
+        share: round(hectares / limits.areaHa, 3),
+        grossMargin: round(hectares * candidate.marginPerHa),
+      };
+    })
+    .filter(a => a.hectares > 0)
+    .sort((a, b) => b.hectares - a.hectares);
+
+  const constraints = rows.map(({ coefficients, ...row }, index) => {
+    const slack = solution.slacks[index];
+    const shadowPrice = solution.shadowPrices[index];
+    return {
+      ...row,
+      used: round(row.available - slack, 2),
+      shadowPrice: round(shadowPrice, 2),
+      binding: slack <= 1e-6 && shadowPrice > 1e-6,
+    };
+  });
+
+  if (crops.length > 0 && crops.every(c => c.marginPerHa <= 0)) {
+    notes.push('No candidate crop has a positive gross margin at the current prices.');
+  }
+  for (const allocation of allocations) {
+    const candidate = crops.find(c => c.crop.id === allocation.crop.id);
+    if (candidate?.previousCropConflict) {
+      notes.push(`${allocation.crop.name}: ${candidate.previousCropConflict} Plant it on the other fields.`);
+    }
+    notes.push(...(candidate?.warnings ?? []).map(w => `${allocation.crop.name}: ${w}`));
+  }
+  const unusedHa = round(limits.areaHa - allocations.reduce((sum, a) => sum + a.hectares, 0), 2);
+  if (unusedHa > 0) {
+    notes.push(`${unusedHa} ha stay unplanted: the binding limits make further crops unprofitable.`);
+  }
+
+  return {
+    currency,
+    allocations,
+    unusedHa,
+    grossMargin: round(solution.objective),
+    constraints,
+    excluded,
+    notes,
+  };
+}
+
+/**
+ * Explains what one more unit of a binding constraint is worth.
+ */
+export function explainShadowPrice(
+  constraint: AllocationConstraint,
+  currency: string,
+): string {
+  if (!constraint.binding) {
+    return `${constraint.label} is not limiting: ${round(constraint.available - constraint.used, 2)} ${constraint.unit} unused.`;
+  }
+  const worth = formatMoney(constraint.shadowPrice, currency);
+  switch (constraint.kind) {
+    case 'area':
+      return `Land is binding: one more hectare would add ${worth} of margin.`;
+    case 'water':
+      return `Water is binding: each extra m³ would add ${worth}.`;
+    case 'labor':
+      return `Labor is binding: each extra hour would add ${worth}.`;
+    case 'budget':
+      return `The budget is binding: each extra ${currency} 1 would return ${worth}.`;
+    case 'previous-crop':
+      return `The previous crop's field is binding: one more hectare of other fields would add ${worth}.`;
+    default:
+      return `The ${constraint.label} rotation limit is binding: one more hectare would add ${worth}.`;
+  }
+}
+
+/**
+ * Summarizes an allocation plan as plain text, for tool responses.
+ */
+export function summarizeAllocation(plan: AllocationPlan): string {
+  const money = (amount: number) => formatMoney(amount, plan.currency);
+  const lines = plan.allocations.map(
+    a => `${a.crop.name}: ${a.hectares} ha (${Math.round(a.share * 100)}%), gross margin ${money(a.grossMargin)}`,
+  );
+  if (plan.unusedHa > 0) lines.push(`Unplanted: ${plan.unusedHa} ha`);
+  lines.push(`Total gross margin: ${money(plan.grossMargin)}`);
+  for (const constraint of plan.constraints.filter(c => c.binding)) {
+    lines.push(explainShadowPrice(constraint, plan.currency));
+  }
+  for (const { crop, reason } of plan.excluded) {
+    lines.push(`Excluded ${crop.name}: ${reason}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Climate change projections for long-term planning.
+ *
+ * A projection horizon shifts the baseline temperature and rainfall, either
+ * by a warming preset or by a downscaled projection imported from CSV, and
+ * the offline suitability model is rerun for every horizon. Preset rainfall
+ * changes follow the "dry gets drier, wet gets wetter" pattern of the
+ * climate zone and can be edited; imported files may give absolute values
+ * or changes.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { parseCsvNumber, readCsvRows, round } from '@/lib/utils';
+import { CROP_CATALOG, CropProfile } from './crop-catalog';
+import { CropSuitability, rankCrops } from './suitability';
+
+export interface ProjectionHorizon {
+  label: string;
+  year: number;
+  // Emissions pathway of an imported projection, e.g. "SSP2-4.5".
+  scenario?: string;
+  // Either a change from the baseline or an absolute value.
+  temperatureDeltaC?: number;
+  temperatureC?: number;
+  rainfallChangePct?: number;
+  rainfallMm?: number;
+}
+
+export interface WarmingPreset {
+  id: string;
+  label: string;
+  // Warming above the present day reached by the last horizon year.
+  warmingC: number;
+}
+
+export const WARMING_PRESETS: WarmingPreset[] = [
+  { id: 'low', label: '+1.5 °C', warmingC: 1.5 },
+  { id: 'medium', label: '+2 °C', warmingC: 2 },
+  { id: 'high', label: '+3 °C', warmingC: 3 },
+];
+
+export const PROJECTION_YEARS = [2040, 2060];
+
+// Share of the end-of-period warming already reached in 2040.
+const WARMING_SHARE_BY_YEAR: Record<number, number> = { 2040: 0.6, 2060: 1 };
+
+// Annual rainfall change per °C of warming, in percent, by climate zone.
+const RAINFALL_CHANGE_PCT_PER_C: Record<AgriculturalParameters['climate'], number> = {
+  tropical: 1,
+  arid: -4,
+  temperate: -2,
+  continental: 2,
+  polar: 5,
+};
+
+// Score change, in suitability points, that counts as gaining or losing.
+const TREND_THRESHOLD = 5;
+
+export interface HorizonResult {
+  horizon: ProjectionHorizon;
+  params: AgriculturalParameters;
+  ranking: CropSuitability[];
+}
+
+export interface CropTrend {
+  crop: CropProfile;
+  // The emissions pathway followed; trends never mix pathways.
+  scenario?: string;
+  baselineScore: number;
+  // Score at each horizon of the pathway, in year order.
+  scores: number[];
+  // From the baseline to the pathway's last horizon.
+  change: number;
+  trend: 'gains' | 'loses' | 'stable';
+}
+
+export interface ProjectionResult {
+  baseline: CropSuitability[];
+  horizons: HorizonResult[];
+  // Every crop under every pathway, largest gain first.
+  trends: CropTrend[];
+  assumptions: string[];
+}
+
+/**
+ * Horizons for a warming preset, with rainfall changes typical of the
+ * farm's climate zone.
+ */
+export function presetHorizons(
+  preset: WarmingPreset,
+  params: AgriculturalParameters,
+): ProjectionHorizon[] {
+  return PROJECTION_YEARS.map(year => {
+    const temperatureDeltaC = round(preset.warmingC * WARMING_SHARE_BY_YEAR[year], 1);
+    return {
+      label: `${year} (${preset.label})`,
+      year,
+      temperatureDeltaC,
+      rainfallChangePct: round(temperatureDeltaC * RAINFALL_CHANGE_PCT_PER_C[params.climate]),
+    };
+  });
+}
+
+/**
+ * The baseline parameters under a projection horizon.
+ * @throws Error when the horizon gives changes but the baseline has no
+ * temperature or rainfall to apply them to.
+ */
+export function applyProjection(
+  params: AgriculturalParameters,
+  horizon: ProjectionHorizon,
+): AgriculturalParameters {
+  let temperature = horizon.temperatureC ?? params.temperature;
+  if (horizon.temperatureC === undefined && horizon.temperatureDeltaC !== undefined) {
+    if (params.temperature === undefined) {
+      throw new Error(`${horizon.label}: enter a baseline temperature to apply a change of ${horizon.temperatureDeltaC} °C.`);
+    }
+    temperature = round(params.temperature + horizon.temperatureDeltaC, 1);
+  }
+  let rainfall = horizon.rainfallMm ?? params.rainfall;
+  if (horizon.rainfallMm === undefined && horizon.rainfallChangePct !== undefined) {
+    if (params.rainfall === undefined) {
+      throw new Error(`${horizon.label}: enter a baseline rainfall to apply a change of ${horizon.rainfallChangePct}%.`);
+    }
+    rainfall = Math.max(0, Math.round(params.rainfall * (1 + horizon.rainfallChangePct / 100)));
+  }
+  // Station weather describes the present, not the projected climate.
+  return { ...params, temperature, rainfall, weather: undefined };
+}
+
+/**
+ * Reruns the offline ranking for each horizon and finds the crops that gain
+ * or lose suitability by the last one. Each emissions pathway of an imported
+ * projection gets its own trends.
+ * @throws Error when a horizon cannot be applied to the baseline.
+ */
+export function projectSuitability(
+  params: AgriculturalParameters,
+  horizons: ProjectionHorizon[],
+  catalog: CropProfile[] = CROP_CATALOG,
+): ProjectionResult {
+  const baseline = rankCrops(params, catalog);
+  const sorted = [...horizons].sort((a, b) => a.year - b.year);
+  const results = sorted.map(horizon => {
+    const projected = applyProjection(params, horizon);
+    return { horizon, params: projected, ranking: rankCrops(projected, catalog) };
+  });
+
+  const scenarios = [...new Set(results.map(result => result.horizon.scenario))];
+  const trends = scenarios.flatMap(scenario => {
+    const pathway = results.filter(result => result.horizon.scenario === scenario);
+    return baseline.map(({ crop, score }): CropTrend => {
+      const scores = pathway.map(
+        result => result.ranking.find(r => r.crop.id === crop.id)?.score ?? 0,
+      );
+      const change = (scores[scores.length - 1] ?? score) - score;
+      const trend: CropTrend['trend'] =
+        change >= TREND_THRESHOLD ? 'gains' : change <= -TREND_THRESHOLD ? 'loses' : 'stable';
+      return { crop, scenario, baselineScore: score, scores, change, trend };
+    });
+  });
+
+  return {
+    baseline,
+    horizons: results,
+    trends: trends.sort((a, b) => b.change - a.change),
+    assumptions: [
+      'Soil, season and the climate zone stay as entered; strong warming may shift the zone itself.',
+      'Averages only: changes in extremes, frost dates and rainfall timing are not modelled.',
+    ],
+  };
+}
+
+const YEAR_COLUMN = /^(year|horizon|period)/i;
+const SCENARIO_COLUMN = /(scenario|ssp|rcp|pathway)/i;
+const CHANGE_WORDS = /(delta|change|anomaly|diff|Δ)/i;
+const TEMPERATURE_COLUMN = /(^t$|^t[_ (]|_t$|^tas|temp)/i;
+const RAINFALL_COLUMN = /(rain|precip|^pr$|^pr[_ (])/i;
+
+// A year, or the middle of a period such as "2041-2060".
+function parseYear(text: string): number | null {
+  const period = text.match(/(\d{4})\s*[-–]\s*(\d{4})/);
+  if (period) return Math.round((Number(period[1]) + Number(period[2])) / 2);
+  const year = text.match(/\d{4}/);
+  return year ? Number(year[0]) : null;
+}
+
+/**
+ * Parses downscaled projections for the site. Needs a year (or period)
+ * column and temperature and/or rainfall columns, either absolute
+ * ("tas", "precip_mm") or changes ("delta_t", "precip_change_pct"). Rows for
+ * the same scenario and year, e.g. from several climate models, are averaged.
+ * Semicolon- or tab-separated files may use decimal commas.
+ * @throws Error naming the first invalid row when the file cannot be read.
+ */
+export function parseProjectionCsv(text: string): ProjectionHorizon[] {
+  const [headerRow, ...rows] = readCsvRows(text);
+  if (!rows.length) {
+    throw new Error('Projection file needs a header row and at least one horizon.');
+  }
+  const header = headerRow.cells;
+  const find = (test: (h: string) => boolean) => header.findIndex(test);
+  const yearIndex = find(h => YEAR_COLUMN.test(h));
+  const scenarioIndex = find(h => SCENARIO_COLUMN.test(h));
+  const temperatureDeltaIndex = find(h => TEMPERATURE_COLUMN.test(h) && CHANGE_WORDS.test(h));
+  const temperatureIndex = find(h => TEMPERATURE_COLUMN.test(h) && !CHANGE_WORDS.test(h));
+  const rainfallChangeIndex = find(
+    h => RAINFALL_COLUMN.test(h) && (CHANGE_WORDS.test(h) || /%|pct|percent/i.test(h)),
+  );
+  const rainfallIndex = find(
+    h => RAINFALL_COLUMN.test(h) && !CHANGE_WORDS.test(h) && !/%|pct|percent/i.test(h),
+  );
+  if (yearIndex === -1) {
+    throw new Error('Projection file has no year or period column.');
+  }
+  if ([temperatureDeltaIndex, temperatureIndex, rainfallChangeIndex, rainfallIndex].every(i => i === -1)) {
+    throw new Error('Projection file needs temperature or rainfall columns.');
+  }
+
+  const groups = new Map<string, { horizon: ProjectionHorizon; sums: Record<string, number[]> }>();
+  rows.forEach(({ cells, row: rowNumber }) => {
+    if (cells.length !== header.length) {
+      throw new Error(`Row ${rowNumber}: ${cells.length} cells, but the header has ${header.length}.`);
+    }
+    const year = parseYear(cells[yearIndex] ?? '');
+    if (year === null) {
+      throw new Error(`Row ${rowNumber}: "${cells[yearIndex]}" is not a year or period.`);
+    }
+    const scenario = scenarioIndex !== -1 ? cells[scenarioIndex] || undefined : undefined;
+    const key = `${scenario ?? ''}|${year}`;
+    const group = groups.get(key) ?? {
+      horizon: { label: [scenario, cells[yearIndex]].filter(Boolean).join(' '), year, scenario },
+      sums: {},
+    };
+    const columns: [keyof ProjectionHorizon, number][] = [
+      ['temperatureDeltaC', temperatureDeltaIndex],
+      ['temperatureC', temperatureIndex],
+      ['rainfallChangePct', rainfallChangeIndex],
+      ['rainfallMm', rainfallIndex],
+    ];
+    let values = 0;
+    for (const [field, index] of columns) {
+      if (index === -1 || !cells[index]) continue;
+      const value = parseCsvNumber(cells[index]);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Row ${rowNumber}: "${cells[index]}" in ${header[index]} is not a number.`);
+      }
+      (group.sums[field] ??= []).push(value);
+      values++;
+    }
+    if (values === 0) {
+      throw new Error(`Row ${rowNumber}: no temperature or rainfall value.`);
+    }
+    groups.set(key, group);
+  });
+
+  return [...groups.values()]
+    .map(({ horizon, sums }) => {
+      const mean = (field: string, digits: number) =>
+        sums[field] ? round(sums[field].reduce((a, b) => a + b, 0) / sums[field].length, digits) : undefined;
+      return {
+        ...horizon,
+        temperatureDeltaC: mean('temperatureDeltaC', 1),
+        temperatureC: mean('temperatureC', 1),
+        rainfallChangePct: mean('rainfallChangePct', 0),
+        rainfallMm: mean('rainfallMm', 0),
+      };
+    })
+    .sort((a, b) => a.year - b.year || (a.scenario ?? '').localeCompare(b.scenario ?? ''));
+}
+
+/**
+ * Describes what a horizon changes, e.g. "+1.2 °C, -5% rainfall".
+ */
+export function describeHorizon(horizon: ProjectionHorizon): string {
+  const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+  const parts = [
+    horizon.temperatureC !== undefined
+      ? `${horizon.temperatureC} °C`
+      : horizon.temperatureDeltaC !== undefined
+        ? `${signed(horizon.temperatureDeltaC)} °C`
+        : null,
+    horizon.rainfallMm !== undefined
+      ? `${horizon.rainfallMm} mm`
+      : horizon.rainfallChangePct !== undefined
+        ? `${signed(horizon.rainfallChangePct)}% rainfall`
+        : null,
+  ];
+  return parts.filter(Boolean).join(', ') || 'no change';
+}
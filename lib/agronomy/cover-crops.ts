@@ -0,0 +1,741 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Cover crop and intercropping suggestions.
+ *
+ * The fallow window runs from the main crop's harvest, estimated from the
+ * planting months and its growing period, to the same planting months the
+ * next year. Cover crops are filtered by climate, by the days they get to
+ * establish before frost or the next crop, and scored by the benefits they
+ * bring in that time, with penalties for sharing a family with the main crop
+ * or with recent crops in the field history. Intercrop and relay companions
+ * come from a table of proven pairings, kept when the companion suits the
+ * farm.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CROP_CATALOG, CropFamily, CropProfile, findCatalogCrop } from './crop-catalog';
+import { frostClimateFromClimatology } from './frost';
+import { MONTH_NAMES, firstPlantingMonth, seasonMonths } from './planting-window';
+import { CropHistoryEntry, FAMILY_RETURN_YEARS } from './rotation';
+import { scoreCrop } from './suitability';
+
+export interface CoverCrop {
+  id: string;
+  name: string;
+  family: CropFamily;
+  climates: AgriculturalParameters['climate'][];
+  // Survives the winter and must be terminated; otherwise killed by frost.
+  winterHardy: boolean;
+  droughtTolerant: boolean;
+  // Days of growth needed for useful ground cover, and for full biomass.
+  establishDays: number;
+  fullGrowthDays: number;
+  // Drilled alone; broadcast or interseeded needs about a quarter more.
+  seedingRateKgHa: { min: number; max: number };
+  // At full growth.
+  nFixedKgHa: { min: number; max: number };
+  biomassTHa: { min: number; max: number };
+  // Ground covered at termination, in %.
+  groundCoverPct: number;
+  benefits: string[];
+  termination: string;
+}
+
+const COVER_CROPS: CoverCrop[] = [
+  {
+    id: 'cereal-rye',
+    name: 'Cereal rye',
+    family: 'poaceae',
+    climates: ['temperate', 'continental', 'arid'],
+    winterHardy: true,
+    droughtTolerant: true,
+    establishDays: 30,
+    fullGrowthDays: 180,
+    seedingRateKgHa: { min: 60, max: 100 },
+    nFixedKgHa: { min: 0, max: 0 },
+    biomassTHa: { min: 4, max: 8 },
+    groundCoverPct: 90,
+    benefits: ['Scavenges 30-60 kg/ha of leftover nitrogen.', 'Residue suppresses weeds.'],
+    termination: 'Roll-crimp at pollen shed or spray 2-3 weeks before planting; leave longer before maize to avoid nitrogen tie-up.',
+  },
+  {
+    id: 'cover-oats',
+    name: 'Oats (cover)',
+    family: 'poaceae',
+    climates: ['temperate', 'continental', 'arid'],
+    winterHardy: false,
+    droughtTolerant: false,
+    establishDays: 40,
+    fullGrowthDays: 90,
+    seedingRateKgHa: { min: 70, max: 110 },
+    nFixedKgHa: { min: 0, max: 0 },
+    biomassTHa: { min: 2, max: 4 },
+    groundCoverPct: 80,
+    benefits: ['Scavenges nitrogen.', 'Leaves an easy mulch for spring planting.'],
+    termination: 'Mow or graze before seed set, or let frost kill it.',
+  },
+  {
+    id: 'annual-ryegrass',
+    name: 'Annual ryegrass',
+    family: 'poaceae',
+    climates: ['temperate'],
+    winterHardy: true,
+    droughtTolerant: false,
+    establishDays: 35,
+    fullGrowthDays: 150,
+    seedingRateKgHa: { min: 15, max: 25 },
+    nFixedKgHa: { min: 0, max: 0 },
+    biomassTHa: { min: 2, max: 5 },
+    groundCoverPct: 85,
+    benefits: ['Dense fibrous roots improve soil structure and infiltration.'],
+    termination: 'Hard to kill: spray while actively growing at least 3 weeks before planting, and check for regrowth.',
+  },
+  {
+    id: 'crimson-clover',
+    name: 'Crimson clover',
+    family: 'fabaceae',
+    climates: ['temperate'],
+    winterHardy: true,
+    droughtTolerant: false,
+    establishDays: 50,
+    fullGrowthDays: 180,
+    seedingRateKgHa: { min: 15, max: 22 },
+    nFixedKgHa: { min: 70, max: 150 },
+    biomassTHa: { min: 3, max: 5 },
+    groundCoverPct: 75,
+    benefits: ['Early flowers feed pollinators.'],
+    termination: 'Mow or roll at full bloom, when it kills easily.',
+  },
+  {
+    id: 'hairy-vetch',
+    name: 'Hairy vetch',
+    family: 'fabaceae',
+    climates: ['temperate', 'continental'],
+    winterHardy: true,
+    droughtTolerant: false,
+    establishDays: 50,
+    fullGrowthDays: 200,
+    seedingRateKgHa: { min: 20, max: 35 },
+    nFixedKgHa: { min: 90, max: 200 },
+    biomassTHa: { min: 3, max: 6 },
+    groundCoverPct: 70,
+    benefits: ['Mulch of rolled vetch suits no-till maize and tomatoes.'],
+    termination: 'Roll-crimp at full flower; earlier termination needs a herbicide.',
+  },
+  {
+    id: 'red-clover',
+    name: 'Red clover',
+    family: 'fabaceae',
+    climates: ['temperate', 'continental'],
+    winterHardy: true,
+    droughtTolerant: false,
+    establishDays: 60,
+    fullGrowthDays: 240,
+    seedingRateKgHa: { min: 8, max: 12 },
+    nFixedKgHa: { min: 70, max: 150 },
+    biomassTHa: { min: 2, max: 5 },
+    groundCoverPct: 80,
+    benefits: ['Shade-tolerant, so it can be frost-seeded into winter cereals.'],
+    termination: 'Till or spray in spring 2-3 weeks before planting.',
+  },
+  {
+    id: 'field-pea',
+    name: 'Field pea',
+    family: 'fabaceae',
+    climates: ['temperate', 'continental', 'arid'],
+    winterHardy: true,
+    droughtTolerant: false,
+    establishDays: 45,
+    fullGrowthDays: 150,
+    seedingRateKgHa: { min: 70, max: 120 },
+    nFixedKgHa: { min: 50, max: 120 },
+    biomassTHa: { min: 2, max: 5 },
+    groundCoverPct: 60,
+    benefits: ['Residue breaks down fast and releases nitrogen early.'],
+    termination: 'Mow or roll at flowering, or let hard frosts kill spring types.',
+  },
+  {
+    id: 'forage-radish',
+    name: 'Forage radish',
+    family: 'brassicaceae',
+    climates: ['temperate', 'continental'],
+    winterHardy: false,
+    droughtTolerant: false,
+    establishDays: 40,
+    fullGrowthDays: 70,
+    seedingRateKgHa: { min: 8, max: 12 },
+    nFixedKgHa: { min: 0, max: 0 },
+    biomassTHa: { min: 3, max: 5 },
+    groundCoverPct: 60,
+    benefits: ['Taproots break compaction.', 'Scavenges deep nitrogen.'],
+    termination: 'Frost kills it and leaves a clean seedbed.',
+  },
+  {
+    id: 'mustard',
+    name: 'Mustard',
+    family: 'brassicaceae',
+    climates: ['temperate', 'continental', 'arid'],
+    winterHardy: false,
+    droughtTolerant: false,
+    establishDays: 40,
+    fullGrowthDays: 70,
+    seedingRateKgHa: { min: 6, max: 10 },
+    nFixedKgHa: { min: 0, max: 0 },
+    biomassTHa: { min: 2, max: 4 },
+    groundCoverPct: 60,
+    benefits: ['Chopped and incorporated at flowering, it biofumigates soil-borne pathogens and nematodes.'],
+    termination: 'Chop and incorporate at flowering for biofumigation, or let frost kill it.',
+  },
+  {
+    id: 'phacelia',
+    name: 'Phacelia',
+    family: 'other',
+    climates: ['temperate', 'continental'],
+    winterHardy: false,
+    droughtTolerant: false,
+    establishDays: 40,
+    fullGrowthDays: 70,
+    seedingRateKgHa: { min: 8, max: 12 },
+    nFixedKgHa: { min: 0, max: 0 },
+    biomassTHa: { min: 2, max: 4 },
+    groundCoverPct: 70,
+    benefits: ['Related to no cash crop, so it shares none of their diseases.', 'Flowers feed pollinators.'],
+    termination: 'Frost kills it; otherwise mow before seed set.',
+  },
+  {
+    id: 'buckwheat',
+    name: 'Buckwheat',
+    family: 'other',
+    climates: ['temperate', 'continental', 'tropical'],
+    winterHardy: false,
+    droughtTolerant: false,
+    establishDays: 30,
+    fullGrowthDays: 50,
+    seedingRateKgHa: { min: 50, max: 70 },
+    nFixedKgHa: { min: 0, max: 0 },
+    biomassTHa: { min: 2, max: 3 },
+    groundCoverPct: 50,
+    benefits: ['Smothers weeds within weeks.', 'Mobilizes soil phosphorus.'],
+    termination: 'Mow within a week of flowering, before it sets seed.',
+  },
+  {
+    id: 'sunn-hemp',
+    name: 'Sunn hemp',
+    family: 'fabaceae',
+    climates: ['tropical', 'arid', 'temperate'],
+    winterHardy: false,
+    droughtTolerant: true,
+    establishDays: 45,
+    fullGrowthDays: 90,
+    seedingRateKgHa: { min: 30, max: 45 },
+    nFixedKgHa: { min: 80, max: 150 },
+    biomassTHa: { min: 4, max: 8 },
+    groundCoverPct: 70,
+    benefits: ['Suppresses root-knot nematodes.'],
+    termination: 'Mow or roll at early bloom, before stems turn woody.',
+  },
+  {
+    id: 'cowpea-cover',
+    name: 'Cowpea',
+    family: 'fabaceae',
+    climates: ['tropical', 'arid', 'temperate'],
+    winterHardy: false,
+    droughtTolerant: true,
+    establishDays: 40,
+    fullGrowthDays: 80,
+    seedingRateKgHa: { min: 40, max: 80 },
+    nFixedKgHa: { min: 50, max: 120 },
+    biomassTHa: { min: 2, max: 4 },
+    groundCoverPct: 75,
+    benefits: ['Thrives in heat and drought.'],
+    termination: 'Mow or roll at flowering.',
+  },
+  {
+    id: 'sorghum-sudangrass',
+    name: 'Sorghum-sudangrass',
+    family: 'poaceae',
+    climates: ['tropical', 'arid', 'temperate'],
+    winterHardy: false,
+    droughtTolerant: true,
+    establishDays: 40,
+    fullGrowthDays: 80,
+    seedingRateKgHa: { min: 25, max: 40 },
+    nFixedKgHa: { min: 0, max: 0 },
+    biomassTHa: { min: 6, max: 10 },
+    groundCoverPct: 80,
+    benefits: ['Large biomass builds organic matter.', 'Mowing once at 1 m deepens roots and breaks compaction.'],
+    termination: 'Mow before heading, or let frost kill it.',
+  },
+  {
+    id: 'velvet-bean',
+    name: 'Velvet bean (mucuna)',
+    family: 'fabaceae',
+    climates: ['tropical'],
+    winterHardy: false,
+    droughtTolerant: true,
+    establishDays: 60,
+    fullGrowthDays: 150,
+    seedingRateKgHa: { min: 30, max: 60 },
+    nFixedKgHa: { min: 100, max: 200 },
+    biomassTHa: { min: 5, max: 9 },
+    groundCoverPct: 90,
+    benefits: ['Smothers weeds, including Imperata grass.', 'Suppresses nematodes.'],
+    termination: 'Slash at flowering and leave as mulch; plant through it.',
+  },
+  {
+    id: 'lablab',
+    name: 'Lablab',
+    family: 'fabaceae',
+    climates: ['tropical', 'arid'],
+    winterHardy: false,
+    droughtTolerant: true,
+    establishDays: 50,
+    fullGrowthDays: 120,
+    seedingRateKgHa: { min: 20, max: 30 },
+    nFixedKgHa: { min: 60, max: 140 },
+    biomassTHa: { min: 3, max: 6 },
+    groundCoverPct: 80,
+    benefits: ['Deep roots keep it green into the dry season; doubles as fodder.'],
+    termination: 'Cut at flowering and leave as mulch, or graze.',
+  },
+];
+
+export interface IntercropPattern {
+  // Catalog crop id of the main crop.
+  main: string;
+  // Catalog crop id or cover crop id of the companion.
+  companion: string;
+  kind: 'intercrop' | 'relay';
+  arrangement: string;
+  companionSeedingRateKgHa: { min: number; max: number };
+  benefit: string;
+  caution: string;
+}
+
+const INTERCROP_PATTERNS: IntercropPattern[] = [
+  {
+    main: 'maize',
+    companion: 'common-bean',
+    kind: 'intercrop',
+    arrangement: 'One row of bush beans between maize rows, sown with the maize.',
+    companionSeedingRateKgHa: { min: 40, max: 60 },
+    benefit: 'Beans fix nitrogen and add a second harvest; land equivalent ratios of 1.2-1.4 are typical.',
+    caution: 'Use bush beans; climbing types can pull maize down.',
+  },
+  {
+    main: 'maize',
+    companion: 'soybean',
+    kind: 'intercrop',
+    arrangement: 'Strips of 4-6 maize rows and 4-6 soybean rows.',
+    companionSeedingRateKgHa: { min: 50, max: 70 },
+    benefit: 'Strips keep machinery simple while soybean adds nitrogen and breaks pest cycles.',
+    caution: 'Soybean next to maize is shaded; orient strips north-south.',
+  },
+  {
+    main: 'maize',
+    companion: 'groundnut',
+    kind: 'intercrop',
+    arrangement: 'Two maize rows alternating with four groundnut rows.',
+    companionSeedingRateKgHa: { min: 60, max: 80 },
+    benefit: 'Groundnut covers the soil early and fixes nitrogen.',
+    caution: 'Harvest groundnut before maize lodging shades it.',
+  },
+  {
+    main: 'maize',
+    companion: 'crimson-clover',
+    kind: 'relay',
+    arrangement: 'Interseed between maize rows at the V5-V7 stage.',
+    companionSeedingRateKgHa: { min: 15, max: 20 },
+    benefit: 'The cover is established at harvest, weeks earlier than after-harvest sowing.',
+    caution: 'Needs moisture after interseeding; avoid residual herbicides that harm clover.',
+  },
+  {
+    main: 'sorghum',
+    companion: 'cowpea-cover',
+    kind: 'intercrop',
+    arrangement: 'One cowpea row between sorghum rows, sown 2-3 weeks after the sorghum.',
+    companionSeedingRateKgHa: { min: 20, max: 30 },
+    benefit: 'Cowpea adds grain or fodder and nitrogen; Striga emergence is reduced.',
+    caution: 'In dry years, thin the cowpea to protect sorghum yield.',
+  },
+  {
+    main: 'pearl-millet',
+    companion: 'cowpea-cover',
+    kind: 'intercrop',
+    arrangement: 'Alternate rows, or two millet rows to one cowpea row.',
+    companionSeedingRateKgHa: { min: 15, max: 25 },
+    benefit: 'Traditional Sahelian pairing: cowpea covers the soil and fixes nitrogen.',
+    caution: 'Sow cowpea after millet is established so it does not compete for early rains.',
+  },
+  {
+    main: 'pearl-millet',
+    companion: 'groundnut',
+    kind: 'intercrop',
+    arrangement: 'One millet row to three groundnut rows.',
+    companionSeedingRateKgHa: { min: 50, max: 70 },
+    benefit: 'Spreads risk across a cereal and a cash legume.',
+    caution: 'Both need the early rains; sow on the same day.',
+  },
+  {
+    main: 'cassava',
+    companion: 'groundnut',
+    kind: 'intercrop',
+    arrangement: 'Two groundnut rows between cassava rows, planted with the cassava.',
+    companionSeedingRateKgHa: { min: 50, max: 70 },
+    benefit: 'Groundnut is harvested before the cassava canopy closes and protects the bare soil.',
+    caution: 'Harvest groundnut by 100 days to avoid shading.',
+  },
+  {
+    main: 'cassava',
+    companion: 'common-bean',
+    kind: 'intercrop',
+    arrangement: 'Beans between cassava rows in the first 3 months.',
+    companionSeedingRateKgHa: { min: 40, max: 60 },
+    benefit: 'An early food harvest while cassava establishes.',
+    caution: 'Only in the first rainy season after planting cassava.',
+  },
+  {
+    main: 'sugarcane',
+    companion: 'soybean',
+    kind: 'intercrop',
+    arrangement: 'Two soybean rows in the inter-row of newly planted or ratoon cane.',
+    companionSeedingRateKgHa: { min: 40, max: 60 },
+    benefit: 'Uses the slow early cane growth and adds nitrogen.',
+    caution: 'Harvest or cut soybean before the cane canopy closes.',
+  },
+  {
+    main: 'wheat',
+    companion: 'red-clover',
+    kind: 'relay',
+    arrangement: 'Frost-seed into winter wheat in late winter, or drill in spring.',
+    companionSeedingRateKgHa: { min: 8, max: 12 },
+    benefit: 'Clover grows on after the wheat harvest and supplies nitrogen to the next crop.',
+    caution: 'Leave the clover through autumn; avoid broadleaf herbicides in the wheat.',
+  },
+  {
+    main: 'wheat',
+    companion: 'soybean',
+    kind: 'relay',
+    arrangement: 'Relay soybean into standing wheat about a month before wheat harvest.',
+    companionSeedingRateKgHa: { min: 60, max: 90 },
+    benefit: 'Gains a month of soybean season compared with double cropping after harvest.',
+    caution: 'Needs wide wheat rows or tramlines and moisture at relay seeding.',
+  },
+  {
+    main: 'oats',
+    companion: 'field-pea',
+    kind: 'intercrop',
+    arrangement: 'Pea and oats mixed in the drill, about half of each sole rate.',
+    companionSeedingRateKgHa: { min: 40, max: 60 },
+    benefit: 'Oats hold peas up; a balanced forage or grain mix with higher protein.',
+    caution: 'Grain needs separating after harvest.',
+  },
+  {
+    main: 'canola',
+    companion: 'field-pea',
+    kind: 'intercrop',
+    arrangement: 'Pea and canola drilled in alternate rows or mixed ("peaola").',
+    companionSeedingRateKgHa: { min: 60, max: 90 },
+    benefit: 'Canola supports the peas, which fix nitrogen for both; often higher combined returns.',
+    caution: 'Herbicide options are limited; grain needs separating.',
+  },
+  {
+    main: 'cotton',
+    companion: 'cowpea-cover',
+    kind: 'intercrop',
+    arrangement: 'Cowpea strips every 6-10 cotton rows.',
+    companionSeedingRateKgHa: { min: 10, max: 20 },
+    benefit: 'Cowpea hosts predators of cotton bollworm and aphids.',
+    caution: 'Keep cowpea from climbing into cotton rows.',
+  },
+];
+
+// Catalog companions below this offline suitability are not suggested.
+const MIN_COMPANION_SUITABILITY = 40;
+const COVER_OPTIONS = 4;
+const DAYS_PER_MONTH = 365 / 12;
+
+export interface FallowWindow {
+  // Calendar months (1-12) of the main crop's harvest and the next planting.
+  harvestMonth: number;
+  nextPlantingMonth: number;
+  days: number;
+  // Days from harvest to the median first autumn frost, when it falls in
+  // the fallow window, and the length of the frost period.
+  daysToFrost?: number;
+  winterDays?: number;
+  firstFrost?: string;
+}
+
+export interface CoverCropOption {
+  cover: CoverCrop;
+  score: number;
+  // Days of growth the cover gets.
+  growthDays: number;
+  sowBy: string;
+  terminateBy: string;
+  seedingRateKgHa: { min: number; max: number };
+  // Seed for the whole farm at the middle of the rate, when the size is known.
+  seedKg?: number;
+  nFixedKgHa: { min: number; max: number };
+  biomassTHa: { min: number; max: number };
+  groundCoverPct: number;
+  notes: string[];
+}
+
+export interface IntercropOption {
+  pattern: IntercropPattern;
+  companionName: string;
+  // Offline suitability of a catalog companion.
+  suitability?: number;
+}
+
+export interface CompanionPlan {
+  crop: CropProfile;
+  fallow: FallowWindow;
+  // Best first.
+  covers: CoverCropOption[];
+  excluded: { cover: CoverCrop; reason: string }[];
+  intercrops: IntercropOption[];
+  notes: string[];
+}
+
+const addMonths = (month: number, by: number) => ((month - 1 + by + 120) % 12) + 1;
+
+// Day of the local year (1-365) at the start of a calendar month.
+const localMonthStartDay = (month: number, southern: boolean) =>
+  Math.round(((southern ? addMonths(month, 6) : month) - 1) * DAYS_PER_MONTH) + 1;
+
+const scaleRange = (range: { min: number; max: number }, factor: number) => ({
+  min: Math.round(range.min * factor),
+  max: Math.round(range.max * factor),
+});
+
+/**
+ * The fallow window after the main crop, from its harvest to the same
+ * planting months the next year.
+ */
+export function fallowWindow(crop: CropProfile, params: AgriculturalParameters): FallowWindow {
+  const plantingMonth = firstPlantingMonth(
+    params.plantingMonths?.length
+      ? params.plantingMonths
+      : seasonMonths(params.season, params.latitude),
+  );
+  const seasonDays = Math.round((crop.growingPeriodDays.min + crop.growingPeriodDays.max) / 2);
+  const harvestMonth = addMonths(plantingMonth, Math.round(seasonDays / DAYS_PER_MONTH));
+  const days = Math.max(0, 365 - seasonDays);
+  const window: FallowWindow = { harvestMonth, nextPlantingMonth: plantingMonth, days };
+
+  const climate = frostClimateFromClimatology(params);
+  const median = climate.dates.find(d => d.confidence === 50);
+  if (climate.frostFree || !median || days === 0) return window;
+  const harvestDay = localMonthStartDay(plantingMonth, climate.southernHemisphere) + seasonDays;
+  const daysToFrost = (((median.firstAutumnDay - harvestDay) % 365) + 365) % 365;
+  if (daysToFrost < days) {
+    window.daysToFrost = daysToFrost;
+    window.winterDays = (median.lastSpringDay - median.firstAutumnDay + 365) % 365;
+    window.firstFrost = median.firstAutumnFrost;
+  }
+  return window;
+}
+
+/**
+ * Families grown within their return interval of the coming year, from the
+ * field history and the previous crop.
+ */
+function recentFamilies(
+  params: AgriculturalParameters,
+  history: CropHistoryEntry[],
+  catalog: CropProfile[],
+): Map<CropFamily, { crop: CropProfile; year: number }> {
+  const entries = [...history];
+  const lastYear = entries.length ? Math.max(...entries.map(e => e.year)) : new Date().getFullYear() - 1;
+  if (params.previousCrop && !entries.some(e => e.year === lastYear)) {
+    entries.push({ year: lastYear, crop: params.previousCrop });
+  }
+  const families = new Map<CropFamily, { crop: CropProfile; year: number }>();
+  for (const entry of entries.sort((a, b) => a.year - b.year)) {
+    const crop = findCatalogCrop(entry.crop, catalog);
+    if (crop && lastYear + 1 - entry.year < FAMILY_RETURN_YEARS[crop.family]) {
+      families.set(crop.family, { crop, year: entry.year });
+    }
+  }
+  return families;
+}
+
+function assessCover(
+  cover: CoverCrop,
+  crop: CropProfile,
+  fallow: FallowWindow,
+  params: AgriculturalParameters,
+  recent: Map<CropFamily, { crop: CropProfile; year: number }>,
+): CoverCropOption | string {
+  if (!cover.climates.includes(params.climate)) {
+    return `Not adapted to ${params.climate} climates.`;
+  }
+  const frost = fallow.daysToFrost !== undefined;
+  const beforeFrost = frost ? fallow.daysToFrost! : fallow.days;
+  if (beforeFrost < cover.establishDays) {
+    return frost
+      ? `Only ${beforeFrost} days before the first frost (${fallow.firstFrost}); needs ${cover.establishDays} to establish.`
+      : `Only ${fallow.days} days before the next crop; needs ${cover.establishDays} to establish.`;
+  }
+  const growthDays =
+    frost && cover.winterHardy
+      ? beforeFrost + Math.max(0, fallow.days - beforeFrost - (fallow.winterDays ?? 0))
+      : beforeFrost;
+  const growth = Math.min(1, growthDays / cover.fullGrowthDays);
+
+  const notes: string[] = [...cover.benefits];
+  let score = 50 + Math.round(20 * growth) + Math.round(cover.groundCoverPct / 10);
+  const legume = cover.family === 'fabaceae';
+  if (legume && crop.family !== 'fabaceae') {
+    score += 15;
+    notes.push(`Fixes nitrogen for the crop after ${crop.name}.`);
+  } else if (!legume && crop.family === 'fabaceae' && (cover.family === 'poaceae' || cover.family === 'brassicaceae')) {
+    score += 10;
+    notes.push(`Catches the nitrogen ${crop.name} leaves behind before it leaches.`);
+  }
+  if (cover.family === crop.family) {
+    score -= 25;
+    notes.push(`Same family as ${crop.name}: it bridges the crop's pests and diseases.`);
+  } else if (recent.has(cover.family)) {
+    const { crop: grown, year } = recent.get(cover.family)!;
+    score -= 15;
+    notes.push(`${grown.name} (${year}) is in the same family; keep ${cover.family} ${FAMILY_RETURN_YEARS[cover.family]}+ years apart.`);
+  }
+  if (params.climate === 'arid' && !params.irrigationAvailable && !cover.droughtTolerant) {
+    score -= 20;
+    notes.push('Needs rain or irrigation to establish in an arid climate.');
+  }
+
+  const killedByFrost = frost && !cover.winterHardy;
+  const terminationMonth = addMonths(fallow.nextPlantingMonth, -1);
+  return {
+    cover,
+    score,
+    growthDays,
+    sowBy: `${MONTH_NAMES[fallow.harvestMonth - 1]}, right after harvest`,
+    terminateBy: killedByFrost
+      ? `Killed by frost around ${fallow.firstFrost}`
+      : `${MONTH_NAMES[terminationMonth - 1]}, 2-3 weeks before planting`,
+    seedingRateKgHa: cover.seedingRateKgHa,
+    seedKg: params.farmSize
+      ? Math.round(((cover.seedingRateKgHa.min + cover.seedingRateKgHa.max) / 2) * params.farmSize)
+      : undefined,
+    nFixedKgHa: scaleRange(cover.nFixedKgHa, growth),
+    biomassTHa: {
+      min: Math.round(cover.biomassTHa.min * growth * 10) / 10,
+      max: Math.round(cover.biomassTHa.max * growth * 10) / 10,
+    },
+    groundCoverPct: Math.round(cover.groundCoverPct * Math.min(1, growth + 0.3)),
+    notes: [...notes, cover.termination],
+  };
+}
+
+/**
+ * Suggests cover crops for the fallow window after `crop`, and intercrop or
+ * relay companions for it.
+ * @param history - The field's crop history, used to avoid families grown
+ * within their return interval.
+ */
+export function recommendCompanions(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+  history: CropHistoryEntry[] = [],
+  catalog: CropProfile[] = CROP_CATALOG,
+): CompanionPlan {
+  const fallow = fallowWindow(crop, params);
+  const recent = recentFamilies(params, history, catalog);
+  const notes: string[] = [];
+
+  const options: CoverCropOption[] = [];
+  const excluded: CompanionPlan['excluded'] = [];
+  for (const cover of COVER_CROPS) {
+    const result = assessCover(cover, crop, fallow, params, recent);
+    if (typeof result === 'string') {
+      excluded.push({ cover, reason: result });
+    } else {
+      options.push(result);
+    }
+  }
+  if (fallow.days < 30) {
+    notes.push(`${crop.name} occupies the field almost all year; use a relay or intercrop companion instead of a cover crop.`);
+  }
+
+  const intercrops = INTERCROP_PATTERNS.filter(p => p.main === crop.id).flatMap(pattern => {
+    const cover = COVER_CROPS.find(c => c.id === pattern.companion);
+    if (cover) {
+      return cover.climates.includes(params.climate)
+        ? [{ pattern, companionName: cover.name }]
+        : [];
+    }
+    const companion = catalog.find(c => c.id === pattern.companion);
+    if (!companion) return [];
+    // Relay companions are sown in their own season, so they are scored
+    // against its months rather than the main crop's planting months.
+    const season = companion.plantingSeasons[0];
+    const suitability = scoreCrop(
+      companion,
+      pattern.kind === 'relay'
+        ? { ...params, season, plantingMonths: seasonMonths(season, params.latitude) }
+        : params,
+    ).score;
+    return suitability >= MIN_COMPANION_SUITABILITY
+      ? [{ pattern, companionName: companion.name, suitability }]
+      : [];
+  });
+  if (intercrops.length && params.climate === 'arid' && !params.irrigationAvailable) {
+    notes.push('Rain-fed intercrops compete for water; widen the rows or lower the companion rate in dry years.');
+  }
+
+  return {
+    crop,
+    fallow,
+    covers: options.sort((a, b) => b.score - a.score).slice(0, COVER_OPTIONS),
+    excluded,
+    intercrops,
+    notes,
+  };
+}
+
+/**
+ * Describes a fallow window, e.g. "Sep to Apr (200 days), frost from Oct 20".
+ */
+export function describeFallow(fallow: FallowWindow): string {
+  const frost = fallow.firstFrost ? `, first frost around ${fallow.firstFrost}` : '';
+  return `${MONTH_NAMES[fallow.harvestMonth - 1]} to ${MONTH_NAMES[fallow.nextPlantingMonth - 1]} (${fallow.days} days${frost})`;
+}
+
+/**
+ * Summarizes a companion plan as plain text, for tool responses.
+ */
+export function summarizeCompanionPlan(plan: CompanionPlan): string {
+  const range = (r: { min: number; max: number }) => (r.min === r.max ? `${r.min}` : `${r.min}-${r.max}`);
+  const lines = [`Fallow after ${plan.crop.name}: ${describeFallow(plan.fallow)}.`];
+  if (plan.covers.length) {
+    lines.push('Cover crops:');
+    for (const option of plan.covers) {
+      const nitrogen = option.nFixedKgHa.max > 0 ? `, fixes ${range(option.nFixedKgHa)} kg N/ha` : '';
+      lines.push(
+        `- ${option.cover.name}: sow ${option.sowBy} at ${range(option.seedingRateKgHa)} kg/ha${option.seedKg ? ` (${option.seedKg} kg for the farm)` : ''}; terminate: ${option.terminateBy}. ${range(option.biomassTHa)} t/ha biomass, ${option.groundCoverPct}% ground cover${nitrogen}. ${option.notes.join(' ')}`,
+      );
+    }
+  } else {
+    lines.push('No cover crop fits the fallow window.');
+  }
+  if (plan.intercrops.length) {
+    lines.push('Intercrop and relay companions:');
+    for (const { pattern, companionName } of plan.intercrops) {
+      lines.push(
+        `- ${companionName} (${pattern.kind}): ${pattern.arrangement} ${range(pattern.companionSeedingRateKgHa)} kg/ha. ${pattern.benefit} Caution: ${pattern.caution}`,
+      );
+    }
+  }
+  lines.push(...plan.notes);
+  return lines.join('\n');
+}
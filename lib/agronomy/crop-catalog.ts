@@ -0,0 +1,645 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Bundled crop knowledge base.
+ *
+ * Values are typical ranges from FAO ECOCROP and extension literature. The
+ * catalog is versioned so that team overrides and exported files record which
+ * bundled data they were made against. Entries are described by zod schemas
+ * so imported overrides are validated exactly like the bundled data.
+ */
+
+import { z } from 'zod';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { YieldRangeSchema } from './crop-report';
+
+export type SoilType = AgriculturalParameters['soilType'];
+export type ClimateZone = AgriculturalParameters['climate'];
+export type Season = AgriculturalParameters['season'];
+
+// Bump when bundled values change.
+export const CROP_CATALOG_VERSION = '1.1.0';
+
+/**
+ * A tolerance range. Outside [min, max] the crop fails; inside
+ * [optMin, optMax] it performs at its best.
+ */
+export const ToleranceRangeSchema = z
+  .object({
+    min: z.number(),
+    optMin: z.number(),
+    optMax: z.number(),
+    max: z.number(),
+  })
+  .refine(r => r.min <= r.optMin && r.optMin <= r.optMax && r.optMax <= r.max, {
+    message: 'Expected min <= optMin <= optMax <= max',
+  });
+
+const NumberRangeSchema = z
+  .object({ min: z.number().nonnegative(), max: z.number().nonnegative() })
+  .refine(r => r.min <= r.max, { message: 'Expected min <= max' });
+
+// Botanical families, used for rotation and pest carry-over rules.
+export const CropFamilySchema = z.enum([
+  'poaceae',
+  'fabaceae',
+  'solanaceae',
+  'brassicaceae',
+  'asteraceae',
+  'malvaceae',
+  'euphorbiaceae',
+  'convolvulaceae',
+  'other',
+]);
+
+// Photoperiod response: which day length triggers flowering.
+export const DayLengthSchema = z.enum(['short', 'long', 'neutral']);
+
+/**
+ * Growing degree days (°C·day above baseC, with temperatures capped at upperC)
+ * from planting to each growth stage, in order.
+ */
+export const ThermalTimeSchema = z
+  .object({
+    baseC: z.number(),
+    upperC: z.number(),
+    stages: z
+      .array(z.object({ name: z.string().min(1), gdd: z.number().positive() }))
+      .min(1),
+  })
+  .refine(t => t.baseC < t.upperC, { message: 'Expected baseC < upperC' })
+  .refine(t => t.stages.every((s, i) => i === 0 || s.gdd > t.stages[i - 1].gdd), {
+    message: 'Expected stages in increasing gdd order',
+  });
+
+export const CropVarietySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  growingPeriodDays: NumberRangeSchema.optional(),
+  yieldRange: YieldRangeSchema.optional(),
+  temperature: ToleranceRangeSchema.optional(),
+  dayLength: DayLengthSchema.optional(),
+  notes: z.string().optional(),
+});
+
+const SoilSuitabilitySchema = z.object({
+  clay: z.number().min(0).max(1),
+  sandy: z.number().min(0).max(1),
+  loamy: z.number().min(0).max(1),
+  silt: z.number().min(0).max(1),
+  peat: z.number().min(0).max(1),
+});
+
+export const CropProfileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Use lowercase letters, digits and dashes'),
+  name: z.string().min(1),
+  // Alternative names used to match free-text crop names from the model.
+  aliases: z.array(z.string()),
+  family: CropFamilySchema,
+  // Relative suitability (0-1) of each soil texture.
+  soils: SoilSuitabilitySchema,
+  climates: z.array(
+    z.enum(['tropical', 'arid', 'temperate', 'continental', 'polar']),
+  ),
+  // Seasons in which the crop is normally planted.
+  plantingSeasons: z.array(z.enum(['spring', 'summer', 'fall', 'winter'])),
+  // Mean temperature over the growing season, in °C.
+  temperature: ToleranceRangeSchema,
+  // Annual rainfall, in mm.
+  rainfall: ToleranceRangeSchema,
+  ph: ToleranceRangeSchema,
+  dayLength: DayLengthSchema,
+  // Days from planting to harvest.
+  growingPeriodDays: NumberRangeSchema,
+  yieldRange: YieldRangeSchema,
+  // Seasonal crop water requirement, in mm.
+  waterNeedMm: NumberRangeSchema,
+  // Optional so that overrides made before catalog v1.1 still validate.
+  thermalTime: ThermalTimeSchema.optional(),
+  varieties: z.array(CropVarietySchema),
+});
+
+/** The file format used to import and export catalog entries. */
+export const CropCatalogFileSchema = z.object({
+  version: z.string(),
+  crops: z.array(CropProfileSchema),
+});
+
+export type ToleranceRange = z.infer<typeof ToleranceRangeSchema>;
+export type CropFamily = z.infer<typeof CropFamilySchema>;
+export type DayLength = z.infer<typeof DayLengthSchema>;
+export type ThermalTime = z.infer<typeof ThermalTimeSchema>;
+export type CropVariety = z.infer<typeof CropVarietySchema>;
+export type CropProfile = z.infer<typeof CropProfileSchema>;
+export type CropCatalogFile = z.infer<typeof CropCatalogFileSchema>;
+
+export const CROP_CATALOG: CropProfile[] = [
+  {
+    id: 'maize',
+    name: 'Maize',
+    aliases: ['corn', 'field corn', 'grain maize'],
+    family: 'poaceae',
+    soils: { loamy: 1, silt: 0.9, clay: 0.6, sandy: 0.5, peat: 0.4 },
+    climates: ['tropical', 'temperate', 'continental'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 10, optMin: 18, optMax: 30, max: 38 },
+    rainfall: { min: 400, optMin: 600, optMax: 1200, max: 1800 },
+    ph: { min: 5, optMin: 5.8, optMax: 7, max: 8 },
+    dayLength: 'neutral',
+    growingPeriodDays: { min: 90, max: 150 },
+    yieldRange: { min: 3, max: 12, unit: 't/ha' },
+    waterNeedMm: { min: 500, max: 800 },
+    thermalTime: { baseC: 10, upperC: 30, stages: [{ name: 'Emergence', gdd: 100 }, { name: 'V6', gdd: 350 }, { name: 'Silking', gdd: 750 }, { name: 'Dough', gdd: 1100 }, { name: 'Maturity', gdd: 1450 }] },
+    varieties: [
+      { id: 'early-hybrid', name: 'Early hybrid (FAO 200-300)', growingPeriodDays: { min: 90, max: 110 }, yieldRange: { min: 6, max: 9, unit: 't/ha' } },
+      { id: 'full-season-hybrid', name: 'Full-season hybrid (FAO 500-600)', growingPeriodDays: { min: 130, max: 150 }, yieldRange: { min: 9, max: 13, unit: 't/ha' } },
+      { id: 'tropical-opv', name: 'Tropical open-pollinated', growingPeriodDays: { min: 110, max: 130 }, yieldRange: { min: 2, max: 5, unit: 't/ha' }, dayLength: 'short' },
+    ],
+  },
+  {
+    id: 'wheat',
+    name: 'Wheat',
+    aliases: ['winter wheat', 'spring wheat', 'durum'],
+    family: 'poaceae',
+    soils: { loamy: 1, silt: 0.9, clay: 0.8, sandy: 0.5, peat: 0.3 },
+    climates: ['temperate', 'continental', 'arid'],
+    plantingSeasons: ['fall', 'winter', 'spring'],
+    temperature: { min: 3, optMin: 12, optMax: 24, max: 32 },
+    rainfall: { min: 300, optMin: 450, optMax: 900, max: 1300 },
+    ph: { min: 5.5, optMin: 6, optMax: 7.5, max: 8.5 },
+    dayLength: 'long',
+    growingPeriodDays: { min: 100, max: 250 },
+    yieldRange: { min: 2, max: 8, unit: 't/ha' },
+    waterNeedMm: { min: 450, max: 650 },
+    thermalTime: { baseC: 0, upperC: 30, stages: [{ name: 'Emergence', gdd: 140 }, { name: 'Tillering', gdd: 400 }, { name: 'Heading', gdd: 950 }, { name: 'Anthesis', gdd: 1100 }, { name: 'Maturity', gdd: 1600 }] },
+    varieties: [
+      { id: 'winter', name: 'Hard red winter', growingPeriodDays: { min: 220, max: 250 }, yieldRange: { min: 3, max: 7, unit: 't/ha' }, notes: 'Requires vernalization.' },
+      { id: 'spring', name: 'Hard red spring', growingPeriodDays: { min: 100, max: 130 }, yieldRange: { min: 2, max: 5, unit: 't/ha' } },
+      { id: 'durum', name: 'Durum', growingPeriodDays: { min: 110, max: 140 }, yieldRange: { min: 2, max: 5, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'rice',
+    name: 'Rice',
+    aliases: ['paddy', 'paddy rice'],
+    family: 'poaceae',
+    soils: { clay: 1, silt: 0.9, loamy: 0.8, peat: 0.5, sandy: 0.2 },
+    climates: ['tropical', 'temperate'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 15, optMin: 22, optMax: 32, max: 38 },
+    rainfall: { min: 800, optMin: 1200, optMax: 2500, max: 4000 },
+    ph: { min: 4.5, optMin: 5.5, optMax: 7, max: 8 },
+    dayLength: 'short',
+    growingPeriodDays: { min: 90, max: 160 },
+    yieldRange: { min: 3, max: 10, unit: 't/ha' },
+    waterNeedMm: { min: 900, max: 2000 },
+    thermalTime: { baseC: 10, upperC: 35, stages: [{ name: 'Emergence', gdd: 100 }, { name: 'Panicle initiation', gdd: 900 }, { name: 'Heading', gdd: 1350 }, { name: 'Maturity', gdd: 1900 }] },
+    varieties: [
+      { id: 'indica-lowland', name: 'Indica lowland', growingPeriodDays: { min: 120, max: 150 }, yieldRange: { min: 4, max: 8, unit: 't/ha' } },
+      { id: 'japonica', name: 'Temperate japonica', growingPeriodDays: { min: 130, max: 160 }, yieldRange: { min: 6, max: 10, unit: 't/ha' } },
+      { id: 'upland', name: 'Upland (rainfed)', growingPeriodDays: { min: 90, max: 120 }, yieldRange: { min: 1, max: 3, unit: 't/ha' }, notes: 'Grown without flooding.' },
+    ],
+  },
+  {
+    id: 'soybean',
+    name: 'Soybean',
+    aliases: ['soya', 'soy', 'soybeans'],
+    family: 'fabaceae',
+    soils: { loamy: 1, silt: 0.9, clay: 0.7, sandy: 0.5, peat: 0.3 },
+    climates: ['temperate', 'continental', 'tropical'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 10, optMin: 20, optMax: 30, max: 36 },
+    rainfall: { min: 450, optMin: 600, optMax: 1000, max: 1500 },
+    ph: { min: 5.5, optMin: 6, optMax: 7, max: 8 },
+    dayLength: 'short',
+    growingPeriodDays: { min: 90, max: 150 },
+    yieldRange: { min: 1.5, max: 4.5, unit: 't/ha' },
+    waterNeedMm: { min: 450, max: 700 },
+    thermalTime: { baseC: 10, upperC: 30, stages: [{ name: 'Emergence', gdd: 90 }, { name: 'Flowering', gdd: 550 }, { name: 'Pod set', gdd: 850 }, { name: 'Seed fill', gdd: 1050 }, { name: 'Maturity', gdd: 1350 }] },
+    varieties: [
+      { id: 'mg-0-1', name: 'Maturity group 0-I', growingPeriodDays: { min: 90, max: 110 }, yieldRange: { min: 2.5, max: 4, unit: 't/ha' }, notes: 'For high latitudes.' },
+      { id: 'mg-3-4', name: 'Maturity group III-IV', growingPeriodDays: { min: 110, max: 130 }, yieldRange: { min: 3, max: 4.5, unit: 't/ha' } },
+      { id: 'mg-7', name: 'Maturity group VII+', growingPeriodDays: { min: 120, max: 150 }, yieldRange: { min: 2.5, max: 4, unit: 't/ha' }, notes: 'For low latitudes.' },
+    ],
+  },
+  {
+    id: 'sorghum',
+    name: 'Sorghum',
+    aliases: ['grain sorghum', 'milo'],
+    family: 'poaceae',
+    soils: { loamy: 1, clay: 0.8, silt: 0.8, sandy: 0.7, peat: 0.3 },
+    climates: ['arid', 'tropical', 'temperate'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 15, optMin: 24, optMax: 33, max: 40 },
+    rainfall: { min: 300, optMin: 450, optMax: 800, max: 1200 },
+    ph: { min: 5, optMin: 5.5, optMax: 7.5, max: 8.5 },
+    dayLength: 'short',
+    growingPeriodDays: { min: 90, max: 130 },
+    yieldRange: { min: 1, max: 7, unit: 't/ha' },
+    waterNeedMm: { min: 450, max: 650 },
+    thermalTime: { baseC: 10, upperC: 35, stages: [{ name: 'Emergence', gdd: 100 }, { name: 'Panicle initiation', gdd: 500 }, { name: 'Flowering', gdd: 900 }, { name: 'Maturity', gdd: 1450 }] },
+    varieties: [
+      { id: 'early-dwarf', name: 'Early dwarf', growingPeriodDays: { min: 90, max: 100 }, yieldRange: { min: 2, max: 4, unit: 't/ha' } },
+      { id: 'medium-hybrid', name: 'Medium-season hybrid', growingPeriodDays: { min: 110, max: 130 }, yieldRange: { min: 4, max: 7, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'pearl-millet',
+    name: 'Pearl Millet',
+    aliases: ['millet', 'bajra'],
+    family: 'poaceae',
+    soils: { sandy: 1, loamy: 0.9, silt: 0.7, clay: 0.4, peat: 0.2 },
+    climates: ['arid', 'tropical'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 18, optMin: 25, optMax: 35, max: 42 },
+    rainfall: { min: 200, optMin: 350, optMax: 700, max: 1000 },
+    ph: { min: 5, optMin: 5.5, optMax: 7.5, max: 8.3 },
+    dayLength: 'short',
+    growingPeriodDays: { min: 60, max: 100 },
+    yieldRange: { min: 0.5, max: 3, unit: 't/ha' },
+    waterNeedMm: { min: 350, max: 550 },
+    thermalTime: { baseC: 10, upperC: 35, stages: [{ name: 'Emergence', gdd: 80 }, { name: 'Panicle initiation', gdd: 400 }, { name: 'Flowering', gdd: 800 }, { name: 'Maturity', gdd: 1250 }] },
+    varieties: [
+      { id: 'early', name: 'Early (60-75 days)', growingPeriodDays: { min: 60, max: 75 }, yieldRange: { min: 1, max: 2.5, unit: 't/ha' } },
+      { id: 'medium', name: 'Medium (80-100 days)', growingPeriodDays: { min: 80, max: 100 }, yieldRange: { min: 1.5, max: 3, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'barley',
+    name: 'Barley',
+    aliases: ['malting barley', 'feed barley'],
+    family: 'poaceae',
+    soils: { loamy: 1, silt: 0.9, clay: 0.7, sandy: 0.6, peat: 0.4 },
+    climates: ['temperate', 'continental', 'arid', 'polar'],
+    plantingSeasons: ['fall', 'winter', 'spring'],
+    temperature: { min: 2, optMin: 10, optMax: 22, max: 30 },
+    rainfall: { min: 250, optMin: 400, optMax: 800, max: 1200 },
+    ph: { min: 5.5, optMin: 6, optMax: 7.8, max: 8.5 },
+    dayLength: 'long',
+    growingPeriodDays: { min: 90, max: 240 },
+    yieldRange: { min: 2, max: 8, unit: 't/ha' },
+    waterNeedMm: { min: 400, max: 550 },
+    thermalTime: { baseC: 0, upperC: 30, stages: [{ name: 'Emergence', gdd: 110 }, { name: 'Tillering', gdd: 350 }, { name: 'Heading', gdd: 850 }, { name: 'Maturity', gdd: 1400 }] },
+    varieties: [
+      { id: 'spring-malting', name: 'Spring malting', growingPeriodDays: { min: 90, max: 110 }, yieldRange: { min: 3, max: 6, unit: 't/ha' } },
+      { id: 'winter-feed', name: 'Winter feed', growingPeriodDays: { min: 220, max: 250 }, yieldRange: { min: 4, max: 8, unit: 't/ha' }, notes: 'Requires vernalization.' },
+    ],
+  },
+  {
+    id: 'potato',
+    name: 'Potato',
+    aliases: ['potatoes', 'irish potato'],
+    family: 'solanaceae',
+    soils: { loamy: 1, sandy: 0.9, silt: 0.9, peat: 0.7, clay: 0.4 },
+    climates: ['temperate', 'continental', 'polar'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 5, optMin: 14, optMax: 22, max: 28 },
+    rainfall: { min: 400, optMin: 500, optMax: 800, max: 1200 },
+    ph: { min: 4.8, optMin: 5.2, optMax: 6.5, max: 7.5 },
+    dayLength: 'neutral',
+    growingPeriodDays: { min: 80, max: 150 },
+    yieldRange: { min: 15, max: 50, unit: 't/ha' },
+    waterNeedMm: { min: 500, max: 700 },
+    thermalTime: { baseC: 7, upperC: 30, stages: [{ name: 'Emergence', gdd: 250 }, { name: 'Tuber initiation', gdd: 500 }, { name: 'Tuber bulking', gdd: 900 }, { name: 'Maturity', gdd: 1500 }] },
+    varieties: [
+      { id: 'early', name: 'Early maturing', growingPeriodDays: { min: 80, max: 100 }, yieldRange: { min: 20, max: 35, unit: 't/ha' } },
+      { id: 'maincrop', name: 'Maincrop', growingPeriodDays: { min: 120, max: 150 }, yieldRange: { min: 30, max: 50, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'cassava',
+    name: 'Cassava',
+    aliases: ['manioc', 'yuca', 'tapioca'],
+    family: 'euphorbiaceae',
+    soils: { loamy: 1, sandy: 0.9, silt: 0.7, clay: 0.4, peat: 0.2 },
+    climates: ['tropical'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 16, optMin: 22, optMax: 32, max: 38 },
+    rainfall: { min: 500, optMin: 1000, optMax: 1800, max: 3000 },
+    ph: { min: 4.5, optMin: 5.5, optMax: 6.5, max: 8 },
+    dayLength: 'short',
+    growingPeriodDays: { min: 240, max: 540 },
+    yieldRange: { min: 8, max: 35, unit: 't/ha' },
+    waterNeedMm: { min: 1000, max: 1500 },
+    thermalTime: { baseC: 12, upperC: 35, stages: [{ name: 'Establishment', gdd: 300 }, { name: 'Canopy closure', gdd: 1500 }, { name: 'Root bulking', gdd: 2800 }, { name: 'Maturity', gdd: 4500 }] },
+    varieties: [
+      { id: 'sweet-early', name: 'Sweet, early', growingPeriodDays: { min: 240, max: 300 }, yieldRange: { min: 10, max: 20, unit: 't/ha' } },
+      { id: 'bitter-late', name: 'Bitter, late', growingPeriodDays: { min: 360, max: 540 }, yieldRange: { min: 15, max: 35, unit: 't/ha' }, notes: 'Requires processing to remove cyanogens.' },
+    ],
+  },
+  {
+    id: 'groundnut',
+    name: 'Groundnut',
+    aliases: ['peanut', 'peanuts'],
+    family: 'fabaceae',
+    soils: { sandy: 1, loamy: 0.9, silt: 0.6, clay: 0.3, peat: 0.2 },
+    climates: ['tropical', 'arid', 'temperate'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 16, optMin: 22, optMax: 30, max: 36 },
+    rainfall: { min: 400, optMin: 500, optMax: 1000, max: 1500 },
+    ph: { min: 5, optMin: 5.8, optMax: 6.5, max: 7.5 },
+    dayLength: 'neutral',
+    growingPeriodDays: { min: 90, max: 150 },
+    yieldRange: { min: 1, max: 4.5, unit: 't/ha' },
+    waterNeedMm: { min: 500, max: 700 },
+    thermalTime: { baseC: 10, upperC: 35, stages: [{ name: 'Emergence', gdd: 120 }, { name: 'Flowering', gdd: 450 }, { name: 'Pegging', gdd: 650 }, { name: 'Pod fill', gdd: 1100 }, { name: 'Maturity', gdd: 1700 }] },
+    varieties: [
+      { id: 'spanish', name: 'Spanish type', growingPeriodDays: { min: 90, max: 110 }, yieldRange: { min: 1.5, max: 3, unit: 't/ha' } },
+      { id: 'virginia', name: 'Virginia type', growingPeriodDays: { min: 130, max: 150 }, yieldRange: { min: 2.5, max: 4.5, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'cotton',
+    name: 'Cotton',
+    aliases: ['upland cotton'],
+    family: 'malvaceae',
+    soils: { loamy: 1, clay: 0.9, silt: 0.8, sandy: 0.6, peat: 0.2 },
+    climates: ['tropical', 'arid', 'temperate'],
+    plantingSeasons: ['spring'],
+    temperature: { min: 15, optMin: 22, optMax: 32, max: 40 },
+    rainfall: { min: 500, optMin: 700, optMax: 1200, max: 1600 },
+    ph: { min: 5.5, optMin: 6, optMax: 7.5, max: 8.5 },
+    dayLength: 'neutral',
+    growingPeriodDays: { min: 140, max: 200 },
+    yieldRange: { min: 1.5, max: 5, unit: 't/ha' },
+    waterNeedMm: { min: 700, max: 1300 },
+    thermalTime: { baseC: 15.5, upperC: 35, stages: [{ name: 'Emergence', gdd: 30 }, { name: 'First square', gdd: 280 }, { name: 'First flower', gdd: 610 }, { name: 'Open boll', gdd: 1400 }] },
+    varieties: [
+      { id: 'upland-short', name: 'Upland, short season', growingPeriodDays: { min: 140, max: 160 }, yieldRange: { min: 2, max: 4, unit: 't/ha' } },
+      { id: 'long-staple', name: 'Long staple (G. barbadense)', growingPeriodDays: { min: 170, max: 200 }, yieldRange: { min: 1.5, max: 3.5, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'sugarcane',
+    name: 'Sugarcane',
+    aliases: ['sugar cane'],
+    family: 'poaceae',
+    soils: { loamy: 1, clay: 0.8, silt: 0.8, sandy: 0.5, peat: 0.5 },
+    climates: ['tropical'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 18, optMin: 24, optMax: 34, max: 40 },
+    rainfall: { min: 1000, optMin: 1500, optMax: 2500, max: 3500 },
+    ph: { min: 5, optMin: 6, optMax: 7.5, max: 8.5 },
+    dayLength: 'neutral',
+    growingPeriodDays: { min: 300, max: 540 },
+    yieldRange: { min: 50, max: 120, unit: 't/ha' },
+    waterNeedMm: { min: 1500, max: 2500 },
+    thermalTime: { baseC: 12, upperC: 35, stages: [{ name: 'Germination', gdd: 300 }, { name: 'Tillering', gdd: 1200 }, { name: 'Grand growth', gdd: 2500 }, { name: 'Maturity', gdd: 5000 }] },
+    varieties: [
+      { id: 'plant-crop', name: 'Plant crop', growingPeriodDays: { min: 365, max: 540 }, yieldRange: { min: 70, max: 120, unit: 't/ha' } },
+      { id: 'ratoon', name: 'Ratoon', growingPeriodDays: { min: 300, max: 365 }, yieldRange: { min: 50, max: 90, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'chickpea',
+    name: 'Chickpea',
+    aliases: ['chickpeas', 'garbanzo', 'gram'],
+    family: 'fabaceae',
+    soils: { loamy: 1, clay: 0.8, silt: 0.8, sandy: 0.6, peat: 0.2 },
+    climates: ['arid', 'temperate', 'tropical'],
+    plantingSeasons: ['fall', 'winter'],
+    temperature: { min: 5, optMin: 15, optMax: 28, max: 35 },
+    rainfall: { min: 250, optMin: 400, optMax: 650, max: 1000 },
+    ph: { min: 5.5, optMin: 6, optMax: 8, max: 9 },
+    dayLength: 'long',
+    growingPeriodDays: { min: 90, max: 150 },
+    yieldRange: { min: 0.8, max: 3, unit: 't/ha' },
+    waterNeedMm: { min: 300, max: 450 },
+    thermalTime: { baseC: 0, upperC: 30, stages: [{ name: 'Emergence', gdd: 150 }, { name: 'Flowering', gdd: 900 }, { name: 'Pod set', gdd: 1100 }, { name: 'Maturity', gdd: 1700 }] },
+    varieties: [
+      { id: 'desi', name: 'Desi', growingPeriodDays: { min: 90, max: 120 }, yieldRange: { min: 1, max: 2.5, unit: 't/ha' } },
+      { id: 'kabuli', name: 'Kabuli', growingPeriodDays: { min: 110, max: 150 }, yieldRange: { min: 1, max: 3, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'lentil',
+    name: 'Lentil',
+    aliases: ['lentils'],
+    family: 'fabaceae',
+    soils: { loamy: 1, silt: 0.9, clay: 0.6, sandy: 0.6, peat: 0.2 },
+    climates: ['temperate', 'arid', 'continental'],
+    plantingSeasons: ['fall', 'winter', 'spring'],
+    temperature: { min: 4, optMin: 12, optMax: 25, max: 32 },
+    rainfall: { min: 250, optMin: 350, optMax: 600, max: 900 },
+    ph: { min: 5.5, optMin: 6, optMax: 8, max: 8.5 },
+    dayLength: 'long',
+    growingPeriodDays: { min: 80, max: 130 },
+    yieldRange: { min: 0.8, max: 2.5, unit: 't/ha' },
+    waterNeedMm: { min: 300, max: 400 },
+    thermalTime: { baseC: 0, upperC: 30, stages: [{ name: 'Emergence', gdd: 150 }, { name: 'Flowering', gdd: 800 }, { name: 'Pod set', gdd: 1000 }, { name: 'Maturity', gdd: 1500 }] },
+    varieties: [
+      { id: 'red', name: 'Red', growingPeriodDays: { min: 90, max: 110 }, yieldRange: { min: 1, max: 2.2, unit: 't/ha' } },
+      { id: 'large-green', name: 'Large green', growingPeriodDays: { min: 100, max: 125 }, yieldRange: { min: 1, max: 2.5, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'sunflower',
+    name: 'Sunflower',
+    aliases: ['sunflowers'],
+    family: 'asteraceae',
+    soils: { loamy: 1, silt: 0.9, clay: 0.7, sandy: 0.7, peat: 0.3 },
+    climates: ['temperate', 'continental', 'arid'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 8, optMin: 18, optMax: 28, max: 36 },
+    rainfall: { min: 300, optMin: 500, optMax: 900, max: 1300 },
+    ph: { min: 5.5, optMin: 6, optMax: 7.5, max: 8.5 },
+    dayLength: 'neutral',
+    growingPeriodDays: { min: 80, max: 130 },
+    yieldRange: { min: 1.5, max: 3.5, unit: 't/ha' },
+    waterNeedMm: { min: 500, max: 800 },
+    thermalTime: { baseC: 6, upperC: 34, stages: [{ name: 'Emergence', gdd: 150 }, { name: 'Bud', gdd: 650 }, { name: 'Flowering', gdd: 1100 }, { name: 'Maturity', gdd: 1650 }] },
+    varieties: [
+      { id: 'oilseed-hybrid', name: 'Oilseed hybrid', growingPeriodDays: { min: 100, max: 120 }, yieldRange: { min: 2, max: 3.5, unit: 't/ha' } },
+      { id: 'confection', name: 'Confection', growingPeriodDays: { min: 110, max: 130 }, yieldRange: { min: 1.5, max: 3, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'canola',
+    name: 'Canola',
+    aliases: ['rapeseed', 'oilseed rape'],
+    family: 'brassicaceae',
+    soils: { loamy: 1, silt: 0.9, clay: 0.8, sandy: 0.5, peat: 0.4 },
+    climates: ['temperate', 'continental'],
+    plantingSeasons: ['fall', 'spring'],
+    temperature: { min: 3, optMin: 12, optMax: 22, max: 30 },
+    rainfall: { min: 350, optMin: 450, optMax: 800, max: 1200 },
+    ph: { min: 5.5, optMin: 6, optMax: 7.5, max: 8.3 },
+    dayLength: 'long',
+    growingPeriodDays: { min: 90, max: 320 },
+    yieldRange: { min: 1.5, max: 5, unit: 't/ha' },
+    waterNeedMm: { min: 450, max: 600 },
+    thermalTime: { baseC: 5, upperC: 30, stages: [{ name: 'Emergence', gdd: 140 }, { name: 'Rosette', gdd: 400 }, { name: 'Flowering', gdd: 750 }, { name: 'Maturity', gdd: 1350 }] },
+    varieties: [
+      { id: 'spring', name: 'Spring canola', growingPeriodDays: { min: 90, max: 110 }, yieldRange: { min: 1.5, max: 3, unit: 't/ha' } },
+      { id: 'winter', name: 'Winter oilseed rape', growingPeriodDays: { min: 270, max: 320 }, yieldRange: { min: 3, max: 5, unit: 't/ha' }, notes: 'Requires vernalization.' },
+    ],
+  },
+  {
+    id: 'tomato',
+    name: 'Tomato',
+    aliases: ['tomatoes'],
+    family: 'solanaceae',
+    soils: { loamy: 1, silt: 0.9, sandy: 0.8, clay: 0.6, peat: 0.5 },
+    climates: ['temperate', 'tropical', 'arid'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 10, optMin: 18, optMax: 27, max: 35 },
+    rainfall: { min: 400, optMin: 600, optMax: 1200, max: 1600 },
+    ph: { min: 5.5, optMin: 6, optMax: 7, max: 7.5 },
+    dayLength: 'neutral',
+    growingPeriodDays: { min: 90, max: 150 },
+    yieldRange: { min: 20, max: 100, unit: 't/ha' },
+    waterNeedMm: { min: 400, max: 800 },
+    thermalTime: { baseC: 10, upperC: 30, stages: [{ name: 'Establishment', gdd: 100 }, { name: 'First flower', gdd: 350 }, { name: 'Fruit set', gdd: 600 }, { name: 'First harvest', gdd: 1000 }] },
+    varieties: [
+      { id: 'determinate-processing', name: 'Determinate (processing)', growingPeriodDays: { min: 90, max: 110 }, yieldRange: { min: 50, max: 100, unit: 't/ha' } },
+      { id: 'indeterminate-fresh', name: 'Indeterminate (fresh market)', growingPeriodDays: { min: 120, max: 150 }, yieldRange: { min: 40, max: 80, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'oats',
+    name: 'Oats',
+    aliases: ['oat'],
+    family: 'poaceae',
+    soils: { loamy: 1, silt: 0.9, clay: 0.8, peat: 0.7, sandy: 0.6 },
+    climates: ['temperate', 'continental', 'polar'],
+    plantingSeasons: ['spring', 'fall'],
+    temperature: { min: 2, optMin: 10, optMax: 20, max: 28 },
+    rainfall: { min: 350, optMin: 500, optMax: 900, max: 1300 },
+    ph: { min: 5, optMin: 5.5, optMax: 7, max: 8 },
+    dayLength: 'long',
+    growingPeriodDays: { min: 90, max: 250 },
+    yieldRange: { min: 1.5, max: 6, unit: 't/ha' },
+    waterNeedMm: { min: 400, max: 550 },
+    thermalTime: { baseC: 0, upperC: 30, stages: [{ name: 'Emergence', gdd: 120 }, { name: 'Tillering', gdd: 380 }, { name: 'Heading', gdd: 900 }, { name: 'Maturity', gdd: 1450 }] },
+    varieties: [
+      { id: 'spring', name: 'Spring oats', growingPeriodDays: { min: 90, max: 110 }, yieldRange: { min: 2, max: 5, unit: 't/ha' } },
+      { id: 'winter', name: 'Winter oats', growingPeriodDays: { min: 210, max: 250 }, yieldRange: { min: 3, max: 6, unit: 't/ha' } },
+    ],
+  },
+  {
+    id: 'common-bean',
+    name: 'Common Bean',
+    aliases: ['dry bean', 'beans', 'kidney bean', 'pinto bean'],
+    family: 'fabaceae',
+    soils: { loamy: 1, silt: 0.9, sandy: 0.7, clay: 0.5, peat: 0.3 },
+    climates: ['temperate', 'tropical', 'continental'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 10, optMin: 17, optMax: 27, max: 32 },
+    rainfall: { min: 300, optMin: 500, optMax: 900, max: 1300 },
+    ph: { min: 5.5, optMin: 6, optMax: 7, max: 7.5 },
+    dayLength: 'neutral',
+    growingPeriodDays: { min: 70, max: 120 },
+    yieldRange: { min: 0.8, max: 3, unit: 't/ha' },
+    waterNeedMm: { min: 300, max: 500 },
+    thermalTime: { baseC: 10, upperC: 30, stages: [{ name: 'Emergence', gdd: 90 }, { name: 'Flowering', gdd: 500 }, { name: 'Pod fill', gdd: 750 }, { name: 'Maturity', gdd: 1050 }] },
+    varieties: [
+      { id: 'bush', name: 'Bush type', growingPeriodDays: { min: 70, max: 90 }, yieldRange: { min: 1, max: 2.5, unit: 't/ha' } },
+      { id: 'climbing', name: 'Climbing type', growingPeriodDays: { min: 100, max: 120 }, yieldRange: { min: 1.5, max: 3, unit: 't/ha' }, dayLength: 'short' },
+    ],
+  },
+  {
+    id: 'sweet-potato',
+    name: 'Sweet Potato',
+    aliases: ['sweet potatoes', 'kumara'],
+    family: 'convolvulaceae',
+    soils: { sandy: 1, loamy: 1, silt: 0.7, clay: 0.4, peat: 0.3 },
+    climates: ['tropical', 'temperate'],
+    plantingSeasons: ['spring', 'summer'],
+    temperature: { min: 15, optMin: 22, optMax: 30, max: 36 },
+    rainfall: { min: 500, optMin: 750, optMax: 1500, max: 2500 },
+    ph: { min: 5, optMin: 5.5, optMax: 6.5, max: 7.5 },
+    dayLength: 'short',
+    growingPeriodDays: { min: 90, max: 150 },
+    yieldRange: { min: 10, max: 35, unit: 't/ha' },
+    waterNeedMm: { min: 500, max: 750 },
+    thermalTime: { baseC: 15.5, upperC: 35, stages: [{ name: 'Establishment', gdd: 150 }, { name: 'Storage root initiation', gdd: 400 }, { name: 'Bulking', gdd: 900 }, { name: 'Maturity', gdd: 1400 }] },
+    varieties: [
+      { id: 'orange-fleshed', name: 'Orange-fleshed', growingPeriodDays: { min: 100, max: 120 }, yieldRange: { min: 12, max: 30, unit: 't/ha' } },
+      { id: 'dessert', name: 'White/purple dessert', growingPeriodDays: { min: 120, max: 150 }, yieldRange: { min: 10, max: 25, unit: 't/ha' } },
+    ],
+  },
+];
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Looks up a catalog crop from a free-text name (e.g. "Hybrid corn" or
+ * "Soybeans (Glycine max)").
+ * @returns The matching crop, or undefined if nothing in the catalog matches.
+ */
+export function findCatalogCrop(
+  name: string,
+  catalog: CropProfile[] = CROP_CATALOG,
+): CropProfile | undefined {
+  const query = normalizeName(name);
+  if (!query) return undefined;
+
+  const exact = catalog.find(
+    crop =>
+      normalizeName(crop.name) === query ||
+      crop.aliases.some(alias => normalizeName(alias) === query),
+  );
+  if (exact) return exact;
+
+  // Fall back to whole-word containment, preferring the longest match so
+  // that "sweet potato" wins over "potato".
+  const candidates = catalog
+    .flatMap(crop =>
+      [crop.name, ...crop.aliases].map(n => ({ crop, term: normalizeName(n) })),
+    )
+    .filter(({ term }) => ` ${query} `.includes(` ${term} `))
+    .sort((a, b) => b.term.length - a.term.length);
+  return candidates[0]?.crop;
+}
+
+/**
+ * Applies team overrides to the bundled catalog. An override with the same id
+ * as a bundled crop replaces it; any other id adds a new crop.
+ */
+export function mergeCatalog(
+  base: CropProfile[],
+  overrides: CropProfile[],
+): CropProfile[] {
+  const byId = new Map(base.map(crop => [crop.id, crop]));
+  for (const crop of overrides) {
+    byId.set(crop.id, crop);
+  }
+  return [...byId.values()];
+}
+
+/**
+ * Parses an imported catalog file.
+ * @throws Error with a readable description when the file is invalid.
+ */
+export function parseCatalogFile(text: string): CropCatalogFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Catalog file is not valid JSON: ${e}`);
+  }
+  const result = CropCatalogFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(z.prettifyError(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Builds a compact text description of catalog crops for the recommendation
+ * prompt, so the model grounds its answer in the team's curated data.
+ */
+export function catalogPromptContext(crops: CropProfile[]): string {
+  const range = (r: { min: number; max: number }) => `${r.min}-${r.max}`;
+  const lines = crops.map(crop => {
+    const varieties = crop.varieties.map(v => v.name).join(', ');
+    const maturity = crop.thermalTime?.stages[crop.thermalTime.stages.length - 1];
+    const thermal = maturity ? ` (${maturity.gdd} GDD above ${crop.thermalTime!.baseC}°C)` : '';
+    return `- ${crop.name}: temp opt ${crop.temperature.optMin}-${crop.temperature.optMax}°C (limits ${crop.temperature.min}-${crop.temperature.max}); rainfall opt ${crop.rainfall.optMin}-${crop.rainfall.optMax} mm; pH ${crop.ph.optMin}-${crop.ph.optMax}; ${crop.dayLength}-day; ${range(crop.growingPeriodDays)} days${thermal}; yield ${range(crop.yieldRange)} ${crop.yieldRange.unit}; water ${range(crop.waterNeedMm)} mm${varieties ? `; varieties: ${varieties}` : ''}`;
+  });
+  return `Curated crop catalog (v${CROP_CATALOG_VERSION}):\n${lines.join('\n')}`;
+}
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Structured crop recommendation report.
+ *
+ * The recommendation model is asked to answer with a JSON document matching
+ * `CropRecommendationReportSchema`. The schema is the single source of truth:
+ * it is embedded in the system instruction, used to validate the model output
+ * and drives the TypeScript types consumed by the UI, exports and tools.
+ */
+
+import { z } from 'zod';
+
+export const YieldRangeSchema = z.object({
+  min: z.number().nonnegative(),
+  max: z.number().nonnegative(),
+  unit: z.string().min(1).describe('e.g. "t/ha", "kg/ha", "bu/acre"'),
+});
+
+export const SeasonWindowSchema = z.object({
+  start: z.string().min(1).describe('Month or date, e.g. "March" or "mid-April"'),
+  end: z.string().min(1),
+  notes: z.string().optional(),
+});
+
+export const WaterNeedsSchema = z.object({
+  seasonalMm: z
+    .object({ min: z.number().nonnegative(), max: z.number().nonnegative() })
+    .optional()
+    .describe('Seasonal crop water requirement in mm'),
+  irrigationRequired: z.boolean().optional(),
+  notes: z.string().optional(),
+});
+
+export const FertilizerNeedsSchema = z.object({
+  nitrogenKgHa: z.number().nonnegative().optional(),
+  phosphorusKgHa: z.number().nonnegative().optional().describe('As P2O5'),
+  potassiumKgHa: z.number().nonnegative().optional().describe('As K2O'),
+  notes: z.string().optional(),
+});
+
+export const RiskSchema = z.object({
+  risk: z.string().min(1),
+  severity: z.enum(['low', 'medium', 'high']),
+  mitigation: z.string().min(1),
+});
+
+export const CropRecommendationSchema = z.object({
+  crop: z.string().min(1),
+  variety: z.string().optional(),
+  rationale: z.string().min(1),
+  plantingWindow: SeasonWindowSchema,
+  harvestWindow: SeasonWindowSchema,
+  expectedYield: YieldRangeSchema,
+  waterNeeds: WaterNeedsSchema,
+  fertilizerNeeds: FertilizerNeedsSchema,
+  risks: z.array(RiskSchema),
+});
+
+export const CropRecommendationReportSchema = z.object({
+  locationSummary: z.string().min(1),
+  crops: z.array(CropRecommendationSchema).min(1),
+  soilPreparation: z.array(z.string()),
+  generalRisks: z.array(RiskSchema).optional(),
+  notes: z.string().optional(),
+});
+
+export type YieldRange = z.infer<typeof YieldRangeSchema>;
+export type SeasonWindow = z.infer<typeof SeasonWindowSchema>;
+export type CropRisk = z.infer<typeof RiskSchema>;
+export type CropRecommendation = z.infer<typeof CropRecommendationSchema>;
+export type CropRecommendationReport = z.infer<
+  typeof CropRecommendationReportSchema
+>;
+
+/**
+ * Prompt fragment instructing the model to answer with a report document.
+ * The JSON Schema is generated from the zod schema so the two cannot drift.
+ */
+export const CROP_REPORT_FORMAT_INSTRUCTIONS = `Respond ONLY with a single JSON object inside a \`\`\`json code fence. The object MUST validate against this JSON Schema:
+${JSON.stringify(z.toJSONSchema(CropRecommendationReportSchema))}
+Use numeric values (not strings) for yields, water and fertilizer amounts. List 3-5 crops ordered from most to least recommended.`;
+
+export interface CropReportParseResult {
+  report: CropRecommendationReport | null;
+  error?: string;
+}
+
+/**
+ * Extracts the JSON payload from a model response. Accepts a fenced ```json
+ * block, or falls back to the outermost `{ ... }` in the text.
+ */
+function extractJson(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    return fenced[1].trim();
+  }
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    return text.slice(start, end + 1);
+  }
+  return null;
+}
+
+/**
+ * Parses and validates a model response into a `CropRecommendationReport`.
+ * @param text - The raw text returned by the model.
+ * @returns The validated report, or a human-readable validation error.
+ */
+export function parseCropRecommendationReport(
+  text: string,
+): CropReportParseResult {
+  const json = extractJson(text);
+  if (!json) {
+    return { report: null, error: 'No JSON report found in the response.' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return { report: null, error: `Report is not valid JSON: ${e}` };
+  }
+
+  const result = CropRecommendationReportSchema.safeParse(data);
+  if (!result.success) {
+    return { report: null, error: z.prettifyError(result.error) };
+  }
+  return { report: result.data };
+}
+
+const formatRange = (range: { min: number; max: number }) =>
+  range.min === range.max ? `${range.min}` : `${range.min}–${range.max}`;
+
+const formatWindow = (window: SeasonWindow) =>
+  `${window.start} – ${window.end}${window.notes ? ` (${window.notes})` : ''}`;
+
+const formatRisks = (risks: CropRisk[]) =>
+  risks.map(r => `- **${r.risk}** (${r.severity}): ${r.mitigation}`);
+
+/**
+ * Renders a report as markdown. Used as the fallback "document" view of the
+ * same data the structured view shows.
+ */
+export function cropReportToMarkdown(report: CropRecommendationReport): string {
+  const lines: string[] = ['## Location Summary', report.locationSummary, ''];
+
+  lines.push('## Recommended Crops');
+  report.crops.forEach((crop, index) => {
+    const title = crop.variety ? `${crop.crop} (${crop.variety})` : crop.crop;
+    lines.push(`### ${index + 1}. ${title}`, crop.rationale, '');
+    lines.push(`- **Planting:** ${formatWindow(crop.plantingWindow)}`);
+    lines.push(`- **Harvest:** ${formatWindow(crop.harvestWindow)}`);
+    lines.push(
+      `- **Expected yield:** ${formatRange(crop.expectedYield)} ${crop.expectedYield.unit}`,
+    );
+
+    const water = crop.waterNeeds;
+    const waterParts = [
+      water.seasonalMm ? `${formatRange(water.seasonalMm)} mm per season` : '',
+      water.irrigationRequired !== undefined
+        ? `irrigation ${water.irrigationRequired ? 'required' : 'not required'}`
+        : '',
+      water.notes ?? '',
+    ].filter(Boolean);
+    if (waterParts.length) {
+      lines.push(`- **Water:** ${waterParts.join('; ')}`);
+    }
+
+    const fert = crop.fertilizerNeeds;
+    const fertParts = [
+      fert.nitrogenKgHa !== undefined ? `N ${fert.nitrogenKgHa} kg/ha` : '',
+      fert.phosphorusKgHa !== undefined ? `P₂O₅ ${fert.phosphorusKgHa} kg/ha` : '',
+      fert.potassiumKgHa !== undefined ? `K₂O ${fert.potassiumKgHa} kg/ha` : '',
+      fert.notes ?? '',
+    ].filter(Boolean);
+    if (fertParts.length) {
+      lines.push(`- **Fertilizer:** ${fertParts.join('; ')}`);
+    }
+
+    if (crop.risks.length) {
+      lines.push('- **Risks:**', ...formatRisks(crop.risks).map(r => `  ${r}`));
+    }
+    lines.push('');
+  });
+
+  if (report.soilPreparation.length) {
+    lines.push('## Soil Preparation', ...report.soilPreparation.map(s => `- ${s}`), '');
+  }
+  if (report.generalRisks?.length) {
+    lines.push('## Potential Challenges', ...formatRisks(report.generalRisks), '');
+  }
+  if (report.notes) {
+    lines.push('## Notes', report.notes);
+  }
+  return lines.join('\n');
+}
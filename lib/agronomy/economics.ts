@@ -0,0 +1,307 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Farm economics: revenue, variable costs and gross margin per crop.
+ *
+ * Bundled farm-gate prices and cost templates are indicative world-market
+ * values in US dollars per tonne and per hectare. The price table holds the
+ * user's currency, its rate against the dollar and any prices or costs they
+ * entered, which take precedence over the converted defaults. Fertilizer
+ * costs come from the nutrient budget and, where the farm irrigates, water
+ * costs from the irrigation plan.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { round } from '@/lib/utils';
+import { CROP_CATALOG, CropProfile } from './crop-catalog';
+import { computeIrrigationPlan } from './evapotranspiration';
+import { computeNutrientBudget, defaultTargetYield } from './nutrient-budget';
+
+// Per-hectare costs that are taken from a template, in currency per ha.
+export interface CostTemplate {
+  seed: number;
+  protection: number;
+  operations: number;
+  labor: number;
+  other: number;
+}
+
+export type CostCategory = keyof CostTemplate | 'fertilizer' | 'irrigation';
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+  seed: 'Seed / planting material',
+  fertilizer: 'Fertilizer',
+  protection: 'Crop protection',
+  operations: 'Machinery and fuel',
+  labor: 'Hired labor',
+  irrigation: 'Irrigation water',
+  other: 'Other',
+};
+
+export const TEMPLATE_CATEGORIES: (keyof CostTemplate)[] = [
+  'seed',
+  'protection',
+  'operations',
+  'labor',
+  'other',
+];
+
+export const isTemplateCategory = (
+  category: CostCategory,
+): category is keyof CostTemplate =>
+  (TEMPLATE_CATEGORIES as CostCategory[]).includes(category);
+
+// Farm-gate prices in USD per tonne, keyed by catalog crop id.
+const CROP_PRICES_USD: Record<string, number> = {
+  maize: 200,
+  wheat: 250,
+  rice: 380,
+  soybean: 450,
+  sorghum: 190,
+  'pearl-millet': 280,
+  barley: 210,
+  potato: 220,
+  cassava: 90,
+  groundnut: 900,
+  // Seed cotton.
+  cotton: 650,
+  sugarcane: 40,
+  chickpea: 700,
+  lentil: 650,
+  sunflower: 450,
+  canola: 520,
+  tomato: 350,
+  oats: 200,
+  'common-bean': 900,
+  'sweet-potato': 300,
+};
+const DEFAULT_PRICE_USD = 300;
+
+// Variable costs in USD per hectare, keyed by catalog crop id.
+const COST_TEMPLATES_USD: Record<string, CostTemplate> = {
+  maize: { seed: 180, protection: 90, operations: 160, labor: 60, other: 50 },
+  wheat: { seed: 90, protection: 70, operations: 140, labor: 50, other: 40 },
+  rice: { seed: 80, protection: 110, operations: 200, labor: 180, other: 60 },
+  soybean: { seed: 110, protection: 80, operations: 130, labor: 50, other: 40 },
+  sorghum: { seed: 40, protection: 50, operations: 120, labor: 50, other: 30 },
+  'pearl-millet': { seed: 20, protection: 30, operations: 90, labor: 70, other: 20 },
+  barley: { seed: 80, protection: 60, operations: 130, labor: 45, other: 35 },
+  potato: { seed: 900, protection: 400, operations: 450, labor: 350, other: 150 },
+  cassava: { seed: 120, protection: 60, operations: 200, labor: 300, other: 50 },
+  groundnut: { seed: 200, protection: 90, operations: 150, labor: 200, other: 50 },
+  cotton: { seed: 120, protection: 200, operations: 220, labor: 150, other: 80 },
+  sugarcane: { seed: 400, protection: 150, operations: 500, labor: 400, other: 200 },
+  chickpea: { seed: 100, protection: 60, operations: 110, labor: 60, other: 30 },
+  lentil: { seed: 90, protection: 60, operations: 110, labor: 60, other: 30 },
+  sunflower: { seed: 110, protection: 60, operations: 120, labor: 40, other: 35 },
+  canola: { seed: 90, protection: 110, operations: 140, labor: 40, other: 40 },
+  tomato: { seed: 1500, protection: 800, operations: 600, labor: 2500, other: 500 },
+  oats: { seed: 70, protection: 40, operations: 120, labor: 40, other: 30 },
+  'common-bean': { seed: 150, protection: 90, operations: 120, labor: 120, other: 40 },
+  'sweet-potato': { seed: 400, protection: 100, operations: 250, labor: 400, other: 80 },
+};
+const DEFAULT_COST_TEMPLATE_USD: CostTemplate = {
+  seed: 100,
+  protection: 70,
+  operations: 140,
+  labor: 80,
+  other: 40,
+};
+
+// Fertilizer product prices in USD per tonne, keyed by product id.
+const FERTILIZER_PRICES_USD: Record<string, number> = {
+  urea: 450,
+  dap: 700,
+  tsp: 550,
+  mop: 400,
+  sop: 650,
+};
+// Delivered irrigation water, including pumping, in USD per m³.
+const DEFAULT_WATER_PRICE_USD = 0.05;
+
+export interface PriceTable {
+  // ISO 4217 code, e.g. "USD", "EUR", "INR".
+  currency: string;
+  // Units of the currency per US dollar, used to convert the bundled prices.
+  usdRate: number;
+  // Prices per tonne entered by the user, keyed by crop id.
+  cropPrices: Record<string, number>;
+  // Costs per hectare entered by the user, keyed by crop id.
+  costOverrides: Record<string, Partial<CostTemplate>>;
+  // Per m³, when entered by the user.
+  waterPrice?: number;
+}
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  currency: 'USD',
+  usdRate: 1,
+  cropPrices: {},
+  costOverrides: {},
+};
+
+export interface CostLine {
+  category: CostCategory;
+  perHa: number;
+  // Whether the user entered it, rather than the template.
+  edited?: boolean;
+}
+
+export interface CropEconomics {
+  crop: CropProfile;
+  currency: string;
+  yieldPerHa: number;
+  yieldUnit: string;
+  // Per tonne (or other yield unit).
+  price: number;
+  revenuePerHa: number;
+  costs: CostLine[];
+  variableCostPerHa: number;
+  grossMarginPerHa: number;
+  // Whole-farm figures, when the farm size is known.
+  farmSizeHa?: number;
+  revenueTotal?: number;
+  variableCostTotal?: number;
+  grossMarginTotal?: number;
+  // Yield and price at which revenue just covers variable costs.
+  breakEvenYield: number | null;
+  breakEvenPrice: number | null;
+  notes: string[];
+}
+
+/**
+ * The crop's price per tonne in the table's currency.
+ */
+export function cropPrice(crop: CropProfile, table: PriceTable): number {
+  return (
+    table.cropPrices[crop.id] ??
+    round((CROP_PRICES_USD[crop.id] ?? DEFAULT_PRICE_USD) * table.usdRate, 2)
+  );
+}
+
+/**
+ * The crop's template costs per hectare in the table's currency, with the
+ * user's entries applied.
+ */
+export function costTemplate(crop: CropProfile, table: PriceTable): CostTemplate {
+  const template = COST_TEMPLATES_USD[crop.id] ?? DEFAULT_COST_TEMPLATE_USD;
+  const overrides = table.costOverrides[crop.id] ?? {};
+  const costs = {} as CostTemplate;
+  for (const category of TEMPLATE_CATEGORIES) {
+    costs[category] = overrides[category] ?? round(template[category] * table.usdRate);
+  }
+  return costs;
+}
+
+export const waterPrice = (table: PriceTable) =>
+  table.waterPrice ?? round(DEFAULT_WATER_PRICE_USD * table.usdRate, 3);
+
+/**
+ * Computes revenue, variable costs and gross margin for a crop at a yield
+ * (by default the middle of its catalog range) in tonnes per hectare.
+ */
+export function computeCropEconomics(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+  table: PriceTable = DEFAULT_PRICE_TABLE,
+  yieldPerHa = defaultTargetYield(crop),
+  catalog: CropProfile[] = CROP_CATALOG,
+): CropEconomics {
+  const notes: string[] = [];
+  const price = cropPrice(crop, table);
+  const template = costTemplate(crop, table);
+  const overrides = table.costOverrides[crop.id] ?? {};
+  const costs: CostLine[] = TEMPLATE_CATEGORIES.map(category => ({
+    category,
+    perHa: template[category],
+    edited: overrides[category] !== undefined,
+  }));
+
+  const budget = computeNutrientBudget(crop, params, yieldPerHa, catalog);
+  const fertilizer = budget.products.reduce(
+    (sum, p) => sum + (p.kgPerHa / 1000) * (FERTILIZER_PRICES_USD[p.product.id] ?? 0) * table.usdRate,
+    0,
+  );
+  costs.splice(1, 0, { category: 'fertilizer', perHa: round(fertilizer) });
+
+  if (params.irrigationAvailable) {
+    try {
+      const plan = computeIrrigationPlan(crop, params);
+      const m3PerHa = plan.grossIrrigationMm * 10;
+      costs.push({ category: 'irrigation', perHa: round(m3PerHa * waterPrice(table)) });
+    } catch {
+      notes.push('Irrigation water is not costed: enter a temperature to estimate it.');
+    }
+  }
+
+  const revenuePerHa = round(yieldPerHa * price);
+  const variableCostPerHa = costs.reduce((sum, line) => sum + line.perHa, 0);
+  const grossMarginPerHa = revenuePerHa - variableCostPerHa;
+  const farmSizeHa = params.farmSize;
+  const total = (perHa: number) => (farmSizeHa ? round(perHa * farmSizeHa) : undefined);
+  if (crop.yieldRange.unit !== 't/ha') {
+    notes.push(`Prices are per tonne, but ${crop.name} yields are in ${crop.yieldRange.unit}.`);
+  }
+
+  return {
+    crop,
+    currency: table.currency,
+    yieldPerHa,
+    yieldUnit: crop.yieldRange.unit,
+    price,
+    revenuePerHa,
+    costs,
+    variableCostPerHa,
+    grossMarginPerHa,
+    farmSizeHa,
+    revenueTotal: total(revenuePerHa),
+    variableCostTotal: total(variableCostPerHa),
+    grossMarginTotal: total(grossMarginPerHa),
+    breakEvenYield: price > 0 ? round(variableCostPerHa / price, 2) : null,
+    breakEvenPrice: yieldPerHa > 0 ? round(variableCostPerHa / yieldPerHa, 2) : null,
+    notes,
+  };
+}
+
+/**
+ * Sorts by gross margin per hectare, best first.
+ */
+export function sortByMargin<T extends { grossMarginPerHa: number }>(items: T[]): T[] {
+  return [...items].sort((a, b) => b.grossMarginPerHa - a.grossMarginPerHa);
+}
+
+/**
+ * Formats an amount in a currency, e.g. "$1,250" or "1.250 €". Falls back to
+ * "1,250 XYZ" for codes the browser does not know.
+ */
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: Math.abs(amount) < 10 ? 2 : 0,
+    }).format(amount);
+  } catch {
+    return `${Math.round(amount).toLocaleString()} ${currency}`;
+  }
+}
+
+/**
+ * Summarizes the economics of a crop as plain text, for tool responses.
+ */
+export function summarizeEconomics(economics: CropEconomics): string {
+  const money = (amount: number) => formatMoney(amount, economics.currency);
+  const farm =
+    economics.grossMarginTotal !== undefined
+      ? ` (${money(economics.grossMarginTotal)} for ${economics.farmSizeHa} ha)`
+      : '';
+  const breakEven = [
+    economics.breakEvenYield !== null ? `${economics.breakEvenYield} t/ha` : null,
+    economics.breakEvenPrice !== null ? `${money(economics.breakEvenPrice)}/t` : null,
+  ]
+    .filter(Boolean)
+    .join(' or ');
+  return `${economics.crop.name}: ${economics.yieldPerHa} t/ha at ${money(economics.price)}/t = ${money(economics.revenuePerHa)}/ha revenue, ${money(economics.variableCostPerHa)}/ha variable costs, gross margin ${money(economics.grossMarginPerHa)}/ha${farm}; break-even ${breakEven}`;
+}
@@ -0,0 +1,330 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Annual soil loss with the Revised Universal Soil Loss Equation,
+ * A = R · K · LS · C · P, in t/ha/yr.
+ *
+ * R, the rainfall erosivity, is estimated from annual rainfall (Renard and
+ * Freimund, 1994). K, the soil erodibility, comes from the sand, silt and
+ * clay fractions and organic matter (Williams' EPIC equation), using lab
+ * values when entered and typical values for the soil type otherwise. LS
+ * follows McCool et al. for the field's mean slope, from the terrain
+ * analysis or entered by hand. C is the crop's cover factor over the year
+ * and P the support factor of the conservation practice (Wischmeier and
+ * Smith, 1978). Estimates are for comparing crops and practices, not for
+ * predicting the loss in a given year.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { round } from '@/lib/utils';
+import { CropFamily, CropProfile, SoilType } from './crop-catalog';
+import { TYPICAL_ORGANIC_MATTER_PCT } from './nutrient-budget';
+import { SoilTexture } from './soil-texture';
+
+export type ConservationPractice = 'none' | 'contour' | 'strip-cropping' | 'terraces';
+
+// In order of effort, so the first that is enough is the one to suggest.
+export const CONSERVATION_PRACTICES: { id: ConservationPractice; label: string }[] = [
+  { id: 'none', label: 'No practice (up and down slope)' },
+  { id: 'contour', label: 'Contour farming' },
+  { id: 'strip-cropping', label: 'Contour strip cropping' },
+  { id: 'terraces', label: 'Terraces' },
+];
+
+export interface ErosionInputs {
+  practice: ConservationPractice;
+  // Override the terrain analysis, e.g. with a slope measured on site.
+  slopePct?: number;
+  slopeLengthM?: number;
+  toleranceTHa?: number;
+}
+
+// Soil loss the soil can sustain while keeping its productivity, for deep
+// soils (USDA-NRCS). Shallow or degraded soils tolerate less.
+export const DEFAULT_SOIL_LOSS_TOLERANCE_T_HA = 11;
+// Slope length used when neither the terrain nor the user gives one.
+export const DEFAULT_SLOPE_LENGTH_M = 50;
+// Runoff concentrates into rills and channels over longer slopes.
+const MAX_SLOPE_LENGTH_M = 120;
+const MIN_SLOPE_LENGTH_M = 5;
+// Converts EPIC's erodibility from US customary to t·ha·h/(ha·MJ·mm).
+const US_TO_SI_ERODIBILITY = 0.1317;
+// Organic soils have no mineral texture and erode little under water.
+const PEAT_ERODIBILITY = 0.01;
+const ORGANIC_CARBON_PER_ORGANIC_MATTER = 1 / 1.724;
+
+// Typical fractions when no lab texture was entered.
+const TYPICAL_TEXTURE: Record<Exclude<SoilType, 'peat'>, SoilTexture> = {
+  sandy: { sand: 85, silt: 10, clay: 5 },
+  loamy: { sand: 40, silt: 40, clay: 20 },
+  silt: { sand: 15, silt: 70, clay: 15 },
+  clay: { sand: 25, silt: 25, clay: 50 },
+};
+
+// Annual cover-management factor under conventional tillage, by crop.
+const CROP_COVER_FACTORS: Record<string, number> = {
+  maize: 0.4,
+  wheat: 0.2,
+  // Bunded paddies hold water and soil.
+  rice: 0.1,
+  soybean: 0.45,
+  sorghum: 0.35,
+  'pearl-millet': 0.35,
+  barley: 0.2,
+  potato: 0.45,
+  cassava: 0.55,
+  groundnut: 0.4,
+  cotton: 0.5,
+  sugarcane: 0.2,
+  chickpea: 0.35,
+  lentil: 0.35,
+  sunflower: 0.45,
+  canola: 0.25,
+  tomato: 0.5,
+  oats: 0.18,
+  'common-bean': 0.45,
+  'sweet-potato': 0.3,
+};
+
+// For crops added to the catalog by the team.
+const FAMILY_COVER_FACTORS: Record<CropFamily, number> = {
+  poaceae: 0.3,
+  fabaceae: 0.4,
+  solanaceae: 0.5,
+  brassicaceae: 0.3,
+  asteraceae: 0.45,
+  malvaceae: 0.5,
+  euphorbiaceae: 0.55,
+  convolvulaceae: 0.3,
+  other: 0.4,
+};
+
+// Contour farming support factor by slope (upper bound, %). Beyond 25% rows
+// no longer hold the runoff.
+const CONTOUR_SUPPORT_FACTORS: [number, number][] = [
+  [2, 0.6],
+  [8, 0.5],
+  [12, 0.6],
+  [16, 0.7],
+  [20, 0.8],
+  [25, 0.9],
+  [Infinity, 1],
+];
+// Strip cropping and terraces, relative to contour farming alone.
+const STRIP_CROPPING_SHARE = 0.5;
+const TERRACE_SHARE = 0.2;
+// Terraces still work on slopes too steep for contour rows.
+const MAX_TERRACE_SUPPORT_FACTOR = 0.2;
+
+export interface ErosionSite {
+  // R, in MJ·mm/(ha·h·yr).
+  rainfallErosivity: number;
+  // K, in t·ha·h/(ha·MJ·mm).
+  soilErodibility: number;
+  slopePct: number;
+  slopeLengthM: number;
+  // LS, dimensionless.
+  lengthSlopeFactor: number;
+  toleranceTHa: number;
+  practice: ConservationPractice;
+  assumptions: string[];
+}
+
+export interface PracticeLoss {
+  practice: ConservationPractice;
+  // P, dimensionless.
+  supportFactor: number;
+  lossTHa: number;
+  withinTolerance: boolean;
+}
+
+export interface SoilLossEstimate {
+  crop: CropProfile;
+  site: ErosionSite;
+  // C, dimensionless.
+  coverFactor: number;
+  // Loss under the chosen practice.
+  lossTHa: number;
+  withinTolerance: boolean;
+  // Loss under every practice, in order of effort.
+  practices: PracticeLoss[];
+  // The least effort that brings loss within tolerance, if any does.
+  sufficientPractice: ConservationPractice | null;
+}
+
+export const practiceLabel = (practice: ConservationPractice) =>
+  CONSERVATION_PRACTICES.find(p => p.id === practice)!.label;
+
+/**
+ * R from annual rainfall, in MJ·mm/(ha·h·yr).
+ */
+export function rainfallErosivity(rainfallMm: number): number {
+  if (rainfallMm <= 0) return 0;
+  return rainfallMm < 850
+    ? 0.0483 * rainfallMm ** 1.61
+    : 587.8 - 1.219 * rainfallMm + 0.004105 * rainfallMm ** 2;
+}
+
+/**
+ * K from texture and organic matter, in t·ha·h/(ha·MJ·mm).
+ */
+export function soilErodibility(texture: SoilTexture, organicMatterPct: number): number {
+  const total = texture.sand + texture.silt + texture.clay;
+  const sand = (texture.sand / total) * 100;
+  const silt = (texture.silt / total) * 100;
+  const clay = (texture.clay / total) * 100;
+  const carbon = organicMatterPct * ORGANIC_CARBON_PER_ORGANIC_MATTER;
+  const nonSand = 1 - sand / 100;
+
+  const coarseSand = 0.2 + 0.3 * Math.exp(-0.256 * sand * (1 - silt / 100));
+  const clayToSilt = silt + clay > 0 ? (silt / (clay + silt)) ** 0.3 : 1;
+  const organic = 1 - (0.25 * carbon) / (carbon + Math.exp(3.72 - 2.95 * carbon));
+  const highSand = 1 - (0.7 * nonSand) / (nonSand + Math.exp(-5.51 + 22.9 * nonSand));
+  return coarseSand * clayToSilt * organic * highSand * US_TO_SI_ERODIBILITY;
+}
+
+/**
+ * LS for a uniform slope, after McCool et al. (1987, 1989).
+ */
+export function lengthSlopeFactor(slopePct: number, slopeLengthM: number): number {
+  const sinTheta = Math.sin(Math.atan(slopePct / 100));
+  const steepness = slopePct < 9 ? 10.8 * sinTheta + 0.03 : 16.8 * sinTheta - 0.5;
+  const beta = sinTheta / 0.0896 / (3 * sinTheta ** 0.8 + 0.56);
+  const exponent = beta / (1 + beta);
+  return (slopeLengthM / 22.13) ** exponent * steepness;
+}
+
+/**
+ * P for a conservation practice on a slope.
+ */
+export function supportFactor(practice: ConservationPractice, slopePct: number): number {
+  if (practice === 'none') return 1;
+  const contour = CONTOUR_SUPPORT_FACTORS.find(([upTo]) => slopePct <= upTo)![1];
+  if (practice === 'contour') return contour;
+  if (practice === 'strip-cropping') return contour * STRIP_CROPPING_SHARE;
+  return Math.min(contour * TERRACE_SHARE, MAX_TERRACE_SUPPORT_FACTOR);
+}
+
+/**
+ * C for a crop, from the table or, for team-added crops, its family.
+ */
+export function cropCoverFactor(crop: CropProfile): number {
+  return CROP_COVER_FACTORS[crop.id] ?? FAMILY_COVER_FACTORS[crop.family];
+}
+
+/**
+ * The crop-independent factors for the farm, or null without the annual
+ * rainfall or a slope (from the terrain analysis or entered).
+ */
+export function erosionSite(params: AgriculturalParameters): ErosionSite | null {
+  const inputs = params.erosion;
+  const terrain = params.terrain;
+  const slopePct = inputs?.slopePct ?? terrain?.meanSlopePct;
+  if (params.rainfall === undefined || slopePct === undefined) return null;
+
+  const assumptions: string[] = [];
+  let slopeLengthM = inputs?.slopeLengthM;
+  if (slopeLengthM === undefined) {
+    // The horizontal run over the field's relief, at its mean slope.
+    const relief = terrain ? terrain.maxElevationM - terrain.minElevationM : 0;
+    slopeLengthM =
+      terrain && terrain.meanSlopePct > 0 && relief > 0
+        ? round(
+            Math.min(MAX_SLOPE_LENGTH_M, Math.max(MIN_SLOPE_LENGTH_M, relief / (terrain.meanSlopePct / 100))),
+          )
+        : DEFAULT_SLOPE_LENGTH_M;
+    assumptions.push(`Slope length of ${slopeLengthM} m assumed${terrain ? ' from the terrain' : ''}; enter the distance runoff travels before reaching a channel to refine it.`);
+  }
+
+  let soilErodibilityValue: number;
+  if (params.soilType === 'peat' && !params.soilTexture) {
+    soilErodibilityValue = PEAT_ERODIBILITY;
+    assumptions.push('Peat erodes little under water; wind erosion of drained peat is not modelled.');
+  } else {
+    const texture =
+      params.soilTexture ?? TYPICAL_TEXTURE[params.soilType as Exclude<SoilType, 'peat'>];
+    const organicMatterPct =
+      params.soilTest?.organicMatterPct ?? TYPICAL_ORGANIC_MATTER_PCT[params.soilType];
+    soilErodibilityValue = soilErodibility(texture, organicMatterPct);
+    if (!params.soilTexture) {
+      assumptions.push(`Typical ${params.soilType} texture assumed; lab fractions would refine the soil erodibility.`);
+    }
+    if (params.soilTest?.organicMatterPct === undefined) {
+      assumptions.push(`Organic matter assumed to be ${organicMatterPct}%.`);
+    }
+  }
+
+  return {
+    rainfallErosivity: round(rainfallErosivity(params.rainfall)),
+    soilErodibility: round(soilErodibilityValue, 4),
+    slopePct,
+    slopeLengthM,
+    lengthSlopeFactor: round(lengthSlopeFactor(slopePct, slopeLengthM), 2),
+    toleranceTHa: inputs?.toleranceTHa ?? DEFAULT_SOIL_LOSS_TOLERANCE_T_HA,
+    practice: inputs?.practice ?? 'none',
+    assumptions,
+  };
+}
+
+/**
+ * Soil loss for a crop under the chosen practice and every other, or null
+ * when the farm has no erosion site (see `erosionSite`).
+ */
+export function estimateSoilLoss(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+  site: ErosionSite | null = erosionSite(params),
+): SoilLossEstimate | null {
+  if (!site) return null;
+  const coverFactor = cropCoverFactor(crop);
+  const base =
+    site.rainfallErosivity * site.soilErodibility * site.lengthSlopeFactor * coverFactor;
+  const practices = CONSERVATION_PRACTICES.map(({ id }) => {
+    const p = supportFactor(id, site.slopePct);
+    const lossTHa = round(base * p, 1);
+    return {
+      practice: id,
+      supportFactor: round(p, 2),
+      lossTHa,
+      withinTolerance: lossTHa <= site.toleranceTHa,
+    };
+  });
+  const chosen = practices.find(p => p.practice === site.practice)!;
+  return {
+    crop,
+    site,
+    coverFactor,
+    lossTHa: chosen.lossTHa,
+    withinTolerance: chosen.withinTolerance,
+    practices,
+    sufficientPractice: practices.find(p => p.withinTolerance)?.practice ?? null,
+  };
+}
+
+/**
+ * The site factors, e.g. "R 3474, K 0.0192, LS 1.79 (10% over 50 m),
+ * tolerance 11 t/ha/yr".
+ */
+export function describeErosionSite(site: ErosionSite): string {
+  return `R ${site.rainfallErosivity}, K ${site.soilErodibility}, LS ${site.lengthSlopeFactor} (${site.slopePct}% over ${site.slopeLengthM} m), tolerance ${site.toleranceTHa} t/ha/yr`;
+}
+
+/**
+ * One line per crop, for the recommendation prompt and tool responses.
+ */
+export function describeSoilLoss(estimate: SoilLossEstimate): string {
+  const { crop, site, lossTHa, withinTolerance, sufficientPractice } = estimate;
+  const others = estimate.practices
+    .filter(p => p.practice !== site.practice)
+    .map(p => `${practiceLabel(p.practice).toLowerCase()} ${p.lossTHa}`)
+    .join(', ');
+  const verdict = withinTolerance
+    ? 'within tolerance'
+    : sufficientPractice
+      ? `over tolerance; needs ${practiceLabel(sufficientPractice).toLowerCase()}`
+      : 'over tolerance even with terraces; keep under permanent cover';
+  return `${crop.name} (C ${estimate.coverFactor}): ${lossTHa} t/ha/yr with ${practiceLabel(site.practice).toLowerCase()}, ${verdict} (${others})`;
+}
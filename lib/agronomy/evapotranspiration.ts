@@ -0,0 +1,393 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Crop water requirement and irrigation scheduling (FAO-56).
+ *
+ * Reference evapotranspiration (ET0) comes from Hargreaves, which only needs
+ * temperature and latitude, or from Penman-Monteith when humidity and wind
+ * are known. Crop ET is ET0 times a crop coefficient (Kc) that follows the
+ * four FAO growth stages. Irrigation makes up what effective rainfall does
+ * not cover, week by week over the growing season.
+ */
+
+import { AgriculturalParameters, WeatherInputs } from '@/lib/maps-grounding';
+import { round } from '@/lib/utils';
+import { CropProfile } from './crop-catalog';
+import {
+  MONTH_NAMES,
+  firstPlantingMonth,
+  isTropical,
+  wetSeasonMonths,
+} from './planting-window';
+
+export type GrowthStage = 'initial' | 'development' | 'mid-season' | 'late-season';
+export type Et0Method = 'hargreaves' | 'penman-monteith';
+export type IrrigationMethod = 'drip' | 'sprinkler' | 'surface';
+
+interface CropCoefficients {
+  kcIni: number;
+  kcMid: number;
+  kcEnd: number;
+  // Share of the growing period spent in each stage; adds up to 1.
+  stages: [number, number, number, number];
+}
+
+// FAO-56 Table 12 coefficients and Table 11 stage lengths.
+const CROP_COEFFICIENTS: Record<string, CropCoefficients> = {
+  maize: { kcIni: 0.3, kcMid: 1.2, kcEnd: 0.35, stages: [0.17, 0.27, 0.33, 0.23] },
+  wheat: { kcIni: 0.4, kcMid: 1.15, kcEnd: 0.3, stages: [0.13, 0.21, 0.41, 0.25] },
+  rice: { kcIni: 1.05, kcMid: 1.2, kcEnd: 0.9, stages: [0.2, 0.2, 0.4, 0.2] },
+  soybean: { kcIni: 0.4, kcMid: 1.15, kcEnd: 0.5, stages: [0.18, 0.18, 0.47, 0.17] },
+  sorghum: { kcIni: 0.3, kcMid: 1.0, kcEnd: 0.55, stages: [0.16, 0.28, 0.32, 0.24] },
+  'pearl-millet': { kcIni: 0.3, kcMid: 1.0, kcEnd: 0.3, stages: [0.14, 0.24, 0.38, 0.24] },
+  barley: { kcIni: 0.3, kcMid: 1.15, kcEnd: 0.25, stages: [0.13, 0.21, 0.41, 0.25] },
+  potato: { kcIni: 0.5, kcMid: 1.15, kcEnd: 0.75, stages: [0.19, 0.23, 0.35, 0.23] },
+  cassava: { kcIni: 0.3, kcMid: 0.8, kcEnd: 0.3, stages: [0.09, 0.19, 0.43, 0.29] },
+  groundnut: { kcIni: 0.4, kcMid: 1.15, kcEnd: 0.6, stages: [0.19, 0.27, 0.35, 0.19] },
+  cotton: { kcIni: 0.35, kcMid: 1.18, kcEnd: 0.6, stages: [0.15, 0.26, 0.31, 0.28] },
+  sugarcane: { kcIni: 0.4, kcMid: 1.25, kcEnd: 0.75, stages: [0.09, 0.15, 0.47, 0.29] },
+  chickpea: { kcIni: 0.4, kcMid: 1.0, kcEnd: 0.35, stages: [0.18, 0.27, 0.32, 0.23] },
+  lentil: { kcIni: 0.4, kcMid: 1.1, kcEnd: 0.3, stages: [0.13, 0.2, 0.4, 0.27] },
+  sunflower: { kcIni: 0.35, kcMid: 1.0, kcEnd: 0.35, stages: [0.19, 0.27, 0.35, 0.19] },
+  canola: { kcIni: 0.35, kcMid: 1.0, kcEnd: 0.35, stages: [0.17, 0.24, 0.38, 0.21] },
+  tomato: { kcIni: 0.6, kcMid: 1.15, kcEnd: 0.8, stages: [0.22, 0.3, 0.3, 0.18] },
+  oats: { kcIni: 0.3, kcMid: 1.15, kcEnd: 0.25, stages: [0.13, 0.21, 0.41, 0.25] },
+  'common-bean': { kcIni: 0.4, kcMid: 1.15, kcEnd: 0.35, stages: [0.18, 0.27, 0.37, 0.18] },
+  'sweet-potato': { kcIni: 0.5, kcMid: 1.15, kcEnd: 0.65, stages: [0.12, 0.24, 0.4, 0.24] },
+};
+
+// Used for crops added to the catalog without their own coefficients.
+const DEFAULT_COEFFICIENTS: CropCoefficients = {
+  kcIni: 0.4,
+  kcMid: 1.1,
+  kcEnd: 0.5,
+  stages: [0.2, 0.3, 0.3, 0.2],
+};
+
+// Share of the applied water that reaches the root zone.
+export const IRRIGATION_EFFICIENCY: Record<IrrigationMethod, number> = {
+  drip: 0.9,
+  sprinkler: 0.75,
+  surface: 0.6,
+};
+
+// Diurnal temperature range assumed when only the mean temperature is known.
+export const DEFAULT_DIURNAL_RANGE_C = 12;
+// Share of the annual rain that falls in the wet season in the tropics.
+const WET_SEASON_RAIN_SHARE = 0.85;
+const SOLAR_CONSTANT = 0.082;
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+export interface WeeklyIrrigation {
+  week: number;
+  // e.g. "Apr 8"
+  startDate: string;
+  stage: GrowthStage;
+  et0Mm: number;
+  kc: number;
+  etcMm: number;
+  effectiveRainMm: number;
+  // Gross irrigation, including application losses.
+  irrigationMm: number;
+  volumeM3?: number;
+}
+
+export interface IrrigationPlan {
+  crop: CropProfile;
+  et0Method: Et0Method;
+  irrigationMethod: IrrigationMethod;
+  plantingDate: string;
+  seasonDays: number;
+  seasonalEt0Mm: number;
+  seasonalEtcMm: number;
+  effectiveRainMm: number;
+  netIrrigationMm: number;
+  grossIrrigationMm: number;
+  // For the whole farm, when the farm size is known.
+  seasonalVolumeM3?: number;
+  farmSizeHa?: number;
+  weeks: WeeklyIrrigation[];
+  assumptions: string[];
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Day of year (1-365) of the first day of a month. */
+const monthStartDay = (month: number) =>
+  DAYS_IN_MONTH.slice(0, month - 1).reduce((a, b) => a + b, 0) + 1;
+
+/** Month (1-12) and day of month of a day of year, wrapping into next year. */
+function calendarDate(dayOfYear: number): { month: number; day: number } {
+  let day = ((dayOfYear - 1) % 365) + 1;
+  let month = 1;
+  while (day > DAYS_IN_MONTH[month - 1]) {
+    day -= DAYS_IN_MONTH[month - 1];
+    month++;
+  }
+  return { month, day };
+}
+
+const formatDate = (dayOfYear: number) => {
+  const { month, day } = calendarDate(dayOfYear);
+  return `${MONTH_NAMES[month - 1]} ${day}`;
+};
+
+/**
+ * Extraterrestrial radiation, in MJ/m²/day (FAO-56 eq. 21).
+ */
+export function extraterrestrialRadiation(latitude: number, dayOfYear: number): number {
+  const phi = toRadians(latitude);
+  const dr = 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365);
+  const delta = 0.409 * Math.sin((2 * Math.PI * dayOfYear) / 365 - 1.39);
+  const omega = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(delta))));
+  return (
+    ((24 * 60) / Math.PI) *
+    SOLAR_CONSTANT *
+    dr *
+    (omega * Math.sin(phi) * Math.sin(delta) +
+      Math.cos(phi) * Math.cos(delta) * Math.sin(omega))
+  );
+}
+
+/**
+ * Hargreaves reference ET, in mm/day.
+ */
+export function hargreavesEt0(tMin: number, tMax: number, ra: number): number {
+  const tMean = (tMin + tMax) / 2;
+  const et0 = 0.0023 * (tMean + 17.8) * Math.sqrt(Math.max(tMax - tMin, 0)) * 0.408 * ra;
+  return Math.max(et0, 0);
+}
+
+const saturationVaporPressure = (t: number) =>
+  0.6108 * Math.exp((17.27 * t) / (t + 237.3));
+
+/**
+ * FAO-56 Penman-Monteith reference ET, in mm/day. Solar radiation is
+ * estimated from the temperature range when it is not measured.
+ */
+export function penmanMonteithEt0(
+  tMin: number,
+  tMax: number,
+  relativeHumidityPct: number,
+  windSpeedMs: number,
+  ra: number,
+  solarRadiationMj?: number,
+  elevationM = 0,
+): number {
+  const tMean = (tMin + tMax) / 2;
+  const delta =
+    (4098 * saturationVaporPressure(tMean)) / Math.pow(tMean + 237.3, 2);
+  const pressure = 101.3 * Math.pow((293 - 0.0065 * elevationM) / 293, 5.26);
+  const gamma = 0.000665 * pressure;
+  const es = (saturationVaporPressure(tMax) + saturationVaporPressure(tMin)) / 2;
+  const ea = (relativeHumidityPct / 100) * es;
+
+  const rs = solarRadiationMj ?? 0.16 * Math.sqrt(Math.max(tMax - tMin, 0)) * ra;
+  const rso = (0.75 + 2e-5 * elevationM) * ra;
+  const rns = 0.77 * rs;
+  const rnl =
+    4.903e-9 *
+    ((Math.pow(tMax + 273.16, 4) + Math.pow(tMin + 273.16, 4)) / 2) *
+    (0.34 - 0.14 * Math.sqrt(ea)) *
+    (1.35 * Math.min(rs / rso, 1) - 0.35);
+  const rn = rns - rnl;
+
+  const et0 =
+    (0.408 * delta * rn + gamma * (900 / (tMean + 273)) * windSpeedMs * (es - ea)) /
+    (delta + gamma * (1 + 0.34 * windSpeedMs));
+  return Math.max(et0, 0);
+}
+
+/**
+ * The crop coefficient and growth stage a fraction of the way through the
+ * growing period.
+ */
+export function cropCoefficient(
+  crop: CropProfile,
+  seasonFraction: number,
+): { kc: number; stage: GrowthStage } {
+  const { kcIni, kcMid, kcEnd, stages } = CROP_COEFFICIENTS[crop.id] ?? DEFAULT_COEFFICIENTS;
+  const [ini, dev, mid] = stages;
+  if (seasonFraction < ini) return { kc: kcIni, stage: 'initial' };
+  if (seasonFraction < ini + dev) {
+    const t = (seasonFraction - ini) / dev;
+    return { kc: kcIni + t * (kcMid - kcIni), stage: 'development' };
+  }
+  if (seasonFraction < ini + dev + mid) return { kc: kcMid, stage: 'mid-season' };
+  const t = Math.min((seasonFraction - ini - dev - mid) / stages[3], 1);
+  return { kc: kcMid + t * (kcEnd - kcMid), stage: 'late-season' };
+}
+
+/**
+ * USDA-SCS effective rainfall for a month's rain, in mm.
+ */
+const effectiveMonthlyRain = (rain: number) =>
+  rain < 250 ? (rain * (125 - 0.2 * rain)) / 125 : 125 + 0.1 * rain;
+
+/**
+ * Spreads annual rainfall over the months: evenly, or mostly over the wet
+ * season in the tropics.
+ */
+function monthlyRainfall(params: AgriculturalParameters): number[] {
+  const annual = params.rainfall ?? 0;
+  if (!isTropical(params.climate, params.koppenCode)) {
+    return DAYS_IN_MONTH.map(days => (annual * days) / 365);
+  }
+  const wet = wetSeasonMonths(params.latitude, params.koppenCode);
+  if (wet.length === 12) {
+    return DAYS_IN_MONTH.map(days => (annual * days) / 365);
+  }
+  return DAYS_IN_MONTH.map((_, i) =>
+    wet.includes(i + 1)
+      ? (annual * WET_SEASON_RAIN_SHARE) / wet.length
+      : (annual * (1 - WET_SEASON_RAIN_SHARE)) / (12 - wet.length),
+  );
+}
+
+/**
+ * The temperatures and ET0 method available from the parameters.
+ * @throws Error when there is no temperature to work from.
+ */
+function weatherSetup(params: AgriculturalParameters) {
+  const weather: WeatherInputs = params.weather ?? {};
+  const hasRange = weather.tMinC !== undefined && weather.tMaxC !== undefined;
+  const tMean = params.temperature ?? (hasRange ? (weather.tMinC! + weather.tMaxC!) / 2 : undefined);
+  if (tMean === undefined) {
+    throw new Error(
+      'Average temperature, or daily minimum and maximum temperatures, are needed to estimate evapotranspiration.',
+    );
+  }
+  const tMin = hasRange ? weather.tMinC! : tMean - DEFAULT_DIURNAL_RANGE_C / 2;
+  const tMax = hasRange ? weather.tMaxC! : tMean + DEFAULT_DIURNAL_RANGE_C / 2;
+  const method: Et0Method =
+    weather.relativeHumidityPct !== undefined && weather.windSpeedMs !== undefined
+      ? 'penman-monteith'
+      : 'hargreaves';
+  return { weather, hasRange, tMin, tMax, method };
+}
+
+/**
+ * Builds a weekly irrigation schedule for a crop planted at the start of the
+ * target planting months. Temperatures are treated as seasonal averages, so
+ * only the radiation changes from week to week.
+ * @throws Error when there is no temperature to work from.
+ */
+export function computeIrrigationPlan(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+  irrigationMethod: IrrigationMethod = 'sprinkler',
+): IrrigationPlan {
+  const { weather, hasRange, tMin, tMax, method } = weatherSetup(params);
+  const assumptions: string[] = [];
+  if (!hasRange) {
+    assumptions.push(
+      `Daily temperature range assumed to be ${DEFAULT_DIURNAL_RANGE_C} °C around the ${params.temperature} °C average.`,
+    );
+  }
+  if (params.rainfall === undefined) {
+    assumptions.push('No rainfall given; the whole crop water requirement is irrigated.');
+  }
+
+  const plantingMonth = params.plantingMonths?.length
+    ? firstPlantingMonth(params.plantingMonths)
+    : 1;
+  const plantingDay = monthStartDay(plantingMonth);
+  const seasonDays = Math.min(
+    Math.round((crop.growingPeriodDays.min + crop.growingPeriodDays.max) / 2),
+    365,
+  );
+  const efficiency = IRRIGATION_EFFICIENCY[irrigationMethod];
+  const effectiveRainByMonth = monthlyRainfall(params).map(effectiveMonthlyRain);
+
+  const weeks: WeeklyIrrigation[] = [];
+  for (let start = 0; start < seasonDays; start += 7) {
+    const days = Math.min(7, seasonDays - start);
+    let et0 = 0;
+    let etc = 0;
+    let rain = 0;
+    let kcSum = 0;
+    for (let d = start; d < start + days; d++) {
+      const dayOfYear = ((plantingDay - 1 + d) % 365) + 1;
+      const ra = extraterrestrialRadiation(params.latitude, dayOfYear);
+      const dayEt0 =
+        method === 'penman-monteith'
+          ? penmanMonteithEt0(
+              tMin,
+              tMax,
+              weather.relativeHumidityPct!,
+              weather.windSpeedMs!,
+              ra,
+              weather.solarRadiationMj,
+              weather.elevationM,
+            )
+          : hargreavesEt0(tMin, tMax, ra);
+      const { kc } = cropCoefficient(crop, (d + 0.5) / seasonDays);
+      const { month } = calendarDate(dayOfYear);
+      et0 += dayEt0;
+      etc += dayEt0 * kc;
+      kcSum += kc;
+      rain += effectiveRainByMonth[month - 1] / DAYS_IN_MONTH[month - 1];
+    }
+    const irrigation = Math.max(etc - rain, 0) / efficiency;
+    weeks.push({
+      week: weeks.length + 1,
+      startDate: formatDate(plantingDay + start),
+      stage: cropCoefficient(crop, (start + days / 2) / seasonDays).stage,
+      et0Mm: round(et0, 1),
+      kc: round(kcSum / days, 2),
+      etcMm: round(etc, 1),
+      effectiveRainMm: round(rain, 1),
+      irrigationMm: round(irrigation, 1),
+      volumeM3: params.farmSize ? round(irrigation * 10 * params.farmSize) : undefined,
+    });
+  }
+
+  const sum = (key: 'et0Mm' | 'etcMm' | 'effectiveRainMm' | 'irrigationMm') =>
+    weeks.reduce((total, week) => total + week[key], 0);
+  const grossIrrigationMm = round(sum('irrigationMm'));
+  if (params.irrigationAvailable === false && grossIrrigationMm > 0) {
+    assumptions.push(
+      'Irrigation is not available: the shortfall must come from stored soil water, or the crop will be water-stressed.',
+    );
+  }
+
+  return {
+    crop,
+    et0Method: method,
+    irrigationMethod,
+    plantingDate: formatDate(plantingDay),
+    seasonDays,
+    seasonalEt0Mm: round(sum('et0Mm')),
+    seasonalEtcMm: round(sum('etcMm')),
+    // Rain falling in weeks where the crop needs less is not counted.
+    effectiveRainMm: round(
+      weeks.reduce((total, week) => total + Math.min(week.effectiveRainMm, week.etcMm), 0),
+    ),
+    netIrrigationMm: round(grossIrrigationMm * efficiency),
+    grossIrrigationMm,
+    seasonalVolumeM3: params.farmSize ? round(grossIrrigationMm * 10 * params.farmSize) : undefined,
+    farmSizeHa: params.farmSize,
+    weeks,
+    assumptions,
+  };
+}
+
+/**
+ * Summarizes an irrigation plan as plain text, for tool responses.
+ */
+export function summarizeIrrigationPlan(plan: IrrigationPlan): string {
+  const volume = (m3?: number) => (m3 !== undefined ? `, ${m3} m³` : '');
+  const header = `${plan.crop.name} planted ${plan.plantingDate}, ${plan.seasonDays} days (ET0 by ${plan.et0Method}, ${plan.irrigationMethod} irrigation):
+Crop ET ${plan.seasonalEtcMm} mm, effective rain ${plan.effectiveRainMm} mm, irrigation ${plan.netIrrigationMm} mm net / ${plan.grossIrrigationMm} mm gross${volume(plan.seasonalVolumeM3)}${plan.farmSizeHa ? ` for ${plan.farmSizeHa} ha` : ''}.`;
+  const weeks = plan.weeks
+    .filter(week => week.irrigationMm > 0)
+    .map(week => `- Week ${week.week} (${week.startDate}, ${week.stage}): ${week.irrigationMm} mm${volume(week.volumeM3)}`);
+  return [
+    header,
+    weeks.length ? `Weekly irrigation:\n${weeks.join('\n')}` : 'Rainfall covers the crop water requirement; no irrigation needed.',
+    ...plan.assumptions.map(note => `Note: ${note}`),
+  ].join('\n');
+}
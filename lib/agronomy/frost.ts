@@ -0,0 +1,402 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Frost dates and frost risk.
+ *
+ * The last spring and first autumn frost (daily minimum at or below 0 °C)
+ * are found for each season in an imported daily series, and a normal
+ * distribution is fitted to them across seasons. Without a series, a bundled
+ * climatology of mean frost dates per Köppen class is used. Dates are counted
+ * in a local year starting in midwinter (1 January in the north, 1 July in
+ * the south), so that spring always comes before autumn.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CROP_CATALOG, CropProfile, findCatalogCrop } from './crop-catalog';
+import { CropRecommendationReport, CropRisk } from './crop-report';
+import { KoppenCode, lookupKoppen } from './koppen';
+import { MONTH_NAMES } from './planting-window';
+import { parseWindowDate } from './phenology';
+import { DailyTemperature } from './temperature-series';
+
+export type FrostConfidence = 50 | 80 | 90;
+export const FROST_CONFIDENCES: FrostConfidence[] = [50, 80, 90];
+
+// Standard normal quantiles for each confidence level.
+const Z_SCORES: Record<FrostConfidence, number> = { 50: 0, 80: 0.8416, 90: 1.2816 };
+const FROST_THRESHOLD_C = 0;
+// Spread of frost dates between years, used when there are too few seasons
+// to estimate it, and for the climatology.
+const DEFAULT_SPREAD_DAYS = 12;
+const MIN_SEASONS_FOR_SPREAD = 3;
+// A season half needs this many days of data to be used.
+const MIN_DAYS_PER_HALF = 150;
+const HALF_YEAR_DAYS = 182;
+// Calendar days before 1 July, where the southern local year starts.
+const SOUTHERN_OFFSET_DAYS = 181;
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Mean last spring and first autumn frost, as days (1-365) of the local year,
+ * at low elevation. null means frost is rare enough to ignore.
+ */
+const FROST_CLIMATOLOGY: Record<KoppenCode, { lastSpring: number; firstAutumn: number } | null> = {
+  Af: null,
+  Am: null,
+  Aw: null,
+  As: null,
+  BWh: { lastSpring: 35, firstAutumn: 335 },
+  BWk: { lastSpring: 120, firstAutumn: 280 },
+  BSh: { lastSpring: 40, firstAutumn: 330 },
+  BSk: { lastSpring: 115, firstAutumn: 285 },
+  Csa: { lastSpring: 50, firstAutumn: 330 },
+  Csb: { lastSpring: 75, firstAutumn: 310 },
+  Csc: { lastSpring: 130, firstAutumn: 260 },
+  Cwa: { lastSpring: 60, firstAutumn: 320 },
+  Cwb: { lastSpring: 80, firstAutumn: 300 },
+  Cwc: { lastSpring: 140, firstAutumn: 250 },
+  Cfa: { lastSpring: 85, firstAutumn: 310 },
+  Cfb: { lastSpring: 110, firstAutumn: 295 },
+  Cfc: { lastSpring: 150, firstAutumn: 255 },
+  Dsa: { lastSpring: 110, firstAutumn: 285 },
+  Dsb: { lastSpring: 130, firstAutumn: 270 },
+  Dsc: { lastSpring: 160, firstAutumn: 240 },
+  Dsd: { lastSpring: 170, firstAutumn: 230 },
+  Dwa: { lastSpring: 105, firstAutumn: 285 },
+  Dwb: { lastSpring: 130, firstAutumn: 265 },
+  Dwc: { lastSpring: 160, firstAutumn: 240 },
+  Dwd: { lastSpring: 170, firstAutumn: 230 },
+  Dfa: { lastSpring: 110, firstAutumn: 285 },
+  Dfb: { lastSpring: 130, firstAutumn: 270 },
+  Dfc: { lastSpring: 160, firstAutumn: 240 },
+  Dfd: { lastSpring: 170, firstAutumn: 230 },
+  ET: { lastSpring: 175, firstAutumn: 215 },
+  EF: { lastSpring: 181, firstAutumn: 182 },
+};
+
+// Crops that survive light frosts; all others are treated as frost-sensitive.
+const FROST_TOLERANT = new Set(['wheat', 'barley', 'oats', 'canola', 'lentil', 'chickpea']);
+// For crops added to the catalog: a minimum temperature below this means
+// the crop tolerates light frost.
+const TOLERANT_MIN_TEMPERATURE_C = 5;
+
+export interface FrostDates {
+  confidence: FrostConfidence;
+  // Days of the local year; frost is this likely to be over / not yet come.
+  lastSpringDay: number;
+  firstAutumnDay: number;
+  // e.g. "Apr 20"
+  lastSpringFrost: string;
+  firstAutumnFrost: string;
+  frostFreeDays: number;
+}
+
+export interface FrostClimate {
+  source: 'series' | 'climatology';
+  // No frost expected in a normal year.
+  frostFree: boolean;
+  southernHemisphere: boolean;
+  // Seasons found in the series.
+  seasons?: number;
+  koppenCode?: KoppenCode;
+  dates: FrostDates[];
+  assumptions: string[];
+}
+
+export type FrostRiskLevel = CropRisk['severity'];
+
+export interface CropFrostRisk {
+  crop: string;
+  frostSensitive: boolean;
+  seasonDays: number;
+  // e.g. "Apr 1", when a planting date is known.
+  plantingDate?: string;
+  // Confidence levels at which the season fits the frost-free window.
+  fitsAt: FrostConfidence[];
+  level: FrostRiskLevel;
+  message: string;
+}
+
+const localDayToCalendar = (localDay: number, southern: boolean) =>
+  southern ? ((localDay - 1 + SOUTHERN_OFFSET_DAYS) % 365) + 1 : localDay;
+const calendarToLocalDay = (dayOfYear: number, southern: boolean) =>
+  southern ? ((dayOfYear - 1 - SOUTHERN_OFFSET_DAYS + 365) % 365) + 1 : dayOfYear;
+
+function dayOfYear(month: number, day: number): number {
+  return DAYS_IN_MONTH.slice(0, month - 1).reduce((a, b) => a + b, 0) + Math.min(day, DAYS_IN_MONTH[month - 1]);
+}
+
+/**
+ * Formats a day of the local year as a calendar date, e.g. "Apr 20".
+ */
+export function formatLocalDay(localDay: number, southern: boolean): string {
+  const wrapped = ((((Math.round(localDay) - 1) % 365) + 365) % 365) + 1;
+  let day = localDayToCalendar(wrapped, southern);
+  let month = 0;
+  while (day > DAYS_IN_MONTH[month]) {
+    day -= DAYS_IN_MONTH[month];
+    month++;
+  }
+  return `${MONTH_NAMES[month]} ${day}`;
+}
+
+function buildDates(
+  lastSpringMean: number,
+  firstAutumnMean: number,
+  spread: number,
+  southern: boolean,
+): FrostDates[] {
+  return FROST_CONFIDENCES.map(confidence => {
+    const shift = Z_SCORES[confidence] * spread;
+    const lastSpringDay = Math.round(Math.min(Math.max(lastSpringMean + shift, 1), HALF_YEAR_DAYS));
+    const firstAutumnDay = Math.round(Math.max(firstAutumnMean - shift, HALF_YEAR_DAYS));
+    return {
+      confidence,
+      lastSpringDay,
+      firstAutumnDay,
+      lastSpringFrost: formatLocalDay(lastSpringDay, southern),
+      firstAutumnFrost: formatLocalDay(firstAutumnDay, southern),
+      frostFreeDays: Math.max(firstAutumnDay - lastSpringDay, 0),
+    };
+  });
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const standardDeviation = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+/**
+ * Frost dates from a daily minimum temperature series. Seasons with too few
+ * days are skipped.
+ * @throws Error when the series covers no complete season.
+ */
+export function frostClimateFromSeries(
+  series: DailyTemperature[],
+  latitude: number,
+): FrostClimate {
+  const southern = latitude < 0;
+  const seasons = new Map<number, { springDays: number; autumnDays: number; lastSpring: number; firstAutumn: number }>();
+  for (const day of series) {
+    const [year, month, date] = day.date.split('-').map(Number);
+    // Southern seasons run from July to June.
+    const seasonYear = southern && month < 7 ? year - 1 : year;
+    const localDay = calendarToLocalDay(dayOfYear(month, date), southern);
+    const season = seasons.get(seasonYear) ?? {
+      springDays: 0,
+      autumnDays: 0,
+      lastSpring: 0,
+      firstAutumn: 366,
+    };
+    const frost = day.tMinC <= FROST_THRESHOLD_C;
+    if (localDay <= HALF_YEAR_DAYS) {
+      season.springDays++;
+      if (frost) season.lastSpring = Math.max(season.lastSpring, localDay);
+    } else {
+      season.autumnDays++;
+      if (frost) season.firstAutumn = Math.min(season.firstAutumn, localDay);
+    }
+    seasons.set(seasonYear, season);
+  }
+
+  const complete = [...seasons.values()].filter(
+    s => s.springDays >= MIN_DAYS_PER_HALF && s.autumnDays >= MIN_DAYS_PER_HALF,
+  );
+  if (complete.length === 0) {
+    throw new Error(
+      'The temperature series needs at least one nearly complete year to estimate frost dates.',
+    );
+  }
+
+  const assumptions: string[] = [];
+  const frostSeasons = complete.filter(s => s.lastSpring > 0 || s.firstAutumn < 366);
+  if (frostSeasons.length === 0) {
+    assumptions.push(`No frost in ${complete.length} season(s) of the imported series.`);
+    return { source: 'series', frostFree: true, southernHemisphere: southern, seasons: complete.length, dates: [], assumptions };
+  }
+  const springDays = complete.map(s => s.lastSpring);
+  const autumnDays = complete.map(s => Math.min(s.firstAutumn, 365));
+  let spread = DEFAULT_SPREAD_DAYS;
+  if (complete.length >= MIN_SEASONS_FOR_SPREAD) {
+    spread = Math.max(standardDeviation(springDays), standardDeviation(autumnDays), 1);
+  } else {
+    assumptions.push(
+      `Only ${complete.length} season(s) imported; frost dates are assumed to vary by ${DEFAULT_SPREAD_DAYS} days between years.`,
+    );
+  }
+  return {
+    source: 'series',
+    frostFree: false,
+    southernHemisphere: southern,
+    seasons: complete.length,
+    dates: buildDates(mean(springDays), mean(autumnDays), spread, southern),
+    assumptions,
+  };
+}
+
+/**
+ * Frost dates from the bundled climatology of the location's Köppen class.
+ */
+export function frostClimateFromClimatology(params: AgriculturalParameters): FrostClimate {
+  const southern = params.latitude < 0;
+  const koppenCode = params.koppenCode ?? lookupKoppen(params.latitude, params.longitude).code;
+  const climatology = FROST_CLIMATOLOGY[koppenCode];
+  const assumptions = [
+    `Frost dates are typical values for the ${koppenCode} climate at low elevation, not local records.`,
+  ];
+  if (!climatology) {
+    return { source: 'climatology', frostFree: true, southernHemisphere: southern, koppenCode, dates: [], assumptions };
+  }
+  return {
+    source: 'climatology',
+    frostFree: false,
+    southernHemisphere: southern,
+    koppenCode,
+    dates: buildDates(climatology.lastSpring, climatology.firstAutumn, DEFAULT_SPREAD_DAYS, southern),
+    assumptions,
+  };
+}
+
+/**
+ * Frost dates from an imported series when it covers a full season,
+ * otherwise from the climatology.
+ */
+export function estimateFrostClimate(
+  params: AgriculturalParameters,
+  series?: DailyTemperature[],
+): FrostClimate {
+  if (series?.length) {
+    try {
+      return frostClimateFromSeries(series, params.latitude);
+    } catch (error) {
+      const fallback = frostClimateFromClimatology(params);
+      fallback.assumptions.unshift((error as Error).message);
+      return fallback;
+    }
+  }
+  return frostClimateFromClimatology(params);
+}
+
+export function isFrostSensitive(crop: CropProfile): boolean {
+  if (FROST_TOLERANT.has(crop.id)) return false;
+  return crop.temperature.min >= TOLERANT_MIN_TEMPERATURE_C;
+}
+
+/**
+ * Checks whether a crop's growing period fits the frost-free window at each
+ * confidence level. With a planting month (1-12) and day, the season must
+ * also start after the last spring frost.
+ */
+export function assessCropFrostRisk(
+  crop: CropProfile,
+  climate: FrostClimate,
+  planting?: { month: number; day: number },
+  name = crop.name,
+): CropFrostRisk {
+  const seasonDays = Math.round((crop.growingPeriodDays.min + crop.growingPeriodDays.max) / 2);
+  const frostSensitive = isFrostSensitive(crop);
+  const plantingDay = planting
+    ? calendarToLocalDay(dayOfYear(planting.month, planting.day), climate.southernHemisphere)
+    : undefined;
+  const plantingDate = plantingDay !== undefined
+    ? formatLocalDay(plantingDay, climate.southernHemisphere)
+    : undefined;
+  const base = { crop: name, frostSensitive, seasonDays, plantingDate };
+
+  if (climate.frostFree) {
+    return { ...base, fitsAt: FROST_CONFIDENCES, level: 'low', message: `${name}: no frost expected.` };
+  }
+  if (!frostSensitive) {
+    return {
+      ...base,
+      fitsAt: FROST_CONFIDENCES,
+      level: 'low',
+      message: `${name} tolerates light frost; protect it from hard freezes at emergence and flowering.`,
+    };
+  }
+
+  const fitsAt = climate.dates
+    .filter(d =>
+      plantingDay !== undefined
+        ? plantingDay >= d.lastSpringDay && plantingDay + seasonDays <= d.firstAutumnDay
+        : seasonDays <= d.frostFreeDays,
+    )
+    .map(d => d.confidence);
+  const safe = climate.dates.find(d => d.confidence === 90)!;
+  const likely = climate.dates.find(d => d.confidence === 50)!;
+  const planted = plantingDate ? `planted ${plantingDate}, ` : '';
+  let level: FrostRiskLevel;
+  let message: string;
+  if (fitsAt.includes(90)) {
+    level = 'low';
+    message = `${name} (${planted}${seasonDays} days) fits the frost-free window at 90% confidence (${safe.lastSpringFrost}–${safe.firstAutumnFrost}).`;
+  } else if (fitsAt.length > 0) {
+    level = 'medium';
+    message = `${name} (${planted}${seasonDays} days) fits the frost-free window only at ${Math.max(...fitsAt)}% confidence; plant after ${safe.lastSpringFrost} or choose a shorter variety.`;
+  } else {
+    level = 'high';
+    if (plantingDay === undefined) {
+      message = `${name} needs ${seasonDays} frost-free days, but the median frost-free window is ${likely.lastSpringFrost}–${likely.firstAutumnFrost} (${likely.frostFreeDays} days).`;
+    } else if (plantingDay < likely.lastSpringDay) {
+      message = `${name} planted ${plantingDate} is likely to be hit by a spring frost (median last frost ${likely.lastSpringFrost}).`;
+    } else {
+      message = `${name} planted ${plantingDate} needs ${seasonDays} days and would be harvested around ${formatLocalDay(plantingDay + seasonDays, climate.southernHemisphere)}, after the median first autumn frost (${likely.firstAutumnFrost}).`;
+    }
+  }
+  return { ...base, fitsAt, level, message };
+}
+
+/**
+ * Frost risk for the report's crops, planted at the start of their reported
+ * planting windows.
+ */
+export function assessReportFrostRisk(
+  report: CropRecommendationReport,
+  climate: FrostClimate,
+  catalog: CropProfile[] = CROP_CATALOG,
+): CropFrostRisk[] {
+  return report.crops.flatMap(recommended => {
+    const crop = findCatalogCrop(recommended.crop, catalog);
+    if (!crop) return [];
+    const planting = parseWindowDate(recommended.plantingWindow.start) ?? undefined;
+    return [assessCropFrostRisk(crop, climate, planting, recommended.crop)];
+  });
+}
+
+/**
+ * Describes frost dates in one line, e.g. "last spring frost Apr 20 / May 1 /
+ * May 8, first autumn frost ... (50/80/90% confidence)".
+ */
+export function describeFrostClimate(climate: FrostClimate): string {
+  if (climate.frostFree) return 'Frost-free in a normal year';
+  const join = (key: 'lastSpringFrost' | 'firstAutumnFrost') =>
+    climate.dates.map(d => d[key]).join(' / ');
+  return `Last spring frost ${join('lastSpringFrost')}, first autumn frost ${join('firstAutumnFrost')} (${FROST_CONFIDENCES.join('/')}% confidence)`;
+}
+
+/**
+ * Renders frost dates and crop frost risks as a markdown section, appended
+ * to the report document.
+ */
+export function frostRiskToMarkdown(climate: FrostClimate, risks: CropFrostRisk[]): string {
+  const lines = ['## Frost Risk', '', `${describeFrostClimate(climate)}.`, ''];
+  if (!climate.frostFree) {
+    lines.push('| Confidence | Last spring frost | First autumn frost | Frost-free days |');
+    lines.push('| --- | --- | --- | --- |');
+    for (const d of climate.dates) {
+      lines.push(`| ${d.confidence}% | ${d.lastSpringFrost} | ${d.firstAutumnFrost} | ${d.frostFreeDays} |`);
+    }
+    lines.push('');
+  }
+  for (const risk of risks) {
+    lines.push(`- **${risk.level}**: ${risk.message}`);
+  }
+  for (const note of climate.assumptions) {
+    lines.push(`- _${note}_`);
+  }
+  return lines.join('\n');
+}
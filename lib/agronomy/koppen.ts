@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Offline Köppen–Geiger climate lookup.
+ *
+ * The bundled map is a simplified raster: a list of lat/lng boxes, each with
+ * the dominant Köppen class of the region, generalised from Beck et al. (2018)
+ * for the world's main agricultural areas. Points outside every box fall back
+ * to a latitude-band estimate. Mountains, coasts and climate borders are
+ * coarse, so the form always lets the user override the inferred class.
+ */
+
+import { ClimateZone } from './crop-catalog';
+
+export const KOPPEN_CODES = [
+  'Af', 'Am', 'Aw', 'As',
+  'BWh', 'BWk', 'BSh', 'BSk',
+  'Csa', 'Csb', 'Csc', 'Cwa', 'Cwb', 'Cwc', 'Cfa', 'Cfb', 'Cfc',
+  'Dsa', 'Dsb', 'Dsc', 'Dsd', 'Dwa', 'Dwb', 'Dwc', 'Dwd', 'Dfa', 'Dfb', 'Dfc', 'Dfd',
+  'ET', 'EF',
+] as const;
+
+export type KoppenCode = (typeof KOPPEN_CODES)[number];
+
+export const KOPPEN_DESCRIPTIONS: Record<KoppenCode, string> = {
+  Af: 'Tropical rainforest',
+  Am: 'Tropical monsoon',
+  Aw: 'Tropical savanna, dry winter',
+  As: 'Tropical savanna, dry summer',
+  BWh: 'Hot desert',
+  BWk: 'Cold desert',
+  BSh: 'Hot semi-arid',
+  BSk: 'Cold semi-arid',
+  Csa: 'Mediterranean, hot summer',
+  Csb: 'Mediterranean, warm summer',
+  Csc: 'Mediterranean, cool summer',
+  Cwa: 'Humid subtropical, dry winter',
+  Cwb: 'Subtropical highland, dry winter',
+  Cwc: 'Cold subtropical highland',
+  Cfa: 'Humid subtropical',
+  Cfb: 'Temperate oceanic',
+  Cfc: 'Subpolar oceanic',
+  Dsa: 'Continental, dry hot summer',
+  Dsb: 'Continental, dry warm summer',
+  Dsc: 'Subarctic, dry summer',
+  Dsd: 'Subarctic, dry summer, very cold winter',
+  Dwa: 'Continental, dry winter, hot summer',
+  Dwb: 'Continental, dry winter, warm summer',
+  Dwc: 'Subarctic, dry winter',
+  Dwd: 'Subarctic, dry winter, very cold winter',
+  Dfa: 'Humid continental, hot summer',
+  Dfb: 'Humid continental, warm summer',
+  Dfc: 'Subarctic',
+  Dfd: 'Subarctic, very cold winter',
+  ET: 'Tundra',
+  EF: 'Ice cap',
+};
+
+interface KoppenRegion {
+  name: string;
+  code: KoppenCode;
+  // Bounding box in degrees: [south, west, north, east].
+  box: [number, number, number, number];
+}
+
+// Checked in order, so smaller regions must come before the larger regions
+// they sit in.
+const KOPPEN_REGIONS: KoppenRegion[] = [
+  // North America
+  { name: 'Greenland ice sheet', code: 'EF', box: [66, -50, 83, -25] },
+  { name: 'Greenland coast', code: 'ET', box: [59, -73, 84, -12] },
+  { name: 'Pacific Northwest coast', code: 'Cfb', box: [49, -135, 58, -122.5] },
+  { name: 'Western Oregon and Washington', code: 'Csb', box: [42, -125, 49, -122] },
+  { name: 'California', code: 'Csa', box: [32.5, -124.5, 42, -119] },
+  { name: 'Mojave and Sonoran deserts', code: 'BWh', box: [31, -119, 37.5, -109] },
+  { name: 'Great Basin', code: 'BSk', box: [37.5, -122, 49, -111] },
+  { name: 'South Florida', code: 'Aw', box: [24, -82, 27.5, -79.5] },
+  { name: 'West Texas', code: 'BSh', box: [26, -106, 36, -100] },
+  { name: 'Great Plains', code: 'BSk', box: [31, -111, 49, -100] },
+  { name: 'Canadian Prairies', code: 'Dfb', box: [49, -115, 55, -95] },
+  { name: 'Southeastern United States', code: 'Cfa', box: [25, -100, 40, -74] },
+  { name: 'Corn Belt', code: 'Dfa', box: [40, -100, 44, -70] },
+  { name: 'Upper Midwest and New England', code: 'Dfb', box: [44, -100, 49, -64] },
+  { name: 'Eastern Canada', code: 'Dfb', box: [45, -95, 52, -52] },
+  { name: 'Canadian boreal forest', code: 'Dfc', box: [52, -170, 66, -52] },
+  { name: 'North American Arctic', code: 'ET', box: [66, -170, 84, -52] },
+  { name: 'Northern Mexico', code: 'BWh', box: [23, -117, 32, -104] },
+  { name: 'Mexican Plateau', code: 'Cwb', box: [17, -105, 23, -97] },
+  { name: 'Southern Mexico and Central America', code: 'Aw', box: [7, -106, 23, -77] },
+  { name: 'Caribbean', code: 'Aw', box: [10, -85, 27, -59] },
+
+  // South America
+  { name: 'Peruvian coast', code: 'BWh', box: [-18, -82, -4, -78] },
+  { name: 'Northern Andes', code: 'Cwb', box: [-18, -78, 8, -74] },
+  { name: 'Altiplano', code: 'BSk', box: [-23, -71, -14, -65] },
+  { name: 'Atacama', code: 'BWh', box: [-30, -72, -18, -68] },
+  { name: 'Central Chile', code: 'Csb', box: [-38, -74, -30, -69] },
+  { name: 'Southern Chile', code: 'Cfb', box: [-56, -76, -38, -71] },
+  { name: 'Patagonia', code: 'BSk', box: [-55, -71, -38, -62] },
+  { name: 'Pampas', code: 'Cfa', box: [-38, -65, -30, -56] },
+  { name: 'Northeast Brazil sertão', code: 'BSh', box: [-16, -43, -3, -35] },
+  { name: 'Southern Brazil and Uruguay', code: 'Cfa', box: [-35, -58, -20, -44] },
+  { name: 'Gran Chaco', code: 'BSh', box: [-30, -65, -19, -57] },
+  { name: 'Amazon basin', code: 'Af', box: [-10, -75, 3, -48] },
+  { name: 'Cerrado and Bolivian lowlands', code: 'Aw', box: [-20, -66, -3, -38] },
+  { name: 'Llanos and Guianas', code: 'Aw', box: [0, -78, 13, -50] },
+
+  // Europe
+  { name: 'Iceland', code: 'Cfc', box: [63, -25, 67, -13] },
+  { name: 'Denmark', code: 'Cfb', box: [54.5, 8, 57.8, 12.7] },
+  { name: 'Western Norway', code: 'Cfb', box: [58, 4, 63, 9] },
+  { name: 'Po Valley', code: 'Cfa', box: [44, 7, 46, 13] },
+  { name: 'Central Anatolia', code: 'BSk', box: [37.5, 31, 40.5, 38] },
+  { name: 'Iberia', code: 'Csa', box: [36, -10, 43, 3.5] },
+  { name: 'Italy', code: 'Csa', box: [37, 7, 44.5, 19] },
+  { name: 'Greece and the Aegean', code: 'Csa', box: [35, 19, 42, 28] },
+  { name: 'Anatolia', code: 'Csa', box: [36, 26, 42, 45] },
+  { name: 'Western and Central Europe', code: 'Cfb', box: [43, -10, 58, 16] },
+  { name: 'Pontic steppe', code: 'Dfa', box: [44, 28, 48, 40] },
+  { name: 'Caspian steppe', code: 'BSk', box: [44, 40, 50, 60] },
+  { name: 'Eastern Europe', code: 'Dfb', box: [44, 16, 56, 40] },
+  { name: 'Southern Scandinavia and the Baltics', code: 'Dfb', box: [54, 9, 60, 32] },
+  { name: 'European Russia', code: 'Dfb', box: [50, 32, 60, 60] },
+  { name: 'Northern Scandinavia and Russia', code: 'Dfc', box: [60, 4, 68, 60] },
+
+  // Asia
+  { name: 'Northern Kazakhstan', code: 'Dfb', box: [51, 60, 55, 87] },
+  { name: 'Central Asian deserts', code: 'BWk', box: [36, 52, 45, 70] },
+  { name: 'Kazakh steppe', code: 'BSk', box: [40, 50, 51, 87] },
+  { name: 'Tibetan Plateau', code: 'ET', box: [28, 78, 37, 100] },
+  { name: 'Taklamakan and Gobi', code: 'BWk', box: [36, 73, 46, 112] },
+  { name: 'Mongolia', code: 'BSk', box: [46, 87, 52, 120] },
+  { name: 'Southern Siberia', code: 'Dfb', box: [50, 60, 56, 100] },
+  { name: 'Siberia', code: 'Dfc', box: [50, 60, 72, 180] },
+  { name: 'Hokkaido', code: 'Dfb', box: [41, 139, 46, 146] },
+  { name: 'Japan', code: 'Cfa', box: [31, 129, 41, 142] },
+  { name: 'Korea', code: 'Dwa', box: [34, 124, 38.5, 130] },
+  { name: 'Northern Manchuria', code: 'Dwb', box: [45, 120, 53, 135] },
+  { name: 'North China Plain and Manchuria', code: 'Dwa', box: [34, 110, 45, 135] },
+  { name: 'Yunnan Plateau', code: 'Cwb', box: [22, 97, 28, 105] },
+  { name: 'Southern China', code: 'Cfa', box: [22, 100, 34, 122] },
+  { name: 'Levant coast', code: 'Csa', box: [31, 34, 37, 37] },
+  { name: 'Mesopotamia', code: 'BWh', box: [29, 38, 37, 48] },
+  { name: 'Arabian Peninsula', code: 'BWh', box: [12, 34, 32, 60] },
+  { name: 'Iranian Plateau', code: 'BSk', box: [25, 44, 40, 63] },
+  { name: 'Indus Valley', code: 'BWh', box: [24, 61, 32, 72] },
+  { name: 'Afghanistan', code: 'BSk', box: [29, 60, 38, 75] },
+  { name: 'Thar Desert', code: 'BWh', box: [24, 68, 30, 75] },
+  { name: 'Indo-Gangetic Plain', code: 'Cwa', box: [24, 73, 31, 89] },
+  { name: 'Western Ghats coast', code: 'Am', box: [8, 73, 16, 76.5] },
+  { name: 'Deccan rain shadow', code: 'BSh', box: [14, 74, 20, 79] },
+  { name: 'Sri Lanka', code: 'Am', box: [6, 79.5, 10, 82] },
+  { name: 'Peninsular India', code: 'Aw', box: [8, 73, 24, 87] },
+  { name: 'Northeast India and Bangladesh', code: 'Cwa', box: [21, 87, 28, 97] },
+  { name: 'Mainland Southeast Asia', code: 'Aw', box: [10, 92, 22, 110] },
+  { name: 'Philippines', code: 'Am', box: [5, 116, 19, 127] },
+  { name: 'Lesser Sunda Islands', code: 'Aw', box: [-11, 115, -7.5, 128] },
+  { name: 'Maritime Southeast Asia', code: 'Af', box: [-10, 95, 8, 151] },
+
+  // Africa
+  { name: 'Maghreb coast', code: 'Csa', box: [33, -10, 37.5, 11.5] },
+  { name: 'Southern Morocco', code: 'BSh', box: [29, -10, 33, -1] },
+  { name: 'Libyan coast', code: 'BSh', box: [30, 11.5, 33.5, 25] },
+  { name: 'Sahara', code: 'BWh', box: [16, -17, 31, 35] },
+  { name: 'Ethiopian Highlands', code: 'Cwb', box: [5, 35, 15, 43] },
+  { name: 'Horn of Africa', code: 'BSh', box: [-2, 40, 12, 52] },
+  { name: 'Sahel', code: 'BSh', box: [12, -17, 16, 40] },
+  { name: 'Guinea coast', code: 'Am', box: [4, -15, 7, 10] },
+  { name: 'Sudanian savanna', code: 'Aw', box: [7, -17, 12, 40] },
+  { name: 'Kenyan Highlands', code: 'Cwb', box: [-4, 34, 2, 38] },
+  { name: 'Congo Basin', code: 'Af', box: [-5, 8, 5, 30] },
+  { name: 'East African plateau', code: 'Aw', box: [-10, 29, 5, 40] },
+  { name: 'Zimbabwe Highveld', code: 'Cwa', box: [-21, 26, -15, 34] },
+  { name: 'Namib', code: 'BWh', box: [-29, 11, -17, 15.5] },
+  { name: 'Kalahari', code: 'BSh', box: [-28, 15.5, -18, 25] },
+  { name: 'Western Cape', code: 'Csb', box: [-35, 17.5, -31, 23] },
+  { name: 'Karoo', code: 'BSk', box: [-33, 17, -28, 26] },
+  { name: 'KwaZulu-Natal coast', code: 'Cfa', box: [-31, 29, -25, 33] },
+  { name: 'South African Highveld', code: 'Cwb', box: [-30, 25, -22, 32] },
+  { name: 'Southern Mozambique', code: 'Aw', box: [-26, 32, -18, 41] },
+  { name: 'Southern African savanna', code: 'Aw', box: [-18, 12, -5, 40] },
+  { name: 'Madagascar', code: 'Aw', box: [-26, 43, -12, 51] },
+
+  // Oceania
+  { name: 'Tasmania', code: 'Cfb', box: [-44, 144, -40, 149] },
+  { name: 'New Zealand', code: 'Cfb', box: [-48, 165, -34, 179] },
+  { name: 'Southwest Western Australia', code: 'Csa', box: [-35.5, 114, -30, 119] },
+  { name: 'South Australian gulfs', code: 'Csb', box: [-36, 135, -32, 140] },
+  { name: 'Queensland coast', code: 'Cfa', box: [-28, 149, -16, 154] },
+  { name: 'Murray-Darling Basin', code: 'BSk', box: [-37, 140, -28, 148] },
+  { name: 'Southeastern Australia', code: 'Cfb', box: [-39, 140, -28, 154] },
+  { name: 'Northern Australia', code: 'Aw', box: [-19, 120, -10, 146] },
+  { name: 'Australian interior', code: 'BWh', box: [-32, 113, -19, 149] },
+
+  { name: 'Antarctica', code: 'EF', box: [-90, -180, -60, 180] },
+];
+
+export interface KoppenLookup {
+  code: KoppenCode;
+  climate: ClimateZone;
+  description: string;
+  // The bundled region the point fell in, if any.
+  region?: string;
+}
+
+/**
+ * Maps a Köppen class onto the form's five climate zones by its main group.
+ */
+export function koppenToClimateZone(code: KoppenCode): ClimateZone {
+  switch (code[0]) {
+    case 'A':
+      return 'tropical';
+    case 'B':
+      return 'arid';
+    case 'C':
+      return 'temperate';
+    case 'D':
+      return 'continental';
+    default:
+      return 'polar';
+  }
+}
+
+/**
+ * Estimates the class from latitude alone, for points outside every region.
+ */
+function latitudeBandKoppen(lat: number): KoppenCode {
+  const abs = Math.abs(lat);
+  if (abs < 10) return 'Af';
+  if (abs < 20) return 'Aw';
+  if (abs < 30) return 'BSh';
+  if (abs < 45) return 'Cfa';
+  if (abs < 55) return lat > 0 ? 'Dfb' : 'Cfb';
+  if (abs < 66) return lat > 0 ? 'Dfc' : 'ET';
+  return 'ET';
+}
+
+/**
+ * Looks up the Köppen–Geiger class of a point from the bundled regions.
+ */
+export function lookupKoppen(lat: number, lng: number): KoppenLookup {
+  const region = KOPPEN_REGIONS.find(
+    ({ box: [south, west, north, east] }) =>
+      lat >= south && lat <= north && lng >= west && lng <= east,
+  );
+  const code = region?.code ?? latitudeBandKoppen(lat);
+  return {
+    code,
+    climate: koppenToClimateZone(code),
+    description: KOPPEN_DESCRIPTIONS[code],
+    region: region?.name,
+  };
+}
@@ -0,0 +1,364 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Fertilizer nutrient budget.
+ *
+ * Crop N-P2O5-K2O requirements scale with the target yield. Nitrogen is
+ * reduced by what the soil supplies (residual nitrate and mineralization of
+ * organic matter) and by the previous crop, then grossed up for fertilizer
+ * losses. Phosphate and potash follow the soil test sufficiency levels, so a
+ * rich soil is drawn down and a poor one built up. Coefficients are typical
+ * values from IPNI and extension tables.
+ */
+
+import { AgriculturalParameters, SoilTest } from '@/lib/maps-grounding';
+import { CROP_CATALOG, CropFamily, CropProfile, SoilType, findCatalogCrop } from './crop-catalog';
+
+export type Nutrient = 'N' | 'P2O5' | 'K2O';
+
+interface NutrientUptake {
+  n: number;
+  p2o5: number;
+  k2o: number;
+}
+
+// Total uptake in kg per tonne of harvested product.
+const CROP_UPTAKE: Record<string, NutrientUptake> = {
+  maize: { n: 22, p2o5: 9, k2o: 22 },
+  wheat: { n: 28, p2o5: 11, k2o: 25 },
+  rice: { n: 20, p2o5: 9, k2o: 25 },
+  soybean: { n: 75, p2o5: 17, k2o: 35 },
+  sorghum: { n: 25, p2o5: 10, k2o: 20 },
+  'pearl-millet': { n: 30, p2o5: 12, k2o: 30 },
+  barley: { n: 24, p2o5: 10, k2o: 22 },
+  potato: { n: 4, p2o5: 1.6, k2o: 7 },
+  cassava: { n: 4.5, p2o5: 1.5, k2o: 7 },
+  groundnut: { n: 60, p2o5: 12, k2o: 30 },
+  cotton: { n: 40, p2o5: 15, k2o: 35 },
+  sugarcane: { n: 1.2, p2o5: 0.5, k2o: 2 },
+  chickpea: { n: 50, p2o5: 10, k2o: 40 },
+  lentil: { n: 50, p2o5: 10, k2o: 40 },
+  sunflower: { n: 40, p2o5: 17, k2o: 50 },
+  canola: { n: 50, p2o5: 25, k2o: 45 },
+  tomato: { n: 2.5, p2o5: 0.8, k2o: 4 },
+  oats: { n: 25, p2o5: 10, k2o: 30 },
+  'common-bean': { n: 60, p2o5: 15, k2o: 40 },
+  'sweet-potato': { n: 4, p2o5: 1.5, k2o: 8 },
+};
+
+// Used for crops added to the catalog without their own coefficients.
+const FAMILY_UPTAKE: Partial<Record<CropFamily, NutrientUptake>> = {
+  poaceae: { n: 25, p2o5: 10, k2o: 25 },
+  fabaceae: { n: 60, p2o5: 14, k2o: 35 },
+};
+const DEFAULT_UPTAKE: NutrientUptake = { n: 30, p2o5: 12, k2o: 35 };
+
+// Share of a legume's nitrogen that comes from fixation rather than the soil.
+const LEGUME_FIXATION_SHARE = 0.75;
+
+// kg/ha of nitrate-N per ppm in the top 30 cm at a bulk density of 1.3 g/cm³.
+const NITRATE_KG_PER_PPM = 3.9;
+// kg N/ha mineralized per season for each percent of organic matter.
+const MINERALIZED_N_PER_OM_PCT = 15;
+const MAX_MINERALIZED_N = 120;
+// Share of applied fertilizer N the crop recovers; the rest is lost.
+const FERTILIZER_N_RECOVERY = 0.6;
+// Organic matter assumed when there is no soil test.
+export const TYPICAL_ORGANIC_MATTER_PCT: Record<SoilType, number> = {
+  clay: 3,
+  loamy: 2.5,
+  silt: 2,
+  sandy: 1,
+  peat: 20,
+};
+
+// Nitrogen left by a previous legume crop, in kg/ha.
+const GRAIN_LEGUME_N_CREDIT = 30;
+const FORAGE_LEGUME_N_CREDIT = 80;
+const FORAGE_LEGUMES = /alfalfa|lucerne|clover|vetch|sweet ?clover|berseem/i;
+
+// Olsen P sufficiency bands (ppm) and the share of crop uptake to apply.
+const PHOSPHORUS_BANDS = [
+  { below: 7, factor: 1.5, level: 'very low' },
+  { below: 15, factor: 1.25, level: 'low' },
+  { below: 26, factor: 1, level: 'optimum' },
+  { below: 41, factor: 0.5, level: 'high' },
+  { below: Infinity, factor: 0, level: 'very high' },
+];
+
+// Potash bands, as multiples of the critical exchangeable K level.
+const POTASSIUM_BANDS = [
+  { below: 0.5, factor: 1.5, level: 'very low' },
+  { below: 1, factor: 1.25, level: 'low' },
+  { below: 1.5, factor: 1, level: 'optimum' },
+  { below: 2, factor: 0.5, level: 'high' },
+  { below: Infinity, factor: 0, level: 'very high' },
+];
+const DEFAULT_CEC = 15;
+
+// Salinity above which yields of most crops fall, in dS/m.
+const SALINE_EC = 4;
+
+export interface FertilizerProduct {
+  id: string;
+  name: string;
+  // Nutrient content, in percent.
+  n: number;
+  p2o5: number;
+  k2o: number;
+}
+
+export const FERTILIZER_PRODUCTS: FertilizerProduct[] = [
+  { id: 'urea', name: 'Urea (46-0-0)', n: 46, p2o5: 0, k2o: 0 },
+  { id: 'dap', name: 'DAP (18-46-0)', n: 18, p2o5: 46, k2o: 0 },
+  { id: 'tsp', name: 'Triple superphosphate (0-46-0)', n: 0, p2o5: 46, k2o: 0 },
+  { id: 'mop', name: 'Muriate of potash (0-0-60)', n: 0, p2o5: 0, k2o: 60 },
+  { id: 'sop', name: 'Sulfate of potash (0-0-50)', n: 0, p2o5: 0, k2o: 50 },
+];
+
+const BAG_KG = 50;
+
+export interface NutrientLine {
+  nutrient: Nutrient;
+  // Crop requirement at the target yield, in kg/ha.
+  requirement: number;
+  // Supplied by the soil; negative when the soil needs building up.
+  soilSupply: number;
+  previousCropCredit: number;
+  // Amount to apply, in kg/ha.
+  recommended: number;
+  // Sufficiency level from the soil test, if there was one.
+  soilLevel?: string;
+}
+
+export interface ProductQuantity {
+  product: FertilizerProduct;
+  kgPerHa: number;
+  // Scaled by the farm size, when it is known.
+  totalKg?: number;
+  bags?: number;
+}
+
+export interface NutrientBudget {
+  crop: CropProfile;
+  targetYield: number;
+  yieldUnit: string;
+  lines: NutrientLine[];
+  products: ProductQuantity[];
+  farmSizeHa?: number;
+  warnings: string[];
+}
+
+const round = (value: number, step = 1) => Math.round(value / step) * step;
+
+const uptakeFor = (crop: CropProfile) =>
+  CROP_UPTAKE[crop.id] ?? FAMILY_UPTAKE[crop.family] ?? DEFAULT_UPTAKE;
+
+/**
+ * The target yield used when none is given: the middle of the catalog range.
+ */
+export const defaultTargetYield = (crop: CropProfile) =>
+  Math.round(((crop.yieldRange.min + crop.yieldRange.max) / 2) * 10) / 10;
+
+/**
+ * Nitrogen credit from the previous crop, in kg/ha.
+ */
+export function previousCropNitrogenCredit(
+  previousCrop: string | undefined,
+  catalog: CropProfile[] = CROP_CATALOG,
+): number {
+  if (!previousCrop) return 0;
+  if (FORAGE_LEGUMES.test(previousCrop)) return FORAGE_LEGUME_N_CREDIT;
+  return findCatalogCrop(previousCrop, catalog)?.family === 'fabaceae'
+    ? GRAIN_LEGUME_N_CREDIT
+    : 0;
+}
+
+function sufficiency(
+  value: number | undefined,
+  bands: { below: number; factor: number; level: string }[],
+) {
+  if (value === undefined) return { factor: 1, level: undefined };
+  const band = bands.find(b => value < b.below)!;
+  return { factor: band.factor, level: band.level };
+}
+
+/**
+ * Picks fertilizer products that supply the recommended rates: phosphate
+ * from DAP (or TSP when DAP would oversupply nitrogen), potash from muriate
+ * (sulfate on saline soils), and the remaining nitrogen from urea.
+ */
+function planProducts(
+  n: number,
+  p2o5: number,
+  k2o: number,
+  saline: boolean,
+  farmSizeHa?: number,
+): ProductQuantity[] {
+  const product = (id: string) => FERTILIZER_PRODUCTS.find(p => p.id === id)!;
+  const rates: [FertilizerProduct, number][] = [];
+  let remainingN = n;
+  if (p2o5 > 0) {
+    const dap = product('dap');
+    const dapKg = (p2o5 / dap.p2o5) * 100;
+    if ((dapKg * dap.n) / 100 <= n) {
+      rates.push([dap, dapKg]);
+      remainingN -= (dapKg * dap.n) / 100;
+    } else {
+      const tsp = product('tsp');
+      rates.push([tsp, (p2o5 / tsp.p2o5) * 100]);
+    }
+  }
+  if (k2o > 0) {
+    const potash = product(saline ? 'sop' : 'mop');
+    rates.push([potash, (k2o / potash.k2o) * 100]);
+  }
+  if (remainingN > 0) {
+    const urea = product('urea');
+    rates.push([urea, (remainingN / urea.n) * 100]);
+  }
+  return rates.map(([fertilizer, kg]) => {
+    const kgPerHa = round(kg, 5);
+    const totalKg = farmSizeHa ? round(kgPerHa * farmSizeHa) : undefined;
+    return {
+      product: fertilizer,
+      kgPerHa,
+      totalKg,
+      bags: totalKg !== undefined ? Math.ceil(totalKg / BAG_KG) : undefined,
+    };
+  }).filter(q => q.kgPerHa > 0);
+}
+
+/**
+ * Computes the N-P2O5-K2O budget for a crop at a target yield (in the crop's
+ * yield unit, t/ha for the bundled catalog) and the fertilizer products that
+ * supply it.
+ */
+export function computeNutrientBudget(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+  targetYield = defaultTargetYield(crop),
+  catalog: CropProfile[] = CROP_CATALOG,
+): NutrientBudget {
+  const test: SoilTest = params.soilTest ?? {};
+  const uptake = uptakeFor(crop);
+  const warnings: string[] = [];
+  const isLegume = crop.family === 'fabaceae';
+
+  // Nitrogen: requirement minus soil nitrate, mineralization and credits.
+  const nUptake = uptake.n * targetYield;
+  const nRequirement = isLegume ? nUptake * (1 - LEGUME_FIXATION_SHARE) : nUptake;
+  const organicMatter =
+    test.organicMatterPct ?? TYPICAL_ORGANIC_MATTER_PCT[params.soilType];
+  const nSupply =
+    (test.nitrogenPpm ?? 0) * NITRATE_KG_PER_PPM +
+    Math.min(organicMatter * MINERALIZED_N_PER_OM_PCT, MAX_MINERALIZED_N);
+  const nCredit = isLegume ? 0 : previousCropNitrogenCredit(params.previousCrop, catalog);
+  if (test.organicMatterPct === undefined) {
+    warnings.push(
+      `Organic matter assumed to be ${organicMatter}% for ${params.soilType} soil; a soil test would refine the nitrogen rate.`,
+    );
+  }
+
+  // Phosphate and potash: crop uptake scaled by the soil test level.
+  const p = sufficiency(test.phosphorusPpm, PHOSPHORUS_BANDS);
+  const criticalK = 100 + 2.5 * (test.cecCmolKg ?? DEFAULT_CEC);
+  const k = sufficiency(
+    test.potassiumPpm !== undefined ? test.potassiumPpm / criticalK : undefined,
+    POTASSIUM_BANDS,
+  );
+  const pRequirement = uptake.p2o5 * targetYield;
+  const kRequirement = uptake.k2o * targetYield;
+
+  const lines: NutrientLine[] = [
+    {
+      nutrient: 'N',
+      requirement: round(nRequirement),
+      soilSupply: round(nSupply),
+      previousCropCredit: nCredit,
+      recommended: Math.max(
+        0,
+        round((nRequirement - nSupply - nCredit) / FERTILIZER_N_RECOVERY, 5),
+      ),
+    },
+    {
+      nutrient: 'P2O5',
+      requirement: round(pRequirement),
+      soilSupply: round(pRequirement * (1 - p.factor)),
+      previousCropCredit: 0,
+      recommended: round(pRequirement * p.factor, 5),
+      soilLevel: p.level,
+    },
+    {
+      nutrient: 'K2O',
+      requirement: round(kRequirement),
+      soilSupply: round(kRequirement * (1 - k.factor)),
+      previousCropCredit: 0,
+      recommended: round(kRequirement * k.factor, 5),
+      soilLevel: k.level,
+    },
+  ];
+
+  if (test.ph !== undefined) {
+    if (test.ph < crop.ph.optMin) {
+      warnings.push(
+        `Soil pH ${test.ph} is below the ${crop.ph.optMin}–${crop.ph.optMax} optimum for ${crop.name.toLowerCase()}; lime before planting.`,
+      );
+    } else if (test.ph > crop.ph.optMax) {
+      warnings.push(
+        `Soil pH ${test.ph} is above the ${crop.ph.optMin}–${crop.ph.optMax} optimum; phosphate and micronutrients will be less available.`,
+      );
+    }
+  }
+  const saline = test.ecDsM !== undefined && test.ecDsM >= SALINE_EC;
+  if (saline) {
+    warnings.push(
+      `EC ${test.ecDsM} dS/m is saline; expect yield losses, leach salts and use sulfate rather than chloride potash.`,
+    );
+  }
+
+  const [n, p2o5, k2o] = lines.map(line => line.recommended);
+  return {
+    crop,
+    targetYield,
+    yieldUnit: crop.yieldRange.unit,
+    lines,
+    products: planProducts(n, p2o5, k2o, saline, params.farmSize),
+    farmSizeHa: params.farmSize,
+    warnings,
+  };
+}
+
+/**
+ * Describes soil test results as plain text, or '' when there are none.
+ */
+export function describeSoilTest(test: SoilTest | undefined): string {
+  if (!test) return '';
+  return [
+    test.ph !== undefined && `pH ${test.ph}`,
+    test.organicMatterPct !== undefined && `organic matter ${test.organicMatterPct}%`,
+    test.nitrogenPpm !== undefined && `nitrate-N ${test.nitrogenPpm} ppm`,
+    test.phosphorusPpm !== undefined && `Olsen P ${test.phosphorusPpm} ppm`,
+    test.potassiumPpm !== undefined && `K ${test.potassiumPpm} ppm`,
+    test.ecDsM !== undefined && `EC ${test.ecDsM} dS/m`,
+    test.cecCmolKg !== undefined && `CEC ${test.cecCmolKg} cmol/kg`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Summarizes a nutrient budget on one line, for prompts and tool responses.
+ */
+export function summarizeNutrientBudget(budget: NutrientBudget): string {
+  const rates = budget.lines.map(line => line.recommended).join('-');
+  const products = budget.products
+    .map(q =>
+      `${q.product.name} ${q.kgPerHa} kg/ha${q.totalKg !== undefined ? ` (${q.totalKg} kg total)` : ''}`,
+    )
+    .join(', ');
+  return `${budget.crop.name} at ${budget.targetYield} ${budget.yieldUnit}: apply ${rates} kg/ha N-P2O5-K2O${products ? `; ${products}` : ''}`;
+}
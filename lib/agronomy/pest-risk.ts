@@ -0,0 +1,552 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Pest and disease risk assessment.
+ *
+ * A small knowledge table lists the major pests, diseases and parasitic weeds
+ * of the catalog crops, the conditions that favor them and the previous crops
+ * that carry them over in residue, soil or volunteers. Each threat is scored
+ * from its importance and how well the farm's temperature, rainfall,
+ * humidity, climate zone and soil match its favored conditions; a previous
+ * host crop adds to the score. The crop's risk is driven by its worst threat.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CROP_CATALOG, CropProfile, findCatalogCrop } from './crop-catalog';
+import { CropRecommendationReport, CropRisk } from './crop-report';
+
+export type ThreatKind = 'insect' | 'disease' | 'nematode' | 'weed';
+export type PestRiskLevel = CropRisk['severity'];
+
+interface FavoringConditions {
+  temperatureC?: { min: number; max: number };
+  minRainfallMm?: number;
+  maxRainfallMm?: number;
+  minHumidityPct?: number;
+  climates?: AgriculturalParameters['climate'][];
+  soilTypes?: AgriculturalParameters['soilType'][];
+  // Favored by acid soils below this pH.
+  maxPh?: number;
+}
+
+export interface PestThreat {
+  name: string;
+  kind: ThreatKind;
+  // Catalog crop ids that are attacked.
+  hosts: string[];
+  // 1 (minor) to 3 (can destroy the crop).
+  importance: 1 | 2 | 3;
+  favoredBy: FavoringConditions;
+  // Previous crops that leave inoculum, eggs or seed in the field.
+  carryOverFrom?: string[];
+  monitoring: string;
+  mitigation: string;
+}
+
+const PEST_THREATS: PestThreat[] = [
+  {
+    name: 'Fall armyworm',
+    kind: 'insect',
+    hosts: ['maize', 'sorghum', 'pearl-millet', 'rice', 'cotton'],
+    importance: 3,
+    favoredBy: { temperatureC: { min: 20, max: 32 }, climates: ['tropical', 'arid'] },
+    monitoring: 'Scout 20 whorls per field twice a week from emergence for window-pane feeding and frass; use pheromone traps.',
+    mitigation: 'Plant early and evenly; treat with Bt or spinosad once 10-20% of plants are infested, and keep field margins for natural enemies.',
+  },
+  {
+    name: 'Northern corn leaf blight',
+    kind: 'disease',
+    hosts: ['maize'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 18, max: 27 }, minRainfallMm: 800, minHumidityPct: 75 },
+    carryOverFrom: ['maize'],
+    monitoring: 'Check the lower leaves for long grey-green lesions from knee height to tasseling.',
+    mitigation: 'Grow resistant hybrids, bury or chop residue and spray a fungicide at tasseling if lesions reach the ear leaf.',
+  },
+  {
+    name: 'Gray leaf spot',
+    kind: 'disease',
+    hosts: ['maize'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 22, max: 30 }, minRainfallMm: 900, minHumidityPct: 80 },
+    carryOverFrom: ['maize'],
+    monitoring: 'Look for rectangular tan lesions on the lower leaves during warm, humid spells.',
+    mitigation: 'Rotate away from maize, use tolerant hybrids and protect the ear leaf with a fungicide.',
+  },
+  {
+    name: 'Corn rootworm',
+    kind: 'insect',
+    hosts: ['maize'],
+    importance: 2,
+    favoredBy: { climates: ['temperate', 'continental'] },
+    carryOverFrom: ['maize'],
+    monitoring: 'Dig roots in early summer for larval feeding and count adult beetles on sticky traps.',
+    mitigation: 'Rotate out of maize; continuous maize needs trait or soil insecticide protection.',
+  },
+  {
+    name: 'Striga (witchweed)',
+    kind: 'weed',
+    hosts: ['maize', 'sorghum', 'pearl-millet'],
+    importance: 3,
+    favoredBy: { temperatureC: { min: 22, max: 35 }, climates: ['tropical', 'arid'], soilTypes: ['sandy'] },
+    carryOverFrom: ['maize', 'sorghum', 'pearl-millet'],
+    monitoring: 'Watch for wilting cereals and purple-flowered Striga shoots from 6 weeks after planting.',
+    mitigation: 'Use tolerant varieties, intercrop with legumes or Desmodium and pull Striga before it seeds.',
+  },
+  {
+    name: 'Fusarium head blight',
+    kind: 'disease',
+    hosts: ['wheat', 'barley', 'oats'],
+    importance: 3,
+    favoredBy: { temperatureC: { min: 15, max: 30 }, minRainfallMm: 700, minHumidityPct: 80 },
+    carryOverFrom: ['maize', 'wheat', 'barley', 'oats'],
+    monitoring: 'Follow the risk forecast around flowering and look for bleached spikelets at early grain fill.',
+    mitigation: 'Bury or chop residue and choose resistant varieties; time a fungicide to early flowering.',
+  },
+  {
+    name: 'Rusts (stripe, leaf and crown)',
+    kind: 'disease',
+    hosts: ['wheat', 'barley', 'oats'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 8, max: 25 }, minRainfallMm: 500, minHumidityPct: 70 },
+    monitoring: 'Scout the upper leaves weekly from stem elongation for orange or yellow pustules.',
+    mitigation: 'Grow resistant varieties, remove volunteer cereals and spray when pustules reach the flag leaf.',
+  },
+  {
+    name: 'Take-all',
+    kind: 'disease',
+    hosts: ['wheat', 'barley'],
+    importance: 2,
+    favoredBy: { minRainfallMm: 600, climates: ['temperate', 'continental'] },
+    carryOverFrom: ['wheat', 'barley'],
+    monitoring: 'Look for patches of stunted, white-headed plants with blackened roots.',
+    mitigation: 'Avoid a second wheat or barley; a one-year break clears most inoculum.',
+  },
+  {
+    name: 'Aphids and barley yellow dwarf virus',
+    kind: 'insect',
+    hosts: ['wheat', 'barley', 'oats', 'canola'],
+    importance: 1,
+    favoredBy: { temperatureC: { min: 10, max: 25 }, climates: ['temperate', 'continental'] },
+    monitoring: 'Count aphids on seedlings in autumn and on heads in spring.',
+    mitigation: 'Delay autumn sowing, control green bridges and spray only above the economic threshold.',
+  },
+  {
+    name: 'Rice blast',
+    kind: 'disease',
+    hosts: ['rice'],
+    importance: 3,
+    favoredBy: { temperatureC: { min: 20, max: 28 }, minRainfallMm: 1200, minHumidityPct: 85 },
+    carryOverFrom: ['rice'],
+    monitoring: 'Inspect leaves and panicle necks for diamond-shaped lesions, especially after cool, dewy nights.',
+    mitigation: 'Use resistant varieties, avoid excess nitrogen and keep fields flooded; apply a fungicide at booting if leaf blast is present.',
+  },
+  {
+    name: 'Brown planthopper',
+    kind: 'insect',
+    hosts: ['rice'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 25, max: 32 }, climates: ['tropical'] },
+    monitoring: 'Tap plant bases over a tray weekly and look for hopper burn patches.',
+    mitigation: 'Avoid early broad-spectrum sprays that kill natural enemies, split nitrogen and drain the field briefly.',
+  },
+  {
+    name: 'Soybean rust',
+    kind: 'disease',
+    hosts: ['soybean', 'common-bean'],
+    importance: 3,
+    favoredBy: { temperatureC: { min: 18, max: 28 }, minRainfallMm: 1000, minHumidityPct: 80 },
+    monitoring: 'Check the lower canopy weekly from flowering for tan lesions with spores underneath.',
+    mitigation: 'Plant early maturing varieties early and spray at the first lesions.',
+  },
+  {
+    name: 'Sclerotinia white mould',
+    kind: 'disease',
+    hosts: ['soybean', 'sunflower', 'canola', 'common-bean', 'lentil', 'chickpea'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 12, max: 25 }, minRainfallMm: 700, minHumidityPct: 80 },
+    carryOverFrom: ['soybean', 'sunflower', 'canola', 'common-bean', 'lentil', 'chickpea'],
+    monitoring: 'Look for white fluffy growth and bleached stems at flowering in dense, wet canopies.',
+    mitigation: 'Sclerotia persist for years; keep susceptible broadleaf crops 3+ years apart and avoid dense canopies.',
+  },
+  {
+    name: 'Soybean cyst nematode',
+    kind: 'nematode',
+    hosts: ['soybean', 'common-bean'],
+    importance: 2,
+    favoredBy: { soilTypes: ['sandy', 'loamy'] },
+    carryOverFrom: ['soybean', 'common-bean'],
+    monitoring: 'Sample soil after harvest for egg counts and check roots for white cysts in mid-summer.',
+    mitigation: 'Use resistant varieties with rotating resistance sources and rotate with non-hosts.',
+  },
+  {
+    name: 'Aphanomyces root rot',
+    kind: 'disease',
+    hosts: ['lentil', 'common-bean'],
+    importance: 2,
+    favoredBy: { minRainfallMm: 600, soilTypes: ['clay', 'silt'] },
+    carryOverFrom: ['lentil', 'common-bean'],
+    monitoring: 'Look for yellowing plants with honey-brown roots in low, wet spots.',
+    mitigation: 'Oospores survive many years; test the soil before returning to pulses and improve drainage.',
+  },
+  {
+    name: 'Ascochyta blight',
+    kind: 'disease',
+    hosts: ['chickpea', 'lentil'],
+    importance: 3,
+    favoredBy: { temperatureC: { min: 15, max: 25 }, minRainfallMm: 500, minHumidityPct: 75 },
+    carryOverFrom: ['chickpea', 'lentil'],
+    monitoring: 'Scout after every rain from emergence for stem and pod lesions with dark rings.',
+    mitigation: 'Sow clean, treated seed of resistant varieties away from last year\'s stubble and spray ahead of rain.',
+  },
+  {
+    name: 'Late blight',
+    kind: 'disease',
+    hosts: ['potato', 'tomato'],
+    importance: 3,
+    favoredBy: { temperatureC: { min: 10, max: 25 }, minRainfallMm: 700, minHumidityPct: 85 },
+    carryOverFrom: ['potato', 'tomato'],
+    monitoring: 'Follow blight forecasts and check the canopy twice a week in humid weather for dark water-soaked lesions.',
+    mitigation: 'Destroy volunteers and cull piles, grow tolerant varieties and keep a protectant spray interval in blight weather.',
+  },
+  {
+    name: 'Early blight',
+    kind: 'disease',
+    hosts: ['potato', 'tomato'],
+    importance: 1,
+    favoredBy: { temperatureC: { min: 22, max: 30 }, minHumidityPct: 70 },
+    carryOverFrom: ['potato', 'tomato'],
+    monitoring: 'Look for target-like brown spots on the oldest leaves.',
+    mitigation: 'Avoid nitrogen stress, remove infected debris and rotate with non-solanaceous crops.',
+  },
+  {
+    name: 'Colorado potato beetle',
+    kind: 'insect',
+    hosts: ['potato', 'tomato'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 18, max: 30 }, climates: ['temperate', 'continental'] },
+    carryOverFrom: ['potato'],
+    monitoring: 'Count egg masses and larvae on 50 plants weekly from emergence.',
+    mitigation: 'Rotate fields far from last year\'s potatoes and rotate insecticide modes of action.',
+  },
+  {
+    name: 'Potato cyst nematode',
+    kind: 'nematode',
+    hosts: ['potato', 'tomato'],
+    importance: 2,
+    favoredBy: { climates: ['temperate', 'continental'] },
+    carryOverFrom: ['potato', 'tomato'],
+    monitoring: 'Test the soil for cysts before planting.',
+    mitigation: 'Keep solanaceous crops at least 4 years apart, grow resistant varieties and remove volunteers.',
+  },
+  {
+    name: 'Root-knot nematode',
+    kind: 'nematode',
+    hosts: ['tomato', 'sweet-potato', 'cotton', 'groundnut', 'potato'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 20, max: 35 }, soilTypes: ['sandy'] },
+    carryOverFrom: ['tomato', 'sweet-potato', 'cotton', 'groundnut', 'potato'],
+    monitoring: 'Pull plants in patches of stunting and check roots for galls.',
+    mitigation: 'Follow with a cereal or resistant variety; consider a nematode-suppressive cover.',
+  },
+  {
+    name: 'Verticillium wilt',
+    kind: 'disease',
+    hosts: ['potato', 'tomato', 'cotton', 'sunflower'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 18, max: 28 } },
+    carryOverFrom: ['potato', 'tomato', 'cotton', 'sunflower'],
+    monitoring: 'Look for one-sided leaf yellowing and brown stem vascular tissue mid-season.',
+    mitigation: 'Microsclerotia persist; rotate with cereals or grasses and grow tolerant varieties.',
+  },
+  {
+    name: 'Whiteflies and the viruses they spread',
+    kind: 'insect',
+    hosts: ['tomato', 'cassava', 'cotton', 'common-bean'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 25, max: 35 }, climates: ['tropical', 'arid'] },
+    monitoring: 'Check leaf undersides and yellow sticky traps weekly; rogue plants with curled, mottled leaves.',
+    mitigation: 'Use virus-resistant varieties and clean planting material, and keep a host-free period between crops.',
+  },
+  {
+    name: 'Cotton bollworm (Helicoverpa)',
+    kind: 'insect',
+    hosts: ['cotton', 'chickpea', 'tomato', 'sorghum', 'maize'],
+    importance: 3,
+    favoredBy: { temperatureC: { min: 24, max: 33 }, climates: ['tropical', 'arid'] },
+    monitoring: 'Count eggs and small larvae on terminals, flowers and pods twice a week; use pheromone traps.',
+    mitigation: 'Use Bt varieties or biological sprays at the threshold and keep refuges to slow resistance.',
+  },
+  {
+    name: 'Cassava mosaic disease',
+    kind: 'disease',
+    hosts: ['cassava'],
+    importance: 3,
+    favoredBy: { climates: ['tropical'], temperatureC: { min: 22, max: 32 } },
+    carryOverFrom: ['cassava'],
+    monitoring: 'Inspect young leaves for yellow-green mosaic in the first three months.',
+    mitigation: 'Plant cuttings from certified, symptom-free stems of resistant varieties and rogue diseased plants early.',
+  },
+  {
+    name: 'Sugarcane stem borers',
+    kind: 'insect',
+    hosts: ['sugarcane'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 24, max: 34 }, climates: ['tropical'] },
+    carryOverFrom: ['sugarcane'],
+    monitoring: 'Split a sample of stalks monthly for tunnels and count dead hearts in young cane.',
+    mitigation: 'Plant clean setts, trash mulch and release egg parasitoids; avoid excess nitrogen.',
+  },
+  {
+    name: 'Groundnut leaf spots',
+    kind: 'disease',
+    hosts: ['groundnut'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 24, max: 30 }, minRainfallMm: 800, minHumidityPct: 80 },
+    carryOverFrom: ['groundnut'],
+    monitoring: 'Scout from 30 days after sowing for brown or black leaf spots.',
+    mitigation: 'Rotate at least two years away from groundnut, bury residue and spray on a calendar in wet seasons.',
+  },
+  {
+    name: 'Aflatoxin (Aspergillus)',
+    kind: 'disease',
+    hosts: ['groundnut', 'maize'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 26, max: 36 }, maxRainfallMm: 600 },
+    monitoring: 'Watch for drought stress at pod fill or grain fill and test harvested lots.',
+    mitigation: 'Irrigate through late drought, harvest on time, dry quickly below 10% moisture and consider biocontrol strains.',
+  },
+  {
+    name: 'Sweet potato weevil',
+    kind: 'insect',
+    hosts: ['sweet-potato'],
+    importance: 3,
+    favoredBy: { temperatureC: { min: 24, max: 34 }, maxRainfallMm: 1000 },
+    carryOverFrom: ['sweet-potato'],
+    monitoring: 'Set pheromone traps and check vines and exposed roots for feeding holes.',
+    mitigation: 'Plant clean vine tips, hill up to close soil cracks, harvest promptly and destroy crop residue.',
+  },
+  {
+    name: 'Clubroot',
+    kind: 'disease',
+    hosts: ['canola'],
+    importance: 3,
+    favoredBy: { minRainfallMm: 600, maxPh: 7 },
+    carryOverFrom: ['canola'],
+    monitoring: 'Pull wilting plants and check roots for swollen galls; test high-traffic field entrances.',
+    mitigation: 'Lime to pH above 7, clean machinery and keep brassicas at least 4 years apart.',
+  },
+  {
+    name: 'Blackleg',
+    kind: 'disease',
+    hosts: ['canola'],
+    importance: 2,
+    favoredBy: { temperatureC: { min: 12, max: 24 }, minRainfallMm: 500 },
+    carryOverFrom: ['canola'],
+    monitoring: 'Check seedlings for grey leaf lesions and cut stems at swathing for blackened cankers.',
+    mitigation: 'Grow resistant varieties, rotate cultivars and keep canola off its own stubble.',
+  },
+];
+
+// Points of a threat that matches none and all of the favored conditions,
+// by importance.
+const IMPORTANCE_POINTS: Record<PestThreat['importance'], number> = { 1: 30, 2: 50, 3: 70 };
+// Share of a threat's points that applies whatever the conditions.
+const BASE_SHARE = 0.3;
+const CARRY_OVER_POINTS = 25;
+// Added to the crop score for each further medium or high threat.
+const FURTHER_THREAT_POINTS = 5;
+
+export interface ThreatAssessment {
+  threat: PestThreat;
+  score: number;
+  level: PestRiskLevel;
+  // Favoring conditions that hold, and carry-over from the previous crop.
+  reasons: string[];
+}
+
+export interface CropPestRisk {
+  crop: string;
+  // 0-100.
+  score: number;
+  level: PestRiskLevel;
+  // Worst first.
+  threats: ThreatAssessment[];
+  guidance: string[];
+}
+
+export const pestRiskLevel = (score: number): PestRiskLevel =>
+  score >= 60 ? 'high' : score >= 35 ? 'medium' : 'low';
+
+/**
+ * The threats in the knowledge table that attack a crop.
+ */
+export function threatsForCrop(crop: CropProfile): PestThreat[] {
+  return PEST_THREATS.filter(threat => threat.hosts.includes(crop.id));
+}
+
+/**
+ * Scores one threat; conditions the user did not enter count as half met.
+ */
+function assessThreat(
+  threat: PestThreat,
+  params: AgriculturalParameters,
+  previous: CropProfile | undefined,
+): ThreatAssessment {
+  const { favoredBy } = threat;
+  const weather = params.weather ?? {};
+  const temperature =
+    params.temperature ??
+    (weather.tMinC !== undefined && weather.tMaxC !== undefined
+      ? (weather.tMinC + weather.tMaxC) / 2
+      : undefined);
+  const checks: { known: boolean; met: boolean; reason: string }[] = [];
+  if (favoredBy.temperatureC) {
+    const { min, max } = favoredBy.temperatureC;
+    checks.push({
+      known: temperature !== undefined,
+      met: temperature !== undefined && temperature >= min && temperature <= max,
+      reason: `${min}-${max} °C suits it`,
+    });
+  }
+  if (favoredBy.minRainfallMm !== undefined) {
+    checks.push({
+      known: params.rainfall !== undefined,
+      met: params.rainfall !== undefined && params.rainfall >= favoredBy.minRainfallMm,
+      reason: `wet conditions (${params.rainfall} mm rainfall)`,
+    });
+  }
+  if (favoredBy.maxRainfallMm !== undefined) {
+    checks.push({
+      known: params.rainfall !== undefined,
+      met: params.rainfall !== undefined && params.rainfall <= favoredBy.maxRainfallMm,
+      reason: `dry conditions (${params.rainfall} mm rainfall)`,
+    });
+  }
+  if (favoredBy.minHumidityPct !== undefined) {
+    const humidity = weather.relativeHumidityPct;
+    checks.push({
+      known: humidity !== undefined,
+      met: humidity !== undefined && humidity >= favoredBy.minHumidityPct,
+      reason: `humid air (${humidity}% RH)`,
+    });
+  }
+  if (favoredBy.climates) {
+    checks.push({
+      known: true,
+      met: favoredBy.climates.includes(params.climate),
+      reason: `${params.climate} climate`,
+    });
+  }
+  if (favoredBy.soilTypes) {
+    checks.push({
+      known: true,
+      met: favoredBy.soilTypes.includes(params.soilType),
+      reason: `${params.soilType} soil`,
+    });
+  }
+  if (favoredBy.maxPh !== undefined) {
+    const ph = params.soilTest?.ph;
+    checks.push({
+      known: ph !== undefined,
+      met: ph !== undefined && ph < favoredBy.maxPh,
+      reason: `acid soil (pH ${ph})`,
+    });
+  }
+
+  const match =
+    checks.length === 0
+      ? 0.5
+      : checks.reduce((sum, check) => sum + (check.known ? (check.met ? 1 : 0) : 0.5), 0) /
+        checks.length;
+  const reasons = checks.filter(check => check.met).map(check => check.reason);
+  let score = IMPORTANCE_POINTS[threat.importance] * (BASE_SHARE + (1 - BASE_SHARE) * match);
+  if (previous && threat.carryOverFrom?.includes(previous.id)) {
+    score += CARRY_OVER_POINTS;
+    reasons.push(`carry-over from the previous ${previous.name}`);
+  }
+  score = Math.min(100, Math.round(score));
+  return { threat, score, level: pestRiskLevel(score), reasons };
+}
+
+/**
+ * Assesses the pest and disease risk of a crop under the farm's conditions,
+ * with carry-over from `params.previousCrop`.
+ * @param name - The name to report the crop under, e.g. the AI's spelling.
+ */
+export function assessPestRisk(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+  catalog: CropProfile[] = CROP_CATALOG,
+  name = crop.name,
+): CropPestRisk {
+  const previous = params.previousCrop
+    ? findCatalogCrop(params.previousCrop, catalog)
+    : undefined;
+  const threats = threatsForCrop(crop)
+    .map(threat => assessThreat(threat, params, previous))
+    .sort((a, b) => b.score - a.score);
+  const further = threats.slice(1).filter(t => t.level !== 'low').length;
+  const score = Math.min(100, (threats[0]?.score ?? 0) + FURTHER_THREAT_POINTS * further);
+
+  const watched = threats.filter(t => t.level !== 'low');
+  const guidance = watched.length
+    ? watched.map(t => `${t.threat.name}: ${t.threat.monitoring} ${t.threat.mitigation}`)
+    : [
+        threats.length
+          ? 'Routine scouting every 7-10 days is enough; no major threat is favored by these conditions.'
+          : `No threats of ${name} are in the knowledge table; scout every 7-10 days.`,
+      ];
+  return { crop: name, score, level: pestRiskLevel(score), threats, guidance };
+}
+
+/**
+ * Pest and disease risk for the report's crops that are in the catalog.
+ */
+export function assessReportPestRisk(
+  report: CropRecommendationReport,
+  params: AgriculturalParameters,
+  catalog: CropProfile[] = CROP_CATALOG,
+): CropPestRisk[] {
+  return report.crops.flatMap(recommended => {
+    const crop = findCatalogCrop(recommended.crop, catalog);
+    return crop ? [assessPestRisk(crop, params, catalog, recommended.crop)] : [];
+  });
+}
+
+/**
+ * Describes a crop's risk in one line, e.g. "Maize: high (72) - Fall
+ * armyworm (high; 20-32 °C suits it, tropical climate), ...".
+ */
+export function describePestRisk(risk: CropPestRisk): string {
+  const threats = risk.threats
+    .filter(t => t.level !== 'low')
+    .map(t => `${t.threat.name} (${t.level}${t.reasons.length ? `; ${t.reasons.join(', ')}` : ''})`);
+  return `${risk.crop}: ${risk.level} (${risk.score})${threats.length ? ` - ${threats.join(', ')}` : ''}`;
+}
+
+/**
+ * Summarizes crop risks as plain text with guidance, for tool responses.
+ */
+export function summarizePestRisk(risks: CropPestRisk[]): string {
+  return risks
+    .map(risk =>
+      [describePestRisk(risk), ...risk.guidance.map(line => `  - ${line}`)].join('\n'),
+    )
+    .join('\n');
+}
+
+/**
+ * Renders crop risks as a markdown section, appended to the report document.
+ */
+export function pestRiskToMarkdown(risks: CropPestRisk[]): string {
+  const lines = ['## Pest and Disease Risk', ''];
+  for (const risk of risks) {
+    lines.push(`- **${risk.crop}: ${risk.level} (${risk.score})**`);
+    lines.push(...risk.guidance.map(line => `  - ${line}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,354 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Growing degree day (GDD) phenology model.
+ *
+ * Daily thermal time is the mean of the day's minimum and maximum
+ * temperatures less the crop's base temperature, with both temperatures
+ * first clamped to [baseC, upperC] (the "modified" method used for maize).
+ * Thermal time is accumulated from the planting date until each stage's GDD
+ * requirement in the crop catalog is met. Temperatures come from an imported
+ * daily series or, failing that, from the location's average temperature.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import {
+  CROP_CATALOG,
+  CropProfile,
+  ThermalTime,
+  findCatalogCrop,
+} from './crop-catalog';
+import { CropRecommendation, CropRecommendationReport } from './crop-report';
+import { DEFAULT_DIURNAL_RANGE_C } from './evapotranspiration';
+import { MONTH_NAMES, firstPlantingMonth } from './planting-window';
+import { SuitabilityDisagreement } from './suitability';
+import { DailyTemperature } from './temperature-series';
+
+// Stop looking for a stage the crop cannot reach.
+const MAX_SEASON_DAYS = 730;
+// Share of the thermal time to maturity at which crops without catalog
+// thermal time emerge and flower.
+const DEFAULT_STAGE_SHARES: [string, number][] = [
+  ['Emergence', 0.08],
+  ['Flowering', 0.55],
+  ['Maturity', 1],
+];
+// Harvest may fall this many months either side of the AI's window.
+const HARVEST_TOLERANCE_MONTHS = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TemperatureSource = 'series' | 'average';
+
+export interface PhenologyStage {
+  name: string;
+  gdd: number;
+  // ISO date, or null when the stage is not reached.
+  date: string | null;
+  daysAfterPlanting: number | null;
+}
+
+export interface PhenologyPoint {
+  day: number;
+  date: string;
+  cumulativeGdd: number;
+}
+
+export interface PhenologyPrediction {
+  crop: CropProfile;
+  source: TemperatureSource;
+  plantingDate: string;
+  baseC: number;
+  upperC: number;
+  stages: PhenologyStage[];
+  // Cumulative thermal time for each day up to the last stage.
+  points: PhenologyPoint[];
+  // The date of the last stage, or null when it is not reached.
+  maturityDate: string | null;
+  assumptions: string[];
+}
+
+/**
+ * The crop's catalog thermal time, or one derived from its temperature
+ * range and growing period for crops added without it.
+ */
+export function thermalTimeFor(crop: CropProfile): ThermalTime {
+  if (crop.thermalTime) return crop.thermalTime;
+  const baseC = crop.temperature.min;
+  const optimum = (crop.temperature.optMin + crop.temperature.optMax) / 2;
+  const days = (crop.growingPeriodDays.min + crop.growingPeriodDays.max) / 2;
+  const maturity = Math.max(days * (optimum - baseC), 1);
+  return {
+    baseC,
+    upperC: crop.temperature.max,
+    stages: DEFAULT_STAGE_SHARES.map(([name, share]) => ({
+      name,
+      gdd: Math.round(maturity * share),
+    })),
+  };
+}
+
+/**
+ * Thermal time of one day, in °C·day.
+ */
+export function dailyGdd(
+  tMinC: number,
+  tMaxC: number,
+  baseC: number,
+  upperC: number,
+): number {
+  const clamp = (t: number) => Math.min(Math.max(t, baseC), upperC);
+  return (clamp(tMinC) + clamp(tMaxC)) / 2 - baseC;
+}
+
+const toIsoDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+const parseIsoDate = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+/**
+ * The average daily minimum and maximum from the parameters, or null when no
+ * temperature was given.
+ */
+function averageTemperatures(
+  params: AgriculturalParameters,
+): { tMinC: number; tMaxC: number } | null {
+  const { tMinC, tMaxC } = params.weather ?? {};
+  if (tMinC !== undefined && tMaxC !== undefined) return { tMinC, tMaxC };
+  if (params.temperature === undefined) return null;
+  return {
+    tMinC: params.temperature - DEFAULT_DIURNAL_RANGE_C / 2,
+    tMaxC: params.temperature + DEFAULT_DIURNAL_RANGE_C / 2,
+  };
+}
+
+/**
+ * The first day of the first target planting month: within the series when
+ * one is given, otherwise its next occurrence from today.
+ */
+export function defaultPlantingDate(
+  params: AgriculturalParameters,
+  series?: DailyTemperature[],
+): string {
+  const month = params.plantingMonths?.length
+    ? firstPlantingMonth(params.plantingMonths)
+    : 1;
+  if (series?.length) {
+    const first = series.find(d => Number(d.date.slice(5, 7)) === month);
+    return first ? first.date : series[0].date;
+  }
+  const today = new Date();
+  const year =
+    month < today.getMonth() + 1 ? today.getFullYear() + 1 : today.getFullYear();
+  return `${year}-${String(month).padStart(2, '0')}-01`;
+}
+
+/**
+ * Predicts the date of each growth stage of a crop planted on a given date.
+ * An imported series is used where it covers the season; days outside it
+ * fall back to the average temperature, or to the series mean.
+ * @throws Error when there is neither a series nor an average temperature.
+ */
+export function predictPhenology(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+  options: { plantingDate?: string; series?: DailyTemperature[] } = {},
+): PhenologyPrediction {
+  const series = options.series?.length ? options.series : undefined;
+  const { baseC, upperC, stages } = thermalTimeFor(crop);
+  const assumptions: string[] = [];
+  if (!crop.thermalTime) {
+    assumptions.push(
+      `${crop.name} has no thermal time in the catalog; stages are estimated from its temperature range and growing period.`,
+    );
+  }
+
+  const average = averageTemperatures(params);
+  if (!series && !average) {
+    throw new Error(
+      'Average temperature, or an imported daily temperature series, is needed to predict growth stages.',
+    );
+  }
+  const fallback = average ?? {
+    tMinC: series!.reduce((sum, d) => sum + d.tMinC, 0) / series!.length,
+    tMaxC: series!.reduce((sum, d) => sum + d.tMaxC, 0) / series!.length,
+  };
+  if (!series && params.weather?.tMinC === undefined) {
+    assumptions.push(
+      `Daily temperature range assumed to be ${DEFAULT_DIURNAL_RANGE_C} °C around the ${params.temperature} °C average.`,
+    );
+  }
+
+  const plantingDate = options.plantingDate ?? defaultPlantingDate(params, series);
+  const start = parseIsoDate(plantingDate);
+  if (Number.isNaN(start)) {
+    throw new Error(`"${plantingDate}" is not a valid planting date.`);
+  }
+  const byDate = new Map(series?.map(d => [d.date, d]));
+  const lastGdd = stages[stages.length - 1].gdd;
+
+  const points: PhenologyPoint[] = [];
+  const results: PhenologyStage[] = stages.map(stage => ({
+    ...stage,
+    date: null,
+    daysAfterPlanting: null,
+  }));
+  let cumulative = 0;
+  let filledDays = 0;
+  for (let day = 1; day <= MAX_SEASON_DAYS && cumulative < lastGdd; day++) {
+    const date = toIsoDate(start + (day - 1) * DAY_MS);
+    const observed = byDate.get(date);
+    if (series && !observed) filledDays++;
+    const { tMinC, tMaxC } = observed ?? fallback;
+    cumulative += dailyGdd(tMinC, tMaxC, baseC, upperC);
+    points.push({ day, date, cumulativeGdd: Math.round(cumulative) });
+    for (const stage of results) {
+      if (stage.date === null && cumulative >= stage.gdd) {
+        stage.date = date;
+        stage.daysAfterPlanting = day;
+      }
+    }
+  }
+
+  if (filledDays > 0) {
+    assumptions.push(
+      `The imported series does not cover ${filledDays} days of the season; they use the ${average ? 'average' : 'series mean'} temperature.`,
+    );
+  }
+  const maturity = results[results.length - 1];
+  if (maturity.date === null) {
+    assumptions.push(
+      `${maturity.name} is not reached within ${MAX_SEASON_DAYS} days: it is too cold for ${crop.name} above its ${baseC} °C base.`,
+    );
+  }
+
+  return {
+    crop,
+    source: series ? 'series' : 'average',
+    plantingDate,
+    baseC,
+    upperC,
+    stages: results,
+    points,
+    maturityDate: maturity.date,
+    assumptions,
+  };
+}
+
+/**
+ * Formats an ISO date for display, e.g. "14 Jul 2025".
+ */
+export function formatStageDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return `${day} ${MONTH_NAMES[month - 1]} ${year}`;
+}
+
+/**
+ * Summarizes a prediction as plain text, for tool responses and prompts.
+ */
+export function summarizePhenology(prediction: PhenologyPrediction): string {
+  const stages = prediction.stages
+    .map(s =>
+      s.date
+        ? `${s.name} ${formatStageDate(s.date)} (day ${s.daysAfterPlanting}, ${s.gdd} GDD)`
+        : `${s.name} not reached (${s.gdd} GDD)`,
+    )
+    .join('; ');
+  return `${prediction.crop.name} planted ${formatStageDate(prediction.plantingDate)} (base ${prediction.baseC} °C): ${stages}`;
+}
+
+const FULL_MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+/**
+ * Reads the month (1-12) and approximate day from a free-text window bound
+ * such as "mid-April" or "late Oct". Returns null when no month is named.
+ */
+export function parseWindowDate(text: string): { month: number; day: number } | null {
+  // Accepts full names and abbreviations such as "Sept", but not "Market".
+  let month = 0;
+  for (const word of text.toLowerCase().match(/[a-z]+/g) ?? []) {
+    month = word.length >= 3 ? FULL_MONTH_NAMES.findIndex(m => m.startsWith(word)) + 1 : 0;
+    if (month) break;
+  }
+  if (!month) return null;
+  const day = /mid/i.test(text) ? 15 : /late|end/i.test(text) ? 25 : 1;
+  return { month, day };
+}
+
+// Whether a month lies in a (possibly year-wrapping) window, with a tolerance.
+function monthInWindow(month: number, start: number, end: number): boolean {
+  const from = start - HARVEST_TOLERANCE_MONTHS;
+  const length = ((end - start + 12) % 12) + 2 * HARVEST_TOLERANCE_MONTHS;
+  return (month - from + 24) % 12 <= length;
+}
+
+/**
+ * Predicts the growth stages of a report crop planted at the start of its
+ * reported planting window. Returns null when the crop is not in the
+ * catalog, the window names no month, or there is no temperature.
+ */
+export function predictReportCrop(
+  recommended: CropRecommendation,
+  params: AgriculturalParameters,
+  catalog: CropProfile[] = CROP_CATALOG,
+  series?: DailyTemperature[],
+): PhenologyPrediction | null {
+  const crop = findCatalogCrop(recommended.crop, catalog);
+  const planting = parseWindowDate(recommended.plantingWindow.start);
+  if (!crop || !planting) return null;
+  if (!series?.length && !averageTemperatures(params)) return null;
+
+  const monthDay = `${String(planting.month).padStart(2, '0')}-${String(planting.day).padStart(2, '0')}`;
+  const seriesDate = series?.find(d => d.date.slice(5) === monthDay)?.date;
+  const plantingDate =
+    seriesDate ??
+    `${defaultPlantingDate({ ...params, plantingMonths: [planting.month] }).slice(0, 5)}${monthDay}`;
+  return predictPhenology(crop, params, { plantingDate, series });
+}
+
+/**
+ * Checks the AI report's harvest windows against the phenology model: each
+ * crop is planted at the start of its reported planting window and its
+ * predicted maturity should fall in, or a month either side of, the
+ * reported harvest window.
+ */
+export function checkReportTimeline(
+  report: CropRecommendationReport,
+  params: AgriculturalParameters,
+  catalog: CropProfile[] = CROP_CATALOG,
+  series?: DailyTemperature[],
+): SuitabilityDisagreement[] {
+  const disagreements: SuitabilityDisagreement[] = [];
+
+  for (const recommended of report.crops) {
+    const harvestStart = parseWindowDate(recommended.harvestWindow.start);
+    const harvestEnd = parseWindowDate(recommended.harvestWindow.end) ?? harvestStart;
+    if (!harvestStart || !harvestEnd) continue;
+    const prediction = predictReportCrop(recommended, params, catalog, series);
+    if (!prediction) continue;
+    const last = prediction.stages[prediction.stages.length - 1];
+    const window = `${recommended.harvestWindow.start}–${recommended.harvestWindow.end}`;
+
+    if (!prediction.maturityDate) {
+      disagreements.push({
+        crop: recommended.crop,
+        kind: 'timeline-mismatch',
+        message: `AI plans a ${recommended.crop} harvest in ${window}, but the crop does not reach ${last.name.toLowerCase()} (${last.gdd} GDD above ${prediction.baseC} °C) in this climate.`,
+      });
+      continue;
+    }
+    const maturityMonth = Number(prediction.maturityDate.slice(5, 7));
+    if (!monthInWindow(maturityMonth, harvestStart.month, harvestEnd.month)) {
+      disagreements.push({
+        crop: recommended.crop,
+        kind: 'timeline-mismatch',
+        message: `AI plans a ${recommended.crop} harvest in ${window}, but planted in ${recommended.plantingWindow.start} it reaches ${last.name.toLowerCase()} around ${formatStageDate(prediction.maturityDate)} (${last.gdd} GDD above ${prediction.baseC} °C, day ${last.daysAfterPlanting}).`,
+      });
+    }
+  }
+
+  return disagreements;
+}
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Calendar-month planting windows.
+ *
+ * Seasons are meteorological (spring = Mar–May in the northern hemisphere,
+ * Sep–Nov in the southern). Tropical climates plan around wet and dry seasons
+ * instead, which are estimated from latitude and the Köppen class.
+ */
+
+import { ClimateZone, Season } from './crop-catalog';
+import { KoppenCode } from './koppen';
+
+export const MONTH_NAMES = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+  'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+];
+
+// Northern hemisphere months (1-12) of each meteorological season.
+const NORTHERN_SEASON_MONTHS: Record<Season, number[]> = {
+  spring: [3, 4, 5],
+  summer: [6, 7, 8],
+  fall: [9, 10, 11],
+  winter: [12, 1, 2],
+};
+
+// Points this close to the equator get two short rainy seasons.
+const BIMODAL_RAINS_LATITUDE = 5;
+
+export type TropicalSeason = 'wet' | 'dry';
+
+export interface PlantingWindow {
+  label: string;
+  months: number[];
+  season: Season;
+  tropicalSeason?: TropicalSeason;
+}
+
+const shiftMonth = (month: number, by: number) => ((month - 1 + by + 12) % 12) + 1;
+
+/**
+ * The calendar months of a season at the given latitude.
+ */
+export function seasonMonths(season: Season, latitude: number): number[] {
+  const months = NORTHERN_SEASON_MONTHS[season];
+  return latitude >= 0 ? months : months.map(m => shiftMonth(m, 6));
+}
+
+/**
+ * The season a calendar month falls in at the given latitude.
+ */
+export function monthSeason(month: number, latitude: number): Season {
+  const northernMonth = latitude >= 0 ? month : shiftMonth(month, 6);
+  return (Object.keys(NORTHERN_SEASON_MONTHS) as Season[]).find(season =>
+    NORTHERN_SEASON_MONTHS[season].includes(northernMonth),
+  )!;
+}
+
+/**
+ * The season most of the given months fall in, for the season-based
+ * suitability scoring. Ties go to the season of the earliest month.
+ */
+export function monthsToSeason(months: number[], latitude: number): Season {
+  const counts = new Map<Season, number>();
+  for (const month of months) {
+    const season = monthSeason(month, latitude);
+    counts.set(season, (counts.get(season) ?? 0) + 1);
+  }
+  let best = monthSeason(months[0], latitude);
+  for (const [season, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = season;
+  }
+  return best;
+}
+
+export const isTropical = (climate: ClimateZone, koppenCode?: KoppenCode) =>
+  koppenCode ? koppenCode.startsWith('A') : climate === 'tropical';
+
+/**
+ * Estimates the rainy-season months of a tropical location. Rain follows the
+ * sun: the wet season is the local summer, except in dry-summer (As) climates
+ * and near the equator, where two short rainy seasons are typical.
+ */
+export function wetSeasonMonths(latitude: number, koppenCode?: KoppenCode): number[] {
+  if (koppenCode === 'Af') {
+    return MONTH_NAMES.map((_, i) => i + 1);
+  }
+  if (Math.abs(latitude) < BIMODAL_RAINS_LATITUDE && koppenCode !== 'As') {
+    return [3, 4, 5, 10, 11, 12];
+  }
+  const localSummer = latitude >= 0 ? [5, 6, 7, 8, 9, 10] : [11, 12, 1, 2, 3, 4];
+  return koppenCode === 'As' ? localSummer.map(m => shiftMonth(m, 6)) : localSummer;
+}
+
+/**
+ * The month a planting window opens: the earliest month whose predecessor is
+ * not in the window, so windows that wrap past December start in the fall.
+ */
+export function firstPlantingMonth(months: number[]): number {
+  const set = new Set(months);
+  return [...set].sort((a, b) => a - b).find(m => !set.has(shiftMonth(m, -1))) ?? 1;
+}
+
+/**
+ * Formats months as compact ranges, e.g. [11, 12, 1, 4] -> "Apr, Nov–Jan".
+ */
+export function formatMonths(months: number[]): string {
+  const set = new Set(months);
+  if (set.size === 12) return 'year-round';
+  if (set.size === 0) return '';
+  // Start where a window opens, so ranges that wrap past December stay
+  // together.
+  const start = firstPlantingMonth(months);
+  const ranges: string[] = [];
+  let runStart: number | null = null;
+  for (let i = 0; i <= 12; i++) {
+    const month = shiftMonth(start, i);
+    const selected = i < 12 && set.has(month);
+    if (selected && runStart === null) runStart = month;
+    if (!selected && runStart !== null) {
+      const runEnd = shiftMonth(month, -1);
+      ranges.push(
+        runStart === runEnd
+          ? MONTH_NAMES[runStart - 1]
+          : `${MONTH_NAMES[runStart - 1]}–${MONTH_NAMES[runEnd - 1]}`,
+      );
+      runStart = null;
+    }
+  }
+  return ranges.join(', ');
+}
+
+/**
+ * Typical planting windows for a location: the four seasons in the local
+ * hemisphere, or wet- and dry-season windows in the tropics.
+ */
+export function suggestPlantingWindows(
+  latitude: number,
+  climate: ClimateZone,
+  koppenCode?: KoppenCode,
+): PlantingWindow[] {
+  if (isTropical(climate, koppenCode)) {
+    const wet = wetSeasonMonths(latitude, koppenCode);
+    if (wet.length === 12) {
+      return [{ label: 'Year-round (no dry season)', months: wet, season: monthsToSeason(wet, latitude), tropicalSeason: 'wet' }];
+    }
+    const dry = MONTH_NAMES.map((_, i) => i + 1).filter(m => !wet.includes(m));
+    // Sow at the start of the rains so crops establish before the peak.
+    const onsets = wet.filter(m => !wet.includes(shiftMonth(m, -1)));
+    const wetOnset = onsets.flatMap(m => [m, shiftMonth(m, 1)]);
+    return [
+      { label: `Start of the rains (${formatMonths(wetOnset)})`, months: wetOnset, season: monthsToSeason(wetOnset, latitude), tropicalSeason: 'wet' },
+      { label: `Wet season (${formatMonths(wet)})`, months: wet, season: monthsToSeason(wet, latitude), tropicalSeason: 'wet' },
+      { label: `Dry season, irrigated (${formatMonths(dry)})`, months: dry, season: monthsToSeason(dry, latitude), tropicalSeason: 'dry' },
+    ];
+  }
+  return (Object.keys(NORTHERN_SEASON_MONTHS) as Season[]).map(season => {
+    const months = seasonMonths(season, latitude);
+    return {
+      label: `${season[0].toUpperCase()}${season.slice(1)} (${formatMonths(months)})`,
+      months,
+      season,
+    };
+  });
+}
+
+/**
+ * Describes target planting months for the recommendation prompt, including
+ * the local season or wet/dry season they fall in.
+ */
+export function describePlantingMonths(
+  months: number[],
+  latitude: number,
+  climate: ClimateZone,
+  koppenCode?: KoppenCode,
+): string {
+  const hemisphere = latitude >= 0 ? 'northern' : 'southern';
+  if (isTropical(climate, koppenCode)) {
+    const wet = wetSeasonMonths(latitude, koppenCode);
+    const wetCount = months.filter(m => wet.includes(m)).length;
+    const timing =
+      wetCount === months.length
+        ? 'wet season'
+        : wetCount === 0
+          ? 'dry season, needs irrigation'
+          : 'spanning wet and dry seasons';
+    return `${formatMonths(months)} (${timing}; rains ${formatMonths(wet)})`;
+  }
+  return `${formatMonths(months)} (${monthsToSeason(months, latitude)} in the ${hemisphere} hemisphere)`;
+}
@@ -0,0 +1,387 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Regional suitability survey.
+ *
+ * A grid of points over a survey region is sampled with the Elevation
+ * service (through the terrain grid), and the offline suitability engine
+ * scores one crop at every point. Each point takes its climate from the
+ * bundled Köppen map, its temperature from the farm's, lowered by the
+ * standard lapse rate with elevation, its slope from the grid, and its soil
+ * from the nearest sample of an imported soil layer, when one is close
+ * enough. Everything else is the farm's.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { LatLngPoint } from '@/lib/geometry';
+import { parseCsvNumber, readCsvRows, round } from '@/lib/utils';
+import { CropProfile, SoilType } from './crop-catalog';
+import { KoppenLookup, lookupKoppen } from './koppen';
+import { SoilTexture, TEXTURE_TO_SOIL_TYPE, classifyTexture, validateTexture } from './soil-texture';
+import {
+  CropSuitability,
+  SUITABILITY_CLASS_LABELS,
+  SuitabilityClass,
+  scoreCrop,
+} from './suitability';
+import { TerrainAnalysis, sampleTerrain } from './terrain';
+
+export interface SoilSample {
+  position: LatLngPoint;
+  soilType: SoilType;
+  soilTexture?: SoilTexture;
+  ph?: number;
+  organicMatterPct?: number;
+}
+
+export interface RegionCell {
+  center: LatLngPoint;
+  // Cell outline, as an open ring.
+  polygon: LatLngPoint[];
+  elevationM: number;
+  slopePct: number;
+  koppen: KoppenLookup;
+  // The imported soil sample used, if one was close enough.
+  soilSample?: SoilSample;
+  params: AgriculturalParameters;
+  suitability: CropSuitability;
+}
+
+export interface RegionSurvey {
+  crop: CropProfile;
+  cellSizeM: number;
+  cells: RegionCell[];
+  // Share of the region in each suitability class, in percent.
+  classSharesPct: Record<SuitabilityClass, number>;
+  meanScore: number;
+  best: RegionCell;
+  notes: string[];
+}
+
+// Overlay fill colors, also used for the legend.
+export const SUITABILITY_COLORS: Record<SuitabilityClass, string> = {
+  S1: 'rgba(46, 125, 50, 0.6)',
+  S2: 'rgba(156, 204, 101, 0.6)',
+  S3: 'rgba(255, 193, 7, 0.6)',
+  N: 'rgba(211, 47, 47, 0.6)',
+};
+
+// Cells sampled inside the region for each resolution.
+export const SURVEY_RESOLUTIONS = [
+  { label: 'Coarse', cells: 100 },
+  { label: 'Medium', cells: 200 },
+  { label: 'Fine', cells: 400 },
+];
+
+// Side of the square regions offered around the farm, in km.
+export const REGION_SIZES_KM = [2, 5, 10, 25];
+
+// Standard atmosphere temperature lapse rate, in °C per meter.
+const LAPSE_RATE_C_PER_M = 0.0065;
+// Soil samples further than this from a point, or two cells if more, are
+// not used for it.
+const SOIL_SAMPLE_RADIUS_M = 5000;
+const METERS_PER_DEGREE_LAT = 111320;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Planar distance, fine at survey scale.
+const distanceM = (a: LatLngPoint, b: LatLngPoint) =>
+  Math.hypot(
+    (a.lat - b.lat) * METERS_PER_DEGREE_LAT,
+    (a.lng - b.lng) * METERS_PER_DEGREE_LAT * Math.cos(toRadians((a.lat + b.lat) / 2)),
+  );
+
+/**
+ * A square region of the given side centred on a point, as an open ring.
+ */
+export function squareRegion(center: LatLngPoint, sizeKm: number): LatLngPoint[] {
+  const halfLat = (sizeKm * 500) / METERS_PER_DEGREE_LAT;
+  const halfLng = halfLat / Math.cos(toRadians(center.lat));
+  return [
+    { lat: center.lat - halfLat, lng: center.lng - halfLng },
+    { lat: center.lat - halfLat, lng: center.lng + halfLng },
+    { lat: center.lat + halfLat, lng: center.lng + halfLng },
+    { lat: center.lat + halfLat, lng: center.lng - halfLng },
+  ];
+}
+
+const LAT_COLUMN = /^(lat|latitude|y)$/i;
+const LNG_COLUMN = /^(lng|lon|long|longitude|x)$/i;
+const SOIL_TYPE_COLUMN = /^soil([ _]?type)?$/i;
+const SAND_COLUMN = /^sand/i;
+const SILT_COLUMN = /^silt/i;
+const CLAY_COLUMN = /^clay/i;
+const PH_COLUMN = /^ph/i;
+const ORGANIC_MATTER_COLUMN = /^(om|organic)/i;
+const SOIL_TYPES: SoilType[] = ['clay', 'sandy', 'loamy', 'silt', 'peat'];
+
+/**
+ * Parses a soil layer exported as points, e.g. from a soil survey or
+ * SoilGrids. Needs latitude and longitude columns and, per row, a soil type
+ * ("clay", "sandy", "loamy", "silt", "peat") or sand, silt and clay
+ * percentages; pH and organic matter (%) columns are optional. Semicolon-
+ * or tab-separated files may use decimal commas.
+ * @throws Error naming the first invalid row when the file cannot be read.
+ */
+export function parseSoilLayerCsv(text: string): SoilSample[] {
+  const [headerRow, ...rows] = readCsvRows(text);
+  if (!rows.length) {
+    throw new Error('Soil layer needs a header row and at least one sample.');
+  }
+  const header = headerRow.cells;
+  const find = (pattern: RegExp) => header.findIndex(h => pattern.test(h));
+  const latIndex = find(LAT_COLUMN);
+  const lngIndex = find(LNG_COLUMN);
+  const soilTypeIndex = find(SOIL_TYPE_COLUMN);
+  const textureIndexes = [find(SAND_COLUMN), find(SILT_COLUMN), find(CLAY_COLUMN)];
+  const phIndex = find(PH_COLUMN);
+  const organicMatterIndex = find(ORGANIC_MATTER_COLUMN);
+  if (latIndex === -1 || lngIndex === -1) {
+    throw new Error('Soil layer needs latitude and longitude columns.');
+  }
+  const hasTexture = textureIndexes.every(i => i !== -1);
+  if (soilTypeIndex === -1 && !hasTexture) {
+    throw new Error('Soil layer needs a soil type column or sand, silt and clay columns.');
+  }
+
+  return rows.map(({ cells, row: rowNumber }) => {
+    if (cells.length !== header.length) {
+      throw new Error(`Row ${rowNumber}: ${cells.length} cells, but the header has ${header.length}.`);
+    }
+    const number = (index: number, label: string) => {
+      if (index === -1 || !cells[index]) return undefined;
+      const value = parseCsvNumber(cells[index]);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Row ${rowNumber}: "${cells[index]}" is not a valid ${label}.`);
+      }
+      return value;
+    };
+    const lat = number(latIndex, 'latitude');
+    const lng = number(lngIndex, 'longitude');
+    if (lat === undefined || lng === undefined || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      throw new Error(`Row ${rowNumber}: missing or invalid coordinates.`);
+    }
+
+    let soilTexture: SoilTexture | undefined;
+    if (hasTexture && textureIndexes.every(index => cells[index])) {
+      const [sand, silt, clay] = textureIndexes.map(index => number(index, 'percentage')!);
+      soilTexture = { sand, silt, clay };
+      const error = validateTexture(soilTexture);
+      if (error) throw new Error(`Row ${rowNumber}: ${error}`);
+    }
+    const typeText = soilTypeIndex !== -1 ? cells[soilTypeIndex]?.toLowerCase() : '';
+    const soilType =
+      SOIL_TYPES.find(type => type === typeText) ??
+      (soilTexture ? TEXTURE_TO_SOIL_TYPE[classifyTexture(soilTexture)] : undefined);
+    if (!soilType) {
+      throw new Error(`Row ${rowNumber}: "${typeText}" is not a soil type, and there is no texture.`);
+    }
+    return {
+      position: { lat, lng },
+      soilType,
+      soilTexture,
+      ph: number(phIndex, 'pH'),
+      organicMatterPct: number(organicMatterIndex, 'organic matter'),
+    };
+  });
+}
+
+function nearestSample(
+  point: LatLngPoint,
+  samples: SoilSample[],
+  radiusM: number,
+): SoilSample | undefined {
+  let nearest: SoilSample | undefined;
+  let nearestDistance = radiusM;
+  for (const sample of samples) {
+    const distance = distanceM(point, sample.position);
+    if (distance <= nearestDistance) {
+      nearest = sample;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * The farm's parameters moved to a point of the region.
+ */
+function pointParams(
+  params: AgriculturalParameters,
+  center: LatLngPoint,
+  elevationM: number,
+  slopePct: number,
+  koppen: KoppenLookup,
+  farmElevationM: number | undefined,
+  sample: SoilSample | undefined,
+): AgriculturalParameters {
+  const temperature =
+    params.temperature !== undefined && farmElevationM !== undefined
+      ? round(params.temperature - LAPSE_RATE_C_PER_M * (elevationM - farmElevationM), 1)
+      : params.temperature;
+  const soil = sample
+    ? {
+        soilType: sample.soilType,
+        soilTexture: sample.soilTexture,
+        textureClass: sample.soilTexture ? classifyTexture(sample.soilTexture) : undefined,
+        soilTest:
+          sample.ph !== undefined || sample.organicMatterPct !== undefined
+            ? {
+                ...params.soilTest,
+                ph: sample.ph ?? params.soilTest?.ph,
+                organicMatterPct: sample.organicMatterPct ?? params.soilTest?.organicMatterPct,
+              }
+            : params.soilTest,
+      }
+    : {};
+  return {
+    ...params,
+    ...soil,
+    latitude: round(center.lat, 6),
+    longitude: round(center.lng, 6),
+    climate: koppen.climate,
+    koppenCode: koppen.code,
+    temperature,
+    // The field's outline and terrain describe the farm, not this point.
+    fieldBoundary: undefined,
+    terrain: undefined,
+    erosion: { ...params.erosion, practice: params.erosion?.practice ?? 'none', slopePct },
+  };
+}
+
+/**
+ * Scores a crop at every cell of a sampled region.
+ * @param farmElevationM - Elevation the farm's temperature applies at; without
+ * it, the temperature is used unchanged everywhere.
+ */
+export function scoreRegion(
+  analysis: TerrainAnalysis,
+  crop: CropProfile,
+  params: AgriculturalParameters,
+  soilLayer: SoilSample[] = [],
+  farmElevationM?: number,
+): RegionSurvey {
+  const { grid } = analysis;
+  const radiusM = Math.max(SOIL_SAMPLE_RADIUS_M, 2 * grid.cellSizeM);
+  const cells = analysis.cells.map(cell => {
+    const koppen = lookupKoppen(cell.center.lat, cell.center.lng);
+    const soilSample = nearestSample(cell.center, soilLayer, radiusM);
+    const cellParams = pointParams(
+      params,
+      cell.center,
+      cell.elevationM,
+      cell.slopePct,
+      koppen,
+      farmElevationM,
+      soilSample,
+    );
+    return {
+      center: cell.center,
+      polygon: cell.polygon,
+      elevationM: cell.elevationM,
+      slopePct: cell.slopePct,
+      koppen,
+      soilSample,
+      params: cellParams,
+      suitability: scoreCrop(crop, cellParams),
+    };
+  });
+
+  const classSharesPct = Object.fromEntries(
+    (Object.keys(SUITABILITY_CLASS_LABELS) as SuitabilityClass[]).map(suitabilityClass => [
+      suitabilityClass,
+      round(
+        (100 * cells.filter(cell => cell.suitability.suitabilityClass === suitabilityClass).length) /
+          cells.length,
+      ),
+    ]),
+  ) as Record<SuitabilityClass, number>;
+
+  const notes: string[] = [];
+  if (params.temperature === undefined) {
+    notes.push('No average temperature entered, so temperature is not scored.');
+  } else if (farmElevationM !== undefined) {
+    notes.push(
+      `Temperature is the farm's ${params.temperature} °C at ${round(farmElevationM)} m, lowered by ${LAPSE_RATE_C_PER_M * 1000} °C per 1000 m of elevation.`,
+    );
+  } else {
+    notes.push(`Temperature is the farm's ${params.temperature} °C everywhere; the farm's elevation is unknown.`);
+  }
+  const withSoil = cells.filter(cell => cell.soilSample).length;
+  notes.push(
+    !soilLayer.length
+      ? `Soil is the farm's ${params.soilType} soil everywhere; import a soil layer to vary it.`
+      : withSoil === cells.length
+        ? 'Every cell uses the nearest imported soil sample.'
+        : `${withSoil} of ${cells.length} cells use the nearest imported soil sample; the rest use the farm's ${params.soilType} soil.`,
+  );
+  notes.push(
+    `Rainfall, season and irrigation are the farm's everywhere. Slopes are measured between cell centres ${grid.cellSizeM} m apart and understate short, steep slopes.`,
+  );
+
+  return {
+    crop,
+    cellSizeM: grid.cellSizeM,
+    cells,
+    classSharesPct,
+    meanScore: round(cells.reduce((sum, cell) => sum + cell.suitability.score, 0) / cells.length),
+    best: cells.reduce((best, cell) =>
+      cell.suitability.score > best.suitability.score ? cell : best,
+    ),
+    notes,
+  };
+}
+
+/**
+ * Samples the region's elevations with the Maps Elevation service and
+ * scores the crop at every cell. The farm's own elevation comes from its
+ * weather inputs or is sampled too.
+ * @throws Error when the region is incomplete or the service fails.
+ */
+export async function surveyRegion(
+  region: LatLngPoint[],
+  crop: CropProfile,
+  params: AgriculturalParameters,
+  elevator: google.maps.ElevationService,
+  soilLayer: SoilSample[] = [],
+  targetCells = SURVEY_RESOLUTIONS[1].cells,
+): Promise<RegionSurvey> {
+  const analysis = await sampleTerrain(region, elevator, targetCells);
+  let farmElevationM = params.weather?.elevationM;
+  if (
+    farmElevationM === undefined &&
+    params.temperature !== undefined &&
+    Number.isFinite(params.latitude) &&
+    Number.isFinite(params.longitude)
+  ) {
+    try {
+      const { results } = await elevator.getElevationForLocations({
+        locations: [{ lat: params.latitude, lng: params.longitude }],
+      });
+      farmElevationM = results?.[0]?.elevation;
+    } catch (e) {
+      console.error(`Elevation of the farm could not be sampled: ${e}`);
+    }
+  }
+  return scoreRegion(analysis, crop, params, soilLayer, farmElevationM);
+}
+
+/**
+ * Summarizes a survey, e.g. "Maize across 198 cells of 350 m: mean 72/100;
+ * 30% highly suitable, ...; best 91/100 at 1.2345, 36.789".
+ */
+export function describeRegionSurvey(survey: RegionSurvey): string {
+  const shares = (Object.keys(SUITABILITY_CLASS_LABELS) as SuitabilityClass[])
+    .filter(suitabilityClass => survey.classSharesPct[suitabilityClass] > 0)
+    .map(
+      suitabilityClass =>
+        `${survey.classSharesPct[suitabilityClass]}% ${SUITABILITY_CLASS_LABELS[suitabilityClass].toLowerCase()}`,
+    )
+    .join(', ');
+  const { best } = survey;
+  return `${survey.crop.name} across ${survey.cells.length} cells of ${survey.cellSizeM} m: mean ${survey.meanScore}/100; ${shares}; best ${best.suitability.score}/100 at ${best.center.lat.toFixed(4)}, ${best.center.lng.toFixed(4)} (${best.elevationM} m)`;
+}
@@ -0,0 +1,347 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Multi-year crop rotation planner.
+ *
+ * Plans are built with a small beam search: each year, every suitable catalog
+ * crop is tried as the next crop and the sequence is scored with family-based
+ * rotation rules (return intervals, nitrogen fixers, break crops) and
+ * pest/disease carry-over between consecutive hosts.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import {
+  CROP_CATALOG,
+  CropFamily,
+  CropProfile,
+  findCatalogCrop,
+} from './crop-catalog';
+import { scoreCrop } from './suitability';
+
+export interface CropHistoryEntry {
+  year: number;
+  crop: string;
+}
+
+export interface RotationSeason {
+  year: number;
+  crop: CropProfile;
+  // Why the crop fits at this point of the rotation.
+  notes: string[];
+  // Pest, disease and rule violations to watch out for.
+  warnings: string[];
+}
+
+export interface RotationPlan {
+  seasons: RotationSeason[];
+  // Problems already present in the field's history.
+  historyWarnings: string[];
+}
+
+export const MIN_ROTATION_YEARS = 3;
+export const MAX_ROTATION_YEARS = 5;
+
+// Minimum years before a crop of the same family should return.
+export const FAMILY_RETURN_YEARS: Record<CropFamily, number> = {
+  poaceae: 1,
+  fabaceae: 3,
+  solanaceae: 4,
+  brassicaceae: 4,
+  asteraceae: 4,
+  malvaceae: 2,
+  euphorbiaceae: 2,
+  convolvulaceae: 3,
+  other: 2,
+};
+
+interface CarryOverRisk {
+  name: string;
+  // Catalog crop ids that host the pest or pathogen.
+  hosts: string[];
+  // Years the inoculum survives in soil or residue.
+  survivalYears: number;
+  advice: string;
+}
+
+const CARRY_OVER_RISKS: CarryOverRisk[] = [
+  {
+    name: 'Take-all',
+    hosts: ['wheat', 'barley'],
+    survivalYears: 1,
+    advice: 'Avoid a second wheat or barley; a one-year break clears most inoculum.',
+  },
+  {
+    name: 'Fusarium head blight',
+    hosts: ['maize', 'wheat', 'barley', 'oats'],
+    survivalYears: 1,
+    advice: 'Bury or chop residue and choose resistant varieties; time fungicide to flowering.',
+  },
+  {
+    name: 'Corn rootworm',
+    hosts: ['maize'],
+    survivalYears: 1,
+    advice: 'Rotate out of maize; continuous maize needs trait or soil insecticide protection.',
+  },
+  {
+    name: 'Sclerotinia white mould',
+    hosts: ['soybean', 'sunflower', 'canola', 'common-bean', 'lentil', 'chickpea'],
+    survivalYears: 3,
+    advice: 'Sclerotia persist for years; keep susceptible broadleaf crops 3+ years apart.',
+  },
+  {
+    name: 'Soybean cyst nematode',
+    hosts: ['soybean', 'common-bean'],
+    survivalYears: 2,
+    advice: 'Use resistant varieties and sample soil for egg counts.',
+  },
+  {
+    name: 'Aphanomyces root rot',
+    hosts: ['lentil', 'common-bean'],
+    survivalYears: 5,
+    advice: 'Oospores survive many years; test the soil before returning to pulses.',
+  },
+  {
+    name: 'Potato cyst nematode and late blight',
+    hosts: ['potato', 'tomato'],
+    survivalYears: 4,
+    advice: 'Keep solanaceous crops at least 4 years apart and remove volunteers.',
+  },
+  {
+    name: 'Clubroot',
+    hosts: ['canola'],
+    survivalYears: 4,
+    advice: 'Lime to pH above 7 and keep brassicas at least 4 years apart.',
+  },
+  {
+    name: 'Verticillium wilt',
+    hosts: ['potato', 'tomato', 'cotton', 'sunflower'],
+    survivalYears: 3,
+    advice: 'Microsclerotia persist; rotate with cereals or grasses.',
+  },
+  {
+    name: 'Root-knot nematode',
+    hosts: ['tomato', 'sweet-potato', 'cotton', 'groundnut'],
+    survivalYears: 2,
+    advice: 'Follow with a cereal or resistant variety; consider a nematode-suppressive cover.',
+  },
+];
+
+// Beam width for the search; plenty for 20-40 candidate crops and 5 years.
+const BEAM_WIDTH = 30;
+// Crops below this offline suitability are not considered for the rotation.
+const MIN_SUITABILITY = 40;
+
+const isLegume = (crop: CropProfile) => crop.family === 'fabaceae';
+const isCereal = (crop: CropProfile) => crop.family === 'poaceae';
+
+/**
+ * Lists the carry-over risks of planting `crop` after the given sequence.
+ * @param previous - Earlier crops, most recent last, with their years.
+ */
+export function carryOverWarnings(
+  previous: { year: number; crop: CropProfile }[],
+  crop: CropProfile,
+  year: number,
+): string[] {
+  const warnings: string[] = [];
+  for (const risk of CARRY_OVER_RISKS) {
+    if (!risk.hosts.includes(crop.id)) continue;
+    const lastHost = [...previous]
+      .reverse()
+      .find(p => risk.hosts.includes(p.crop.id));
+    if (lastHost && year - lastHost.year <= risk.survivalYears) {
+      warnings.push(
+        `${risk.name} carry-over from ${lastHost.crop.name} (${lastHost.year}): ${risk.advice}`,
+      );
+    }
+  }
+  return warnings;
+}
+
+interface Evaluation {
+  score: number;
+  notes: string[];
+  warnings: string[];
+}
+
+/**
+ * Scores placing `crop` in `year` after the given sequence.
+ */
+function evaluateNext(
+  sequence: { year: number; crop: CropProfile }[],
+  crop: CropProfile,
+  year: number,
+  suitability: number,
+): Evaluation {
+  const notes: string[] = [];
+  const warnings: string[] = [];
+  let score = suitability;
+
+  const last = sequence[sequence.length - 1];
+  const secondLast = sequence[sequence.length - 2];
+
+  const returnYears = FAMILY_RETURN_YEARS[crop.family];
+  const lastSameFamily = [...sequence]
+    .reverse()
+    .find(p => p.crop.family === crop.family);
+  if (lastSameFamily && year - lastSameFamily.year < returnYears) {
+    score -= 40;
+    warnings.push(
+      `${crop.family} crops should be ${returnYears}+ years apart (last: ${lastSameFamily.crop.name} in ${lastSameFamily.year}).`,
+    );
+  }
+
+  if (last?.crop.id === crop.id) {
+    score -= 25;
+    warnings.push(`Same crop as ${last.year}; continuous cropping builds pests and weeds.`);
+  }
+
+  if (last && isLegume(last.crop) && !isLegume(crop)) {
+    score += 10;
+    notes.push(`Uses residual nitrogen fixed by ${last.crop.name}.`);
+  }
+
+  if (isLegume(crop)) {
+    score += 5;
+    notes.push('Nitrogen fixer: reduces fertilizer needs of the following crop.');
+  }
+
+  if (last && secondLast && isCereal(last.crop) && isCereal(secondLast.crop)) {
+    if (isCereal(crop)) {
+      score -= 20;
+      warnings.push('Third cereal in a row; a break crop is overdue.');
+    } else {
+      score += 15;
+      notes.push('Break crop after two cereals interrupts grass weeds and diseases.');
+    }
+  } else if (last && isCereal(last.crop) && !isCereal(crop)) {
+    score += 5;
+    notes.push(`Broadleaf break after ${last.crop.name}.`);
+  }
+
+  const carryOver = carryOverWarnings(sequence, crop, year);
+  score -= 15 * carryOver.length;
+  warnings.push(...carryOver);
+
+  return { score, notes, warnings };
+}
+
+/**
+ * Resolves free-text history entries against the catalog, oldest first.
+ */
+function resolveHistory(
+  history: CropHistoryEntry[],
+  catalog: CropProfile[],
+): { resolved: { year: number; crop: CropProfile }[]; unknown: string[] } {
+  const resolved: { year: number; crop: CropProfile }[] = [];
+  const unknown: string[] = [];
+  for (const entry of [...history].sort((a, b) => a.year - b.year)) {
+    const crop = findCatalogCrop(entry.crop, catalog);
+    if (crop) {
+      resolved.push({ year: entry.year, crop });
+    } else if (entry.crop.trim()) {
+      unknown.push(entry.crop);
+    }
+  }
+  return { resolved, unknown };
+}
+
+/**
+ * Proposes a rotation for the years following the field's crop history.
+ * @param params - Field conditions, used to keep only suitable crops.
+ * @param history - Crops grown on the field in previous years.
+ * @param years - Rotation length, between 3 and 5 years.
+ * @param catalog - The crop catalog to draw candidates from.
+ */
+export function planRotation(
+  params: AgriculturalParameters,
+  history: CropHistoryEntry[],
+  years: number = MIN_ROTATION_YEARS,
+  catalog: CropProfile[] = CROP_CATALOG,
+): RotationPlan {
+  const length = Math.min(
+    MAX_ROTATION_YEARS,
+    Math.max(MIN_ROTATION_YEARS, Math.round(years)),
+  );
+  const { resolved, unknown } = resolveHistory(history, catalog);
+
+  const historyWarnings = unknown.map(
+    name => `"${name}" is not in the crop catalog; rotation rules ignore it.`,
+  );
+  resolved.forEach((entry, index) => {
+    historyWarnings.push(
+      ...carryOverWarnings(resolved.slice(0, index), entry.crop, entry.year),
+    );
+  });
+
+  // Rotation crops are sown in their own season, so the season the farmer
+  // selected for this year should not exclude them.
+  const suitability = new Map(
+    catalog.map(crop => [
+      crop.id,
+      scoreCrop(crop, { ...params, season: crop.plantingSeasons[0] }).score,
+    ]),
+  );
+  let candidates = catalog.filter(
+    crop => (suitability.get(crop.id) ?? 0) >= MIN_SUITABILITY,
+  );
+  if (candidates.length < MIN_ROTATION_YEARS) {
+    candidates = [...catalog]
+      .sort((a, b) => (suitability.get(b.id) ?? 0) - (suitability.get(a.id) ?? 0))
+      .slice(0, 6);
+  }
+
+  const startYear =
+    resolved.length > 0
+      ? resolved[resolved.length - 1].year + 1
+      : new Date().getFullYear();
+
+  type Beam = { score: number; seasons: RotationSeason[] };
+  let beams: Beam[] = [{ score: 0, seasons: [] }];
+
+  for (let i = 0; i < length; i++) {
+    const year = startYear + i;
+    const next: Beam[] = [];
+    for (const beam of beams) {
+      const sequence = [
+        ...resolved,
+        ...beam.seasons.map(s => ({ year: s.year, crop: s.crop })),
+      ];
+      for (const crop of candidates) {
+        const evaluation = evaluateNext(
+          sequence,
+          crop,
+          year,
+          suitability.get(crop.id) ?? 0,
+        );
+        next.push({
+          score: beam.score + evaluation.score,
+          seasons: [
+            ...beam.seasons,
+            { year, crop, notes: evaluation.notes, warnings: evaluation.warnings },
+          ],
+        });
+      }
+    }
+    beams = next.sort((a, b) => b.score - a.score).slice(0, BEAM_WIDTH);
+  }
+
+  return { seasons: beams[0]?.seasons ?? [], historyWarnings };
+}
+
+/**
+ * Summarizes a plan as plain text, for tool responses.
+ */
+export function summarizeRotationPlan(plan: RotationPlan): string {
+  const lines = plan.seasons.map(season => {
+    const details = [...season.notes, ...season.warnings.map(w => `WARNING: ${w}`)];
+    return `${season.year} (${season.crop.plantingSeasons[0]}-sown): ${season.crop.name}${details.length ? ` - ${details.join(' ')}` : ''}`;
+  });
+  if (plan.historyWarnings.length) {
+    lines.push('History warnings:', ...plan.historyWarnings.map(w => `- ${w}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Side-by-side comparison of what-if scenarios.
+ *
+ * Each scenario is a full parameter set. The offline ranking is computed for
+ * every scenario; when the AI was also asked, its ranks and yields are used
+ * instead. Every value is compared with the first scenario, the baseline, so
+ * the table can highlight what a change of soil, water or climate does.
+ */
+
+import { Scenario } from '@/lib/farm-profiles';
+import { csvValue } from '@/lib/utils';
+import { CROP_CATALOG, CropProfile, findCatalogCrop } from './crop-catalog';
+import { CropRecommendationReport } from './crop-report';
+import { PriceTable, computeCropEconomics } from './economics';
+import { computeIrrigationPlan } from './evapotranspiration';
+import { defaultTargetYield } from './nutrient-budget';
+import { CropSuitability, rankCrops } from './suitability';
+
+export interface ScenarioRun {
+  scenario: Scenario;
+  ranking: CropSuitability[];
+  // The AI report, when the scenario was also sent to the model.
+  report?: CropRecommendationReport | null;
+}
+
+export type ScenarioMetric = 'rank' | 'score' | 'yield' | 'water' | 'irrigation' | 'margin';
+
+export interface ScenarioCell {
+  // Position in the AI report, or in the offline ranking without one.
+  rank: number | null;
+  score: number;
+  yieldPerHa: number;
+  // Seasonal crop water use, in mm.
+  waterMm: number | null;
+  // Net irrigation needed on top of effective rain, in mm.
+  irrigationMm: number | null;
+  marginPerHa: number;
+  // Metrics that differ from the baseline scenario, and in which direction.
+  changes: Partial<Record<ScenarioMetric, 'higher' | 'lower'>>;
+}
+
+export interface ScenarioComparisonRow {
+  crop: CropProfile;
+  cells: ScenarioCell[];
+}
+
+export interface ScenarioComparison {
+  currency: string;
+  scenarios: Scenario[];
+  // Whether each scenario's ranks and yields come from the AI.
+  fromAi: boolean[];
+  rows: ScenarioComparisonRow[];
+}
+
+// Crops per scenario that make it into the comparison.
+const TOP_CROPS = 5;
+// Relative change below which yields, water and margins count as the same.
+const RELATIVE_TOLERANCE = 0.05;
+// Suitability points below which scores count as the same.
+const SCORE_TOLERANCE = 5;
+
+/**
+ * Ranks the catalog for a scenario, without the AI.
+ */
+export function runScenarioOffline(
+  scenario: Scenario,
+  catalog: CropProfile[] = CROP_CATALOG,
+): ScenarioRun {
+  return { scenario, ranking: rankCrops(scenario.params, catalog) };
+}
+
+function leadingCrops(run: ScenarioRun, catalog: CropProfile[]): CropProfile[] {
+  if (run.report) {
+    return run.report.crops
+      .map(recommended => findCatalogCrop(recommended.crop, catalog))
+      .filter(crop => crop !== undefined)
+      .slice(0, TOP_CROPS);
+  }
+  return run.ranking.slice(0, TOP_CROPS).map(result => result.crop);
+}
+
+function scenarioCell(
+  run: ScenarioRun,
+  crop: CropProfile,
+  prices: PriceTable,
+  catalog: CropProfile[],
+): Omit<ScenarioCell, 'changes'> {
+  const { params } = run.scenario;
+  const reportIndex = run.report
+    ? run.report.crops.findIndex(r => findCatalogCrop(r.crop, catalog)?.id === crop.id)
+    : -1;
+  const recommended = reportIndex >= 0 ? run.report!.crops[reportIndex] : undefined;
+  const offlineIndex = run.ranking.findIndex(r => r.crop.id === crop.id);
+
+  let yieldPerHa = defaultTargetYield(crop);
+  if (recommended && recommended.expectedYield.unit === crop.yieldRange.unit) {
+    yieldPerHa = (recommended.expectedYield.min + recommended.expectedYield.max) / 2;
+  }
+
+  let waterMm: number | null = null;
+  let irrigationMm: number | null = null;
+  try {
+    const plan = computeIrrigationPlan(crop, params);
+    waterMm = plan.seasonalEtcMm;
+    irrigationMm = plan.netIrrigationMm;
+  } catch {
+    const seasonal = recommended?.waterNeeds.seasonalMm;
+    if (seasonal) waterMm = Math.round((seasonal.min + seasonal.max) / 2);
+  }
+
+  return {
+    rank: run.report
+      ? reportIndex >= 0 ? reportIndex + 1 : null
+      : offlineIndex >= 0 ? offlineIndex + 1 : null,
+    score: offlineIndex >= 0 ? run.ranking[offlineIndex].score : 0,
+    yieldPerHa,
+    waterMm,
+    irrigationMm,
+    marginPerHa: computeCropEconomics(crop, params, prices, yieldPerHa, catalog).grossMarginPerHa,
+  };
+}
+
+function compareValue(
+  value: number | null,
+  baseline: number | null,
+  tolerance: (baseline: number) => number,
+): 'higher' | 'lower' | undefined {
+  if (value === null || baseline === null) return undefined;
+  if (Math.abs(value - baseline) < tolerance(baseline)) return undefined;
+  return value > baseline ? 'higher' : 'lower';
+}
+
+const relative = (baseline: number) => Math.max(Math.abs(baseline) * RELATIVE_TOLERANCE, 1e-9);
+
+/**
+ * Builds the comparison table: the leading crops of every scenario, with
+ * each value flagged where it differs from the first scenario.
+ */
+export function compareScenarios(
+  runs: ScenarioRun[],
+  prices: PriceTable,
+  catalog: CropProfile[] = CROP_CATALOG,
+): ScenarioComparison {
+  const crops = [
+    ...new Map(
+      runs.flatMap(run => leadingCrops(run, catalog)).map(crop => [crop.id, crop]),
+    ).values(),
+  ];
+  const rows = crops.map(crop => {
+    const values = runs.map(run => scenarioCell(run, crop, prices, catalog));
+    const [baseline] = values;
+    const cells = values.map((value, index) => {
+      const changes: ScenarioCell['changes'] = {};
+      if (index > 0) {
+        if (value.rank !== baseline.rank) {
+          // A missing rank counts as falling out of the list.
+          changes.rank =
+            (value.rank ?? Infinity) < (baseline.rank ?? Infinity) ? 'higher' : 'lower';
+        }
+        changes.score = compareValue(value.score, baseline.score, () => SCORE_TOLERANCE);
+        changes.yield = compareValue(value.yieldPerHa, baseline.yieldPerHa, relative);
+        changes.water = compareValue(value.waterMm, baseline.waterMm, relative);
+        changes.irrigation = compareValue(value.irrigationMm, baseline.irrigationMm, relative);
+        changes.margin = compareValue(value.marginPerHa, baseline.marginPerHa, relative);
+      }
+      return { ...value, changes };
+    });
+    return { crop, cells };
+  });
+
+  return {
+    currency: prices.currency,
+    scenarios: runs.map(run => run.scenario),
+    fromAi: runs.map(run => Boolean(run.report)),
+    rows,
+  };
+}
+
+/**
+ * Writes the comparison as CSV, one row per crop and scenario.
+ */
+export function scenarioComparisonToCsv(comparison: ScenarioComparison): string {
+  const header = [
+    'crop',
+    'scenario',
+    'rank',
+    'score',
+    'yield_t_ha',
+    'water_mm',
+    'irrigation_mm',
+    `margin_${comparison.currency}_ha`,
+    'changed_vs_baseline',
+  ];
+  const lines = comparison.rows.flatMap(row =>
+    row.cells.map((cell, index) =>
+      [
+        row.crop.name,
+        comparison.scenarios[index].name,
+        cell.rank,
+        cell.score,
+        cell.yieldPerHa,
+        cell.waterMm,
+        cell.irrigationMm,
+        cell.marginPerHa,
+        Object.entries(cell.changes)
+          .filter(([, change]) => change)
+          .map(([metric, change]) => `${metric} ${change}`)
+          .join('; '),
+      ]
+        .map(csvValue)
+        .join(','),
+    ),
+  );
+  return [header.join(','), ...lines].join('\n');
+}
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Sensitivity sweep over rainfall and temperature.
+ *
+ * The offline suitability model is run for every cell of a rainfall ×
+ * temperature grid, optionally with and without irrigation, and the winning
+ * crop of each cell is recorded. Where several crops share the top score,
+ * the one with the best gross margin wins, so the map shows where the
+ * recommendation flips rather than alphabetical ties.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CROP_CATALOG, CropProfile } from './crop-catalog';
+import { PriceTable, computeCropEconomics } from './economics';
+import { rankCrops } from './suitability';
+
+export interface SweepAxis {
+  min: number;
+  max: number;
+  steps: number;
+}
+
+export type IrrigationSweep = 'as-entered' | 'both';
+
+export interface SweepConfig {
+  rainfall: SweepAxis;
+  temperature: SweepAxis;
+  irrigation: IrrigationSweep;
+}
+
+export interface SweepCell {
+  rainfall: number;
+  temperature: number;
+  irrigationAvailable: boolean;
+  winner: CropProfile;
+  score: number;
+  // Other crops with the same top score.
+  tiedWith: CropProfile[];
+  // Best crop with a lower score, and the gap to it in suitability points.
+  runnerUp?: CropProfile;
+  lead: number;
+}
+
+export interface SweepLayer {
+  irrigationAvailable: boolean;
+  // Rows by temperature (lowest first), columns by rainfall.
+  cells: SweepCell[][];
+}
+
+export interface SweepResult {
+  // The parameters the sweep started from.
+  params: AgriculturalParameters;
+  rainfallValues: number[];
+  temperatureValues: number[];
+  layers: SweepLayer[];
+  // Crops that win at least one cell, most cells first.
+  winners: { crop: CropProfile; cells: number }[];
+}
+
+export const MAX_SWEEP_STEPS = 20;
+// Suitability points within which a win counts as marginal.
+export const MARGINAL_LEAD = 5;
+
+/**
+ * The values an axis takes, evenly spaced from min to max.
+ * @throws Error when the range or the number of steps is invalid.
+ */
+export function axisValues(axis: SweepAxis, name: string): number[] {
+  if (!Number.isFinite(axis.min) || !Number.isFinite(axis.max) || axis.max <= axis.min) {
+    throw new Error(`The ${name} range needs a maximum above its minimum.`);
+  }
+  const steps = Math.round(axis.steps);
+  if (steps < 2 || steps > MAX_SWEEP_STEPS) {
+    throw new Error(`Use between 2 and ${MAX_SWEEP_STEPS} ${name} steps.`);
+  }
+  const step = (axis.max - axis.min) / (steps - 1);
+  return Array.from({ length: steps }, (_, i) => Math.round((axis.min + i * step) * 10) / 10);
+}
+
+/**
+ * A sweep centered on the entered rainfall and temperature, or on a broad
+ * range when they are missing.
+ */
+export function defaultSweepConfig(params: AgriculturalParameters): SweepConfig {
+  const rainfall = params.rainfall ?? 900;
+  const temperature = params.temperature ?? 20;
+  return {
+    rainfall: {
+      min: Math.max(0, Math.round(rainfall * 0.4)),
+      max: Math.round(rainfall * 1.6),
+      steps: 9,
+    },
+    temperature: {
+      min: Math.round(temperature - 8),
+      max: Math.round(temperature + 8),
+      steps: 9,
+    },
+    irrigation: 'as-entered',
+  };
+}
+
+function sweepCell(
+  params: AgriculturalParameters,
+  catalog: CropProfile[],
+  prices: PriceTable | undefined,
+): SweepCell {
+  const ranking = rankCrops(params, catalog);
+  const top = ranking[0];
+  const tied = ranking.filter(r => r.score === top.score).map(r => r.crop);
+  const runnerUp = ranking.find(r => r.score < top.score);
+
+  let ordered = tied;
+  if (prices && tied.length > 1) {
+    const margins = new Map(
+      tied.map(crop => [
+        crop.id,
+        computeCropEconomics(crop, params, prices, undefined, catalog).grossMarginPerHa,
+      ]),
+    );
+    ordered = [...tied].sort((a, b) => margins.get(b.id)! - margins.get(a.id)!);
+  }
+
+  return {
+    rainfall: params.rainfall!,
+    temperature: params.temperature!,
+    irrigationAvailable: Boolean(params.irrigationAvailable),
+    winner: ordered[0],
+    score: top.score,
+    tiedWith: ordered.slice(1),
+    runnerUp: runnerUp?.crop,
+    lead: runnerUp ? top.score - runnerUp.score : top.score,
+  };
+}
+
+/**
+ * Runs the offline model over the grid.
+ * @param prices - Breaks ties on the top score by gross margin when given.
+ * @throws Error when an axis is invalid or the catalog is empty.
+ */
+export function runSensitivitySweep(
+  params: AgriculturalParameters,
+  config: SweepConfig,
+  catalog: CropProfile[] = CROP_CATALOG,
+  prices?: PriceTable,
+): SweepResult {
+  if (catalog.length === 0) throw new Error('The crop catalog is empty.');
+  const rainfallValues = axisValues(config.rainfall, 'rainfall');
+  const temperatureValues = axisValues(config.temperature, 'temperature');
+  const irrigationOptions =
+    config.irrigation === 'both' ? [false, true] : [Boolean(params.irrigationAvailable)];
+
+  const counts = new Map<string, { crop: CropProfile; cells: number }>();
+  const layers = irrigationOptions.map(irrigationAvailable => ({
+    irrigationAvailable,
+    cells: temperatureValues.map(temperature =>
+      rainfallValues.map(rainfall => {
+        const cell = sweepCell(
+          // The sweep replaces the entered averages and any weather station data.
+          { ...params, rainfall, temperature, irrigationAvailable, weather: undefined },
+          catalog,
+          prices,
+        );
+        const entry = counts.get(cell.winner.id) ?? { crop: cell.winner, cells: 0 };
+        entry.cells++;
+        counts.set(cell.winner.id, entry);
+        return cell;
+      }),
+    ),
+  }));
+
+  return {
+    params,
+    rainfallValues,
+    temperatureValues,
+    layers,
+    winners: [...counts.values()].sort((a, b) => b.cells - a.cells),
+  };
+}
+
+/**
+ * Describes the nearest cell along each axis, from the entered conditions,
+ * where another crop wins, e.g. "Drier (540 mm): Sorghum replaces Maize."
+ */
+export function describeFlips(
+  result: SweepResult,
+  layer: SweepLayer,
+  params: AgriculturalParameters,
+): string[] {
+  const nearest = (values: number[], target: number | undefined) =>
+    target === undefined
+      ? Math.floor(values.length / 2)
+      : values.reduce(
+          (best, value, index) =>
+            Math.abs(value - target) < Math.abs(values[best] - target) ? index : best,
+          0,
+        );
+  const row = nearest(result.temperatureValues, params.temperature);
+  const column = nearest(result.rainfallValues, params.rainfall);
+  const here = layer.cells[row][column];
+  const flips: string[] = [];
+
+  const walk = (
+    cells: SweepCell[],
+    from: number,
+    direction: 1 | -1,
+    describe: (cell: SweepCell) => string,
+  ) => {
+    for (let i = from + direction; i >= 0 && i < cells.length; i += direction) {
+      if (cells[i].winner.id !== here.winner.id) {
+        flips.push(`${describe(cells[i])}: ${cells[i].winner.name} replaces ${here.winner.name}.`);
+        return;
+      }
+    }
+  };
+  const rowCells = layer.cells[row];
+  const columnCells = layer.cells.map(cells => cells[column]);
+  walk(rowCells, column, -1, cell => `Drier (${cell.rainfall} mm)`);
+  walk(rowCells, column, 1, cell => `Wetter (${cell.rainfall} mm)`);
+  walk(columnCells, row, -1, cell => `Cooler (${cell.temperature} °C)`);
+  walk(columnCells, row, 1, cell => `Warmer (${cell.temperature} °C)`);
+  if (flips.length === 0) {
+    flips.push(`${here.winner.name} wins across the whole range around the entered conditions.`);
+  }
+  return flips;
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * USDA soil texture triangle.
+ *
+ * Lab reports give the sand, silt and clay fractions of the mineral soil.
+ * They are classified into the 12 USDA texture classes, which map onto the
+ * five legacy soil types used by the crop catalog. Peat is organic and has
+ * no place on the triangle, so it can only be chosen as a soil type.
+ */
+
+import { SoilType } from './crop-catalog';
+
+export const TEXTURE_CLASSES = [
+  'sand',
+  'loamy-sand',
+  'sandy-loam',
+  'loam',
+  'silt-loam',
+  'silt',
+  'sandy-clay-loam',
+  'clay-loam',
+  'silty-clay-loam',
+  'sandy-clay',
+  'silty-clay',
+  'clay',
+] as const;
+
+export type TextureClass = (typeof TEXTURE_CLASSES)[number];
+
+// Percentages of the mineral fraction; they should add up to 100.
+export interface SoilTexture {
+  sand: number;
+  silt: number;
+  clay: number;
+}
+
+export const TEXTURE_CLASS_LABELS: Record<TextureClass, string> = {
+  sand: 'Sand',
+  'loamy-sand': 'Loamy sand',
+  'sandy-loam': 'Sandy loam',
+  loam: 'Loam',
+  'silt-loam': 'Silt loam',
+  silt: 'Silt',
+  'sandy-clay-loam': 'Sandy clay loam',
+  'clay-loam': 'Clay loam',
+  'silty-clay-loam': 'Silty clay loam',
+  'sandy-clay': 'Sandy clay',
+  'silty-clay': 'Silty clay',
+  clay: 'Clay',
+};
+
+// The closest legacy soil type for each texture class.
+export const TEXTURE_TO_SOIL_TYPE: Record<TextureClass, SoilType> = {
+  sand: 'sandy',
+  'loamy-sand': 'sandy',
+  'sandy-loam': 'loamy',
+  loam: 'loamy',
+  'silt-loam': 'silt',
+  silt: 'silt',
+  'sandy-clay-loam': 'loamy',
+  'clay-loam': 'loamy',
+  'silty-clay-loam': 'silt',
+  'sandy-clay': 'clay',
+  'silty-clay': 'clay',
+  clay: 'clay',
+};
+
+// Lab fractions rarely add up to exactly 100.
+const SUM_TOLERANCE = 2;
+
+/**
+ * Checks that the fractions are valid percentages adding up to about 100.
+ * @returns A readable error, or null when the texture can be classified.
+ */
+export function validateTexture(texture: SoilTexture): string | null {
+  const values = [texture.sand, texture.silt, texture.clay];
+  if (values.some(v => !Number.isFinite(v) || v < 0 || v > 100)) {
+    return 'Sand, silt and clay must be percentages between 0 and 100.';
+  }
+  const sum = values.reduce((a, b) => a + b, 0);
+  if (Math.abs(sum - 100) > SUM_TOLERANCE) {
+    return `Sand, silt and clay add up to ${Math.round(sum * 10) / 10}%, not 100%.`;
+  }
+  return null;
+}
+
+/**
+ * Classifies a texture with the USDA triangle. Fractions are rescaled to add
+ * up to exactly 100 first.
+ * @throws Error when the texture is not valid.
+ */
+export function classifyTexture(texture: SoilTexture): TextureClass {
+  const error = validateTexture(texture);
+  if (error) throw new Error(error);
+  const total = texture.sand + texture.silt + texture.clay;
+  const sand = (texture.sand / total) * 100;
+  const silt = (texture.silt / total) * 100;
+  const clay = (texture.clay / total) * 100;
+
+  if (silt + 1.5 * clay < 15) return 'sand';
+  if (silt + 2 * clay < 30) return 'loamy-sand';
+  if (clay >= 40) {
+    if (silt >= 40) return 'silty-clay';
+    if (sand <= 45) return 'clay';
+  }
+  if (clay >= 35 && sand > 45) return 'sandy-clay';
+  if (clay >= 27 && clay < 40) {
+    if (sand <= 20) return 'silty-clay-loam';
+    if (sand <= 45) return 'clay-loam';
+  }
+  if (clay >= 20 && clay < 35 && silt < 28 && sand > 45) return 'sandy-clay-loam';
+  if (clay < 7 && silt < 50) return 'sandy-loam';
+  if (clay < 20 && sand > 52) return 'sandy-loam';
+  if (silt >= 80 && clay < 12) return 'silt';
+  if (silt >= 50) return 'silt-loam';
+  return 'loam';
+}
+
+/**
+ * Describes a texture for the recommendation prompt, e.g.
+ * "Silty clay loam (sand 10%, silt 58%, clay 32%)".
+ */
+export function describeTexture(
+  textureClass: TextureClass,
+  texture?: SoilTexture,
+): string {
+  const label = TEXTURE_CLASS_LABELS[textureClass];
+  return texture
+    ? `${label} (sand ${texture.sand}%, silt ${texture.silt}%, clay ${texture.clay}%)`
+    : label;
+}
@@ -0,0 +1,378 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Offline, deterministic crop suitability engine.
+ *
+ * Each crop in the catalog is scored against the farm's parameters, one
+ * factor at a time. Factor scores (0-1) are combined with a weighted geometric
+ * mean, so a single failing factor (e.g. far too little rain) makes the crop
+ * unsuitable no matter how good the others are.
+ */
+
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import { CropRecommendationReport } from './crop-report';
+import {
+  CROP_CATALOG,
+  CropProfile,
+  ToleranceRange,
+  findCatalogCrop,
+} from './crop-catalog';
+import { formatMonths, seasonMonths } from './planting-window';
+import { estimateSoilLoss, practiceLabel } from './erosion';
+
+export type SuitabilityFactor =
+  | 'temperature'
+  | 'rainfall'
+  | 'soil'
+  | 'climate'
+  | 'season'
+  | 'ph'
+  | 'erosion';
+
+// FAO land suitability classes: highly, moderately, marginally, not suitable.
+export type SuitabilityClass = 'S1' | 'S2' | 'S3' | 'N';
+
+export interface FactorScore {
+  factor: SuitabilityFactor;
+  score: number;
+  explanation: string;
+}
+
+export interface CropSuitability {
+  crop: CropProfile;
+  // Overall suitability, 0-100.
+  score: number;
+  suitabilityClass: SuitabilityClass;
+  factors: FactorScore[];
+  // The lowest scoring factor, if it is holding the crop back.
+  limitingFactor?: SuitabilityFactor;
+}
+
+const FACTOR_WEIGHTS: Record<SuitabilityFactor, number> = {
+  temperature: 1.5,
+  rainfall: 1.25,
+  soil: 1,
+  climate: 1,
+  season: 0.75,
+  ph: 0.75,
+  erosion: 0.75,
+};
+
+// Scores applied when the crop is not normally grown in that climate/season.
+const OFF_CLIMATE_SCORE = 0.2;
+const OFF_SEASON_SCORE = 0.3;
+// Irrigation can make up a rainfall deficit, but never quite for free.
+const IRRIGATED_DEFICIT_SCORE = 0.9;
+// Soil loss far over tolerance penalizes a crop without ruling it out.
+const MIN_EROSION_SCORE = 0.2;
+
+export const SUITABILITY_CLASS_LABELS: Record<SuitabilityClass, string> = {
+  S1: 'Highly suitable',
+  S2: 'Moderately suitable',
+  S3: 'Marginally suitable',
+  N: 'Not suitable',
+};
+
+/**
+ * Trapezoidal membership: 0 outside [min, max], 1 inside [optMin, optMax],
+ * linear in between.
+ */
+export function trapezoid(value: number, range: ToleranceRange): number {
+  if (value <= range.min || value >= range.max) return 0;
+  if (value < range.optMin) {
+    return (value - range.min) / (range.optMin - range.min);
+  }
+  if (value > range.optMax) {
+    return (range.max - value) / (range.max - range.optMax);
+  }
+  return 1;
+}
+
+function describeRange(
+  label: string,
+  value: number,
+  unit: string,
+  range: ToleranceRange,
+): string {
+  const optimum = `${range.optMin}–${range.optMax}${unit}`;
+  if (value <= range.min) {
+    return `${label} ${value}${unit} is below the crop minimum of ${range.min}${unit}.`;
+  }
+  if (value >= range.max) {
+    return `${label} ${value}${unit} exceeds the crop maximum of ${range.max}${unit}.`;
+  }
+  if (value < range.optMin) {
+    return `${label} ${value}${unit} is below the optimum ${optimum}.`;
+  }
+  if (value > range.optMax) {
+    return `${label} ${value}${unit} is above the optimum ${optimum}.`;
+  }
+  return `${label} ${value}${unit} is within the optimum ${optimum}.`;
+}
+
+function scoreTemperature(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+): FactorScore | null {
+  if (params.temperature === undefined) return null;
+  return {
+    factor: 'temperature',
+    score: trapezoid(params.temperature, crop.temperature),
+    explanation: describeRange(
+      'Average temperature',
+      params.temperature,
+      '°C',
+      crop.temperature,
+    ),
+  };
+}
+
+function scoreRainfall(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+): FactorScore | null {
+  if (params.rainfall === undefined) return null;
+  const base = trapezoid(params.rainfall, crop.rainfall);
+  const explanation = describeRange(
+    'Rainfall',
+    params.rainfall,
+    ' mm',
+    crop.rainfall,
+  );
+  if (params.irrigationAvailable && params.rainfall < crop.rainfall.optMin) {
+    return {
+      factor: 'rainfall',
+      score: Math.max(base, IRRIGATED_DEFICIT_SCORE),
+      explanation: `${explanation} Irrigation can cover the deficit.`,
+    };
+  }
+  return { factor: 'rainfall', score: base, explanation };
+}
+
+function scoreSoil(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+): FactorScore {
+  const score = crop.soils[params.soilType] ?? 0;
+  const quality =
+    score >= 0.9 ? 'well suited' : score >= 0.6 ? 'acceptable' : 'poorly suited';
+  return {
+    factor: 'soil',
+    score,
+    explanation: `${params.soilType} soil is ${quality} for ${crop.name.toLowerCase()}.`,
+  };
+}
+
+function scorePh(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+): FactorScore | null {
+  const ph = params.soilTest?.ph;
+  if (ph === undefined) return null;
+  return {
+    factor: 'ph',
+    score: trapezoid(ph, crop.ph),
+    explanation: describeRange('Soil pH', ph, '', crop.ph),
+  };
+}
+
+function scoreClimate(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+): FactorScore {
+  const suited = crop.climates.includes(params.climate);
+  return {
+    factor: 'climate',
+    score: suited ? 1 : OFF_CLIMATE_SCORE,
+    explanation: suited
+      ? `${crop.name} is commonly grown in ${params.climate} climates.`
+      : `${crop.name} is not usually grown in ${params.climate} climates (suited to ${crop.climates.join(', ')}).`,
+  };
+}
+
+function scoreSeason(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+): FactorScore {
+  // With explicit months, compare against the crop's seasons in the local
+  // hemisphere rather than the season name.
+  if (params.plantingMonths?.length) {
+    const cropMonths = crop.plantingSeasons.flatMap(season =>
+      seasonMonths(season, params.latitude),
+    );
+    const suited = params.plantingMonths.some(m => cropMonths.includes(m));
+    const targetMonths = formatMonths(params.plantingMonths);
+    return {
+      factor: 'season',
+      score: suited ? 1 : OFF_SEASON_SCORE,
+      explanation: suited
+        ? `${targetMonths} is within the normal planting window (${formatMonths(cropMonths)}).`
+        : `${crop.name} is normally planted in ${formatMonths(cropMonths)} here, not ${targetMonths}.`,
+    };
+  }
+  const suited = crop.plantingSeasons.includes(params.season);
+  return {
+    factor: 'season',
+    score: suited ? 1 : OFF_SEASON_SCORE,
+    explanation: suited
+      ? `${params.season} is a normal planting season.`
+      : `${crop.name} is normally planted in ${crop.plantingSeasons.join(' or ')}, not ${params.season}.`,
+  };
+}
+
+function scoreErosion(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+): FactorScore | null {
+  const estimate = estimateSoilLoss(crop, params);
+  if (!estimate) return null;
+  const { lossTHa, site, sufficientPractice } = estimate;
+  const practice = practiceLabel(site.practice).toLowerCase();
+  if (estimate.withinTolerance) {
+    return {
+      factor: 'erosion',
+      score: 1,
+      explanation: `Soil loss of ${lossTHa} t/ha/yr (${practice}) is within the ${site.toleranceTHa} t/ha/yr tolerance.`,
+    };
+  }
+  return {
+    factor: 'erosion',
+    score: Math.max(MIN_EROSION_SCORE, Math.sqrt(site.toleranceTHa / lossTHa)),
+    explanation: `Soil loss of ${lossTHa} t/ha/yr (${practice}) exceeds the ${site.toleranceTHa} t/ha/yr tolerance${sufficientPractice ? `; ${practiceLabel(sufficientPractice).toLowerCase()} would bring it within` : ', even with terraces'}.`,
+  };
+}
+
+export function classifySuitability(score: number): SuitabilityClass {
+  if (score >= 80) return 'S1';
+  if (score >= 60) return 'S2';
+  if (score >= 40) return 'S3';
+  return 'N';
+}
+
+/**
+ * Scores a single crop against the farm parameters. Factors for which no
+ * input was given (rainfall, temperature, soil pH, slope) are left out of
+ * the score.
+ */
+export function scoreCrop(
+  crop: CropProfile,
+  params: AgriculturalParameters,
+): CropSuitability {
+  const factors = [
+    scoreTemperature(crop, params),
+    scoreRainfall(crop, params),
+    scoreSoil(crop, params),
+    scorePh(crop, params),
+    scoreClimate(crop, params),
+    scoreSeason(crop, params),
+    scoreErosion(crop, params),
+  ].filter((f): f is FactorScore => f !== null);
+
+  const totalWeight = factors.reduce(
+    (sum, f) => sum + FACTOR_WEIGHTS[f.factor],
+    0,
+  );
+  const logSum = factors.reduce(
+    (sum, f) => sum + FACTOR_WEIGHTS[f.factor] * Math.log(Math.max(f.score, 1e-6)),
+    0,
+  );
+  const raw = Math.exp(logSum / totalWeight);
+  const score = raw < 0.01 ? 0 : Math.round(raw * 100);
+
+  const weakest = factors.reduce((min, f) => (f.score < min.score ? f : min));
+
+  return {
+    crop,
+    score,
+    suitabilityClass: classifySuitability(score),
+    factors,
+    limitingFactor: weakest.score < 1 ? weakest.factor : undefined,
+  };
+}
+
+/**
+ * Scores every catalog crop and returns them ranked from most to least
+ * suitable.
+ */
+export function rankCrops(
+  params: AgriculturalParameters,
+  catalog: CropProfile[] = CROP_CATALOG,
+): CropSuitability[] {
+  return catalog
+    .map(crop => scoreCrop(crop, params))
+    .sort((a, b) => b.score - a.score || a.crop.name.localeCompare(b.crop.name));
+}
+
+export interface SuitabilityDisagreement {
+  crop: string;
+  kind: 'ai-unsuitable' | 'ai-omitted' | 'not-in-catalog' | 'timeline-mismatch';
+  message: string;
+}
+
+/**
+ * Compares the AI report's crops with the offline ranking and lists where
+ * they disagree, so agronomists can review those crops before acting.
+ */
+export function crossCheckReport(
+  report: CropRecommendationReport,
+  ranking: CropSuitability[],
+  catalog: CropProfile[] = CROP_CATALOG,
+): SuitabilityDisagreement[] {
+  const disagreements: SuitabilityDisagreement[] = [];
+  const matchedIds = new Set<string>();
+
+  for (const recommended of report.crops) {
+    const crop = findCatalogCrop(recommended.crop, catalog);
+    if (!crop) {
+      disagreements.push({
+        crop: recommended.crop,
+        kind: 'not-in-catalog',
+        message: `${recommended.crop} is not in the offline catalog and could not be cross-checked.`,
+      });
+      continue;
+    }
+    matchedIds.add(crop.id);
+    const result = ranking.find(r => r.crop.id === crop.id);
+    if (result && result.score < 40) {
+      const limiting = result.factors.find(f => f.factor === result.limitingFactor);
+      disagreements.push({
+        crop: recommended.crop,
+        kind: 'ai-unsuitable',
+        message: `AI recommends ${recommended.crop}, but the offline engine scores it ${result.score}/100. ${limiting?.explanation ?? ''}`.trim(),
+      });
+    }
+  }
+
+  for (const result of ranking) {
+    if (result.suitabilityClass === 'S1' && !matchedIds.has(result.crop.id)) {
+      disagreements.push({
+        crop: result.crop.name,
+        kind: 'ai-omitted',
+        message: `${result.crop.name} is highly suitable offline (${result.score}/100) but was not recommended by the AI.`,
+      });
+    }
+  }
+
+  return disagreements;
+}
+
+/**
+ * Summarizes the top of a ranking as plain text, for tool responses.
+ */
+export function summarizeRanking(
+  ranking: CropSuitability[],
+  limit = 5,
+): string {
+  return ranking
+    .slice(0, limit)
+    .map((result, index) => {
+      const limiting = result.factors.find(
+        f => f.factor === result.limitingFactor,
+      );
+      return `${index + 1}. ${result.crop.name}: ${result.score}/100 (${SUITABILITY_CLASS_LABELS[result.suitabilityClass]})${limiting ? ` - ${limiting.explanation}` : ''}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Imported daily temperature series.
+ *
+ * Weather station exports are read from CSV with a date column and either
+ * minimum and maximum temperatures or a daily mean. Column names are matched
+ * loosely (e.g. "tmin", "Tmin (°C)", "min_temp"). Dates must be ISO
+ * (YYYY-MM-DD), since "01/02/2023" is read differently across regions.
+ */
+
+import { parseCsvNumber, readCsvRows } from '@/lib/utils';
+import { DEFAULT_DIURNAL_RANGE_C } from './evapotranspiration';
+
+export interface DailyTemperature {
+  // ISO date, YYYY-MM-DD.
+  date: string;
+  tMinC: number;
+  tMaxC: number;
+}
+
+const DATE_COLUMN = /^(date|day|time)/i;
+const MIN_COLUMN = /min/i;
+const MAX_COLUMN = /max/i;
+const MEAN_COLUMN = /(mean|avg|average|^t$|^temp)/i;
+
+// YYYY-MM-DD, optionally followed by a time, which is ignored.
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/;
+
+// The calendar date of an ISO date cell, or null when it is not a valid one.
+// Parsed by its parts, so the local time zone cannot shift it by a day.
+function parseIsoDate(text: string): string | null {
+  const match = text.match(ISO_DATE);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+/**
+ * Parses a daily temperature CSV, sorted by date.
+ * @throws Error naming the first invalid row when the file cannot be read.
+ */
+export function parseDailyTemperatureCsv(text: string): DailyTemperature[] {
+  const [headerRow, ...rows] = readCsvRows(text);
+  if (!rows.length) {
+    throw new Error('Temperature file needs a header row and at least one day.');
+  }
+  const header = headerRow.cells;
+  const dateIndex = header.findIndex(h => DATE_COLUMN.test(h));
+  const minIndex = header.findIndex(h => MIN_COLUMN.test(h));
+  const maxIndex = header.findIndex(h => MAX_COLUMN.test(h));
+  const meanIndex = header.findIndex(h => MEAN_COLUMN.test(h) && !MIN_COLUMN.test(h) && !MAX_COLUMN.test(h));
+  if (dateIndex === -1) {
+    throw new Error('Temperature file has no date column.');
+  }
+  if ((minIndex === -1 || maxIndex === -1) && meanIndex === -1) {
+    throw new Error('Temperature file needs tmin and tmax columns, or a mean temperature column.');
+  }
+
+  const days = rows.map(({ cells, row: rowNumber }) => {
+    if (cells.length !== header.length) {
+      throw new Error(`Row ${rowNumber}: ${cells.length} cells, but the header has ${header.length}.`);
+    }
+    const date = parseIsoDate(cells[dateIndex]);
+    if (!date) {
+      throw new Error(`Row ${rowNumber}: "${cells[dateIndex]}" is not a date in YYYY-MM-DD form.`);
+    }
+    const value = (index: number) => parseCsvNumber(cells[index]);
+    let tMinC: number;
+    let tMaxC: number;
+    if (minIndex !== -1 && maxIndex !== -1) {
+      tMinC = value(minIndex);
+      tMaxC = value(maxIndex);
+    } else {
+      const mean = value(meanIndex);
+      tMinC = mean - DEFAULT_DIURNAL_RANGE_C / 2;
+      tMaxC = mean + DEFAULT_DIURNAL_RANGE_C / 2;
+    }
+    if (!Number.isFinite(tMinC) || !Number.isFinite(tMaxC)) {
+      throw new Error(`Row ${rowNumber}: temperature is missing or not a number.`);
+    }
+    return {
+      date,
+      tMinC: Math.min(tMinC, tMaxC),
+      tMaxC: Math.max(tMinC, tMaxC),
+    };
+  });
+  return days.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Describes the span of a series, e.g. "365 days, 2023-01-01 to 2023-12-31".
+ */
+export function describeSeries(series: DailyTemperature[]): string {
+  if (series.length === 0) return 'no days';
+  return `${series.length} days, ${series[0].date} to ${series[series.length - 1].date}`;
+}
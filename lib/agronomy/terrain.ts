@@ -0,0 +1,440 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Terrain analysis of a field from a grid of sampled elevations.
+ *
+ * The field's bounding box, plus a one-cell margin so that edge cells have
+ * neighbours, is divided into square cells whose centres are sampled with
+ * the Maps Elevation service. Slope and aspect come from central
+ * differences, flow direction from the steepest of the eight neighbours
+ * (D8), and the number of upslope cells draining through each cell from
+ * routing every cell's flow downhill. Steep cells that collect runoff are
+ * prone to erosion; flat cells that collect it, or have no lower
+ * neighbour, to waterlogging.
+ */
+
+import { LatLngPoint, pointInPolygon, polygonCentroid } from '@/lib/geometry';
+import { round } from '@/lib/utils';
+
+export type CompassDirection = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+
+export type TerrainRiskClass = 'low' | 'erosion-moderate' | 'erosion-high' | 'waterlogging';
+
+const COMPASS: CompassDirection[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const COMPASS_NAMES: Record<CompassDirection, string> = {
+  N: 'north',
+  NE: 'north-east',
+  E: 'east',
+  SE: 'south-east',
+  S: 'south',
+  SW: 'south-west',
+  W: 'west',
+  NW: 'north-west',
+};
+
+export const TERRAIN_RISK_LABELS: Record<TerrainRiskClass, string> = {
+  low: 'Low risk',
+  'erosion-moderate': 'Moderate erosion',
+  'erosion-high': 'High erosion',
+  waterlogging: 'Waterlogging',
+};
+
+// Overlay fill colors, also used for the legend.
+export const TERRAIN_RISK_COLORS: Record<TerrainRiskClass, string> = {
+  low: 'rgba(139, 195, 74, 0.45)',
+  'erosion-moderate': 'rgba(255, 193, 7, 0.55)',
+  'erosion-high': 'rgba(211, 47, 47, 0.6)',
+  waterlogging: 'rgba(30, 136, 229, 0.55)',
+};
+
+// The Elevation service accepts up to 512 locations per request.
+const MAX_SAMPLES = 512;
+// Cells sampled inside the field, when the field is large enough.
+const TARGET_FIELD_CELLS = 150;
+// Finer cells than this only resample the same elevation data.
+const MIN_CELL_SIZE_M = 10;
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Slope classes, in percent.
+const FLAT_SLOPE_PCT = 2;
+const STEEP_SLOPE_PCT = 8;
+const MODERATE_EROSION_SLOPE_PCT = 5;
+const HIGH_EROSION_SLOPE_PCT = 15;
+const WATERLOGGING_SLOPE_PCT = 1;
+// Upslope cells (including the cell itself) draining through a cell before
+// runoff counts as concentrated.
+const CONCENTRATED_FLOW_CELLS = 5;
+// Below this consistency of downslope directions, the field faces no single way.
+const MIN_ASPECT_CONSISTENCY = 0.3;
+
+export interface TerrainGrid {
+  rows: number;
+  cols: number;
+  cellSizeM: number;
+  // Cell size in degrees.
+  latStep: number;
+  lngStep: number;
+  // Cell centres, row by row from the south-west corner.
+  points: LatLngPoint[];
+  // Whether each cell's centre lies inside the field.
+  inside: boolean[];
+}
+
+export interface TerrainCell {
+  center: LatLngPoint;
+  // Cell outline, as an open ring.
+  polygon: LatLngPoint[];
+  elevationM: number;
+  slopePct: number;
+  // Compass bearing the cell faces (downslope), or null when flat.
+  aspectDeg: number | null;
+  // Steepest-descent neighbour, or null in a pit or flat.
+  flowDirection: CompassDirection | null;
+  // Cells, this one included, whose runoff passes through this cell.
+  upslopeCells: number;
+  risk: TerrainRiskClass;
+}
+
+export interface TerrainSummary {
+  cellSizeM: number;
+  // Cells sampled inside the field.
+  cells: number;
+  minElevationM: number;
+  maxElevationM: number;
+  meanElevationM: number;
+  meanSlopePct: number;
+  maxSlopePct: number;
+  // Share of the field steeper than 8%, in percent.
+  steepSharePct: number;
+  aspect: CompassDirection | 'flat' | 'mixed';
+  aspectDeg: number | null;
+  // Pole-facing slopes face north in the northern hemisphere and south in
+  // the southern; sun-facing ones the opposite. Null for east or west
+  // facing, mixed and flat fields.
+  exposure: 'pole-facing' | 'sun-facing' | null;
+  // Most common direction runoff leaves the cells in.
+  flowDirection: CompassDirection | null;
+  // Share of the field in each risk class, in percent.
+  riskSharesPct: Record<TerrainRiskClass, number>;
+}
+
+export interface TerrainAnalysis {
+  grid: TerrainGrid;
+  // Cells inside the field only.
+  cells: TerrainCell[];
+  summary: TerrainSummary;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const compassOf = (bearing: number): CompassDirection =>
+  COMPASS[Math.round((((bearing % 360) + 360) % 360) / 45) % 8];
+
+/**
+ * Lays a sampling grid over a field boundary: about 150 cells inside the
+ * field (or `targetCells`), no finer than 10 m and within one Elevation
+ * service request.
+ * @throws Error when the boundary has fewer than three vertices.
+ */
+export function terrainGrid(
+  boundary: LatLngPoint[],
+  targetCells = TARGET_FIELD_CELLS,
+): TerrainGrid {
+  if (boundary.length < 3) {
+    throw new Error('Draw a field boundary with at least three vertices first.');
+  }
+  const lats = boundary.map(p => p.lat);
+  const lngs = boundary.map(p => p.lng);
+  const south = Math.min(...lats);
+  const west = Math.min(...lngs);
+  const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos(toRadians((south + Math.max(...lats)) / 2));
+  const heightM = (Math.max(...lats) - south) * METERS_PER_DEGREE_LAT;
+  const widthM = (Math.max(...lngs) - west) * metersPerDegreeLng;
+
+  // Size cells for the box, which over-counts the field, then coarsen
+  // until the box and its margin fit in one request.
+  let cellSizeM = Math.max(MIN_CELL_SIZE_M, Math.sqrt((widthM * heightM) / targetCells));
+  let rows = 0;
+  let cols = 0;
+  do {
+    rows = Math.ceil(heightM / cellSizeM) + 2;
+    cols = Math.ceil(widthM / cellSizeM) + 2;
+    if (rows * cols > MAX_SAMPLES) cellSizeM *= 1.1;
+  } while (rows * cols > MAX_SAMPLES);
+
+  const latStep = cellSizeM / METERS_PER_DEGREE_LAT;
+  const lngStep = cellSizeM / metersPerDegreeLng;
+  // Centre the grid on the box; the first and last rows and columns are margin.
+  const originLat = south + (heightM / METERS_PER_DEGREE_LAT - (rows - 1) * latStep) / 2;
+  const originLng = west + (widthM / metersPerDegreeLng - (cols - 1) * lngStep) / 2;
+
+  const points: LatLngPoint[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      points.push({ lat: originLat + r * latStep, lng: originLng + c * lngStep });
+    }
+  }
+  const inside = points.map(p => pointInPolygon(p, boundary));
+  // A field smaller than one cell is represented by the cell nearest its centre.
+  if (!inside.some(Boolean)) {
+    const centroid = polygonCentroid(boundary)!;
+    const r = Math.min(rows - 1, Math.max(0, Math.round((centroid.lat - originLat) / latStep)));
+    const c = Math.min(cols - 1, Math.max(0, Math.round((centroid.lng - originLng) / lngStep)));
+    inside[r * cols + c] = true;
+  }
+  return { rows, cols, cellSizeM: round(cellSizeM, 1), latStep, lngStep, points, inside };
+}
+
+function riskClass(slopePct: number, upslopeCells: number, isPit: boolean): TerrainRiskClass {
+  const concentrated = upslopeCells >= CONCENTRATED_FLOW_CELLS;
+  if (slopePct >= HIGH_EROSION_SLOPE_PCT || (slopePct >= STEEP_SLOPE_PCT && concentrated)) {
+    return 'erosion-high';
+  }
+  if (slopePct >= MODERATE_EROSION_SLOPE_PCT || (slopePct >= FLAT_SLOPE_PCT && concentrated)) {
+    return 'erosion-moderate';
+  }
+  if (slopePct < WATERLOGGING_SLOPE_PCT && (isPit || concentrated)) return 'waterlogging';
+  return 'low';
+}
+
+/**
+ * Derives slope, aspect, flow and risk for every cell inside the field from
+ * the elevations sampled at the grid's cell centres.
+ * @throws Error when the elevations do not match the grid.
+ */
+export function analyzeTerrain(grid: TerrainGrid, elevations: number[]): TerrainAnalysis {
+  const { rows, cols, cellSizeM } = grid;
+  if (elevations.length !== rows * cols) {
+    throw new Error(`Expected ${rows * cols} elevations for the terrain grid, got ${elevations.length}.`);
+  }
+  const z = (r: number, c: number) => elevations[r * cols + c];
+
+  // D8 flow: the neighbour with the steepest drop, if any is lower.
+  const neighbours = [
+    [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1],
+  ];
+  const downstream: (number | null)[] = [];
+  const flowDirections: (CompassDirection | null)[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      let best: number | null = null;
+      let bestDrop = 0;
+      neighbours.forEach(([dr, dc], k) => {
+        const nr = r + dr;
+        const nc = c + dc;
+        if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) return;
+        const drop = (z(r, c) - z(nr, nc)) / Math.hypot(dr, dc);
+        if (drop > bestDrop) {
+          bestDrop = drop;
+          best = k;
+        }
+      });
+      downstream.push(best === null ? null : (r + neighbours[best][0]) * cols + c + neighbours[best][1]);
+      flowDirections.push(best === null ? null : COMPASS[best]);
+    }
+  }
+
+  // Route each cell's runoff downhill, highest cells first. Runoff from the
+  // margin counts too: it runs onto the field.
+  const upslope = elevations.map(() => 1);
+  const order = elevations.map((_, i) => i).sort((a, b) => elevations[b] - elevations[a]);
+  for (const i of order) {
+    const next = downstream[i];
+    if (next !== null) upslope[next] += upslope[i];
+  }
+
+  const cells: TerrainCell[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const i = r * cols + c;
+      if (!grid.inside[i]) continue;
+      // Central differences, one-sided at the grid edge.
+      const [c0, c1] = [Math.max(0, c - 1), Math.min(cols - 1, c + 1)];
+      const [r0, r1] = [Math.max(0, r - 1), Math.min(rows - 1, r + 1)];
+      const dzdx = c1 > c0 ? (z(r, c1) - z(r, c0)) / ((c1 - c0) * cellSizeM) : 0;
+      const dzdy = r1 > r0 ? (z(r1, c) - z(r0, c)) / ((r1 - r0) * cellSizeM) : 0;
+      const slopePct = 100 * Math.hypot(dzdx, dzdy);
+      const aspectDeg =
+        slopePct < FLAT_SLOPE_PCT
+          ? null
+          : round(((Math.atan2(-dzdx, -dzdy) * 180) / Math.PI + 360) % 360);
+      const { lat, lng } = grid.points[i];
+      const halfLat = grid.latStep / 2;
+      const halfLng = grid.lngStep / 2;
+      cells.push({
+        center: grid.points[i],
+        polygon: [
+          { lat: lat - halfLat, lng: lng - halfLng },
+          { lat: lat - halfLat, lng: lng + halfLng },
+          { lat: lat + halfLat, lng: lng + halfLng },
+          { lat: lat + halfLat, lng: lng - halfLng },
+        ],
+        elevationM: round(z(r, c), 1),
+        slopePct: round(slopePct, 1),
+        aspectDeg,
+        flowDirection: flowDirections[i],
+        upslopeCells: upslope[i],
+        risk: riskClass(slopePct, upslope[i], downstream[i] === null),
+      });
+    }
+  }
+
+  return { grid, cells, summary: summarizeCells(cells, grid) };
+}
+
+function summarizeCells(cells: TerrainCell[], grid: TerrainGrid): TerrainSummary {
+  const n = cells.length;
+  const elevations = cells.map(cell => cell.elevationM);
+  const slopes = cells.map(cell => cell.slopePct);
+  const meanSlopePct = slopes.reduce((a, b) => a + b, 0) / n;
+  const share = (count: number) => round((100 * count) / n);
+
+  // Slope-weighted mean of the directions the sloping cells face.
+  let east = 0;
+  let north = 0;
+  let weight = 0;
+  for (const cell of cells) {
+    if (cell.aspectDeg === null) continue;
+    east += cell.slopePct * Math.sin(toRadians(cell.aspectDeg));
+    north += cell.slopePct * Math.cos(toRadians(cell.aspectDeg));
+    weight += cell.slopePct;
+  }
+  const consistency = weight > 0 ? Math.hypot(east, north) / weight : 0;
+  const aspectDeg =
+    meanSlopePct >= FLAT_SLOPE_PCT && consistency >= MIN_ASPECT_CONSISTENCY
+      ? round(((Math.atan2(east, north) * 180) / Math.PI + 360) % 360)
+      : null;
+  const aspect: TerrainSummary['aspect'] =
+    meanSlopePct < FLAT_SLOPE_PCT ? 'flat' : aspectDeg === null ? 'mixed' : compassOf(aspectDeg);
+  // Within 67.5° of due north or south, i.e. N, NE, NW or S, SE, SW.
+  const northness = aspectDeg === null ? 0 : Math.cos(toRadians(aspectDeg));
+  const southern = grid.points[Math.floor(grid.points.length / 2)].lat < 0;
+  const exposure: TerrainSummary['exposure'] =
+    Math.abs(northness) < Math.cos(toRadians(67.5))
+      ? null
+      : northness > 0 !== southern
+        ? 'pole-facing'
+        : 'sun-facing';
+
+  const flowCounts = new Map<CompassDirection, number>();
+  for (const cell of cells) {
+    if (cell.flowDirection) {
+      flowCounts.set(cell.flowDirection, (flowCounts.get(cell.flowDirection) ?? 0) + 1);
+    }
+  }
+  const flowDirection = [...flowCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  const riskSharesPct = Object.fromEntries(
+    (Object.keys(TERRAIN_RISK_LABELS) as TerrainRiskClass[]).map(risk => [
+      risk,
+      share(cells.filter(cell => cell.risk === risk).length),
+    ]),
+  ) as Record<TerrainRiskClass, number>;
+
+  return {
+    cellSizeM: grid.cellSizeM,
+    cells: n,
+    minElevationM: round(Math.min(...elevations)),
+    maxElevationM: round(Math.max(...elevations)),
+    meanElevationM: round(elevations.reduce((a, b) => a + b, 0) / n),
+    meanSlopePct: round(meanSlopePct, 1),
+    maxSlopePct: round(Math.max(...slopes), 1),
+    steepSharePct: share(slopes.filter(s => s >= STEEP_SLOPE_PCT).length),
+    aspect,
+    aspectDeg,
+    exposure,
+    flowDirection,
+    riskSharesPct,
+  };
+}
+
+/**
+ * Samples the field's elevations with the Maps Elevation service and
+ * analyzes them.
+ * @throws Error when the boundary is incomplete or the service fails.
+ */
+export async function sampleTerrain(
+  boundary: LatLngPoint[],
+  elevator: google.maps.ElevationService,
+  targetCells = TARGET_FIELD_CELLS,
+): Promise<TerrainAnalysis> {
+  const grid = terrainGrid(boundary, targetCells);
+  let results: google.maps.ElevationResult[];
+  try {
+    ({ results } = await elevator.getElevationForLocations({ locations: grid.points }));
+  } catch (e) {
+    throw new Error(`Elevation service failed: ${e instanceof Error ? e.message : e}`);
+  }
+  if (!results || results.length !== grid.points.length) {
+    throw new Error('Elevation service returned no elevations for the field.');
+  }
+  return analyzeTerrain(grid, results.map(result => result.elevation));
+}
+
+/**
+ * One-line description of the field's terrain, e.g. "mean slope 6.2% (max
+ * 14%), 25% steeper than 8%, faces north (pole-facing), relief 18 m
+ * (210–228 m), runoff heads N; erosion risk on 30%, waterlogging on 5%".
+ */
+export function describeTerrain(summary: TerrainSummary): string {
+  const facing =
+    summary.aspect === 'flat'
+      ? 'flat'
+      : summary.aspect === 'mixed'
+        ? 'slopes face several ways'
+        : `faces ${COMPASS_NAMES[summary.aspect]}${summary.exposure ? ` (${summary.exposure})` : ''}`;
+  const erosion = summary.riskSharesPct['erosion-moderate'] + summary.riskSharesPct['erosion-high'];
+  const parts = [
+    `mean slope ${summary.meanSlopePct}% (max ${summary.maxSlopePct}%)`,
+    `${summary.steepSharePct}% steeper than ${STEEP_SLOPE_PCT}%`,
+    facing,
+    `relief ${summary.maxElevationM - summary.minElevationM} m (${summary.minElevationM}–${summary.maxElevationM} m)`,
+    summary.flowDirection ? `runoff heads ${summary.flowDirection}` : null,
+  ];
+  return `${parts.filter(Boolean).join(', ')}; erosion risk on ${erosion}% (high on ${summary.riskSharesPct['erosion-high']}%), waterlogging on ${summary.riskSharesPct.waterlogging}%`;
+}
+
+/**
+ * Field-management advice for the terrain: contour work on slopes, drainage
+ * for wet spots, and crop timing for the aspect.
+ */
+export function terrainAdvice(summary: TerrainSummary): string[] {
+  const advice: string[] = [];
+  const { riskSharesPct } = summary;
+  if (summary.maxSlopePct >= HIGH_EROSION_SLOPE_PCT || riskSharesPct['erosion-high'] >= 10) {
+    advice.push(
+      `${riskSharesPct['erosion-high']}% of the field is at high erosion risk (slopes up to ${summary.maxSlopePct}%): keep it under permanent cover or terraces, and avoid row crops that leave soil bare there.`,
+    );
+  }
+  if (summary.meanSlopePct >= MODERATE_EROSION_SLOPE_PCT || summary.steepSharePct >= 20) {
+    advice.push(
+      'Plant and till on the contour, with strip cropping or grass buffer strips across the slope.',
+    );
+  } else if (summary.meanSlopePct >= FLAT_SLOPE_PCT) {
+    advice.push('Gentle slope: work across the slope and keep residue on the surface to slow runoff.');
+  }
+  if (riskSharesPct['erosion-moderate'] + riskSharesPct['erosion-high'] >= 10 && summary.flowDirection) {
+    advice.push(
+      `Runoff concentrates towards the ${COMPASS_NAMES[summary.flowDirection]}: a grassed waterway along that flow line prevents gullies.`,
+    );
+  }
+  if (riskSharesPct.waterlogging >= 10) {
+    advice.push(
+      `${riskSharesPct.waterlogging}% of the field collects water on flat ground: drain or ridge those spots, or choose crops that tolerate wet feet.`,
+    );
+  }
+  if (summary.exposure === 'pole-facing') {
+    advice.push(
+      'Pole-facing slope: soils warm later and frost lingers; favor cool-season and shorter-season crops and plant warm-season crops later.',
+    );
+  } else if (summary.exposure === 'sun-facing') {
+    advice.push(
+      'Sun-facing slope: warms early and suits warm-season crops and early planting, but dries faster in summer.',
+    );
+  }
+  return advice;
+}
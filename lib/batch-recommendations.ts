@@ -0,0 +1,438 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Batch recommendations for many fields.
+ *
+ * A CSV or XLSX sheet with one field per row is mapped onto
+ * `AgriculturalParameters` by its column headers, and each row is validated
+ * on its own so one bad row does not reject the sheet. The rows are then
+ * sent to the recommendation API by the batch panel, and the results are
+ * written back out as one CSV or JSON file.
+ */
+
+import { z } from 'zod';
+import readXlsxFile from 'read-excel-file';
+import {
+  AgriculturalParameters,
+  AgriculturalRecommendationResult,
+} from '@/lib/maps-grounding';
+import type { MapMarker } from '@/lib/state';
+import { csvValue, parseCsvNumber, splitCsv } from '@/lib/utils';
+import { SoilTextureSchema } from '@/lib/farm-profiles';
+import { CropProfile } from '@/lib/agronomy/crop-catalog';
+import { KOPPEN_CODES, koppenToClimateZone, lookupKoppen } from '@/lib/agronomy/koppen';
+import { seasonMonths } from '@/lib/agronomy/planting-window';
+import { classifyTexture, TEXTURE_TO_SOIL_TYPE } from '@/lib/agronomy/soil-texture';
+import { SuitabilityClass, rankCrops } from '@/lib/agronomy/suitability';
+
+// Bump when the JSON result format changes.
+export const BATCH_RESULTS_VERSION = 1;
+
+// Larger sheets are better split; each row is one API request.
+export const MAX_BATCH_ROWS = 500;
+
+export type BatchColumn =
+  | 'name'
+  | 'latitude'
+  | 'longitude'
+  | 'soilType'
+  | 'climate'
+  | 'koppenCode'
+  | 'season'
+  | 'rainfall'
+  | 'temperature'
+  | 'irrigationAvailable'
+  | 'farmSize'
+  | 'previousCrop'
+  | 'ph'
+  | 'organicMatterPct'
+  | 'sand'
+  | 'silt'
+  | 'clay';
+
+/**
+ * Recognized columns, matched against headers with spaces, underscores and
+ * units removed, e.g. "Soil Type", "soil_type" and "Rainfall (mm)".
+ * Latitude and longitude are required; the other columns may be missing.
+ */
+export const BATCH_COLUMNS: { key: BatchColumn; label: string; pattern: RegExp }[] = [
+  { key: 'name', label: 'Name', pattern: /^(name|field|fieldname|farm|id)$/ },
+  { key: 'latitude', label: 'Latitude', pattern: /^(lat|latitude)$/ },
+  { key: 'longitude', label: 'Longitude', pattern: /^(lng|lon|long|longitude)$/ },
+  { key: 'soilType', label: 'Soil type', pattern: /^soil(type)?$/ },
+  { key: 'climate', label: 'Climate', pattern: /^climate(zone)?$/ },
+  { key: 'koppenCode', label: 'Köppen class', pattern: /^koppen(class|code)?$/ },
+  { key: 'season', label: 'Season', pattern: /^season$/ },
+  { key: 'rainfall', label: 'Rainfall (mm)', pattern: /^(rainfall|rain|precipitation)$/ },
+  { key: 'temperature', label: 'Temperature (°C)', pattern: /^(temperature|temp)$/ },
+  { key: 'irrigationAvailable', label: 'Irrigation', pattern: /^(irrigation|irrigated|irrigationavailable)$/ },
+  { key: 'farmSize', label: 'Farm size (ha)', pattern: /^(farmsize|size|area|hectares)$/ },
+  { key: 'previousCrop', label: 'Previous crop', pattern: /^(previouscrop|lastcrop)$/ },
+  { key: 'ph', label: 'pH', pattern: /^(soil)?ph$/ },
+  { key: 'organicMatterPct', label: 'Organic matter (%)', pattern: /^(om|organicmatter)$/ },
+  { key: 'sand', label: 'Sand (%)', pattern: /^sand$/ },
+  { key: 'silt', label: 'Silt (%)', pattern: /^silt$/ },
+  { key: 'clay', label: 'Clay (%)', pattern: /^clay$/ },
+];
+
+const COLUMN_LABELS = Object.fromEntries(
+  BATCH_COLUMNS.map(column => [column.key, column.label]),
+) as Record<BatchColumn, string>;
+
+// Common spellings accepted for the form's choices.
+const CHOICE_ALIASES: Record<string, string> = {
+  sand: 'sandy',
+  loam: 'loamy',
+  silty: 'silt',
+  autumn: 'fall',
+};
+
+const normalizeHeader = (header: string) =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, '')
+    .replace(/(_pct|_mm|_ha|_c)$/, '')
+    .replace(/[^a-z0-9]/g, '');
+
+const number = (text: string | undefined) => (text ? parseCsvNumber(text) : undefined);
+
+const choice = (text: string | undefined) => {
+  const value = text?.toLowerCase();
+  return value ? (CHOICE_ALIASES[value] ?? value) : undefined;
+};
+
+const yesNo = (text: string | undefined) => {
+  const value = text?.toLowerCase();
+  if (!value) return undefined;
+  if (['yes', 'y', 'true', '1'].includes(value)) return true;
+  if (['no', 'n', 'false', '0'].includes(value)) return false;
+  return value;
+};
+
+const numberField = (min?: number, max?: number) => {
+  let schema = z.number({ error: 'expected a number' });
+  if (min !== undefined) schema = schema.min(min, { error: `expected at least ${min}` });
+  if (max !== undefined) schema = schema.max(max, { error: `expected at most ${max}` });
+  return schema;
+};
+
+// One row as read from the sheet, before the form defaults are derived.
+const BatchRowSchema = z.object({
+  latitude: numberField(-90, 90),
+  longitude: numberField(-180, 180),
+  soilType: z
+    .enum(['clay', 'sandy', 'loamy', 'silt', 'peat'], {
+      error: 'expected clay, sandy, loamy, silt or peat',
+    })
+    .optional(),
+  climate: z
+    .enum(['tropical', 'arid', 'temperate', 'continental', 'polar'], {
+      error: 'expected tropical, arid, temperate, continental or polar',
+    })
+    .optional(),
+  koppenCode: z.enum(KOPPEN_CODES, { error: 'not a Köppen–Geiger class, e.g. Cfa' }).optional(),
+  season: z.enum(['spring', 'summer', 'fall', 'winter'], {
+    error: 'expected spring, summer, fall or winter',
+  }),
+  rainfall: numberField(0).optional(),
+  temperature: numberField(-50, 60).optional(),
+  irrigationAvailable: z.boolean({ error: 'expected yes or no' }).optional(),
+  farmSize: numberField().positive({ error: 'expected more than 0' }).optional(),
+  previousCrop: z.string().optional(),
+  ph: numberField(0, 14).optional(),
+  organicMatterPct: numberField(0, 100).optional(),
+  sand: numberField(0, 100).optional(),
+  silt: numberField(0, 100).optional(),
+  clay: numberField(0, 100).optional(),
+});
+
+/** A sheet row mapped onto the form parameters, or the reasons it could not be. */
+export interface BatchRow {
+  // The row number in the sheet, counting the header as row 1.
+  row: number;
+  name: string;
+  params?: AgriculturalParameters;
+  errors: string[];
+}
+
+export type BatchStatus = 'invalid' | 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  invalid: 'Invalid',
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/** A row's progress through the batch and its results. */
+export interface BatchJob extends BatchRow {
+  status: BatchStatus;
+  // The best crop of the offline ranking, for comparison with the report.
+  offlineTop?: { crop: string; score: number; suitabilityClass: SuitabilityClass };
+  result?: Omit<AgriculturalRecommendationResult, 'response'>;
+  error?: string;
+  attempts: number;
+}
+
+/**
+ * Maps one sheet row onto the form parameters. Climate and the Köppen class
+ * are looked up from the coordinates when missing, and the soil type is
+ * classified from sand, silt and clay when only those are given.
+ */
+function parseBatchRow(header: (BatchColumn | null)[], cells: string[], row: number): BatchRow {
+  const raw: Partial<Record<BatchColumn, string>> = {};
+  header.forEach((key, index) => {
+    if (key && cells[index]) raw[key] = cells[index];
+  });
+  const koppenText = raw.koppenCode?.toLowerCase();
+  const input = {
+    latitude: number(raw.latitude),
+    longitude: number(raw.longitude),
+    soilType: choice(raw.soilType),
+    climate: choice(raw.climate),
+    koppenCode: koppenText
+      ? (KOPPEN_CODES.find(code => code.toLowerCase() === koppenText) ?? raw.koppenCode)
+      : undefined,
+    season: choice(raw.season),
+    rainfall: number(raw.rainfall),
+    temperature: number(raw.temperature),
+    irrigationAvailable: yesNo(raw.irrigationAvailable),
+    farmSize: number(raw.farmSize),
+    previousCrop: raw.previousCrop,
+    ph: number(raw.ph),
+    organicMatterPct: number(raw.organicMatterPct),
+    sand: number(raw.sand),
+    silt: number(raw.silt),
+    clay: number(raw.clay),
+  };
+  const name = raw.name ?? `Row ${row}`;
+
+  const result = BatchRowSchema.safeParse(input);
+  if (!result.success) {
+    return {
+      row,
+      name,
+      errors: result.error.issues.map(issue => {
+        const key = issue.path[0] as BatchColumn;
+        return raw[key] === undefined
+          ? `${COLUMN_LABELS[key]} is missing`
+          : `${COLUMN_LABELS[key]} "${raw[key]}": ${issue.message}`;
+      }),
+    };
+  }
+  const values = result.data;
+
+  const errors: string[] = [];
+  const textureValues = [values.sand, values.silt, values.clay];
+  let soilTexture: z.infer<typeof SoilTextureSchema> | undefined;
+  if (textureValues.every(value => value !== undefined)) {
+    const texture = SoilTextureSchema.safeParse({
+      sand: values.sand,
+      silt: values.silt,
+      clay: values.clay,
+    });
+    if (texture.success) soilTexture = texture.data;
+    else errors.push(...texture.error.issues.map(issue => issue.message));
+  } else if (textureValues.some(value => value !== undefined)) {
+    errors.push('Sand, silt and clay must be given together');
+  }
+  const textureClass = soilTexture ? classifyTexture(soilTexture) : undefined;
+  const soilType = values.soilType ?? (textureClass && TEXTURE_TO_SOIL_TYPE[textureClass]);
+  if (!soilType && !errors.length) errors.push('Soil type is missing (or give sand, silt and clay)');
+
+  const lookup = lookupKoppen(values.latitude, values.longitude);
+  const koppenCode =
+    values.koppenCode ??
+    (!values.climate || values.climate === lookup.climate ? lookup.code : undefined);
+  const climate = values.climate ?? koppenToClimateZone(koppenCode!);
+  if (values.koppenCode && values.climate && koppenToClimateZone(values.koppenCode) !== values.climate) {
+    errors.push(`Köppen class ${values.koppenCode} is not a ${values.climate} climate`);
+  }
+  if (errors.length || !soilType) return { row, name, errors };
+
+  const soilTest =
+    values.ph !== undefined || values.organicMatterPct !== undefined
+      ? { ph: values.ph, organicMatterPct: values.organicMatterPct }
+      : undefined;
+  return {
+    row,
+    name,
+    errors,
+    params: {
+      latitude: values.latitude,
+      longitude: values.longitude,
+      soilType,
+      climate,
+      season: values.season,
+      plantingMonths: seasonMonths(values.season, values.latitude),
+      rainfall: values.rainfall,
+      temperature: values.temperature,
+      irrigationAvailable: values.irrigationAvailable,
+      farmSize: values.farmSize,
+      previousCrop: values.previousCrop,
+      koppenCode,
+      soilTest,
+      soilTexture,
+      textureClass,
+    },
+  };
+}
+
+/**
+ * Maps the rows of a sheet, the first being the header, onto parameters.
+ * @throws Error when the sheet is empty, too long or has no coordinate columns.
+ */
+export function parseBatchRows(rows: string[][]): BatchRow[] {
+  const dataRows = rows
+    .map((cells, index) => ({ cells: cells.map(cell => cell.trim()), row: index + 1 }))
+    .filter(({ cells }) => cells.some(cell => cell));
+  if (dataRows.length < 2) {
+    throw new Error('The sheet needs a header row and at least one field.');
+  }
+  if (dataRows.length - 1 > MAX_BATCH_ROWS) {
+    throw new Error(`The sheet has ${dataRows.length - 1} fields; split it into batches of ${MAX_BATCH_ROWS}.`);
+  }
+  const header = dataRows[0].cells.map(cell => {
+    const normalized = normalizeHeader(cell);
+    return BATCH_COLUMNS.find(column => column.pattern.test(normalized))?.key ?? null;
+  });
+  if (!header.includes('latitude') || !header.includes('longitude')) {
+    throw new Error('The sheet needs latitude and longitude columns.');
+  }
+  return dataRows.slice(1).map(({ cells, row }) => parseBatchRow(header, cells, row));
+}
+
+/**
+ * Reads an uploaded CSV or XLSX file (the first worksheet) into rows.
+ * @throws Error with a readable description when the file cannot be read.
+ */
+export async function readBatchFile(file: File): Promise<BatchRow[]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    let rows: string[][];
+    try {
+      rows = (await readXlsxFile(file)).map(cells =>
+        cells.map(cell => (cell === null || cell === undefined ? '' : String(cell))),
+      );
+    } catch (e) {
+      throw new Error(`Could not read the workbook: ${(e as Error).message}`);
+    }
+    return parseBatchRows(rows);
+  }
+  return parseBatchRows(splitCsv(await file.text()));
+}
+
+/**
+ * Starts a job per row, with the offline suitability leader of each valid
+ * row for comparison.
+ */
+export function createBatchJobs(rows: BatchRow[], catalog: CropProfile[]): BatchJob[] {
+  return rows.map(row => {
+    const top = row.params && rankCrops(row.params, catalog)[0];
+    return {
+      ...row,
+      status: row.params ? 'queued' : 'invalid',
+      offlineTop: top
+        ? { crop: top.crop.name, score: top.score, suitabilityClass: top.suitabilityClass }
+        : undefined,
+      attempts: 0,
+    };
+  });
+}
+
+/**
+ * The crops the report recommends, best first.
+ */
+export function recommendedCrops(job: BatchJob): string[] {
+  return job.result?.report?.crops.map(crop => crop.crop) ?? [];
+}
+
+/**
+ * A map marker for a valid row, labeled with its best recommendation once
+ * there is one.
+ */
+export function batchMarker(job: BatchJob): MapMarker | null {
+  if (!job.params) return null;
+  const top = recommendedCrops(job)[0];
+  return {
+    position: { lat: job.params.latitude, lng: job.params.longitude, altitude: 1 },
+    label: top ? `${job.name}: ${top}` : job.name,
+    showLabel: true,
+  };
+}
+
+/**
+ * Writes the batch as CSV, one row per field with its inputs, status and
+ * recommended crops.
+ */
+export function batchResultsToCsv(jobs: BatchJob[]): string {
+  const header = [
+    'row',
+    'name',
+    'latitude',
+    'longitude',
+    'soil_type',
+    'climate',
+    'season',
+    'status',
+    'errors',
+    'recommended_crops',
+    'top_crop_yield',
+    'offline_top_crop',
+    'offline_score',
+  ];
+  const lines = jobs.map(job => {
+    const topCrop = job.result?.report?.crops[0];
+    return [
+      job.row,
+      job.name,
+      job.params?.latitude,
+      job.params?.longitude,
+      job.params?.soilType,
+      job.params?.climate,
+      job.params?.season,
+      job.status,
+      [...job.errors, job.error, job.result?.reportError].filter(Boolean).join('; '),
+      recommendedCrops(job).join('; '),
+      topCrop &&
+        `${topCrop.expectedYield.min}-${topCrop.expectedYield.max} ${topCrop.expectedYield.unit}`,
+      job.offlineTop?.crop,
+      job.offlineTop?.score,
+    ]
+      .map(csvValue)
+      .join(',');
+  });
+  return [header.join(','), ...lines].join('\n');
+}
+
+/**
+ * Writes the batch as JSON with the full report of every field, and the
+ * model's text where it did not return a valid report.
+ */
+export function batchResultsToJson(jobs: BatchJob[]): string {
+  return JSON.stringify(
+    {
+      version: BATCH_RESULTS_VERSION,
+      generatedAt: new Date().toISOString(),
+      fields: jobs.map(job => ({
+        row: job.row,
+        name: job.name,
+        status: job.status,
+        params: job.params,
+        errors: job.errors.length ? job.errors : undefined,
+        error: job.error,
+        offlineTop: job.offlineTop,
+        report: job.result?.report ?? undefined,
+        text: job.result && !job.result.report ? job.result.text : undefined,
+      })),
+    },
+    null,
+    2,
+  );
+}
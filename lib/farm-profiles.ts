@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Saved farm and field profiles.
+ *
+ * A farm groups named fields; each field keeps what the recommendation form
+ * needs (location, soil, irrigation, size) plus its boundary, crop history,
+ * latest soil test and what-if scenarios.
+ * Profiles are described by zod schemas so imported files are validated
+ * before they reach the store.
+ */
+
+import { z } from 'zod';
+import { AgriculturalParameters } from '@/lib/maps-grounding';
+import type { MapMarker } from '@/lib/state';
+import {
+  TEXTURE_CLASS_LABELS,
+  classifyTexture,
+  validateTexture,
+} from '@/lib/agronomy/soil-texture';
+
+// Bump when the file format changes.
+export const FARM_PROFILES_VERSION = 1;
+
+export const LatLngSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export const CropHistoryEntrySchema = z.object({
+  year: z.number().int(),
+  crop: z.string().min(1),
+});
+
+// Latest laboratory soil test of the field.
+export const SoilTestSchema = z.object({
+  ph: z.number().min(0).max(14).optional(),
+  organicMatterPct: z.number().min(0).max(100).optional(),
+  nitrogenPpm: z.number().nonnegative().optional(),
+  phosphorusPpm: z.number().nonnegative().optional(),
+  potassiumPpm: z.number().nonnegative().optional(),
+  ecDsM: z.number().nonnegative().optional(),
+  cecCmolKg: z.number().nonnegative().optional(),
+});
+
+// Sand, silt and clay percentages from a lab texture analysis.
+export const SoilTextureSchema = z
+  .object({
+    sand: z.number().min(0).max(100),
+    silt: z.number().min(0).max(100),
+    clay: z.number().min(0).max(100),
+  })
+  .refine(texture => validateTexture(texture) === null, {
+    message: 'Expected sand, silt and clay to add up to 100%',
+  });
+
+// A named what-if parameter set, e.g. "With irrigation". Keys beyond the
+// ones checked here are kept as they are.
+export const ScenarioSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  params: z
+    .looseObject({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      soilType: z.enum(['clay', 'sandy', 'loamy', 'silt', 'peat']),
+      climate: z.enum(['tropical', 'arid', 'temperate', 'continental', 'polar']),
+      season: z.enum(['spring', 'summer', 'fall', 'winter']),
+      rainfall: z.number().nonnegative().optional(),
+      temperature: z.number().optional(),
+      irrigationAvailable: z.boolean().optional(),
+      farmSize: z.number().positive().optional(),
+      previousCrop: z.string().optional(),
+    })
+    .transform(params => params as AgriculturalParameters),
+});
+
+export const FieldProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  location: LatLngSchema,
+  // Field outline as an ordered list of vertices; empty until drawn.
+  boundary: z.array(LatLngSchema).default([]),
+  soilType: z.enum(['clay', 'sandy', 'loamy', 'silt', 'peat']),
+  soilTexture: SoilTextureSchema.optional(),
+  climate: z
+    .enum(['tropical', 'arid', 'temperate', 'continental', 'polar'])
+    .optional(),
+  irrigationAvailable: z.boolean().optional(),
+  // Cropped area, in hectares.
+  sizeHa: z.number().positive().optional(),
+  cropHistory: z.array(CropHistoryEntrySchema).default([]),
+  soilTest: SoilTestSchema.optional(),
+  scenarios: z.array(ScenarioSchema).default([]),
+  updatedAt: z.string().optional(),
+});
+
+export const FarmProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  fields: z.array(FieldProfileSchema),
+});
+
+/** The file format used to import and export farm profiles. */
+export const FarmProfilesFileSchema = z.object({
+  version: z.number().int(),
+  farms: z.array(FarmProfileSchema),
+});
+
+export type LatLng = z.infer<typeof LatLngSchema>;
+export type Scenario = z.infer<typeof ScenarioSchema>;
+export type FieldProfile = z.infer<typeof FieldProfileSchema>;
+export type FarmProfile = z.infer<typeof FarmProfileSchema>;
+export type FarmProfilesFile = z.infer<typeof FarmProfilesFileSchema>;
+
+export const newProfileId = () => crypto.randomUUID();
+
+/**
+ * Finds a field by id, together with the farm it belongs to.
+ */
+export function findField(
+  farms: FarmProfile[],
+  fieldId: string | null,
+): { farm: FarmProfile; field: FieldProfile } | null {
+  if (!fieldId) return null;
+  for (const farm of farms) {
+    const field = farm.fields.find(f => f.id === fieldId);
+    if (field) return { farm, field };
+  }
+  return null;
+}
+
+/**
+ * Finds a field from a free-text name, as spoken to the live agent. Accepts
+ * either the field name or "Farm / Field".
+ */
+export function findFieldByName(
+  farms: FarmProfile[],
+  name: string,
+): { farm: FarmProfile; field: FieldProfile } | null {
+  const query = name.trim().toLowerCase();
+  if (!query) return null;
+  for (const farm of farms) {
+    for (const field of farm.fields) {
+      const fieldName = field.name.toLowerCase();
+      const fullName = `${farm.name} / ${field.name}`.toLowerCase();
+      if (query === fieldName || query === fullName) return { farm, field };
+    }
+  }
+  for (const farm of farms) {
+    const field = farm.fields.find(f => f.name.toLowerCase().includes(query));
+    if (field) return { farm, field };
+  }
+  return null;
+}
+
+/**
+ * The most recent crop in a field's history, if any.
+ */
+export function latestCrop(field: FieldProfile): string | undefined {
+  return [...field.cropHistory].sort((a, b) => b.year - a.year)[0]?.crop;
+}
+
+/**
+ * The form parameters a saved field provides. Season, rainfall and
+ * temperature depend on the planting plan and are left to the caller.
+ */
+export function fieldToParameters(
+  field: FieldProfile,
+): Partial<AgriculturalParameters> {
+  return {
+    latitude: field.location.lat,
+    longitude: field.location.lng,
+    soilType: field.soilType,
+    ...(field.soilTexture && {
+      soilTexture: field.soilTexture,
+      textureClass: classifyTexture(field.soilTexture),
+    }),
+    ...(field.climate && { climate: field.climate }),
+    irrigationAvailable: field.irrigationAvailable,
+    farmSize: field.sizeHa,
+    previousCrop: latestCrop(field),
+    fieldBoundary: field.boundary.length >= 3 ? field.boundary : undefined,
+    soilTest: field.soilTest,
+  };
+}
+
+/**
+ * Builds a field profile from the form parameters, keeping the id (and, when
+ * none are given, the scenarios) of `existing` when updating a saved field.
+ */
+export function fieldFromParameters(
+  name: string,
+  params: AgriculturalParameters,
+  cropHistory: FieldProfile['cropHistory'],
+  existing?: FieldProfile,
+  scenarios: Scenario[] = existing?.scenarios ?? [],
+): FieldProfile {
+  return {
+    id: existing?.id ?? newProfileId(),
+    name,
+    location: { lat: params.latitude, lng: params.longitude },
+    boundary: params.fieldBoundary ?? [],
+    soilType: params.soilType,
+    soilTexture: params.soilTexture,
+    climate: params.climate,
+    irrigationAvailable: params.irrigationAvailable,
+    sizeHa: params.farmSize,
+    cropHistory:
+      cropHistory.length === 0 && params.previousCrop
+        ? [{ year: new Date().getFullYear() - 1, crop: params.previousCrop }]
+        : cropHistory,
+    soilTest: params.soilTest,
+    scenarios,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * A map marker for a saved field.
+ */
+export function fieldMarker(farm: FarmProfile, field: FieldProfile): MapMarker {
+  return {
+    position: { ...field.location, altitude: 1 },
+    label: `${farm.name} / ${field.name}`,
+    showLabel: true,
+  };
+}
+
+/**
+ * Summarizes saved fields as plain text, for tool responses.
+ */
+export function summarizeFarms(farms: FarmProfile[]): string {
+  const lines = farms.flatMap(farm =>
+    farm.fields.map(field => {
+      const details = [
+        `${field.location.lat.toFixed(4)}, ${field.location.lng.toFixed(4)}`,
+        field.soilTexture
+          ? `${TEXTURE_CLASS_LABELS[classifyTexture(field.soilTexture)].toLowerCase()} soil (${field.soilType})`
+          : `${field.soilType} soil`,
+        field.climate && `${field.climate} climate`,
+        field.sizeHa && `${field.sizeHa} ha`,
+        field.irrigationAvailable && 'irrigated',
+        latestCrop(field) && `last crop ${latestCrop(field)}`,
+      ].filter(Boolean);
+      return `- ${farm.name} / ${field.name}: ${details.join(', ')}`;
+    }),
+  );
+  return lines.length ? lines.join('\n') : 'No saved fields.';
+}
+
+/**
+ * Parses an imported farm profiles file.
+ * @throws Error with a readable description when the file is invalid.
+ */
+export function parseFarmProfilesFile(text: string): FarmProfilesFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Farm profiles file is not valid JSON: ${e}`);
+  }
+  const result = FarmProfilesFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(z.prettifyError(result.error));
+  }
+  return result.data;
+}
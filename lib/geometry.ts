@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Geodesic helpers for field boundaries drawn on the map.
+ */
+
+export interface LatLngPoint {
+  lat: number;
+  lng: number;
+}
+
+// Mean Earth radius, in meters.
+const EARTH_RADIUS_M = 6371008.8;
+const SQUARE_METERS_PER_HECTARE = 10000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Area of a polygon on the sphere, in square meters. The ring may be open or
+ * closed; edges are treated as geodesics, as in the Maps geometry library.
+ */
+export function polygonAreaM2(ring: LatLngPoint[]): number {
+  if (ring.length < 3) return 0;
+  let total = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    total +=
+      toRadians(b.lng - a.lng) *
+      (2 + Math.sin(toRadians(a.lat)) + Math.sin(toRadians(b.lat)));
+  }
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+}
+
+export const polygonAreaHa = (ring: LatLngPoint[]) =>
+  polygonAreaM2(ring) / SQUARE_METERS_PER_HECTARE;
+
+/**
+ * Area-weighted centroid of a polygon. Field-sized polygons are small enough
+ * to treat as planar once longitudes are scaled by the cosine of latitude.
+ * Degenerate rings fall back to the vertex average.
+ */
+export function polygonCentroid(ring: LatLngPoint[]): LatLngPoint | null {
+  if (ring.length === 0) return null;
+  const origin = ring[0];
+  const scale = Math.cos(toRadians(origin.lat));
+  const points = ring.map(p => ({
+    x: (p.lng - origin.lng) * scale,
+    y: p.lat - origin.lat,
+  }));
+
+  let area2 = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.x * b.y - b.x * a.y;
+    area2 += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+
+  if (Math.abs(area2) < 1e-12) {
+    const sum = ring.reduce(
+      (acc, p) => ({ lat: acc.lat + p.lat, lng: acc.lng + p.lng }),
+      { lat: 0, lng: 0 },
+    );
+    return { lat: sum.lat / ring.length, lng: sum.lng / ring.length };
+  }
+
+  return {
+    lat: origin.lat + cy / (3 * area2),
+    lng: origin.lng + cx / (3 * area2) / scale,
+  };
+}
+
+/**
+ * Whether a point lies inside a polygon, by ray casting. Like
+ * `polygonCentroid`, treats field-sized polygons as planar.
+ */
+export function pointInPolygon(point: LatLngPoint, ring: LatLngPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if (
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
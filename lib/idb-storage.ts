@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { StateStorage } from 'zustand/middleware';
+
+const DB_NAME = 'crop-prediction-map';
+const STORE_NAME = 'keyval';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(
+      db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * A key-value IndexedDB storage for the zustand `persist` middleware. Used for
+ * data that can outgrow localStorage, such as field boundaries.
+ */
+export const idbStorage: StateStorage = {
+  getItem: async name =>
+    (await runRequest<string | undefined>('readonly', store => store.get(name))) ??
+    null,
+  setItem: async (name, value) => {
+    await runRequest('readwrite', store => store.put(value, name));
+  },
+  removeItem: async name => {
+    await runRequest('readwrite', store => store.delete(name));
+  },
+};
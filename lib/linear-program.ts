@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A small dense simplex solver for linear programs of the form
+ * maximize c·x subject to A·x ≤ b, x ≥ 0, with b ≥ 0.
+ *
+ * With non-negative bounds the slack variables form a feasible starting
+ * basis, so no phase one is needed. Bland's rule keeps degenerate problems
+ * from cycling; the problems solved here have tens of variables.
+ */
+
+export interface LinearConstraint {
+  coefficients: number[];
+  // Upper bound of the row, at least zero.
+  bound: number;
+}
+
+export interface LinearProgram {
+  // Objective coefficients to maximize, one per variable.
+  objective: number[];
+  constraints: LinearConstraint[];
+}
+
+export interface LinearProgramSolution {
+  status: 'optimal' | 'unbounded';
+  // Variable values, one per objective coefficient.
+  x: number[];
+  objective: number;
+  // Objective gain per extra unit of each constraint bound (the dual values).
+  shadowPrices: number[];
+  // Unused amount of each constraint bound.
+  slacks: number[];
+}
+
+const EPSILON = 1e-9;
+const MAX_ITERATIONS = 5000;
+
+/**
+ * Solves a linear program with the tableau simplex method.
+ * @throws Error if the dimensions disagree or a bound is negative.
+ */
+export function solveLinearProgram({
+  objective,
+  constraints,
+}: LinearProgram): LinearProgramSolution {
+  const n = objective.length;
+  const m = constraints.length;
+  constraints.forEach((row, i) => {
+    if (row.coefficients.length !== n) {
+      throw new Error(`Constraint ${i + 1} has ${row.coefficients.length} coefficients, expected ${n}.`);
+    }
+    if (!(row.bound >= 0)) {
+      throw new Error(`Constraint ${i + 1} has a negative bound.`);
+    }
+  });
+
+  // Rows are the constraints with one slack column each, then the right-hand
+  // side; the last row holds the reduced costs, negated for maximizing.
+  const width = n + m + 1;
+  const tableau = constraints.map((row, i) => {
+    const line = new Array<number>(width).fill(0);
+    row.coefficients.forEach((a, j) => (line[j] = a));
+    line[n + i] = 1;
+    line[width - 1] = row.bound;
+    return line;
+  });
+  const costs = new Array<number>(width).fill(0);
+  objective.forEach((c, j) => (costs[j] = -c));
+  tableau.push(costs);
+  const basis = constraints.map((_, i) => n + i);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const entering = costs.findIndex((c, j) => j < width - 1 && c < -EPSILON);
+    if (entering === -1) return readSolution(tableau, basis, n, m);
+
+    let leaving = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < m; i++) {
+      const a = tableau[i][entering];
+      if (a <= EPSILON) continue;
+      const ratio = tableau[i][width - 1] / a;
+      if (
+        ratio < bestRatio - EPSILON ||
+        (Math.abs(ratio - bestRatio) <= EPSILON && basis[i] < basis[leaving])
+      ) {
+        bestRatio = ratio;
+        leaving = i;
+      }
+    }
+    if (leaving === -1) {
+      return {
+        status: 'unbounded',
+        x: new Array<number>(n).fill(0),
+        objective: Infinity,
+        shadowPrices: new Array<number>(m).fill(0),
+        slacks: new Array<number>(m).fill(0),
+      };
+    }
+
+    const pivotRow = tableau[leaving];
+    const pivot = pivotRow[entering];
+    for (let j = 0; j < width; j++) pivotRow[j] /= pivot;
+    tableau.forEach((row, i) => {
+      if (i === leaving) return;
+      const factor = row[entering];
+      if (Math.abs(factor) <= EPSILON) return;
+      for (let j = 0; j < width; j++) row[j] -= factor * pivotRow[j];
+    });
+    basis[leaving] = entering;
+  }
+  throw new Error('The linear program did not converge.');
+}
+
+function readSolution(
+  tableau: number[][],
+  basis: number[],
+  n: number,
+  m: number,
+): LinearProgramSolution {
+  const width = n + m + 1;
+  const values = new Array<number>(n + m).fill(0);
+  basis.forEach((column, i) => (values[column] = Math.max(0, tableau[i][width - 1])));
+  const costs = tableau[m];
+  return {
+    status: 'optimal',
+    x: values.slice(0, n),
+    objective: costs[width - 1],
+    shadowPrices: costs.slice(n, n + m).map(price => (Math.abs(price) <= EPSILON ? 0 : price)),
+    slacks: values.slice(n),
+  };
+}
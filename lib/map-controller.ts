@@ -25,7 +25,19 @@
 
 import { Map3DCameraProps } from '@/components/map-3d';
 import { lookAtWithPadding } from './look-at';
-import { MapMarker, useMapStore } from './state';
+import {
+  FrostRiskMarker,
+  MapMarker,
+  PickedLocation,
+  OverlayCell,
+  useMapStore,
+} from './state';
+import { LatLngPoint } from './geometry';
+
+type BoundaryEditOptions = {
+  selectedVertex: number | null;
+  onVertexClick: (index: number) => void;
+};
 
 type MapControllerDependencies = {
   map: google.maps.maps3d.Map3DElement;
@@ -40,6 +52,14 @@ export class MapController {
   private map: google.maps.maps3d.Map3DElement;
   private maps3dLib: google.maps.Maps3DLibrary;
   private elevationLib: google.maps.ElevationLibrary;
+  private markerElements: HTMLElement[] = [];
+  private boundaryElements: HTMLElement[] = [];
+  private pickedLocationElement: HTMLElement | null = null;
+  private frostRiskElement: HTMLElement | null = null;
+  private terrainElements: HTMLElement[] = [];
+  private surveyRegionElements: HTMLElement[] = [];
+  private surveyElements: HTMLElement[] = [];
+  private surveySelectionElement: HTMLElement | null = null;
 
   constructor(deps: MapControllerDependencies) {
     this.map = deps.map;
@@ -52,6 +72,22 @@ export class MapController {
    */
   clearMap() {
     this.map.innerHTML = '';
+    this.markerElements = [];
+    this.boundaryElements = [];
+    this.pickedLocationElement = null;
+    this.frostRiskElement = null;
+    this.terrainElements = [];
+    this.surveyRegionElements = [];
+    this.surveyElements = [];
+    this.surveySelectionElement = null;
+  }
+
+  /**
+   * Removes the markers added with `addMarkers`, leaving the field boundary.
+   */
+  clearMarkers() {
+    this.markerElements.forEach(element => element.remove());
+    this.markerElements = [];
   }
 
   /**
@@ -84,7 +120,185 @@ export class MapController {
       });
       
       this.map.appendChild(marker);
+      this.markerElements.push(marker);
+    }
+  }
+
+  /**
+   * Shows the farm location picked on the map, replacing any previous one.
+   * Pressing the marker starts dragging it; it is dropped where the map is
+   * next clicked.
+   * @param location - The picked point and its label, or null to remove it.
+   * @param isDragging - Whether the marker is being dragged.
+   */
+  setPickedLocation(location: PickedLocation | null, isDragging = false) {
+    this.pickedLocationElement?.remove();
+    this.pickedLocationElement = null;
+    if (!location) return;
+
+    const marker = new this.maps3dLib.Marker3DInteractiveElement({
+      position: { ...location.position, altitude: 1 },
+      altitudeMode: 'RELATIVE_TO_MESH',
+      label: isDragging ? `${location.label} (moving)` : location.label,
+      title: 'Drag to move the farm location',
+      drawsWhenOccluded: true,
+    });
+    marker.style.cursor = isDragging ? 'grabbing' : 'grab';
+    marker.addEventListener('pointerdown', () => {
+      useMapStore.getState().setIsDraggingLocation(true);
+    });
+    this.map.appendChild(marker);
+    this.pickedLocationElement = marker;
+  }
+
+  /**
+   * Shows the frost window at the farm, replacing any previous one.
+   * @param frostRisk - The frost label and crop risks, or null to remove it.
+   */
+  setFrostRisk(frostRisk: FrostRiskMarker | null) {
+    this.frostRiskElement?.remove();
+    this.frostRiskElement = null;
+    if (!frostRisk) return;
+
+    const marker = new this.maps3dLib.Marker3DInteractiveElement({
+      // Raised above the farm location marker so both labels stay readable.
+      position: { ...frostRisk.position, altitude: 60 },
+      altitudeMode: 'RELATIVE_TO_MESH',
+      label: frostRisk.label,
+      title: frostRisk.title,
+      extruded: true,
+      drawsWhenOccluded: true,
+    });
+    this.map.appendChild(marker);
+    this.frostRiskElement = marker;
+  }
+
+  /**
+   * Renders the terrain risk cells of a field as ground-clamped polygons,
+   * replacing any previous ones.
+   * @param cells - The cells and their fill colors; empty to remove them.
+   */
+  setTerrainOverlay(cells: OverlayCell[]) {
+    this.terrainElements.forEach(element => element.remove());
+    this.terrainElements = cells.map(cell => this.addOverlayCell(cell));
+  }
+
+  /**
+   * Renders the region of a suitability survey as an outline, replacing any
+   * previous one. While the region is being drawn, its first corner is
+   * marked.
+   * @param region - The region vertices, as an open ring.
+   * @param anchor - The first corner clicked, if the second is pending.
+   */
+  setSurveyRegion(region: LatLngPoint[], anchor: LatLngPoint | null) {
+    this.surveyRegionElements.forEach(element => element.remove());
+    this.surveyRegionElements = [];
+
+    if (region.length >= 3) {
+      const outline = new this.maps3dLib.Polyline3DElement({
+        altitudeMode: 'CLAMP_TO_GROUND' as google.maps.maps3d.AltitudeMode,
+        coordinates: [...region, region[0]],
+        strokeColor: '#ffc107',
+        strokeWidth: 4,
+        drawsOccludedSegments: true,
+      });
+      this.map.appendChild(outline);
+      this.surveyRegionElements.push(outline);
+    }
+    if (anchor) {
+      const marker = new this.maps3dLib.Marker3DInteractiveElement({
+        position: { ...anchor, altitude: 1 },
+        altitudeMode: 'RELATIVE_TO_MESH',
+        label: 'Corner 1',
+        title: 'Click the opposite corner of the survey region',
+        drawsWhenOccluded: true,
+      });
+      this.map.appendChild(marker);
+      this.surveyRegionElements.push(marker);
+    }
+  }
+
+  /**
+   * Renders the suitability cells of a survey, replacing any previous ones.
+   * @param cells - The cells and their fill colors; empty to remove them.
+   */
+  setSurveyOverlay(cells: OverlayCell[]) {
+    this.surveyElements.forEach(element => element.remove());
+    this.surveyElements = cells.map(cell => this.addOverlayCell(cell));
+  }
+
+  /**
+   * Outlines the survey cell selected for its breakdown.
+   * @param polygon - The cell outline, or null to remove it.
+   */
+  setSurveySelection(polygon: LatLngPoint[] | null) {
+    this.surveySelectionElement?.remove();
+    this.surveySelectionElement = null;
+    if (!polygon) return;
+
+    const outline = new this.maps3dLib.Polyline3DElement({
+      altitudeMode: 'CLAMP_TO_GROUND' as google.maps.maps3d.AltitudeMode,
+      coordinates: [...polygon, polygon[0]],
+      strokeColor: '#ffffff',
+      strokeWidth: 4,
+      drawsOccludedSegments: true,
+    });
+    this.map.appendChild(outline);
+    this.surveySelectionElement = outline;
+  }
+
+  private addOverlayCell(cell: OverlayCell): HTMLElement {
+    const polygon = new this.maps3dLib.Polygon3DElement({
+      altitudeMode: 'CLAMP_TO_GROUND' as google.maps.maps3d.AltitudeMode,
+      outerCoordinates: cell.polygon,
+      fillColor: cell.fillColor,
+      strokeWidth: 0,
+    });
+    this.map.appendChild(polygon);
+    return polygon;
+  }
+
+  /**
+   * Renders a field boundary as a ground-clamped polygon, replacing any
+   * previous one. When edit options are given, each vertex gets a clickable
+   * numbered marker.
+   * @param boundary - The boundary vertices, as an open ring.
+   * @param edit - Vertex selection state and click handler while editing.
+   */
+  setBoundary(boundary: LatLngPoint[], edit?: BoundaryEditOptions) {
+    this.boundaryElements.forEach(element => element.remove());
+    this.boundaryElements = [];
+
+    if (boundary.length >= 3) {
+      const polygon = new this.maps3dLib.Polygon3DElement({
+        altitudeMode: 'CLAMP_TO_GROUND' as google.maps.maps3d.AltitudeMode,
+        outerCoordinates: boundary,
+        fillColor: 'rgba(76, 175, 80, 0.35)',
+        strokeColor: '#8bc34a',
+        strokeWidth: 3,
+        drawsOccludedSegments: true,
+      });
+      this.map.appendChild(polygon);
+      this.boundaryElements.push(polygon);
     }
+
+    if (!edit) return;
+    boundary.forEach((vertex, index) => {
+      const isSelected = edit.selectedVertex === index;
+      const marker = new this.maps3dLib.Marker3DInteractiveElement({
+        position: { ...vertex, altitude: 1 },
+        altitudeMode: 'RELATIVE_TO_MESH',
+        label: isSelected ? `${index + 1} (moving)` : `${index + 1}`,
+        title: isSelected
+          ? 'Click the map to move this vertex'
+          : 'Click to select this vertex',
+        drawsWhenOccluded: true,
+      });
+      marker.style.cursor = 'pointer';
+      marker.addEventListener('click', () => edit.onVertexClick(index));
+      this.map.appendChild(marker);
+      this.boundaryElements.push(marker);
+    });
   }
 
   /**
@@ -10,12 +10,66 @@
 
 
 import { GoogleGenAI, GenerateContentResponse } from '@google/genai';
-import { useMapStore } from '@/lib/state';
+import { selectCropCatalog, useCropCatalogStore, useMapStore } from '@/lib/state';
+import { catalogPromptContext } from '@/lib/agronomy/crop-catalog';
+import { rankCrops } from '@/lib/agronomy/suitability';
+import { polygonAreaHa } from '@/lib/geometry';
+import { KOPPEN_DESCRIPTIONS, KoppenCode } from '@/lib/agronomy/koppen';
+import { describePlantingMonths } from '@/lib/agronomy/planting-window';
+import { describeFrostClimate, frostClimateFromClimatology } from '@/lib/agronomy/frost';
+import { SoilTexture, TextureClass, describeTexture } from '@/lib/agronomy/soil-texture';
+import { assessPestRisk, describePestRisk } from '@/lib/agronomy/pest-risk';
+import { TerrainSummary, describeTerrain } from '@/lib/agronomy/terrain';
+import {
+  ErosionInputs,
+  describeErosionSite,
+  describeSoilLoss,
+  erosionSite,
+  estimateSoilLoss,
+} from '@/lib/agronomy/erosion';
+import {
+  computeNutrientBudget,
+  describeSoilTest,
+  summarizeNutrientBudget,
+} from '@/lib/agronomy/nutrient-budget';
+import {
+  CROP_REPORT_FORMAT_INSTRUCTIONS,
+  CropRecommendationReport,
+  parseCropRecommendationReport,
+} from '@/lib/agronomy/crop-report';
 
 // TODO - replace with appropriate key
 // const API_KEY = process.env.GEMINI_API_KEY
 const API_KEY = process.env.API_KEY as string;
 
+// Laboratory soil test results; any value may be missing.
+export interface SoilTest {
+  ph?: number;
+  organicMatterPct?: number;
+  // Nitrate-N, Olsen P and exchangeable K, in ppm (mg/kg) of topsoil.
+  nitrogenPpm?: number;
+  phosphorusPpm?: number;
+  potassiumPpm?: number;
+  // Electrical conductivity of the saturated paste extract, in dS/m.
+  ecDsM?: number;
+  // Cation exchange capacity, in cmol(+)/kg.
+  cecCmolKg?: number;
+}
+
+// Seasonal weather averages; with humidity and wind, evapotranspiration is
+// estimated with Penman-Monteith instead of Hargreaves.
+export interface WeatherInputs {
+  // Mean daily minimum and maximum temperature, in °C.
+  tMinC?: number;
+  tMaxC?: number;
+  relativeHumidityPct?: number;
+  // Wind speed at 2 m, in m/s.
+  windSpeedMs?: number;
+  // Solar radiation, in MJ/m²/day.
+  solarRadiationMj?: number;
+  elevationM?: number;
+}
+
 // Agricultural parameters interface
 export interface AgriculturalParameters {
   // Required parameters (5)
@@ -31,17 +85,66 @@ export interface AgriculturalParameters {
   irrigationAvailable?: boolean;
   farmSize?: number; // Farm size in hectares
   previousCrop?: string;
+  // Field outline drawn on the map, as an open ring of vertices.
+  fieldBoundary?: { lat: number; lng: number }[];
+  // Detailed Köppen–Geiger class, consistent with `climate`.
+  koppenCode?: KoppenCode;
+  // Target planting months (1-12); `season` is the local season they fall in.
+  plantingMonths?: number[];
+  soilTest?: SoilTest;
+  // USDA texture class, and the lab fractions it was classified from.
+  // `soilType` holds the matching legacy type.
+  textureClass?: TextureClass;
+  soilTexture?: SoilTexture;
+  weather?: WeatherInputs;
+  // Slope, aspect and runoff of the drawn field, from sampled elevations.
+  terrain?: TerrainSummary;
+  // Conservation practice and slope overrides for the soil loss estimate.
+  erosion?: ErosionInputs;
 }
 
-const AGRICULTURAL_SYS_INSTRUCTIONS = `You are an expert agricultural advisor AI. Based on the provided location coordinates and agricultural parameters (soil type, climate, season, rainfall, temperature, irrigation, farm size, previous crop), provide detailed crop recommendations. Include:
+const AGRICULTURAL_ADVISOR_BRIEF = `You are an expert agricultural advisor AI. Based on the provided location coordinates and agricultural parameters (soil type, climate, season and target planting months, rainfall, temperature, irrigation, farm size, previous crop), provide detailed crop recommendations. Include:
 1. Top 3-5 recommended crops with rationale
-2. Planting and harvesting timeline
+2. Planting and harvesting timeline in calendar months, planting within the target planting months when they are given
 3. Expected yield estimates
 4. Soil preparation requirements
 5. Water and fertilizer needs
 6. Potential challenges and mitigation strategies
+When a curated crop catalog is provided, ground crop choices, yields, growing periods and water needs in it. If you recommend a crop that is not in the catalog or deviate from its values, say so in the rationale.
+When nutrient budgets are provided, base fertilizerNeeds on them and name the fertilizer products and quantities in the notes; if you assume a different target yield, scale the budget and say so.
+When frost dates are provided, plant frost-sensitive crops after the 90% last spring frost and check that they mature before the 90% first autumn frost; otherwise list frost as a risk for that crop.
+When pest and disease risks are provided, list the medium and high threats among that crop's risks with how to monitor and mitigate them.
+When field terrain is provided, favor crops suited to its slope and aspect: on erosion-prone slopes recommend contour planting, strip cropping or permanent cover and avoid crops that leave soil bare; where water collects, recommend drainage or crops that tolerate wet soil; on pole-facing slopes (north-facing in the northern hemisphere) favor cool-season and shorter-season crops.
+When soil loss estimates are provided, prefer crops whose loss stays within tolerance, and for each recommended crop name the least demanding conservation practice that brings its loss within tolerance.`;
+
+// Number of best-matching catalog crops included in the recommendation prompt.
+const PROMPT_CATALOG_CROPS = 8;
+// Number of those crops given a fertilizer nutrient budget.
+const PROMPT_NUTRIENT_BUDGETS = 5;
+// Number of those crops given a pest and disease risk assessment.
+const PROMPT_PEST_RISKS = 5;
+// Number of those crops given a soil loss estimate.
+const PROMPT_SOIL_LOSSES = 5;
+
+const AGRICULTURAL_SYS_INSTRUCTIONS = `${AGRICULTURAL_ADVISOR_BRIEF}
 Format your response in clear sections.`;
 
+// Recommendation requests must return a machine-readable report.
+const AGRICULTURAL_REPORT_SYS_INSTRUCTIONS = `${AGRICULTURAL_ADVISOR_BRIEF}
+${CROP_REPORT_FORMAT_INSTRUCTIONS}`;
+
+/**
+ * The result of an agricultural recommendation request: the raw API response
+ * (kept for grounding metadata) plus the validated structured report.
+ */
+export interface AgriculturalRecommendationResult {
+  response: GenerateContentResponse;
+  // The model's raw text. Rendered as markdown when the report is invalid.
+  text: string;
+  report: CropRecommendationReport | null;
+  reportError?: string;
+}
+
 /**
  * Helper function to automatically zoom the map to a specific location
  * @param latitude - The latitude coordinate
@@ -225,27 +328,68 @@ const requestBody: any = {
 /**
 * Calls the Google AI Platform REST API to get agricultural recommendations.
 * @param params The agricultural parameters and location data.
-* @returns A promise that resolves to the API's GenerateContentResponse.
+* @param options.signal Aborts the request, e.g. when a batch is cancelled.
+* @param options.zoom Whether to zoom the map to the location; batches leave the camera alone.
+* @returns A promise that resolves to the raw response and its parsed report.
 */
 export async function fetchAgriculturalRecommendations(
- params: AgriculturalParameters
-): Promise<GenerateContentResponse> {
+ params: AgriculturalParameters,
+ { signal, zoom = true }: { signal?: AbortSignal; zoom?: boolean } = {},
+): Promise<AgriculturalRecommendationResult> {
  if (!API_KEY) {
    throw new Error('Missing required environment variable: API_KEY');
  }
  const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent`;
 
+ // Include the catalog entries most relevant to this farm, not the whole catalog.
+ const catalog = selectCropCatalog(useCropCatalogStore.getState());
+ const catalogCrops = rankCrops(params, catalog)
+   .slice(0, PROMPT_CATALOG_CROPS)
+   .map(result => result.crop);
+ const nutrientBudgets = catalogCrops
+   .slice(0, PROMPT_NUTRIENT_BUDGETS)
+   .map(crop => `- ${summarizeNutrientBudget(computeNutrientBudget(crop, params, undefined, catalog))}`)
+   .join('\n');
+ const pestRisks = catalogCrops
+   .slice(0, PROMPT_PEST_RISKS)
+   .map(crop => `- ${describePestRisk(assessPestRisk(crop, params, catalog))}`)
+   .join('\n');
+ const site = erosionSite(params);
+ const soilLosses = site
+   ? catalogCrops
+       .slice(0, PROMPT_SOIL_LOSSES)
+       .map(crop => `- ${describeSoilLoss(estimateSoilLoss(crop, params, site)!)}`)
+       .join('\n')
+   : '';
+ const frostClimate = frostClimateFromClimatology(params);
+
  // Construct agricultural prompt with all parameters
  const agriculturalPrompt = `Location: ${params.latitude}, ${params.longitude}
-Soil Type: ${params.soilType}
-Climate: ${params.climate}
+Soil Type: ${params.soilType}${params.textureClass ? ` (USDA texture: ${describeTexture(params.textureClass, params.soilTexture)})` : ''}
+Climate: ${params.climate}${params.koppenCode ? ` (Köppen-Geiger ${params.koppenCode}: ${KOPPEN_DESCRIPTIONS[params.koppenCode]})` : ''}
 Season: ${params.season}
+${params.plantingMonths?.length ? `Target Planting Months: ${describePlantingMonths(params.plantingMonths, params.latitude, params.climate, params.koppenCode)}` : ''}
+Frost Dates (${frostClimate.koppenCode} climatology): ${describeFrostClimate(frostClimate)}
 ${params.rainfall ? `Annual Rainfall: ${params.rainfall}mm` : ''}
 ${params.temperature ? `Average Temperature: ${params.temperature}°C` : ''}
 ${params.irrigationAvailable !== undefined ? `Irrigation Available: ${params.irrigationAvailable ? 'Yes' : 'No'}` : ''}
 ${params.farmSize ? `Farm Size: ${params.farmSize} hectares` : ''}
 ${params.previousCrop ? `Previous Crop: ${params.previousCrop}` : ''}
+${describeSoilTest(params.soilTest) ? `Soil Test: ${describeSoilTest(params.soilTest)}` : ''}
+${params.fieldBoundary?.length >= 3 ? `Field Boundary (${params.fieldBoundary.length} vertices, ${polygonAreaHa(params.fieldBoundary).toFixed(2)} ha): ${params.fieldBoundary.map(p => `${p.lat.toFixed(6)},${p.lng.toFixed(6)}`).join('; ')}` : ''}
+${params.terrain ? `Field Terrain (${params.terrain.cells} elevation samples, ${params.terrain.cellSizeM} m apart): ${describeTerrain(params.terrain)}` : ''}
+
+${catalogPromptContext(catalogCrops)}
+
+Nutrient budgets (fertilizer to apply after soil supply and previous-crop credits):
+${nutrientBudgets}
 
+Pest and disease risks (local knowledge table, including carry-over from the previous crop):
+${pestRisks}
+${site ? `
+Soil loss estimates (RUSLE, t/ha/yr; ${describeErosionSite(site)}):
+${soilLosses}
+` : ''}
 Please provide detailed crop recommendations for this agricultural location.`;
 
 const requestBody: any = {
@@ -259,7 +403,7 @@ const requestBody: any = {
      },
    ],
    system_instruction: {
-       parts: [ { text: AGRICULTURAL_SYS_INSTRUCTIONS } ]
+       parts: [ { text: AGRICULTURAL_REPORT_SYS_INSTRUCTIONS } ]
    },
    tools: [
      {
@@ -296,6 +440,7 @@ const requestBody: any = {
        'x-goog-api-key': API_KEY,
      },
      body: JSON.stringify(requestBody),
+     signal,
    });
 
 
@@ -308,12 +453,19 @@ const requestBody: any = {
    }
 
 
-   const data = await response.json();
+   const data = (await response.json()) as GenerateContentResponse;
    
    // Automatically zoom to the location after getting the response
-   zoomToLocation(params.latitude, params.longitude);
-   
-   return data as GenerateContentResponse;
+   if (zoom) {
+     zoomToLocation(params.latitude, params.longitude);
+   }
+
+   const text = data.candidates?.[0]?.content?.parts
+     ?.map(part => part.text ?? '')
+     .join('') ?? '';
+   const { report, error } = parseCropRecommendationReport(text);
+
+   return { response: data, text, report, reportError: error };
  } catch (error) {
    console.error(`Error calling Agricultural Recommendations API: ${error}`);
    throw error;
@@ -3,6 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
 import { agriculturalTools } from './tools/agricultural-tools';
 
 export type Template = 'agricultural-advisor';
@@ -28,6 +29,15 @@ import {
   GroundingChunk,
 } from '@google/genai';
 import { Map3DCameraProps } from '@/components/map-3d';
+import {
+  CROP_CATALOG,
+  CROP_CATALOG_VERSION,
+  CropProfile,
+  mergeCatalog,
+} from './agronomy/crop-catalog';
+import { CostTemplate, DEFAULT_PRICE_TABLE, PriceTable } from './agronomy/economics';
+import { FarmProfile, FieldProfile, LatLng, newProfileId } from './farm-profiles';
+import { idbStorage } from './idb-storage';
 
 /**
  * Personas
@@ -248,20 +258,363 @@ export interface MapMarker {
   placeId?: string;
 }
 
+export interface PickedLocation {
+  position: LatLng;
+  // Shown on the marker; the locality name once reverse-geocoded.
+  label: string;
+}
+
+export interface FrostRiskMarker {
+  position: LatLng;
+  // e.g. "❄️ Frost-free May 5–Sep 27 (90%)"
+  label: string;
+  // Crop frost risks, shown on hover.
+  title: string;
+}
+
+// A colored cell of a map overlay: field terrain risk or regional suitability.
+export interface OverlayCell {
+  // Cell outline, as an open ring.
+  polygon: LatLng[];
+  fillColor: string;
+}
+
 export const useMapStore = create<{
   markers: MapMarker[];
   cameraTarget: Map3DCameraProps | null;
   preventAutoFrame: boolean;
+  // The field boundary shown on the map, as an open ring of vertices.
+  boundary: LatLng[];
+  // While drawing, map clicks add vertices (or move the selected one).
+  isDrawingBoundary: boolean;
+  selectedVertex: number | null;
+  // While picking, map clicks move the farm location marker.
+  isPickingLocation: boolean;
+  // While dragging, the farm location marker is dropped at the next map click.
+  isDraggingLocation: boolean;
+  pickedLocation: PickedLocation | null;
+  // Frost window at the farm, shown once recommendations are in.
+  frostRisk: FrostRiskMarker | null;
+  // Terrain risk cells of the field, shown once its terrain is analyzed.
+  terrainOverlay: OverlayCell[];
+  // The region of a suitability survey, as an open ring.
+  surveyRegion: LatLng[];
+  // While drawing, the first map click sets a corner of the region and the
+  // second the opposite corner.
+  isDrawingRegion: boolean;
+  regionAnchor: LatLng | null;
+  // Suitability cells of the survey, and the one clicked for its breakdown.
+  surveyOverlay: OverlayCell[];
+  selectedSurveyCell: number | null;
   setMarkers: (markers: MapMarker[]) => void;
   clearMarkers: () => void;
   setCameraTarget: (target: Map3DCameraProps | null) => void;
   setPreventAutoFrame: (prevent: boolean) => void;
+  setBoundary: (boundary: LatLng[]) => void;
+  setIsDrawingBoundary: (isDrawing: boolean) => void;
+  selectVertex: (index: number | null) => void;
+  placeVertex: (point: LatLng) => void;
+  removeVertex: (index: number) => void;
+  setIsPickingLocation: (isPicking: boolean) => void;
+  setIsDraggingLocation: (isDragging: boolean) => void;
+  setPickedLocation: (location: PickedLocation | null) => void;
+  setFrostRisk: (frostRisk: FrostRiskMarker | null) => void;
+  setTerrainOverlay: (cells: OverlayCell[]) => void;
+  setSurveyRegion: (region: LatLng[]) => void;
+  setIsDrawingRegion: (isDrawing: boolean) => void;
+  placeRegionCorner: (point: LatLng) => void;
+  setSurveyOverlay: (cells: OverlayCell[]) => void;
+  selectSurveyCell: (index: number | null) => void;
 }>(set => ({
   markers: [],
   cameraTarget: null,
   preventAutoFrame: false,
+  boundary: [],
+  isDrawingBoundary: false,
+  selectedVertex: null,
+  isPickingLocation: false,
+  isDraggingLocation: false,
+  pickedLocation: null,
+  frostRisk: null,
+  terrainOverlay: [],
+  surveyRegion: [],
+  isDrawingRegion: false,
+  regionAnchor: null,
+  surveyOverlay: [],
+  selectedSurveyCell: null,
   setMarkers: markers => set({ markers }),
   clearMarkers: () => set({ markers: [] }),
   setCameraTarget: target => set({ cameraTarget: target }),
   setPreventAutoFrame: prevent => set({ preventAutoFrame: prevent }),
-}));
\ No newline at end of file
+  setBoundary: boundary => set({ boundary, selectedVertex: null }),
+  // Drawing and picking all listen to map clicks, so only one can be active.
+  setIsDrawingBoundary: isDrawing =>
+    set(state => ({
+      isDrawingBoundary: isDrawing,
+      selectedVertex: null,
+      isPickingLocation: isDrawing ? false : state.isPickingLocation,
+      isDraggingLocation: isDrawing ? false : state.isDraggingLocation,
+      isDrawingRegion: isDrawing ? false : state.isDrawingRegion,
+    })),
+  selectVertex: index => set({ selectedVertex: index }),
+  placeVertex: point =>
+    set(state =>
+      state.selectedVertex === null
+        ? { boundary: [...state.boundary, point] }
+        : {
+            boundary: state.boundary.map((p, i) =>
+              i === state.selectedVertex ? point : p,
+            ),
+            selectedVertex: null,
+          },
+    ),
+  removeVertex: index =>
+    set(state => ({
+      boundary: state.boundary.filter((_, i) => i !== index),
+      selectedVertex: null,
+    })),
+  setIsPickingLocation: isPicking =>
+    set(state => ({
+      isPickingLocation: isPicking,
+      isDrawingBoundary: isPicking ? false : state.isDrawingBoundary,
+      selectedVertex: isPicking ? null : state.selectedVertex,
+      isDrawingRegion: isPicking ? false : state.isDrawingRegion,
+    })),
+  setIsDraggingLocation: isDragging =>
+    set(state => ({
+      isDraggingLocation: isDragging,
+      isDrawingBoundary: isDragging ? false : state.isDrawingBoundary,
+      selectedVertex: isDragging ? null : state.selectedVertex,
+      isDrawingRegion: isDragging ? false : state.isDrawingRegion,
+    })),
+  setPickedLocation: location => set({ pickedLocation: location }),
+  setFrostRisk: frostRisk => set({ frostRisk }),
+  setTerrainOverlay: cells => set({ terrainOverlay: cells }),
+  setSurveyRegion: region => set({ surveyRegion: region }),
+  setIsDrawingRegion: isDrawing =>
+    set(state => ({
+      isDrawingRegion: isDrawing,
+      regionAnchor: null,
+      isDrawingBoundary: isDrawing ? false : state.isDrawingBoundary,
+      selectedVertex: isDrawing ? null : state.selectedVertex,
+      isPickingLocation: isDrawing ? false : state.isPickingLocation,
+      isDraggingLocation: isDrawing ? false : state.isDraggingLocation,
+    })),
+  placeRegionCorner: point =>
+    set(state => {
+      const anchor = state.regionAnchor;
+      if (!anchor) return { regionAnchor: point };
+      return {
+        surveyRegion: [
+          anchor,
+          { lat: anchor.lat, lng: point.lng },
+          point,
+          { lat: point.lat, lng: anchor.lng },
+        ],
+        regionAnchor: null,
+        isDrawingRegion: false,
+      };
+    }),
+  setSurveyOverlay: cells => set({ surveyOverlay: cells, selectedSurveyCell: null }),
+  selectSurveyCell: index => set({ selectedSurveyCell: index }),
+}));
+/**
+ * Crop Catalog
+ */
+export const useCropCatalogStore = create<{
+  // Team-curated entries that replace or extend the bundled catalog.
+  overrides: CropProfile[];
+  // The bundled catalog version the overrides were last edited against.
+  overridesBaseVersion: string;
+  upsertCrop: (crop: CropProfile) => void;
+  removeOverride: (id: string) => void;
+  importOverrides: (crops: CropProfile[]) => void;
+}>()(
+  persist(
+    set => ({
+      overrides: [],
+      overridesBaseVersion: CROP_CATALOG_VERSION,
+      upsertCrop: crop =>
+        set(state => ({
+          overrides: [...state.overrides.filter(c => c.id !== crop.id), crop],
+          overridesBaseVersion: CROP_CATALOG_VERSION,
+        })),
+      removeOverride: id =>
+        set(state => ({
+          overrides: state.overrides.filter(c => c.id !== id),
+        })),
+      importOverrides: crops =>
+        set(state => ({
+          overrides: mergeCatalog(state.overrides, crops),
+          overridesBaseVersion: CROP_CATALOG_VERSION,
+        })),
+    }),
+    { name: 'crop-catalog-overrides' },
+  ),
+);
+
+let cachedOverrides: CropProfile[] | null = null;
+let cachedCatalog: CropProfile[] = CROP_CATALOG;
+
+/**
+ * Selects the active catalog (bundled entries plus team overrides). The result
+ * is memoized on the overrides array so it is safe to use as a store selector.
+ */
+export const selectCropCatalog = (state: {
+  overrides: CropProfile[];
+}): CropProfile[] => {
+  if (state.overrides !== cachedOverrides) {
+    cachedOverrides = state.overrides;
+    cachedCatalog = mergeCatalog(CROP_CATALOG, state.overrides);
+  }
+  return cachedCatalog;
+};
+
+/**
+ * Farm Profiles
+ */
+export const useFarmStore = create<{
+  farms: FarmProfile[];
+  // The field the form and tools currently work on.
+  selectedFieldId: string | null;
+  addFarm: (name: string) => string;
+  renameFarm: (farmId: string, name: string) => void;
+  removeFarm: (farmId: string) => void;
+  saveField: (farmId: string, field: FieldProfile) => void;
+  removeField: (fieldId: string) => void;
+  selectField: (fieldId: string | null) => void;
+  importFarms: (farms: FarmProfile[]) => void;
+}>()(
+  persist(
+    set => ({
+      farms: [],
+      selectedFieldId: null,
+      addFarm: name => {
+        const id = newProfileId();
+        set(state => ({ farms: [...state.farms, { id, name, fields: [] }] }));
+        return id;
+      },
+      renameFarm: (farmId, name) =>
+        set(state => ({
+          farms: state.farms.map(f => (f.id === farmId ? { ...f, name } : f)),
+        })),
+      removeFarm: farmId =>
+        set(state => {
+          const farm = state.farms.find(f => f.id === farmId);
+          const removesSelected = farm?.fields.some(
+            f => f.id === state.selectedFieldId,
+          );
+          return {
+            farms: state.farms.filter(f => f.id !== farmId),
+            selectedFieldId: removesSelected ? null : state.selectedFieldId,
+          };
+        }),
+      saveField: (farmId, field) =>
+        set(state => ({
+          farms: state.farms.map(farm =>
+            farm.id === farmId
+              ? {
+                  ...farm,
+                  fields: farm.fields.some(f => f.id === field.id)
+                    ? farm.fields.map(f => (f.id === field.id ? field : f))
+                    : [...farm.fields, field],
+                }
+              : farm,
+          ),
+        })),
+      removeField: fieldId =>
+        set(state => ({
+          farms: state.farms.map(farm => ({
+            ...farm,
+            fields: farm.fields.filter(f => f.id !== fieldId),
+          })),
+          selectedFieldId:
+            state.selectedFieldId === fieldId ? null : state.selectedFieldId,
+        })),
+      selectField: fieldId => set({ selectedFieldId: fieldId }),
+      importFarms: farms =>
+        set(state => {
+          // Imported farms replace saved farms with the same id.
+          const ids = new Set(farms.map(f => f.id));
+          return { farms: [...state.farms.filter(f => !ids.has(f.id)), ...farms] };
+        }),
+    }),
+    {
+      name: 'farm-profiles',
+      storage: createJSONStorage(() => idbStorage),
+    },
+  ),
+);
+
+/**
+ * Prices
+ */
+export const useEconomicsStore = create<{
+  prices: PriceTable;
+  // Changing the rate converts the prices and costs already entered.
+  setCurrency: (currency: string, usdRate: number) => void;
+  setCropPrice: (cropId: string, price: number | undefined) => void;
+  setCostOverride: (
+    cropId: string,
+    category: keyof CostTemplate,
+    cost: number | undefined,
+  ) => void;
+  setWaterPrice: (price: number | undefined) => void;
+  resetPrices: () => void;
+}>()(
+  persist(
+    set => ({
+      prices: DEFAULT_PRICE_TABLE,
+      setCurrency: (currency, usdRate) =>
+        set(({ prices }) => {
+          const factor = usdRate / prices.usdRate;
+          const convert = (value: number) => Math.round(value * factor * 100) / 100;
+          return {
+            prices: {
+              currency,
+              usdRate,
+              cropPrices: Object.fromEntries(
+                Object.entries(prices.cropPrices).map(([id, price]) => [id, convert(price)]),
+              ),
+              costOverrides: Object.fromEntries(
+                Object.entries(prices.costOverrides).map(([id, costs]) => [
+                  id,
+                  Object.fromEntries(
+                    Object.entries(costs).map(([category, cost]) => [category, convert(cost!)]),
+                  ),
+                ]),
+              ),
+              waterPrice:
+                prices.waterPrice === undefined ? undefined : convert(prices.waterPrice),
+            },
+          };
+        }),
+      setCropPrice: (cropId, price) =>
+        set(({ prices }) => {
+          const { [cropId]: _, ...cropPrices } = prices.cropPrices;
+          return {
+            prices: {
+              ...prices,
+              cropPrices: price === undefined ? cropPrices : { ...cropPrices, [cropId]: price },
+            },
+          };
+        }),
+      setCostOverride: (cropId, category, cost) =>
+        set(({ prices }) => {
+          const { [category]: _, ...costs } = prices.costOverrides[cropId] ?? {};
+          return {
+            prices: {
+              ...prices,
+              costOverrides: {
+                ...prices.costOverrides,
+                [cropId]: cost === undefined ? costs : { ...costs, [category]: cost },
+              },
+            },
+          };
+        }),
+      setWaterPrice: price => set(({ prices }) => ({ prices: { ...prices, waterPrice: price } })),
+      resetPrices: () => set({ prices: DEFAULT_PRICE_TABLE }),
+    }),
+    { name: 'price-table' },
+  ),
+);
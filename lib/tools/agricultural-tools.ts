@@ -7,13 +7,19 @@
  * Agricultural tools for crop recommendation system
  */
 
+import { TEXTURE_CLASSES } from '@/lib/agronomy/soil-texture';
+
 export const agriculturalTools = [
   {
     name: 'agriculturalRecommendation',
-    description: 'Provides crop recommendations based on location and agricultural parameters',
+    description: 'Provides crop recommendations based on location and agricultural parameters. A saved field can be named instead of giving its location, soil, irrigation and size',
     parameters: {
       type: 'object',
       properties: {
+        fieldName: {
+          type: 'string',
+          description: 'Name of a saved field, as "Farm / Field" or just the field name (optional). Its saved values fill any parameters not given'
+        },
         latitude: { 
           type: 'number', 
           description: 'Farm latitude coordinate' 
@@ -25,17 +31,41 @@ export const agriculturalTools = [
         soilType: { 
           type: 'string', 
           enum: ['clay', 'sandy', 'loamy', 'silt', 'peat'],
-          description: 'Type of soil on the farm'
+          description: 'Type of soil on the farm (optional when textureClass or soilTexture is given)'
+        },
+        textureClass: {
+          type: 'string',
+          enum: [...TEXTURE_CLASSES],
+          description: 'USDA soil texture class, e.g. sandy-loam or silty-clay-loam (optional)'
+        },
+        soilTexture: {
+          type: 'object',
+          description: 'Sand, silt and clay percentages from a lab report, adding up to 100 (optional). Classified with the USDA texture triangle',
+          properties: {
+            sand: { type: 'number', description: 'Sand in %' },
+            silt: { type: 'number', description: 'Silt in %' },
+            clay: { type: 'number', description: 'Clay in %' }
+          },
+          required: ['sand', 'silt', 'clay']
         },
         climate: { 
           type: 'string', 
           enum: ['tropical', 'arid', 'temperate', 'continental', 'polar'],
-          description: 'Climate zone of the farm location'
+          description: 'Climate zone of the farm location (optional; inferred from the coordinates when omitted)'
+        },
+        koppenCode: {
+          type: 'string',
+          description: 'Köppen-Geiger climate class such as Cfa or BSk (optional; inferred from the coordinates when omitted)'
         },
         season: { 
           type: 'string', 
           enum: ['spring', 'summer', 'fall', 'winter'],
-          description: 'Current or planned planting season'
+          description: 'Current or planned planting season in the local hemisphere (optional when plantingMonths is given)'
+        },
+        plantingMonths: {
+          type: 'array',
+          items: { type: 'integer', minimum: 1, maximum: 12 },
+          description: 'Target planting months as numbers 1-12, e.g. [9, 10] for September-October. Preferred over season; in the tropics, use the months of the wet or dry season the user plans for'
         },
         rainfall: { 
           type: 'number', 
@@ -56,9 +86,277 @@ export const agriculturalTools = [
         previousCrop: { 
           type: 'string', 
           description: 'Previously grown crop (optional)' 
+        },
+        soilTest: {
+          type: 'object',
+          description: 'Soil test results, if the user has them (optional). Used for the fertilizer nutrient budget',
+          properties: {
+            ph: { type: 'number', description: 'Soil pH' },
+            organicMatterPct: { type: 'number', description: 'Organic matter in %' },
+            nitrogenPpm: { type: 'number', description: 'Nitrate-N in ppm' },
+            phosphorusPpm: { type: 'number', description: 'Olsen P in ppm' },
+            potassiumPpm: { type: 'number', description: 'Exchangeable K in ppm' },
+            ecDsM: { type: 'number', description: 'Electrical conductivity (salinity) in dS/m' },
+            cecCmolKg: { type: 'number', description: 'Cation exchange capacity in cmol/kg' }
+          }
+        }
+      },
+      required: []
+    },
+    isEnabled: true,
+  },
+  {
+    name: 'listSavedFields',
+    description: 'Lists the farms and fields the user has saved, with their location, soil, size and last crop',
+    isEnabled: true,
+  },
+  {
+    name: 'planCropRotation',
+    description: 'Plans a 3-5 year crop rotation for a field from its crop history, using family-based rotation rules and pest/disease carry-over risks',
+    parameters: {
+      type: 'object',
+      properties: {
+        cropHistory: {
+          type: 'array',
+          description: 'Crops grown on the field in previous years',
+          items: {
+            type: 'object',
+            properties: {
+              year: { type: 'number', description: 'Harvest year' },
+              crop: { type: 'string', description: 'Crop grown that year' }
+            },
+            required: ['year', 'crop']
+          }
+        },
+        years: {
+          type: 'number',
+          description: 'Number of years to plan, between 3 and 5 (optional, default 3)'
+        },
+        soilType: {
+          type: 'string',
+          enum: ['clay', 'sandy', 'loamy', 'silt', 'peat'],
+          description: 'Type of soil on the field'
+        },
+        climate: {
+          type: 'string',
+          enum: ['tropical', 'arid', 'temperate', 'continental', 'polar'],
+          description: 'Climate zone of the field location'
+        },
+        rainfall: {
+          type: 'number',
+          description: 'Annual rainfall in mm (optional)'
+        },
+        temperature: {
+          type: 'number',
+          description: 'Average temperature in °C (optional)'
+        },
+        irrigationAvailable: {
+          type: 'boolean',
+          description: 'Whether irrigation is available (optional)'
+        }
+      },
+      required: ['cropHistory', 'soilType', 'climate']
+    },
+    isEnabled: true,
+  },
+  {
+    name: 'irrigationSchedule',
+    description: 'Estimates a crop\'s seasonal water requirement from evapotranspiration (Hargreaves, or Penman-Monteith when humidity and wind are given) and returns a weekly irrigation schedule in mm and m³ for the farm',
+    parameters: {
+      type: 'object',
+      properties: {
+        crop: {
+          type: 'string',
+          description: 'Crop to irrigate, e.g. "maize"'
+        },
+        fieldName: {
+          type: 'string',
+          description: 'Name of a saved field (optional). Its location and size fill any parameters not given'
+        },
+        latitude: {
+          type: 'number',
+          description: 'Farm latitude coordinate'
+        },
+        longitude: {
+          type: 'number',
+          description: 'Farm longitude coordinate'
+        },
+        temperature: {
+          type: 'number',
+          description: 'Average temperature over the growing season in °C'
+        },
+        rainfall: {
+          type: 'number',
+          description: 'Annual rainfall in mm (optional)'
+        },
+        plantingMonths: {
+          type: 'array',
+          items: { type: 'integer', minimum: 1, maximum: 12 },
+          description: 'Target planting months as numbers 1-12; the schedule starts at the beginning of the first month'
+        },
+        season: {
+          type: 'string',
+          enum: ['spring', 'summer', 'fall', 'winter'],
+          description: 'Planting season in the local hemisphere (optional when plantingMonths is given)'
+        },
+        farmSize: {
+          type: 'number',
+          description: 'Irrigated area in hectares (optional)'
+        },
+        irrigationMethod: {
+          type: 'string',
+          enum: ['drip', 'sprinkler', 'surface'],
+          description: 'Irrigation method, which sets the application efficiency (optional, default sprinkler)'
+        },
+        weather: {
+          type: 'object',
+          description: 'Seasonal weather averages (optional)',
+          properties: {
+            tMinC: { type: 'number', description: 'Mean daily minimum temperature in °C' },
+            tMaxC: { type: 'number', description: 'Mean daily maximum temperature in °C' },
+            relativeHumidityPct: { type: 'number', description: 'Mean relative humidity in %' },
+            windSpeedMs: { type: 'number', description: 'Mean wind speed at 2 m in m/s' },
+            solarRadiationMj: { type: 'number', description: 'Solar radiation in MJ/m²/day' },
+            elevationM: { type: 'number', description: 'Elevation in m' }
+          }
+        }
+      },
+      required: ['crop']
+    },
+    isEnabled: true,
+  },
+  {
+    name: 'pestDiseaseRisk',
+    description: 'Scores the pest and disease risk of crops from a local knowledge table, using the climate conditions that favor each threat and carry-over from the previous crop, and returns monitoring and mitigation guidance',
+    parameters: {
+      type: 'object',
+      properties: {
+        crops: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Crops to assess, e.g. ["maize", "soybean"] (optional; defaults to the best-suited catalog crops, which needs the location and planting months or season)'
+        },
+        fieldName: {
+          type: 'string',
+          description: 'Name of a saved field (optional). Its location, soil and previous crop fill any parameters not given'
+        },
+        latitude: {
+          type: 'number',
+          description: 'Farm latitude coordinate'
+        },
+        longitude: {
+          type: 'number',
+          description: 'Farm longitude coordinate'
+        },
+        soilType: {
+          type: 'string',
+          enum: ['clay', 'sandy', 'loamy', 'silt', 'peat'],
+          description: 'Type of soil on the farm (optional)'
+        },
+        climate: {
+          type: 'string',
+          enum: ['tropical', 'arid', 'temperate', 'continental', 'polar'],
+          description: 'Climate zone of the farm location (optional; inferred from the coordinates when omitted)'
+        },
+        plantingMonths: {
+          type: 'array',
+          items: { type: 'integer', minimum: 1, maximum: 12 },
+          description: 'Target planting months as numbers 1-12, used to rank the catalog crops when no crops are named'
+        },
+        season: {
+          type: 'string',
+          enum: ['spring', 'summer', 'fall', 'winter'],
+          description: 'Planting season in the local hemisphere (optional when plantingMonths is given; needed to rank the catalog crops when no crops are named)'
+        },
+        rainfall: {
+          type: 'number',
+          description: 'Annual rainfall in mm (optional)'
+        },
+        temperature: {
+          type: 'number',
+          description: 'Average temperature over the growing season in °C (optional)'
+        },
+        relativeHumidityPct: {
+          type: 'number',
+          description: 'Mean relative humidity in % (optional)'
+        },
+        previousCrop: {
+          type: 'string',
+          description: 'Crop grown on the field last season (optional)'
+        }
+      },
+      required: []
+    },
+    isEnabled: true,
+  },
+  {
+    name: 'coverCropPlan',
+    description: 'Suggests cover crops for the fallow window after a main crop, with seeding rates, termination timing and soil benefits (nitrogen fixed, biomass, ground cover), and compatible intercrop or relay companions',
+    parameters: {
+      type: 'object',
+      properties: {
+        crop: {
+          type: 'string',
+          description: 'Main crop, e.g. "maize"'
+        },
+        fieldName: {
+          type: 'string',
+          description: 'Name of a saved field (optional). Its location, soil, size and crop history fill any parameters not given'
+        },
+        latitude: {
+          type: 'number',
+          description: 'Farm latitude coordinate'
+        },
+        longitude: {
+          type: 'number',
+          description: 'Farm longitude coordinate'
+        },
+        soilType: {
+          type: 'string',
+          enum: ['clay', 'sandy', 'loamy', 'silt', 'peat'],
+          description: 'Type of soil on the farm (optional)'
+        },
+        climate: {
+          type: 'string',
+          enum: ['tropical', 'arid', 'temperate', 'continental', 'polar'],
+          description: 'Climate zone of the farm location (optional; inferred from the coordinates when omitted)'
+        },
+        plantingMonths: {
+          type: 'array',
+          items: { type: 'integer', minimum: 1, maximum: 12 },
+          description: 'Planting months of the main crop as numbers 1-12'
+        },
+        season: {
+          type: 'string',
+          enum: ['spring', 'summer', 'fall', 'winter'],
+          description: 'Planting season of the main crop in the local hemisphere (optional when plantingMonths is given)'
+        },
+        rainfall: {
+          type: 'number',
+          description: 'Annual rainfall in mm (optional)'
+        },
+        irrigationAvailable: {
+          type: 'boolean',
+          description: 'Whether irrigation is available (optional)'
+        },
+        farmSize: {
+          type: 'number',
+          description: 'Area to sow in hectares, for seed quantities (optional)'
+        },
+        cropHistory: {
+          type: 'array',
+          description: 'Crops grown on the field in previous years (optional)',
+          items: {
+            type: 'object',
+            properties: {
+              year: { type: 'number', description: 'Harvest year' },
+              crop: { type: 'string', description: 'Crop grown that year' }
+            },
+            required: ['year', 'crop']
+          }
         }
       },
-      required: ['latitude', 'longitude', 'soilType', 'climate', 'season']
+      required: ['crop']
     },
     isEnabled: true,
   }
@@ -25,8 +25,38 @@
 
 import { GenerateContentResponse, GroundingChunk } from '@google/genai';
 import { fetchMapsGroundedResponseREST, fetchAgriculturalRecommendations, AgriculturalParameters } from '@/lib/maps-grounding';
-import { MapMarker, useLogStore, useMapStore } from '@/lib/state';
+import {
+  MapMarker,
+  selectCropCatalog,
+  useCropCatalogStore,
+  useFarmStore,
+  useLogStore,
+  useMapStore,
+} from '@/lib/state';
 import { lookAtWithPadding } from '../look-at';
+import { rankCrops, summarizeRanking } from '@/lib/agronomy/suitability';
+import { planRotation, summarizeRotationPlan } from '@/lib/agronomy/rotation';
+import { KOPPEN_CODES, lookupKoppen } from '@/lib/agronomy/koppen';
+import { monthsToSeason, seasonMonths } from '@/lib/agronomy/planting-window';
+import { findCatalogCrop } from '@/lib/agronomy/crop-catalog';
+import { assessPestRisk, summarizePestRisk } from '@/lib/agronomy/pest-risk';
+import { recommendCompanions, summarizeCompanionPlan } from '@/lib/agronomy/cover-crops';
+import {
+  computeIrrigationPlan,
+  summarizeIrrigationPlan,
+} from '@/lib/agronomy/evapotranspiration';
+import {
+  TEXTURE_CLASSES,
+  TEXTURE_TO_SOIL_TYPE,
+  classifyTexture,
+  validateTexture,
+} from '@/lib/agronomy/soil-texture';
+import {
+  fieldMarker,
+  fieldToParameters,
+  findFieldByName,
+  summarizeFarms,
+} from '@/lib/farm-profiles';
 
 /**
  * Context object containing shared resources and setters that can be passed
@@ -164,6 +194,36 @@ function updateMapStateWithMarkers(
   }
 }
 
+/**
+ * The saved field named in a tool call, if any, and the parameters it
+ * provides. A string is the reply when no saved field has that name.
+ */
+function resolveSavedField(args: any):
+  | { saved: ReturnType<typeof findFieldByName>; fieldParams: Partial<AgriculturalParameters> }
+  | string {
+  if (!args.fieldName) return { saved: null, fieldParams: {} };
+  const { farms } = useFarmStore.getState();
+  const saved = findFieldByName(farms, args.fieldName);
+  if (!saved) {
+    return `No saved field named "${args.fieldName}". Saved fields:
+${summarizeFarms(farms)}`;
+  }
+  return { saved, fieldParams: fieldToParameters(saved.field) };
+}
+
+/**
+ * The planting months given in a tool call: valid explicit months, or else
+ * the months of the given season at the latitude. Empty when neither is given.
+ */
+function parsePlantingMonths(args: any, latitude: number): number[] {
+  const months = Array.isArray(args.plantingMonths)
+    ? args.plantingMonths.filter(
+        (m: unknown) => Number.isInteger(m) && (m as number) >= 1 && (m as number) <= 12,
+      )
+    : [];
+  if (months.length > 0) return months;
+  return args.season ? seasonMonths(args.season, latitude) : [];
+}
 
 /**
  * Tool implementation for grounding queries with Google Maps.
@@ -421,27 +481,95 @@ const frameLocations: ToolImplementation = async (args, context) => {
  */
 const agriculturalRecommendation: ToolImplementation = async (args, context) => {
   const { setHeldGroundedResponse, setHeldGroundingChunks } = context;
-  
+
+  // Start from the saved field, if one was named; explicit args win.
+  const lookup = resolveSavedField(args);
+  if (typeof lookup === 'string') return lookup;
+  const { saved, fieldParams } = lookup;
+  if (saved) {
+    useFarmStore.getState().selectField(saved.field.id);
+  }
+
   // Extract agricultural parameters from args
   const agriculturalParams: AgriculturalParameters = {
-    latitude: args.latitude,
-    longitude: args.longitude,
-    soilType: args.soilType,
-    climate: args.climate,
+    latitude: args.latitude ?? fieldParams.latitude,
+    longitude: args.longitude ?? fieldParams.longitude,
+    soilType: args.soilType ?? fieldParams.soilType,
+    climate: args.climate ?? fieldParams.climate,
     season: args.season,
     rainfall: args.rainfall,
     temperature: args.temperature,
-    irrigationAvailable: args.irrigationAvailable,
-    farmSize: args.farmSize,
-    previousCrop: args.previousCrop,
+    irrigationAvailable: args.irrigationAvailable ?? fieldParams.irrigationAvailable,
+    farmSize: args.farmSize ?? fieldParams.farmSize,
+    previousCrop: args.previousCrop ?? fieldParams.previousCrop,
+    fieldBoundary: fieldParams.fieldBoundary,
+    koppenCode: args.koppenCode,
+    soilTest: args.soilTest ?? fieldParams.soilTest,
   };
 
+  // Lab fractions decide the texture class, and the texture class decides the
+  // legacy soil type. Soil given in the call wins over the saved field.
+  const soilTexture =
+    args.soilTexture ??
+    (args.textureClass || args.soilType ? undefined : fieldParams.soilTexture);
+  if (soilTexture) {
+    const error = validateTexture(soilTexture);
+    if (error) {
+      return `Invalid soil texture: ${error}`;
+    }
+    agriculturalParams.soilTexture = soilTexture;
+    agriculturalParams.textureClass = classifyTexture(soilTexture);
+  } else if (TEXTURE_CLASSES.includes(args.textureClass)) {
+    agriculturalParams.textureClass = args.textureClass;
+  }
+  if (agriculturalParams.textureClass) {
+    agriculturalParams.soilType = TEXTURE_TO_SOIL_TYPE[agriculturalParams.textureClass];
+  }
+
+  // Infer the climate from the coordinates when it was not given, and add
+  // the detailed Köppen class when it agrees with the climate zone.
+  if (
+    typeof agriculturalParams.latitude === 'number' &&
+    typeof agriculturalParams.longitude === 'number'
+  ) {
+    const koppen = lookupKoppen(agriculturalParams.latitude, agriculturalParams.longitude);
+    agriculturalParams.climate = agriculturalParams.climate ?? koppen.climate;
+    if (!agriculturalParams.koppenCode && agriculturalParams.climate === koppen.climate) {
+      agriculturalParams.koppenCode = koppen.code;
+    }
+  }
+
+  if (
+    agriculturalParams.koppenCode &&
+    !KOPPEN_CODES.includes(agriculturalParams.koppenCode)
+  ) {
+    agriculturalParams.koppenCode = undefined;
+  }
+
+  // Explicit months decide the season; otherwise plant in the local season.
+  if (typeof agriculturalParams.latitude === 'number') {
+    const plantingMonths = parsePlantingMonths(args, agriculturalParams.latitude);
+    if (plantingMonths.length > 0) {
+      agriculturalParams.plantingMonths = plantingMonths;
+      agriculturalParams.season = monthsToSeason(plantingMonths, agriculturalParams.latitude);
+    }
+  }
+
+  const missing = (['latitude', 'longitude', 'soilType', 'climate', 'season'] as const).filter(
+    key => agriculturalParams[key] === undefined,
+  );
+  if (missing.length > 0) {
+    const names = missing.map(key => (key === 'season' ? 'plantingMonths (or season)' : key));
+    return `Missing required parameters: ${names.join(', ')}. Ask the user for them or name a saved field.`;
+  }
+
   try {
-    const agriculturalResponse = await fetchAgriculturalRecommendations(agriculturalParams);
+    const result = await fetchAgriculturalRecommendations(agriculturalParams);
 
-    if (!agriculturalResponse) {
+    if (!result) {
       return 'Failed to get agricultural recommendations.';
     }
+    const agriculturalResponse = result.response;
 
     // Hold response data for display in the chat log
     setHeldGroundedResponse(agriculturalResponse);
@@ -452,26 +580,236 @@ const agriculturalRecommendation: ToolImplementation = async (args, context) =>
     }
 
     // Create a marker at the farm location
-    const farmMarker: MapMarker = {
-      position: {
-        lat: agriculturalParams.latitude,
-        lng: agriculturalParams.longitude,
-        altitude: 1,
-      },
-      label: `Farm Location (${agriculturalParams.soilType} soil, ${agriculturalParams.climate} climate)`,
-      showLabel: true,
-    };
-
-    // Update map with the farm marker
+    const farmMarker: MapMarker = saved
+      ? fieldMarker(saved.farm, saved.field)
+      : {
+          position: {
+            lat: agriculturalParams.latitude,
+            lng: agriculturalParams.longitude,
+            altitude: 1,
+          },
+          label: `Farm Location (${agriculturalParams.soilType} soil, ${agriculturalParams.climate} climate)`,
+          showLabel: true,
+        };
+
+    // Update map with the farm marker, and the saved field's boundary
     useMapStore.getState().setMarkers([farmMarker]);
+    if (saved) {
+      useMapStore.getState().setBoundary(saved.field.boundary);
+    }
 
     return agriculturalResponse;
   } catch (error) {
     console.error('Error getting agricultural recommendations:', error);
-    return `Error getting agricultural recommendations: ${error}`;
+    // Fall back to the offline suitability engine so the agent can still answer.
+    const ranking = rankCrops(
+      agriculturalParams,
+      selectCropCatalog(useCropCatalogStore.getState()),
+    );
+    return `AI recommendations are unavailable (${error}). Offline suitability ranking from the bundled crop catalog:
+${summarizeRanking(ranking)}`;
   }
 };
 
+/**
+ * Tool implementation that lists the user's saved farms and fields, so the
+ * agent can refer to them by name.
+ */
+const listSavedFields: ToolImplementation = async () =>
+  summarizeFarms(useFarmStore.getState().farms);
+
+/**
+ * Tool implementation for multi-year rotation planning. Runs entirely offline
+ * against the active crop catalog.
+ */
+const planCropRotation: ToolImplementation = async args => {
+  const history = Array.isArray(args.cropHistory) ? args.cropHistory : [];
+  if (history.length === 0) {
+    return 'Provide at least one previous crop in `cropHistory` to plan a rotation.';
+  }
+
+  // Rotation crops are scored in their own planting season, so the season
+  // and location are placeholders here.
+  const params: AgriculturalParameters = {
+    latitude: args.latitude ?? 0,
+    longitude: args.longitude ?? 0,
+    soilType: args.soilType,
+    climate: args.climate,
+    season: 'spring',
+    rainfall: args.rainfall,
+    temperature: args.temperature,
+    irrigationAvailable: args.irrigationAvailable,
+  };
+  const plan = planRotation(
+    params,
+    history,
+    args.years,
+    selectCropCatalog(useCropCatalogStore.getState()),
+  );
+  return `Proposed rotation:
+${summarizeRotationPlan(plan)}`;
+};
+
+/**
+ * Tool implementation for crop water requirements and irrigation scheduling.
+ * Runs entirely offline against the active crop catalog.
+ */
+const irrigationSchedule: ToolImplementation = async args => {
+  const catalog = selectCropCatalog(useCropCatalogStore.getState());
+  const crop = findCatalogCrop(args.crop ?? '', catalog);
+  if (!crop) {
+    return `"${args.crop}" is not in the crop catalog, so its water use is unknown.`;
+  }
+
+  const lookup = resolveSavedField(args);
+  if (typeof lookup === 'string') return lookup;
+  const { fieldParams } = lookup;
+  const latitude = args.latitude ?? fieldParams.latitude;
+  const longitude = args.longitude ?? fieldParams.longitude;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+    return 'Missing required parameters: latitude, longitude. Ask the user for them or name a saved field.';
+  }
+
+  const koppen = lookupKoppen(latitude, longitude);
+  const plantingMonths = parsePlantingMonths(args, latitude);
+  if (plantingMonths.length === 0) {
+    return 'Missing required parameters: plantingMonths (or season). Ask the user when they plan to plant.';
+  }
+
+  const params: AgriculturalParameters = {
+    latitude,
+    longitude,
+    soilType: fieldParams.soilType ?? 'loamy',
+    climate: fieldParams.climate ?? koppen.climate,
+    koppenCode: koppen.code,
+    season: monthsToSeason(plantingMonths, latitude),
+    plantingMonths,
+    temperature: args.temperature,
+    rainfall: args.rainfall,
+    irrigationAvailable: fieldParams.irrigationAvailable,
+    farmSize: args.farmSize ?? fieldParams.farmSize,
+    weather: args.weather,
+  };
+  try {
+    const plan = computeIrrigationPlan(crop, params, args.irrigationMethod ?? 'sprinkler');
+    return summarizeIrrigationPlan(plan);
+  } catch (error) {
+    return `${(error as Error).message} Ask the user for them.`;
+  }
+};
+
+/**
+ * Tool implementation for pest and disease risk. Runs entirely offline
+ * against the knowledge table and the active crop catalog.
+ */
+const pestDiseaseRisk: ToolImplementation = async args => {
+  const catalog = selectCropCatalog(useCropCatalogStore.getState());
+
+  const lookup = resolveSavedField(args);
+  if (typeof lookup === 'string') return lookup;
+  const { fieldParams } = lookup;
+  const latitude = args.latitude ?? fieldParams.latitude;
+  const longitude = args.longitude ?? fieldParams.longitude;
+  const hasLocation = typeof latitude === 'number' && typeof longitude === 'number';
+  const climate =
+    args.climate ?? fieldParams.climate ?? (hasLocation ? lookupKoppen(latitude, longitude).climate : undefined);
+  if (!climate) {
+    return 'Missing required parameters: climate (or latitude and longitude). Ask the user where the farm is or name a saved field.';
+  }
+
+  // Ranking the catalog needs the hemisphere and the planting months. Named
+  // crops are assessed without them, so the location and season are
+  // placeholders then.
+  const names: string[] = Array.isArray(args.crops) ? args.crops : [];
+  const plantingMonths = hasLocation ? parsePlantingMonths(args, latitude) : [];
+  if (names.length === 0 && plantingMonths.length === 0) {
+    return 'Missing required parameters: crops (or latitude, longitude and plantingMonths (or season) to rank the catalog crops). Ask the user which crops to assess, or where and when they plan to plant.';
+  }
+
+  const params: AgriculturalParameters = {
+    latitude: latitude ?? 0,
+    longitude: longitude ?? 0,
+    soilType: args.soilType ?? fieldParams.soilType ?? 'loamy',
+    climate,
+    season: plantingMonths.length ? monthsToSeason(plantingMonths, latitude) : 'spring',
+    plantingMonths: plantingMonths.length ? plantingMonths : undefined,
+    rainfall: args.rainfall,
+    temperature: args.temperature,
+    previousCrop: args.previousCrop ?? fieldParams.previousCrop,
+    soilTest: fieldParams.soilTest,
+    weather:
+      typeof args.relativeHumidityPct === 'number'
+        ? { relativeHumidityPct: args.relativeHumidityPct }
+        : undefined,
+  };
+
+  const unknown = names.filter(name => !findCatalogCrop(name, catalog));
+  const crops = names.length
+    ? names.flatMap(name => {
+        const crop = findCatalogCrop(name, catalog);
+        return crop ? [{ crop, name }] : [];
+      })
+    : rankCrops(params, catalog)
+        .slice(0, 5)
+        .map(({ crop }) => ({ crop, name: crop.name }));
+  const risks = crops.map(({ crop, name }) => assessPestRisk(crop, params, catalog, name));
+
+  const lines = [
+    names.length ? 'Pest and disease risk:' : 'Pest and disease risk of the best-suited catalog crops:',
+    summarizePestRisk(risks),
+  ];
+  if (unknown.length) {
+    lines.push(`Not in the crop catalog, so not assessed: ${unknown.join(', ')}.`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Tool implementation for cover crop and intercrop suggestions. Runs entirely
+ * offline against the active crop catalog.
+ */
+const coverCropPlan: ToolImplementation = async args => {
+  const catalog = selectCropCatalog(useCropCatalogStore.getState());
+  const crop = findCatalogCrop(args.crop ?? '', catalog);
+  if (!crop) {
+    return `"${args.crop}" is not in the crop catalog, so its fallow window is unknown.`;
+  }
+
+  const lookup = resolveSavedField(args);
+  if (typeof lookup === 'string') return lookup;
+  const { saved, fieldParams } = lookup;
+  const latitude = args.latitude ?? fieldParams.latitude;
+  const longitude = args.longitude ?? fieldParams.longitude;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+    return 'Missing required parameters: latitude, longitude. Ask the user for them or name a saved field.';
+  }
+
+  const koppen = lookupKoppen(latitude, longitude);
+  const plantingMonths = parsePlantingMonths(args, latitude);
+  if (plantingMonths.length === 0) {
+    return 'Missing required parameters: plantingMonths (or season). Ask the user when the main crop is planted.';
+  }
+
+  const climate = args.climate ?? fieldParams.climate ?? koppen.climate;
+  const params: AgriculturalParameters = {
+    latitude,
+    longitude,
+    soilType: args.soilType ?? fieldParams.soilType ?? 'loamy',
+    climate,
+    koppenCode: climate === koppen.climate ? koppen.code : undefined,
+    season: monthsToSeason(plantingMonths, latitude),
+    plantingMonths,
+    rainfall: args.rainfall,
+    irrigationAvailable: args.irrigationAvailable ?? fieldParams.irrigationAvailable,
+    farmSize: args.farmSize ?? fieldParams.farmSize,
+    previousCrop: fieldParams.previousCrop,
+  };
+  const history = Array.isArray(args.cropHistory)
+    ? args.cropHistory
+    : saved?.field.cropHistory ?? [];
+  return summarizeCompanionPlan(recommendCompanions(crop, params, history, catalog));
+};
+
 /**
  * A registry mapping tool names to their implementation functions.
  * The `onToolCall` handler uses this to dispatch function calls dynamically.
@@ -481,4 +819,9 @@ export const toolRegistry: Record<string, ToolImplementation> = {
   frameEstablishingShot,
   frameLocations,
   agriculturalRecommendation,
+  listSavedFields,
+  planCropRotation,
+  irrigationSchedule,
+  pestDiseaseRisk,
+  coverCropPlan,
 };
@@ -74,3 +74,132 @@ export function base64ToArrayBuffer(base64: string) {
   }
   return bytes.buffer;
 }
+
+/**
+ * Rounds a value to a number of decimal places.
+ */
+export function round(value: number, digits = 0): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Triggers a browser download of text content as a file.
+ * @param filename - The suggested file name.
+ * @param content - The file contents.
+ * @param type - The MIME type of the file.
+ */
+export function downloadTextFile(
+  filename: string,
+  content: string,
+  type = 'application/json',
+) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Runs a task per item with at most `concurrency` tasks in flight, in item
+ * order. Once `signal` is aborted no further tasks start; tasks already
+ * running are expected to watch the signal themselves.
+ * @param items - The items to process.
+ * @param task - Called once per item; its rejections are not caught.
+ * @param concurrency - The maximum number of tasks running at once.
+ * @param signal - Stops the queue when aborted.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  task: (item: T) => Promise<void>,
+  concurrency: number,
+  signal?: AbortSignal,
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+}
+
+/**
+ * Splits CSV text into rows of trimmed cells; blank lines come back as a
+ * single empty cell so row numbers match the file. Quoted cells may contain
+ * the delimiter, quotes ("") and line breaks. The delimiter is taken from
+ * the header line (tab, else semicolon, else comma) and is the only one
+ * split on, so semicolon files with decimal commas keep "1,5" in one cell.
+ */
+export function splitCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.includes('\t') ? '\t' : firstLine.includes(';') ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell.trim()]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell.trim()]);
+  return rows;
+}
+
+/**
+ * Splits CSV text like `splitCsv`, dropping blank lines and numbering the
+ * rest by their row in the file, the header being row 1.
+ */
+export function readCsvRows(text: string): { row: number; cells: string[] }[] {
+  return splitCsv(text)
+    .map((cells, index) => ({ row: index + 1, cells }))
+    .filter(({ cells }) => cells.some(cell => cell));
+}
+
+/**
+ * Reads a number from a CSV cell, accepting a decimal comma ("-2,5").
+ * Returns NaN for an empty cell or anything else that is not a number.
+ */
+export function parseCsvNumber(text: string): number {
+  const value = text.trim();
+  if (!value) return NaN;
+  return Number(/^[+-]?\d*,\d+$/.test(value) ? value.replace(',', '.') : value);
+}
+
+/**
+ * Formats a value as a CSV cell, quoting it when it contains a comma, quote
+ * or line break. Missing values become empty cells.
+ */
+export function csvValue(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}